@@ -15,6 +15,15 @@ async function main(): Promise<void> {
 
   const scheduler = new AgentScheduler();
 
+  const interruptedRuns = scheduler.markInterruptedRuns();
+  if (interruptedRuns > 0) {
+    console.log(`[agent] marked ${interruptedRuns} stale run(s) as interrupted`);
+  }
+  const prunedCheckpoints = scheduler.pruneCheckpoints();
+  if (prunedCheckpoints > 0) {
+    console.log(`[agent] removed ${prunedCheckpoints} checkpoint(s) of abandoned runs`);
+  }
+
   // Initial reconciliation
   scheduler.reconcile();
   writeHeartbeat(homeDir);
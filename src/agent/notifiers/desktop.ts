@@ -0,0 +1,63 @@
+import { spawn } from "node:child_process";
+import { formatNotificationSubject } from "./format.js";
+import type { Notifier, NotificationPayload } from "./types.js";
+
+type SpawnLike = typeof spawn;
+
+/** Native OS notification; also the fallback when another channel fails. */
+export class DesktopNotifier implements Notifier {
+  readonly channel = "desktop" as const;
+
+  constructor(
+    private readonly spawnImpl: SpawnLike = spawn,
+    private readonly platform: NodeJS.Platform = process.platform,
+  ) {}
+
+  async send(payload: NotificationPayload): Promise<void> {
+    const title = "JobJourney";
+    const message = formatNotificationSubject(payload);
+    const [cmd, args] = desktopCommand(this.platform, title, message);
+
+    await new Promise<void>((resolve, reject) => {
+      const child = this.spawnImpl(cmd, args, { stdio: "ignore" });
+      child.once("error", reject);
+      child.once("exit", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${cmd} exited with code ${code}`));
+        }
+      });
+    });
+  }
+}
+
+function desktopCommand(platform: NodeJS.Platform, title: string, message: string): [string, string[]] {
+  if (platform === "darwin") {
+    return [
+      "osascript",
+      ["-e", `display notification ${appleScriptString(message)} with title ${appleScriptString(title)}`],
+    ];
+  }
+  if (platform === "win32") {
+    const script = [
+      "Add-Type -AssemblyName System.Windows.Forms",
+      "$n = New-Object System.Windows.Forms.NotifyIcon",
+      "$n.Icon = [System.Drawing.SystemIcons]::Information",
+      "$n.Visible = $true",
+      `$n.ShowBalloonTip(10000, ${powerShellString(title)}, ${powerShellString(message)}, 'Info')`,
+      "Start-Sleep -Seconds 10",
+      "$n.Dispose()",
+    ].join("; ");
+    return ["powershell", ["-NoProfile", "-Command", script]];
+  }
+  return ["notify-send", [title, message]];
+}
+
+function appleScriptString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+function powerShellString(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
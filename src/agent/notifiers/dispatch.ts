@@ -0,0 +1,136 @@
+import type Database from "better-sqlite3";
+import { JobsRepo, type JobRow } from "../../storage/sqlite/jobs-repo.js";
+import { RunDiffRepo } from "../../storage/sqlite/run-diff-repo.js";
+import {
+  ScheduleNotifiersRepo,
+  type ScheduleNotifier,
+} from "../../storage/sqlite/schedule-notifiers-repo.js";
+import { DesktopNotifier } from "./desktop.js";
+import { EmailNotifier } from "./email.js";
+import { matchesNotificationRules, toNotificationJob } from "./rules.js";
+import { SlackNotifier } from "./slack.js";
+import type {
+  EmailNotifierConfig,
+  Notifier,
+  NotificationPayload,
+  SlackNotifierConfig,
+  WebhookNotifierConfig,
+} from "./types.js";
+import { WebhookNotifier } from "./webhook.js";
+
+const MAX_RUN_JOBS = 500;
+
+export type NotifierFactory = (notifier: ScheduleNotifier) => Notifier;
+
+export interface NotifyScheduleRunDeps {
+  createNotifier?: NotifierFactory;
+  /** Used when a configured channel fails. Pass null to disable the fallback. */
+  fallbackNotifier?: Notifier | null;
+  logger?: (payload: Record<string, unknown>) => void;
+}
+
+export interface NotificationDelivery {
+  notifierId: number;
+  channel: string;
+  jobCount: number;
+  status: "sent" | "skipped" | "failed";
+  error?: string;
+  fellBackToDesktop?: boolean;
+}
+
+export function createNotifier(notifier: ScheduleNotifier): Notifier {
+  switch (notifier.channel) {
+    case "webhook":
+      return new WebhookNotifier(notifier.config as WebhookNotifierConfig);
+    case "slack":
+      return new SlackNotifier(notifier.config as SlackNotifierConfig);
+    case "email":
+      return new EmailNotifier(notifier.config as EmailNotifierConfig);
+    case "desktop":
+      return new DesktopNotifier();
+    default:
+      throw new Error(`Unknown notifier channel: ${String(notifier.channel)}`);
+  }
+}
+
+/**
+ * Send the outcome of a successful schedule run to every enabled notifier of
+ * the schedule. A notifier only fires when at least one job passes its rules.
+ * Failures are recorded on the notifier and never thrown.
+ */
+export async function notifyScheduleRun(
+  db: Database.Database,
+  scheduleId: number,
+  runId: number,
+  deps: NotifyScheduleRunDeps = {},
+): Promise<NotificationDelivery[]> {
+  const notifiersRepo = new ScheduleNotifiersRepo(db);
+  const notifiers = notifiersRepo.listEnabled(scheduleId);
+  if (notifiers.length === 0) {
+    return [];
+  }
+
+  const diff = new RunDiffRepo(db).getScheduleRunDiff(scheduleId, runId);
+  if (!diff) {
+    return [];
+  }
+
+  const runJobs = new JobsRepo(db).search({ runId, limit: MAX_RUN_JOBS, sortBy: "first_seen_at" });
+  const createNotifierImpl = deps.createNotifier ?? createNotifier;
+  const fallback =
+    deps.fallbackNotifier === undefined ? new DesktopNotifier() : deps.fallbackNotifier;
+  const deliveries: NotificationDelivery[] = [];
+
+  for (const notifier of notifiers) {
+    const candidates: JobRow[] = notifier.rules.newOnly === false ? runJobs : diff.newJobs;
+    const jobs = candidates.filter((job) => matchesNotificationRules(job, notifier.rules));
+    if (jobs.length === 0) {
+      deliveries.push({ notifierId: notifier.id, channel: notifier.channel, jobCount: 0, status: "skipped" });
+      continue;
+    }
+
+    const payload: NotificationPayload = {
+      scheduleId,
+      runId,
+      keyword: diff.run.keyword,
+      location: diff.run.location,
+      totalJobs: diff.run.job_count ?? runJobs.length,
+      newJobCount: diff.newJobs.length,
+      changedJobCount: diff.changedJobs.length,
+      disappearedJobCount: diff.disappearedJobs.length,
+      jobs: jobs.map(toNotificationJob),
+    };
+
+    try {
+      await createNotifierImpl(notifier).send(payload);
+      notifiersRepo.recordDelivery(notifier.id, null);
+      deliveries.push({ notifierId: notifier.id, channel: notifier.channel, jobCount: jobs.length, status: "sent" });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      notifiersRepo.recordDelivery(notifier.id, message);
+      let fellBackToDesktop = false;
+      if (fallback && notifier.channel !== "desktop") {
+        fellBackToDesktop = await fallback.send(payload).then(
+          () => true,
+          () => false,
+        );
+      }
+      deliveries.push({
+        notifierId: notifier.id,
+        channel: notifier.channel,
+        jobCount: jobs.length,
+        status: "failed",
+        error: message,
+        fellBackToDesktop,
+      });
+    }
+  }
+
+  deps.logger?.({
+    event: "discovery_schedule_notified",
+    scheduleId,
+    runId,
+    deliveries,
+  });
+  return deliveries;
+}
@@ -0,0 +1,213 @@
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+import { formatNotificationSubject, formatNotificationText } from "./format.js";
+import type { EmailNotifierConfig, Notifier, NotificationPayload } from "./types.js";
+
+const SMTP_TIMEOUT_MS = 30_000;
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** Sends a plain-text digest through an SMTP server (STARTTLS or implicit TLS, AUTH PLAIN). */
+export class EmailNotifier implements Notifier {
+  readonly channel = "email" as const;
+
+  constructor(
+    private readonly config: EmailNotifierConfig,
+    private readonly env: NodeJS.ProcessEnv = process.env,
+  ) {}
+
+  async send(payload: NotificationPayload): Promise<void> {
+    if (this.config.to.length === 0) {
+      throw new Error("Email notifier has no recipients");
+    }
+
+    const password = this.config.passwordEnv ? this.env[this.config.passwordEnv] : undefined;
+    if (this.config.username && !password) {
+      throw new Error(
+        this.config.passwordEnv
+          ? `Environment variable ${this.config.passwordEnv} is not set`
+          : "Email notifier has a username but no passwordEnv",
+      );
+    }
+
+    const message = buildMessage(this.config, formatNotificationSubject(payload), formatNotificationText(payload));
+    const connection = await SmtpConnection.open(this.config);
+    try {
+      await connection.expect(220);
+      const capabilities = await connection.ehlo();
+
+      let encrypted = Boolean(this.config.secure);
+      if (!encrypted && capabilities.some((line) => /^STARTTLS\b/i.test(line))) {
+        await connection.command("STARTTLS", 220);
+        await connection.upgradeToTls(this.config.host);
+        await connection.ehlo();
+        encrypted = true;
+      }
+
+      if (this.config.username) {
+        // A server (or anything in between) that drops STARTTLS must not get the password in cleartext.
+        if (!encrypted && !this.config.allowInsecureAuth) {
+          throw new Error(
+            `SMTP server ${this.config.host} did not offer STARTTLS; refusing to send credentials unencrypted (set allowInsecureAuth to override)`,
+          );
+        }
+        const token = Buffer.from(`\0${this.config.username}\0${password}`).toString("base64");
+        await connection.command(`AUTH PLAIN ${token}`, 235);
+      }
+
+      await connection.command(`MAIL FROM:<${this.config.from}>`, 250);
+      for (const recipient of this.config.to) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251]);
+      }
+      await connection.command("DATA", 354);
+      await connection.command(`${dotStuff(message)}\r\n.`, 250);
+      await connection.command("QUIT", 221).catch(() => undefined);
+    } finally {
+      connection.close();
+    }
+  }
+}
+
+function buildMessage(config: EmailNotifierConfig, subject: string, text: string): string {
+  const headers = [
+    `From: ${config.from}`,
+    `To: ${config.to.join(", ")}`,
+    `Subject: ${subject.replace(/[\r\n]+/g, " ")}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: 8bit",
+  ];
+  return `${headers.join("\r\n")}\r\n\r\n${text.replace(/\r?\n/g, "\r\n")}`;
+}
+
+function dotStuff(message: string): string {
+  return message.replace(/^\./gm, "..");
+}
+
+class SmtpConnection {
+  private buffer = "";
+  private pendingLines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  static open(config: EmailNotifierConfig): Promise<SmtpConnection> {
+    const port = config.port ?? (config.secure ? 465 : 587);
+    return new Promise((resolve, reject) => {
+      const socket = config.secure
+        ? tls.connect({ host: config.host, port, servername: config.host })
+        : net.connect({ host: config.host, port });
+      const onError = (error: Error) => reject(error);
+      socket.once("error", onError);
+      socket.once(config.secure ? "secureConnect" : "connect", () => {
+        socket.off("error", onError);
+        resolve(new SmtpConnection(socket));
+      });
+      socket.setTimeout(SMTP_TIMEOUT_MS, () => {
+        socket.destroy(new Error(`SMTP connection to ${config.host}:${port} timed out`));
+      });
+    });
+  }
+
+  async ehlo(): Promise<string[]> {
+    const reply = await this.command(`EHLO ${os.hostname() || "localhost"}`, 250);
+    return reply.lines.slice(1);
+  }
+
+  async command(line: string, expected: number | number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  async expect(expected: number | number[]): Promise<SmtpReply> {
+    const reply = await this.nextReply();
+    const codes = Array.isArray(expected) ? expected : [expected];
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.lines.join(" ")}`);
+    }
+    return reply;
+  }
+
+  upgradeToTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    return new Promise((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host });
+      secure.once("error", reject);
+      secure.once("secureConnect", () => {
+        secure.off("error", reject);
+        this.socket = secure;
+        this.attach(secure);
+        resolve();
+      });
+    });
+  }
+
+  close(): void {
+    this.socket.end();
+    this.socket.destroy();
+  }
+
+  private attach(socket: net.Socket): void {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let newline = this.buffer.indexOf("\n");
+    while (newline !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, "");
+      this.buffer = this.buffer.slice(newline + 1);
+      this.pendingLines.push(line.slice(4));
+      // "250-..." continues a multi-line reply, "250 ..." ends it.
+      if (line.charAt(3) !== "-") {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.pendingLines });
+        this.pendingLines = [];
+      }
+      newline = this.buffer.indexOf("\n");
+    }
+    this.flush();
+  }
+
+  private fail(error: Error): void {
+    if (!this.failure) {
+      this.failure = error;
+    }
+    this.flush();
+  }
+
+  private flush(): void {
+    if (!this.waiter) {
+      return;
+    }
+    const reply = this.replies.shift();
+    if (reply) {
+      const { resolve } = this.waiter;
+      this.waiter = null;
+      resolve(reply);
+    } else if (this.failure) {
+      const { reject } = this.waiter;
+      this.waiter = null;
+      reject(this.failure);
+    }
+  }
+
+  private nextReply(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+      this.flush();
+    });
+  }
+}
@@ -0,0 +1,44 @@
+import type { NotificationJob, NotificationPayload } from "./types.js";
+
+const MAX_LISTED_JOBS = 20;
+
+export function formatNotificationSubject(payload: NotificationPayload): string {
+  const count = payload.jobs.length;
+  return `${count} job${count === 1 ? "" : "s"} for "${payload.keyword}" in ${payload.location}`;
+}
+
+/** Plain-text digest shared by the Slack, email and desktop channels. */
+export function formatNotificationText(payload: NotificationPayload): string {
+  const lines = [
+    `${formatNotificationSubject(payload)} (schedule ${payload.scheduleId}, run ${payload.runId})`,
+    `${payload.totalJobs} found, ${payload.newJobCount} new, ${payload.changedJobCount} changed, ${payload.disappearedJobCount} gone`,
+  ];
+
+  if (payload.jobs.length > 0) {
+    lines.push("");
+    for (const job of payload.jobs.slice(0, MAX_LISTED_JOBS)) {
+      lines.push(`- ${formatJobLine(job)}`);
+      lines.push(`  ${job.url}`);
+    }
+    if (payload.jobs.length > MAX_LISTED_JOBS) {
+      lines.push(`...and ${payload.jobs.length - MAX_LISTED_JOBS} more`);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+export function formatJobLine(job: NotificationJob): string {
+  const details = [job.location, job.workArrangement, formatSalary(job)].filter(Boolean);
+  return `${job.title} at ${job.company}${details.length > 0 ? ` (${details.join(", ")})` : ""}`;
+}
+
+function formatSalary(job: NotificationJob): string | null {
+  if (job.salary) {
+    return job.salary;
+  }
+  if (job.salaryMin && job.salaryMax && job.salaryMin !== job.salaryMax) {
+    return `${job.salaryMin}-${job.salaryMax}`;
+  }
+  return job.salaryMin ?? job.salaryMax;
+}
@@ -0,0 +1,32 @@
+import { matchesJobRules } from "../../discovery/core/job-rules.js";
+import type { JobRow } from "../../storage/sqlite/jobs-repo.js";
+import type { NotificationJob, NotificationRules } from "./types.js";
+
+export function matchesNotificationRules(job: JobRow, rules: NotificationRules): boolean {
+  if (!matchesJobRules(job, rules)) {
+    return false;
+  }
+
+  if (rules.titleIncludes && rules.titleIncludes.length > 0) {
+    const title = job.title.toLowerCase();
+    if (!rules.titleIncludes.some((value) => title.includes(value.toLowerCase()))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function toNotificationJob(job: JobRow): NotificationJob {
+  return {
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    url: job.external_url ?? job.url,
+    salary: job.salary,
+    salaryMin: job.salary_min,
+    salaryMax: job.salary_max,
+    workArrangement: job.work_arrangement,
+    postedAt: job.posted_at,
+  };
+}
@@ -0,0 +1,19 @@
+import { formatNotificationText } from "./format.js";
+import type { Notifier, NotificationPayload, SlackNotifierConfig } from "./types.js";
+import { postJson } from "./webhook.js";
+
+/** Posts a text digest to a Slack incoming webhook. */
+export class SlackNotifier implements Notifier {
+  readonly channel = "slack" as const;
+
+  constructor(
+    private readonly config: SlackNotifierConfig,
+    private readonly fetchImpl: typeof fetch = fetch,
+  ) {}
+
+  async send(payload: NotificationPayload): Promise<void> {
+    await postJson(this.fetchImpl, this.config.webhookUrl, {
+      text: formatNotificationText(payload),
+    });
+  }
+}
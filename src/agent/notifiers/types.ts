@@ -0,0 +1,73 @@
+import type { JobRules } from "../../discovery/core/job-rules.js";
+
+export type NotifierChannel = "webhook" | "slack" | "email" | "desktop";
+
+export interface WebhookNotifierConfig {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface SlackNotifierConfig {
+  webhookUrl: string;
+}
+
+export interface EmailNotifierConfig {
+  host: string;
+  port?: number;
+  /** Connect over TLS from the start (usually port 465). Otherwise STARTTLS is used when offered. */
+  secure?: boolean;
+  username?: string;
+  /** Name of the environment variable holding the SMTP password, so the secret stays out of jobs.db. */
+  passwordEnv?: string;
+  /** Allow AUTH over a connection that is neither implicit TLS nor upgraded with STARTTLS. */
+  allowInsecureAuth?: boolean;
+  from: string;
+  to: string[];
+}
+
+export type DesktopNotifierConfig = Record<string, never>;
+
+export interface NotifierConfigByChannel {
+  webhook: WebhookNotifierConfig;
+  slack: SlackNotifierConfig;
+  email: EmailNotifierConfig;
+  desktop: DesktopNotifierConfig;
+}
+
+/** Which jobs from a run are worth notifying about. All set rules must match. */
+export interface NotificationRules extends JobRules {
+  /** Only jobs new to the schedule (default true). */
+  newOnly?: boolean;
+  /** Case-insensitive substrings; a job title must contain at least one. */
+  titleIncludes?: string[];
+}
+
+export interface NotificationJob {
+  title: string;
+  company: string;
+  location: string;
+  url: string;
+  salary: string | null;
+  salaryMin: string | null;
+  salaryMax: string | null;
+  workArrangement: string | null;
+  postedAt: string | null;
+}
+
+export interface NotificationPayload {
+  scheduleId: number;
+  runId: number;
+  keyword: string;
+  location: string;
+  totalJobs: number;
+  newJobCount: number;
+  changedJobCount: number;
+  disappearedJobCount: number;
+  /** Jobs that passed the notifier's rules. */
+  jobs: NotificationJob[];
+}
+
+export interface Notifier {
+  readonly channel: NotifierChannel;
+  send(payload: NotificationPayload): Promise<void>;
+}
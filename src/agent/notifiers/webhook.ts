@@ -0,0 +1,34 @@
+import type { Notifier, NotificationPayload, WebhookNotifierConfig } from "./types.js";
+
+const REQUEST_TIMEOUT_MS = 15_000;
+
+/** POSTs the payload as JSON to an arbitrary endpoint. */
+export class WebhookNotifier implements Notifier {
+  readonly channel = "webhook" as const;
+
+  constructor(
+    private readonly config: WebhookNotifierConfig,
+    private readonly fetchImpl: typeof fetch = fetch,
+  ) {}
+
+  async send(payload: NotificationPayload): Promise<void> {
+    await postJson(this.fetchImpl, this.config.url, payload, this.config.headers);
+  }
+}
+
+export async function postJson(
+  fetchImpl: typeof fetch,
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {},
+): Promise<void> {
+  const response = await fetchImpl(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`POST ${url} failed with HTTP ${response.status}`);
+  }
+}
@@ -0,0 +1,28 @@
+import type { ScrapeRunsRepo } from "../storage/sqlite/scrape-runs-repo.js";
+
+const CANCEL_POLL_INTERVAL_MS = 1000;
+
+/**
+ * Aborts `controller` once a cancel is requested for the run. Requests are
+ * written to the shared database by `cancel_discovery`, so this reaches runs
+ * in the agent as well as in any MCP server process. Each poll also stamps the
+ * run's heartbeat, which is how a run whose process died is told apart from
+ * one still going. Returns a function that stops watching; call it when the
+ * run finishes.
+ */
+export function watchRunCancellation(
+  runsRepo: ScrapeRunsRepo,
+  runId: number,
+  controller: AbortController,
+  intervalMs = CANCEL_POLL_INTERVAL_MS,
+): () => void {
+  const timer = setInterval(() => {
+    runsRepo.touchHeartbeat(runId);
+    if (runsRepo.isCancelRequested(runId)) {
+      clearInterval(timer);
+      controller.abort(new Error(`Run ${runId} was cancelled`));
+    }
+  }, intervalMs);
+  timer.unref();
+  return () => clearInterval(timer);
+}
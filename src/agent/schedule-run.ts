@@ -0,0 +1,128 @@
+import type Database from "better-sqlite3";
+import { JobsRepo } from "../storage/sqlite/jobs-repo.js";
+import { RunDiffRepo } from "../storage/sqlite/run-diff-repo.js";
+import { SchedulesRepo } from "../storage/sqlite/schedules-repo.js";
+import { ScrapeRunsRepo } from "../storage/sqlite/scrape-runs-repo.js";
+import {
+  ListingLivenessChecker,
+  type ListingLivenessCheckerLike,
+} from "../discovery/expiry/listing-liveness.js";
+import { notifyScheduleRun } from "./notifiers/dispatch.js";
+
+const DEFAULT_EXPIRED_AFTER_MISSED_RUNS = 2;
+const MAX_LIVENESS_CHECKS_PER_RUN = 25;
+
+export interface FinishScheduleRunInput {
+  scheduleId: number;
+  runId: number;
+  jobCount: number;
+  /** Sources that completed; only their jobs can count as missing from the run. */
+  sources: string[];
+  /**
+   * Incremental runs stop paging at known jobs, so a job missing from one
+   * says nothing about whether it was taken down.
+   */
+  incremental?: boolean;
+}
+
+export interface FinishScheduleRunDeps {
+  /** Consecutive runs of a schedule a job must be missing from before it is marked probably expired. */
+  expiredAfterMissedRuns?: number;
+  /** Confirms probably-expired listings over HTTP. Pass null to skip confirmation. */
+  livenessChecker?: ListingLivenessCheckerLike | null;
+  notifyScheduleRun?: typeof notifyScheduleRun;
+  logger?: (payload: Record<string, unknown>) => void;
+}
+
+/**
+ * Finish a schedule's run that completed without being cancelled: detect
+ * expired listings, mark the run successful, stamp the schedule's last run,
+ * log the diff against its previous run and send its notifications. Used for
+ * runs started by the agent and for scheduled runs resumed by
+ * `resume_discovery`, so a resumed run is diffed and notified like any other.
+ */
+export async function finishScheduleRun(
+  db: Database.Database,
+  input: FinishScheduleRunInput,
+  deps: FinishScheduleRunDeps = {},
+): Promise<void> {
+  const { scheduleId, runId } = input;
+  const logger = deps.logger ?? (() => {});
+
+  if (!input.incremental) {
+    await detectExpiredListings(db, input, deps, logger);
+  }
+  new ScrapeRunsRepo(db).finishRun(runId, { status: "success", jobCount: input.jobCount });
+  new SchedulesRepo(db).updateLastRunAt(scheduleId);
+
+  const diff = new RunDiffRepo(db).getScheduleRunDiff(scheduleId, runId);
+  if (diff) {
+    logger({
+      event: "discovery_schedule_diff",
+      scheduleId,
+      runId,
+      previousRunId: diff.previousRun?.id ?? null,
+      newJobs: diff.newJobs.length,
+      returnedJobs: diff.returnedJobs.length,
+      changedJobs: diff.changedJobs.length,
+      disappearedJobs: diff.disappearedJobs.length,
+    });
+  }
+  // Reported through the logger: the MCP server must not write to stdio.
+  await (deps.notifyScheduleRun ?? notifyScheduleRun)(db, scheduleId, runId, { logger }).catch(
+    (error: unknown) => {
+      logger({
+        event: "discovery_schedule_notify_failed",
+        scheduleId,
+        runId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+  );
+}
+
+async function detectExpiredListings(
+  db: Database.Database,
+  input: FinishScheduleRunInput,
+  deps: FinishScheduleRunDeps,
+  logger: (payload: Record<string, unknown>) => void,
+): Promise<void> {
+  const { scheduleId, runId } = input;
+  const jobsRepo = new JobsRepo(db);
+  const candidates = jobsRepo.markMissingScheduleJobs({
+    scheduleId,
+    runId,
+    missedRunsThreshold: deps.expiredAfterMissedRuns ?? DEFAULT_EXPIRED_AFTER_MISSED_RUNS,
+    sources: input.sources,
+  });
+  if (candidates.length === 0) {
+    return;
+  }
+
+  const livenessChecker =
+    deps.livenessChecker === undefined ? new ListingLivenessChecker() : deps.livenessChecker;
+  let confirmed = 0;
+  let reopened = 0;
+  if (livenessChecker) {
+    for (const candidate of candidates.slice(0, MAX_LIVENESS_CHECKS_PER_RUN)) {
+      const liveness = await livenessChecker.check(candidate);
+      if (liveness === "closed") {
+        jobsRepo.setListingStatus(candidate.id, "expired", runId);
+        confirmed += 1;
+      } else if (liveness === "open") {
+        // Still live, just no longer matching the search — leave it active.
+        jobsRepo.markListingOpen(candidate.id, runId);
+        reopened += 1;
+      }
+    }
+  }
+
+  logger({
+    event: "discovery_expiry_detected",
+    scheduleId,
+    runId,
+    probablyExpired: candidates.length - confirmed - reopened,
+    expired: confirmed,
+    stillOpen: reopened,
+  });
+}
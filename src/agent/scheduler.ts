@@ -1,13 +1,44 @@
 import cron from "node-cron";
 import { openDatabase } from "../storage/sqlite/db.js";
-import { SchedulesRepo } from "../storage/sqlite/schedules-repo.js";
+import { SchedulesRepo, type ScheduleRow } from "../storage/sqlite/schedules-repo.js";
 import { runDiscovery } from "../discovery/core/run-discovery.js";
+import { crawlWatchlist } from "../discovery/core/crawl-watchlist.js";
+import type {
+  DiscoveryJob,
+  DiscoverySearchFilters,
+  StoredDiscoveryRunOptions,
+} from "../discovery/core/types.js";
 import { DiscoveryJobsRepo } from "../discovery/storage/discovery-jobs-repo.js";
+import { DiscoveryCheckpointsRepo } from "../discovery/storage/discovery-checkpoints-repo.js";
 import { ScrapeRunsRepo } from "../storage/sqlite/scrape-runs-repo.js";
 import { onScrapeComplete } from "../tools/post-scrape.js";
+import { ListingLivenessChecker } from "../discovery/expiry/listing-liveness.js";
+import { finishScheduleRun, type FinishScheduleRunDeps } from "./schedule-run.js";
+import { evaluateAlertRules } from "../discovery/alerts/evaluate-alerts.js";
+import { CompanyFilter } from "../discovery/core/company-filter.js";
+import { CompanyFiltersRepo } from "../storage/sqlite/company-filters-repo.js";
+import { CompanyAliasesRepo } from "../storage/sqlite/company-aliases-repo.js";
+import { CompanyWatchlistRepo } from "../storage/sqlite/company-watchlist-repo.js";
+import { watchRunCancellation } from "./run-cancellation.js";
 
-interface AgentSchedulerDeps {
+interface AgentSchedulerDeps extends Omit<FinishScheduleRunDeps, "logger"> {
   runDiscovery?: typeof runDiscovery;
+  crawlWatchlist?: typeof crawlWatchlist;
+}
+
+/** What one run of a schedule needs, read from its `schedules` row. */
+interface ScheduledRun {
+  scheduleId: number;
+  keyword: string;
+  location: string;
+  source: string;
+  runMode: string;
+  sources: string | null;
+  pages: number | null;
+  /** JSON-encoded `DiscoverySearchFilters`, parsed once the run starts. */
+  filters: string | null;
+  incremental: boolean;
+  refreshAfterHours: number | null;
 }
 
 interface ScheduledTask {
@@ -19,16 +50,49 @@ export class AgentScheduler {
   private tasks: Map<number, ScheduledTask> = new Map();
   private dbPath?: string;
   private readonly runDiscoveryImpl: typeof runDiscovery;
+  private readonly crawlWatchlistImpl: typeof crawlWatchlist;
+  private readonly finishScheduleRunDeps: FinishScheduleRunDeps;
 
   constructor(dbPath?: string, deps: AgentSchedulerDeps = {}) {
     this.dbPath = dbPath;
     this.runDiscoveryImpl = deps.runDiscovery ?? runDiscovery;
+    this.crawlWatchlistImpl = deps.crawlWatchlist ?? crawlWatchlist;
+    this.finishScheduleRunDeps = {
+      expiredAfterMissedRuns: deps.expiredAfterMissedRuns,
+      livenessChecker:
+        deps.livenessChecker === undefined ? new ListingLivenessChecker() : deps.livenessChecker,
+      notifyScheduleRun: deps.notifyScheduleRun,
+      logger: this.discoveryLogger,
+    };
   }
 
   private readonly discoveryLogger = (payload: Record<string, unknown>) => {
     console.log(`[agent:discover] ${JSON.stringify(payload)}`);
   };
 
+  /**
+   * Marks runs left "running" by a process that died or a machine that slept
+   * as interrupted, so `resume_discovery` can pick them up. Called on startup.
+   */
+  markInterruptedRuns(): number {
+    const db = openDatabase(this.dbPath);
+    try {
+      return new ScrapeRunsRepo(db).markStaleRunsInterrupted();
+    } finally {
+      db.close();
+    }
+  }
+
+  /** Drops checkpoints of runs abandoned long enough ago. Called on startup. */
+  pruneCheckpoints(): number {
+    const db = openDatabase(this.dbPath);
+    try {
+      return new ScrapeRunsRepo(db).pruneCheckpoints();
+    } finally {
+      db.close();
+    }
+  }
+
   reconcile(): void {
     const db = openDatabase(this.dbPath);
     try {
@@ -46,12 +110,12 @@ export class AgentScheduler {
 
       // Add new schedules
       for (const schedule of schedules) {
-        const s = schedule as any;
-        if (!this.tasks.has(s.id) && cron.validate(s.cron)) {
-          const task = cron.schedule(s.cron, () => {
-            void this.runScheduledJob(s.id, s.keyword, s.location, s.source, s.run_mode, s.sources, s.pages);
+        if (!this.tasks.has(schedule.id) && cron.validate(schedule.cron)) {
+          const run = toScheduledRun(schedule);
+          const task = cron.schedule(schedule.cron, () => {
+            void this.runScheduledJob(run);
           });
-          this.tasks.set(s.id, { scheduleId: s.id, task });
+          this.tasks.set(schedule.id, { scheduleId: schedule.id, task });
         }
       }
     } finally {
@@ -59,52 +123,121 @@ export class AgentScheduler {
     }
   }
 
-  private async runScheduledJob(
-    id: number,
-    keyword: string,
-    location: string,
-    source: string,
-    _runMode: string,
-    sources: string | null,
-    pages?: number | null,
-  ): Promise<void> {
-    const db = openDatabase(this.dbPath);
-    const runsRepo = new ScrapeRunsRepo(db);
-    const selectedSources = sources
-      ? sources.split(",").map((v) => v.trim()).filter(Boolean)
-      : [source];
-    const run = runsRepo.createRun({
+  private async runScheduledJob(schedule: ScheduledRun): Promise<void> {
+    const {
       scheduleId: id,
       keyword,
       location,
-      source: "discover",
-      runMode: "discover",
-      sources: selectedSources.join(","),
-    });
+      source,
+      runMode,
+      sources,
+      pages,
+      incremental,
+      refreshAfterHours,
+    } = schedule;
+    const db = openDatabase(this.dbPath);
+    const runsRepo = new ScrapeRunsRepo(db);
+    const isWatchlist = runMode === "watchlist";
+    const selectedSources = isWatchlist
+      ? []
+      : sources
+        ? sources.split(",").map((v) => v.trim()).filter(Boolean)
+        : [source];
+    let runId: number | undefined;
+    let stopWatchingCancel = () => {};
 
+    // Cron callbacks discard the returned promise, so nothing here may throw
+    // past the try.
     try {
-      const result = await this.runDiscoveryImpl({
+      const runOptions: StoredDiscoveryRunOptions = {
         keyword,
         location,
         sources: selectedSources as any,
         pages: Math.min(pages ?? 30, 30),
+        filters: schedule.filters ? (JSON.parse(schedule.filters) as DiscoverySearchFilters) : undefined,
         careerDiscovery: true,
-      }, {
-        logger: this.discoveryLogger,
+      };
+      const run = runsRepo.createRun({
+        scheduleId: id,
+        keyword,
+        location,
+        source: isWatchlist ? "watchlist" : "discover",
+        runMode: isWatchlist ? "watchlist" : "discover",
+        sources: isWatchlist ? null : selectedSources.join(","),
+        options: isWatchlist
+          ? null
+          : { ...runOptions, incremental, refreshAfterHours: refreshAfterHours ?? undefined },
       });
-      new DiscoveryJobsRepo(db).upsertJobs(result.jobs, {
+      runId = run.id;
+      const controller = new AbortController();
+      stopWatchingCancel = watchRunCancellation(runsRepo, run.id, controller);
+
+      const jobsRepo = new DiscoveryJobsRepo(db);
+      let newAlerts = 0;
+      const companyFilter = new CompanyFilter(new CompanyFiltersRepo(db).list());
+      const onJobsBatch = (batchJobs: DiscoveryJob[]) => {
+        jobsRepo.upsertJobs(batchJobs, { keyword, location, runId: run.id });
+        newAlerts += evaluateAlertRules(db, batchJobs, { runId: run.id }).newAlerts;
+      };
+      const result = isWatchlist
+        ? await this.crawlWatchlistForSchedule(
+            db,
+            keyword,
+            location,
+            companyFilter,
+            onJobsBatch,
+            controller.signal,
+          )
+        : await this.runDiscoveryImpl(runOptions, {
+            logger: this.discoveryLogger,
+            companyFilter,
+            companyAliases: new CompanyAliasesRepo(db).toMap(),
+            knownJobs: incremental
+              ? jobsRepo.createKnownJobLookup({ refreshAfterHours: refreshAfterHours ?? undefined })
+              : undefined,
+            checkpoints: new DiscoveryCheckpointsRepo(db, run.id),
+            signal: controller.signal,
+            onJobsBatch,
+          });
+      // Final sweep for jobs the batches missed (e.g. a richer cross-platform duplicate).
+      jobsRepo.upsertJobs(result.jobs, {
         keyword,
         location,
         runId: run.id,
       });
-      runsRepo.finishRun(run.id, { status: "success", jobCount: result.jobs.length });
-      new SchedulesRepo(db).updateLastRunAt(id);
+      newAlerts += evaluateAlertRules(db, result.jobs, { runId: run.id }).newAlerts;
+      if (newAlerts > 0) {
+        this.discoveryLogger({ event: "discovery_alerts_raised", scheduleId: id, runId: run.id, newAlerts });
+      }
+      // A cancelled run keeps what it found, but is too partial to diff,
+      // notify on or expire listings from.
+      if (result.cancelled) {
+        runsRepo.finishRun(run.id, { status: "cancelled", jobCount: result.jobs.length });
+        this.discoveryLogger({
+          event: "discovery_schedule_cancelled",
+          scheduleId: id,
+          runId: run.id,
+          jobs: result.jobs.length,
+        });
+        return;
+      }
+      await finishScheduleRun(
+        db,
+        {
+          scheduleId: id,
+          runId: run.id,
+          jobCount: result.jobs.length,
+          sources: result.sources,
+          incremental,
+        },
+        this.finishScheduleRunDeps,
+      );
       // Post-scrape: notify backend + open browser
       void onScrapeComplete({
         runId: run.id,
         keyword,
         location,
-        sources: selectedSources,
+        sources: isWatchlist ? result.sources : selectedSources,
         totalJobs: result.jobs.length,
         jobs: result.jobs.map((j: any) => ({
           title: j.title,
@@ -113,26 +246,48 @@ export class AgentScheduler {
         })),
       });
     } catch (error) {
-      runsRepo.finishRun(run.id, {
-        status: "error",
-        error: error instanceof Error ? error.message : String(error),
-      });
+      if (runId !== undefined) {
+        runsRepo.finishRun(runId, {
+          status: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
       console.error(`[agent] discovery failed for schedule ${id}:`, error);
     } finally {
+      stopWatchingCancel();
       db.close();
     }
   }
 
-  async runScheduledJobForTest(
-    id: number,
+  /** Crawls every enabled watchlist company and records each board's outcome. */
+  private async crawlWatchlistForSchedule(
+    db: ReturnType<typeof openDatabase>,
     keyword: string,
     location: string,
-    source: string,
-    runMode: string,
-    sources: string | null,
-    pages?: number | null,
-  ): Promise<void> {
-    return this.runScheduledJob(id, keyword, location, source, runMode, sources, pages);
+    companyFilter: CompanyFilter,
+    onJobsBatch: (jobs: DiscoveryJob[]) => void,
+    signal: AbortSignal,
+  ): Promise<{ jobs: DiscoveryJob[]; sources: string[]; cancelled: boolean }> {
+    const watchlistRepo = new CompanyWatchlistRepo(db);
+    const result = await this.crawlWatchlistImpl(
+      { keyword, location, companies: watchlistRepo.list(true) },
+      { logger: this.discoveryLogger, companyFilter, signal, onJobsBatch },
+    );
+    for (const outcome of result.companies) {
+      if (outcome.company.id !== undefined) {
+        watchlistRepo.recordCrawl(outcome.company.id, {
+          atsType: outcome.atsType,
+          atsIdentifier: outcome.atsIdentifier,
+          jobCount: outcome.error ? undefined : outcome.matchedJobs,
+          error: outcome.error,
+        });
+      }
+    }
+    return result;
+  }
+
+  async runScheduledJobForTest(schedule: ScheduleRow): Promise<void> {
+    return this.runScheduledJob(toScheduledRun(schedule));
   }
 
   stop(): void {
@@ -146,3 +301,18 @@ export class AgentScheduler {
     return this.tasks.size;
   }
 }
+
+function toScheduledRun(schedule: ScheduleRow): ScheduledRun {
+  return {
+    scheduleId: schedule.id,
+    keyword: schedule.keyword,
+    location: schedule.location,
+    source: schedule.source,
+    runMode: schedule.run_mode,
+    sources: schedule.sources,
+    pages: schedule.pages,
+    filters: schedule.filters,
+    incremental: schedule.incremental === 1,
+    refreshAfterHours: schedule.refresh_after_hours,
+  };
+}
@@ -0,0 +1,65 @@
+import type { JobRow } from "../../storage/sqlite/jobs-repo.js";
+import { matchesJobRules, matchesOneOf, type JobRules } from "../core/job-rules.js";
+
+/** A standing alert rule. Every criterion that is set must match. */
+export interface AlertRuleCriteria extends JobRules {
+  /** Case-insensitive regular expression tested against the title, e.g. "staff|principal". */
+  titlePattern?: string;
+  /** Case-insensitive regular expression tested against the description. */
+  descriptionPattern?: string;
+  /** Case-insensitive substrings; the location must contain at least one. */
+  locationIncludes?: string[];
+  experienceLevels?: string[];
+  sources?: string[];
+}
+
+export interface CompiledAlertRule {
+  criteria: AlertRuleCriteria;
+  titleRegex: RegExp | null;
+  descriptionRegex: RegExp | null;
+}
+
+/** Throws when a pattern in the criteria is not a valid regular expression. */
+export function compileAlertRule(criteria: AlertRuleCriteria): CompiledAlertRule {
+  return {
+    criteria,
+    titleRegex: compilePattern(criteria.titlePattern, "titlePattern"),
+    descriptionRegex: compilePattern(criteria.descriptionPattern, "descriptionPattern"),
+  };
+}
+
+export function matchesAlertRule(job: JobRow, rule: CompiledAlertRule): boolean {
+  const { criteria } = rule;
+
+  if (rule.titleRegex && !rule.titleRegex.test(job.title)) {
+    return false;
+  }
+  if (rule.descriptionRegex && !rule.descriptionRegex.test(job.description ?? "")) {
+    return false;
+  }
+  if (criteria.locationIncludes?.length) {
+    const location = job.location.toLowerCase();
+    if (!criteria.locationIncludes.some((value) => location.includes(value.toLowerCase()))) {
+      return false;
+    }
+  }
+  if (!matchesOneOf(job.experience_level, criteria.experienceLevels)) {
+    return false;
+  }
+  if (!matchesOneOf(job.source, criteria.sources)) {
+    return false;
+  }
+  return matchesJobRules(job, criteria);
+}
+
+function compilePattern(pattern: string | undefined, field: string): RegExp | null {
+  if (!pattern) {
+    return null;
+  }
+  try {
+    return new RegExp(pattern, "i");
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new Error(`Invalid ${field}: ${reason}`);
+  }
+}
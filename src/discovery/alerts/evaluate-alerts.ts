@@ -0,0 +1,56 @@
+import type Database from "better-sqlite3";
+import { AlertRulesRepo } from "../../storage/sqlite/alert-rules-repo.js";
+import { AlertsRepo } from "../../storage/sqlite/alerts-repo.js";
+import { JobsRepo } from "../../storage/sqlite/jobs-repo.js";
+import type { DiscoveryJob } from "../core/types.js";
+import { compileAlertRule, matchesAlertRule, type CompiledAlertRule } from "./alert-rules.js";
+
+export interface AlertEvaluationResult {
+  /** Alerts raised by this batch; rules never alert twice on the same job. */
+  newAlerts: number;
+  matchedRuleIds: number[];
+}
+
+/**
+ * Evaluate the enabled alert rules against a discovery batch that has
+ * already been persisted, recording each first-time match as an unread alert.
+ */
+export function evaluateAlertRules(
+  db: Database.Database,
+  jobs: DiscoveryJob[],
+  context: { runId?: number } = {},
+): AlertEvaluationResult {
+  const rules = new AlertRulesRepo(db).list(true).flatMap((rule) => {
+    try {
+      return [{ id: rule.id, compiled: compileAlertRule(rule.criteria) }];
+    } catch {
+      // Rules are validated on save; skip anything that no longer compiles.
+      return [] as Array<{ id: number; compiled: CompiledAlertRule }>;
+    }
+  });
+  if (rules.length === 0 || jobs.length === 0) {
+    return { newAlerts: 0, matchedRuleIds: [] };
+  }
+
+  const jobsRepo = new JobsRepo(db);
+  const alertsRepo = new AlertsRepo(db);
+  const matchedRuleIds = new Set<number>();
+  let newAlerts = 0;
+
+  db.transaction(() => {
+    for (const job of jobs) {
+      const row = jobsRepo.getByUrl(job.jobUrl);
+      if (!row) {
+        continue;
+      }
+      for (const rule of rules) {
+        if (matchesAlertRule(row, rule.compiled) && alertsRepo.record(rule.id, row.id, context.runId ?? null)) {
+          matchedRuleIds.add(rule.id);
+          newAlerts += 1;
+        }
+      }
+    }
+  })();
+
+  return { newAlerts, matchedRuleIds: [...matchedRuleIds] };
+}
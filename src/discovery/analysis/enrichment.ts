@@ -1,4 +1,5 @@
 import type { DiscoveryJob } from "../core/types.js";
+import { htmlToText, normalizeWhitespace } from "../utils/html.js";
 import { analyzeJobDescription } from "./description-analysis.js";
 import type { SalaryNormalizationResult } from "./types.js";
 
@@ -56,10 +57,16 @@ export function enrichDiscoveryJob(job: DiscoveryJob): DiscoveryJob {
   const salary = normalizeSalary(salarySource);
   job.salary = salary.raw || job.salaryRaw || job.salary;
   job.salaryRaw = salary.raw || job.salaryRaw;
-  job.salaryMin = salary.minimum || job.salaryMin;
-  job.salaryMax = salary.maximum || job.salaryMax;
-  job.salaryCurrency = salary.currency || job.salaryCurrency;
-  job.salaryPeriod = coalesceSalaryPeriod(salary.period, job.salaryPeriod);
+  // Bounds supplied by an ATS API are authoritative; text parsing only fills gaps.
+  if (job.salaryMin || job.salaryMax) {
+    job.salaryCurrency = job.salaryCurrency || salary.currency;
+    job.salaryPeriod = coalesceSalaryPeriod(job.salaryPeriod, salary.period);
+  } else {
+    job.salaryMin = salary.minimum || job.salaryMin;
+    job.salaryMax = salary.maximum || job.salaryMax;
+    job.salaryCurrency = salary.currency || job.salaryCurrency;
+    job.salaryPeriod = coalesceSalaryPeriod(salary.period, job.salaryPeriod);
+  }
 
   if (!job.jobType && analysis.employmentType.type !== "unknown") {
     job.jobType = analysis.employmentType.type;
@@ -88,7 +95,7 @@ export function enrichDiscoveryJob(job: DiscoveryJob): DiscoveryJob {
 }
 
 export function normalizeSalary(text: string): SalaryNormalizationResult {
-  const cleaned = cleanText(text);
+  const cleaned = htmlToText(text);
   if (!cleaned) {
     return emptySalary();
   }
@@ -129,7 +136,7 @@ export function normalizeSalary(text: string): SalaryNormalizationResult {
 }
 
 export function extractSalary(text: string): string | null {
-  const cleaned = cleanText(text);
+  const cleaned = htmlToText(text);
   for (const [pattern, group] of SALARY_DESCRIPTION_PATTERNS) {
     const match = pattern.exec(cleaned);
     if (!match) {
@@ -145,7 +152,7 @@ export function extractSalary(text: string): string | null {
 }
 
 export function extractApplicantCount(text: string): string | null {
-  const cleaned = cleanText(text);
+  const cleaned = htmlToText(text);
   for (const pattern of APPLICANT_COUNT_PATTERNS) {
     const match = pattern.exec(cleaned);
     if (match?.[1]) {
@@ -165,21 +172,6 @@ function emptySalary(): SalaryNormalizationResult {
   };
 }
 
-function cleanText(text: string): string {
-  if (!text) {
-    return "";
-  }
-
-  return normalizeWhitespace(
-    decodeHtmlEntities(
-      text
-        .replace(/<br\s*\/?>/gi, " ")
-        .replace(/<\/(p|div|li|ul|ol|section|article|h\d)>/gi, " ")
-        .replace(/<[^>]+>/g, " "),
-    ),
-  );
-}
-
 function normalizeAmount(amount: string | undefined): string | null {
   if (!amount) {
     return null;
@@ -244,19 +236,6 @@ function coalesceSalaryPeriod(parsedPeriod: string, existingPeriod: string): str
   return parsedPeriod;
 }
 
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-}
-
 // ---------------------------------------------------------------------------
 // Posted-date normalization
 // ---------------------------------------------------------------------------
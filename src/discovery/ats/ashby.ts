@@ -0,0 +1,196 @@
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText, normalizeWhitespace } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, firstPathSegment, type AtsCrawlOptions } from "./provider.js";
+
+const ASHBY_JOBS_URL = "https://api.ashbyhq.com/posting-api/job-board/{board}";
+
+interface AshbyCompensationComponent {
+  compensationType?: string;
+  interval?: string;
+  currencyCode?: string | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+}
+
+interface AshbyJobItem {
+  id?: string;
+  title?: string;
+  location?: string;
+  secondaryLocations?: Array<{ location?: string }>;
+  employmentType?: string;
+  workplaceType?: string | null;
+  isRemote?: boolean;
+  isListed?: boolean;
+  publishedAt?: string;
+  jobUrl?: string;
+  applyUrl?: string;
+  descriptionPlain?: string;
+  descriptionHtml?: string;
+  compensation?: {
+    compensationTierSummary?: string | null;
+    scrapeableCompensationSalarySummary?: string | null;
+    summaryComponents?: AshbyCompensationComponent[];
+    compensationTiers?: Array<{ components?: AshbyCompensationComponent[] }>;
+  };
+}
+
+interface AshbyPayload {
+  jobs?: AshbyJobItem[];
+}
+
+export class AshbyCrawler {
+  readonly name = "ashby" as const;
+  readonly atsType = "ashby";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const url = ASHBY_JOBS_URL.replace("{board}", encodeURIComponent(companyIdentifier));
+    const payload = await this.httpClient.getJson<AshbyPayload>(url, {
+      params: { includeCompensation: "true" },
+      signal: options.signal,
+    });
+    return normalizeAshbyJobs(payload, companyIdentifier, extractedAt);
+  }
+}
+
+export const ashbyProvider = defineAtsProvider({
+  name: "ashby",
+  displayName: "Ashby",
+  status: "active",
+  domains: ["ashbyhq.com"],
+  extractCompanyIdentifier: (url) => firstPathSegment(url),
+  createCrawler: (httpClient) => new AshbyCrawler(httpClient),
+  capabilities: { salary: true, applyFormSchema: false, departments: true },
+});
+
+export function normalizeAshbyJobs(
+  payload: AshbyPayload,
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return (payload.jobs ?? [])
+    .filter((item) => item.isListed !== false)
+    .map((item) => {
+      const jobUrl = item.jobUrl || item.applyUrl || "";
+      const salaryText =
+        item.compensation?.scrapeableCompensationSalarySummary ||
+        item.compensation?.compensationTierSummary ||
+        "";
+      const salary = parseCompensation(item.compensation);
+
+      const job = createEmptyDiscoveryJob({
+        id: String(item.id || jobUrl || item.title || ""),
+        source: "linkedin",
+        title: item.title || "",
+        company: companyIdentifier,
+        location: formatLocation(item),
+        description: item.descriptionPlain
+          ? normalizeWhitespace(item.descriptionPlain)
+          : htmlToText(item.descriptionHtml || ""),
+        jobUrl,
+        extractedAt,
+        postedAt: item.publishedAt || null,
+      });
+
+      job.source = "ashby";
+      job.externalUrl = jobUrl;
+      job.atsType = "ashby";
+      job.atsIdentifier = companyIdentifier;
+      job.salary = salaryText;
+      job.salaryRaw = salaryText;
+      job.salaryMin = salary.minimum;
+      job.salaryMax = salary.maximum;
+      job.salaryCurrency = salary.currency;
+      job.salaryPeriod = salary.period;
+      job.jobType = normalizeEmploymentType(item.employmentType);
+      job.workArrangement = normalizeWorkplaceType(item.workplaceType, item.isRemote);
+      return job;
+    });
+}
+
+/**
+ * Salary bounds across every tier that shares the first salary component's
+ * currency and interval; equity and bonus components are ignored.
+ */
+function parseCompensation(compensation: AshbyJobItem["compensation"]): {
+  minimum: string;
+  maximum: string;
+  currency: string;
+  period: string;
+} {
+  const components = [
+    ...(compensation?.summaryComponents ?? []),
+    ...(compensation?.compensationTiers ?? []).flatMap((tier) => tier.components ?? []),
+  ].filter((component) => component.compensationType === "Salary");
+  const [first] = components;
+  if (!first) {
+    return { minimum: "", maximum: "", currency: "", period: "" };
+  }
+
+  const matching = components.filter(
+    (component) =>
+      component.currencyCode === first.currencyCode && component.interval === first.interval,
+  );
+  const minimums = matching
+    .map((component) => component.minValue)
+    .filter((value): value is number => typeof value === "number");
+  const maximums = matching
+    .map((component) => component.maxValue)
+    .filter((value): value is number => typeof value === "number");
+
+  return {
+    minimum: minimums.length > 0 ? String(Math.min(...minimums)) : "",
+    maximum: maximums.length > 0 ? String(Math.max(...maximums)) : "",
+    currency: (first.currencyCode || "").trim().toUpperCase(),
+    period: normalizeInterval(first.interval),
+  };
+}
+
+function normalizeInterval(value: string | undefined): string {
+  const mapping: Record<string, string> = {
+    "1 HOUR": "hour",
+    "1 DAY": "day",
+    "1 WEEK": "week",
+    "1 MONTH": "month",
+    "1 YEAR": "year",
+  };
+  return value ? mapping[value.trim().toUpperCase()] || "" : "";
+}
+
+function normalizeEmploymentType(value: string | undefined): string {
+  const mapping: Record<string, string> = {
+    FullTime: "Full-time",
+    PartTime: "Part-time",
+    Contract: "Contract",
+    Intern: "Internship",
+    Temporary: "Temporary",
+  };
+  return value ? mapping[value] || value : "";
+}
+
+function normalizeWorkplaceType(value: string | null | undefined, isRemote?: boolean): string {
+  switch (value) {
+    case "Remote":
+      return "remote";
+    case "Hybrid":
+      return "hybrid";
+    case "OnSite":
+      return "on-site";
+    default:
+      return isRemote ? "remote" : "";
+  }
+}
+
+function formatLocation(item: AshbyJobItem): string {
+  const locations = [
+    item.location,
+    ...(item.secondaryLocations ?? []).map((secondary) => secondary.location),
+  ].filter((location): location is string => Boolean(location));
+  return [...new Set(locations)].join("; ");
+}
@@ -0,0 +1,137 @@
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, subdomainIdentifier, type AtsCrawlOptions } from "./provider.js";
+
+const BAMBOOHR_CAREERS_URL = "https://{company}.bamboohr.com/careers";
+const LOCATION_TYPES: Record<string, string> = {
+  "0": "on-site",
+  "1": "remote",
+  "2": "hybrid",
+};
+
+interface BambooHrListItem {
+  id?: string | number;
+  jobOpeningName?: string;
+  departmentLabel?: string;
+  employmentStatusLabel?: string;
+  location?: { city?: string | null; state?: string | null };
+  atsLocation?: {
+    city?: string | null;
+    state?: string | null;
+    province?: string | null;
+    country?: string | null;
+  };
+  isRemote?: boolean | null;
+}
+
+interface BambooHrListPayload {
+  result?: BambooHrListItem[];
+}
+
+interface BambooHrDetailPayload {
+  result?: {
+    jobOpening?: {
+      jobOpeningName?: string;
+      description?: string;
+      datePosted?: string;
+      compensation?: string | null;
+      jobOpeningShareUrl?: string;
+      locationType?: string | null;
+    };
+  };
+}
+
+export interface BambooHrJobEntry {
+  item: BambooHrListItem;
+  detail?: BambooHrDetailPayload | null;
+}
+
+export class BambooHrCrawler {
+  readonly name = "bamboohr" as const;
+  readonly atsType = "bamboohr";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const baseUrl = BAMBOOHR_CAREERS_URL.replace("{company}", companyIdentifier);
+    const payload = await this.httpClient.getJson<BambooHrListPayload>(`${baseUrl}/list`, {
+      signal: options.signal,
+    });
+
+    const entries: BambooHrJobEntry[] = [];
+    for (const item of payload.result ?? []) {
+      options.signal?.throwIfAborted();
+      entries.push({
+        item,
+        detail:
+          item.id !== undefined
+            ? await this.httpClient
+                .getJson<BambooHrDetailPayload>(`${baseUrl}/${item.id}/detail`, {
+                  signal: options.signal,
+                })
+                .catch(() => null)
+            : null,
+      });
+    }
+    return normalizeBambooHrJobs(entries, companyIdentifier, extractedAt);
+  }
+}
+
+export const bamboohrProvider = defineAtsProvider({
+  name: "bamboohr",
+  displayName: "BambooHR",
+  status: "active",
+  domains: ["bamboohr.com"],
+  extractCompanyIdentifier: subdomainIdentifier,
+  createCrawler: (httpClient) => new BambooHrCrawler(httpClient),
+  capabilities: { salary: true, applyFormSchema: false, departments: true },
+});
+
+export function normalizeBambooHrJobs(
+  entries: BambooHrJobEntry[],
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  const baseUrl = BAMBOOHR_CAREERS_URL.replace("{company}", companyIdentifier);
+  return entries.map(({ item, detail }) => {
+    const opening = detail?.result?.jobOpening;
+    const jobUrl =
+      opening?.jobOpeningShareUrl || (item.id !== undefined ? `${baseUrl}/${item.id}` : "");
+
+    const job = createEmptyDiscoveryJob({
+      id: String(item.id ?? jobUrl),
+      source: "linkedin",
+      title: item.jobOpeningName || opening?.jobOpeningName || "",
+      company: companyIdentifier,
+      location: formatLocation(item),
+      description: htmlToText(opening?.description || ""),
+      jobUrl,
+      extractedAt,
+      postedAt: opening?.datePosted || null,
+    });
+
+    job.source = "bamboohr";
+    job.externalUrl = jobUrl;
+    job.atsType = "bamboohr";
+    job.atsIdentifier = companyIdentifier;
+    job.jobType = item.employmentStatusLabel || "";
+    job.salary = opening?.compensation || "";
+    job.salaryRaw = job.salary;
+    job.workArrangement =
+      LOCATION_TYPES[opening?.locationType ?? ""] || (item.isRemote ? "remote" : "");
+    return job;
+  });
+}
+
+function formatLocation(item: BambooHrListItem): string {
+  const ats = item.atsLocation;
+  const parts = ats
+    ? [ats.city, ats.state || ats.province, ats.country]
+    : [item.location?.city, item.location?.state];
+  return parts.filter((part): part is string => Boolean(part)).join(", ");
+}
@@ -1,14 +1,20 @@
-const DOMAIN_MAP = {
-  "boards.greenhouse.io": "greenhouse",
-  "jobs.lever.co": "lever",
-  "myworkdayjobs.com": "workday",
-  "smartrecruiters.com": "smartrecruiters",
-  "ashbyhq.com": "ashby",
-} as const;
+import { decodeHtmlEntities } from "../utils/html.js";
+import {
+  findAtsProviderForHost,
+  getAllAtsProviderDefinitions,
+  type AtsProviderName,
+} from "./registry.js";
+
+/** Provider domain → ATS type, derived from the provider registry. */
+const DOMAIN_MAP: Readonly<Record<string, AtsProviderName>> = Object.fromEntries(
+  getAllAtsProviderDefinitions().flatMap((definition) =>
+    definition.domains.map((domain) => [domain, definition.name] as const),
+  ),
+);
 
 const RAW_URL_PATTERN = /https?:\/\/[^\s"'<>)}]+/gi;
 
-export type SupportedAtsType = (typeof DOMAIN_MAP)[keyof typeof DOMAIN_MAP];
+export type SupportedAtsType = AtsProviderName;
 export type DetectedAtsType = SupportedAtsType | "linkedin_easy_apply" | "unknown";
 
 export interface AtsDetectionResult {
@@ -44,15 +50,14 @@ export function detectAts(
   const parsed = new URL(normalizedUrl);
   const hostname = parsed.hostname.toLowerCase();
 
-  for (const [domain, atsType] of Object.entries(DOMAIN_MAP)) {
-    if (hostname === domain || hostname.endsWith(`.${domain}`)) {
-      return {
-        atsType,
-        companyIdentifier: extractCompanyIdentifier(atsType, parsed),
-        domain,
-        applyUrl: normalizedUrl,
-      };
-    }
+  const provider = findAtsProviderForHost(hostname);
+  if (provider) {
+    return {
+      atsType: provider.definition.name,
+      companyIdentifier: provider.definition.extractCompanyIdentifier(parsed, provider.domain),
+      domain: provider.domain,
+      applyUrl: normalizedUrl,
+    };
   }
 
   return {
@@ -90,10 +95,8 @@ export function normalizeAtsUrlCandidate(value: string): string | null {
       return null;
     }
 
-    for (const domain of Object.keys(DOMAIN_MAP)) {
-      if (hostname === domain || hostname.endsWith(`.${domain}`)) {
-        return candidate;
-      }
+    if (findAtsProviderForHost(hostname)) {
+      return candidate;
     }
   } catch {
     return null;
@@ -116,34 +119,4 @@ export function unwrapLinkedInRedirect(value: string): string {
   }
 }
 
-function extractCompanyIdentifier(
-  atsType: SupportedAtsType,
-  parsedUrl: URL,
-): string | null {
-  const pathParts = parsedUrl.pathname
-    .split("/")
-    .map((part) => part.trim())
-    .filter(Boolean);
-
-  if (atsType === "greenhouse") {
-    const queryCompany = parsedUrl.searchParams.get("for");
-    return queryCompany || pathParts[0] || null;
-  }
-
-  if (atsType === "lever") {
-    return pathParts[0] || null;
-  }
-
-  return null;
-}
-
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-}
-
 export { DOMAIN_MAP };
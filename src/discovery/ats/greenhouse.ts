@@ -1,5 +1,7 @@
 import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
 import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, firstPathSegment, type AtsCrawlOptions } from "./provider.js";
 
 const GREENHOUSE_JOBS_URL = "https://boards-api.greenhouse.io/v1/boards/{company}/jobs";
 
@@ -27,15 +29,27 @@ export class GreenhouseCrawler {
   async crawlJobs(
     companyIdentifier: string,
     extractedAt: string,
+    options: AtsCrawlOptions = {},
   ): Promise<DiscoveryJob[]> {
     const url = GREENHOUSE_JOBS_URL.replace("{company}", companyIdentifier);
     const payload = await this.httpClient.getJson<GreenhousePayload>(url, {
       params: { content: "true" },
+      signal: options.signal,
     });
     return normalizeGreenhouseJobs(payload, companyIdentifier, extractedAt);
   }
 }
 
+export const greenhouseProvider = defineAtsProvider({
+  name: "greenhouse",
+  displayName: "Greenhouse",
+  status: "active",
+  domains: ["boards.greenhouse.io"],
+  extractCompanyIdentifier: (url) => url.searchParams.get("for") || firstPathSegment(url),
+  createCrawler: (httpClient) => new GreenhouseCrawler(httpClient),
+  capabilities: { salary: true, applyFormSchema: true, departments: true },
+});
+
 export function normalizeGreenhouseJobs(
   payload: GreenhousePayload,
   companyIdentifier: string,
@@ -68,21 +82,6 @@ export function normalizeGreenhouseJobs(
   });
 }
 
-function htmlToText(content: string): string {
-  if (!content) {
-    return "";
-  }
-
-  return normalizeWhitespace(
-    decodeHtmlEntities(
-      content
-        .replace(/<br\s*\/?>/gi, " ")
-        .replace(/<\/(p|div|li|ul|ol|section|article|h\d)>/gi, " ")
-        .replace(/<[^>]+>/g, " "),
-    ),
-  );
-}
-
 function extractMetadataValue(
   metadata: GreenhouseJobItem["metadata"],
   targetNames: string[],
@@ -104,16 +103,3 @@ function extractMetadataValue(
   }
   return "";
 }
-
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-}
@@ -1,5 +1,7 @@
 import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
 import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, firstPathSegment, type AtsCrawlOptions } from "./provider.js";
 
 const LEVER_JOBS_URL = "https://api.lever.co/v0/postings/{company}";
 
@@ -34,13 +36,24 @@ export class LeverCrawler {
   async crawlJobs(
     companyIdentifier: string,
     extractedAt: string,
+    options: AtsCrawlOptions = {},
   ): Promise<DiscoveryJob[]> {
     const url = LEVER_JOBS_URL.replace("{company}", companyIdentifier);
-    const payload = await this.httpClient.getJson<LeverJobItem[]>(url);
+    const payload = await this.httpClient.getJson<LeverJobItem[]>(url, { signal: options.signal });
     return normalizeLeverJobs(payload, companyIdentifier, extractedAt);
   }
 }
 
+export const leverProvider = defineAtsProvider({
+  name: "lever",
+  displayName: "Lever",
+  status: "active",
+  domains: ["jobs.lever.co"],
+  extractCompanyIdentifier: (url) => firstPathSegment(url),
+  createCrawler: (httpClient) => new LeverCrawler(httpClient),
+  capabilities: { salary: true, applyFormSchema: false, departments: true },
+});
+
 export function normalizeLeverJobs(
   payload: LeverJobItem[],
   companyIdentifier: string,
@@ -89,12 +102,7 @@ function normalizeDescription(item: LeverJobItem): string {
   if (!item.description) {
     return "";
   }
-  return normalizeWhitespace(
-    item.description
-      .replace(/<br\s*\/?>/gi, " ")
-      .replace(/<\/(p|div|li|ul|ol|section|article|h\d)>/gi, " ")
-      .replace(/<[^>]+>/g, " "),
-  );
+  return htmlToText(item.description);
 }
 
 function normalizeCreatedAt(value: LeverJobItem["createdAt"]): string | null {
@@ -183,7 +191,3 @@ function formatSalaryBound(value: string | null, currency: string): string {
       : numeric.toLocaleString("en-US");
   return `${currency ? `${currency} ` : ""}${amount}`.trim();
 }
-
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
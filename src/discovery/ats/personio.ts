@@ -0,0 +1,87 @@
+import type { HttpClient } from "../utils/http.js";
+import { decodeXmlText, xmlElements, xmlText } from "../utils/xml.js";
+import { htmlToText, normalizeWhitespace } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, subdomainIdentifier, type AtsCrawlOptions } from "./provider.js";
+
+const PERSONIO_FEED_URL = "https://{company}.jobs.personio.de/xml";
+const PERSONIO_JOB_URL = "https://{company}.jobs.personio.de/job/{id}";
+
+const SCHEDULES: Record<string, string> = {
+  "full-time": "Full-time",
+  "part-time": "Part-time",
+  "full-or-part-time": "Full-time or Part-time",
+};
+
+export class PersonioCrawler {
+  readonly name = "personio" as const;
+  readonly atsType = "personio";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const url = PERSONIO_FEED_URL.replace("{company}", companyIdentifier);
+    const feed = await this.httpClient.getText(url, {
+      headers: { Accept: "application/xml" },
+      signal: options.signal,
+    });
+    return normalizePersonioFeed(feed, companyIdentifier, extractedAt);
+  }
+}
+
+export const personioProvider = defineAtsProvider({
+  name: "personio",
+  displayName: "Personio",
+  status: "active",
+  domains: ["jobs.personio.de", "jobs.personio.com"],
+  extractCompanyIdentifier: subdomainIdentifier,
+  createCrawler: (httpClient) => new PersonioCrawler(httpClient),
+  capabilities: { salary: false, applyFormSchema: false, departments: true },
+});
+
+export function normalizePersonioFeed(
+  feed: string,
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return xmlElements(feed, "position").map((position) => {
+    // Description sections carry their own <name> elements.
+    const fields = position.replace(/<jobDescriptions>[\s\S]*?<\/jobDescriptions>/gi, "");
+    const id = xmlText(fields, "id");
+    const jobUrl = id
+      ? PERSONIO_JOB_URL.replace("{company}", companyIdentifier).replace("{id}", id)
+      : "";
+    const description = xmlElements(position, "jobDescription")
+      .map((section) => `${xmlText(section, "name")} ${htmlToText(xmlText(section, "value"))}`)
+      .join(" ");
+    // The primary <office> first, then any listed under <additionalOffices>.
+    const offices = xmlElements(fields, "office")
+      .map((office) => decodeXmlText(office).trim())
+      .filter(Boolean);
+
+    const job = createEmptyDiscoveryJob({
+      id: id || jobUrl,
+      source: "linkedin",
+      title: xmlText(fields, "name"),
+      company: xmlText(fields, "subcompany") || companyIdentifier,
+      location: [...new Set(offices)].join("; "),
+      description: normalizeWhitespace(description),
+      jobUrl,
+      extractedAt,
+      postedAt: xmlText(fields, "createdAt") || null,
+    });
+
+    job.source = "personio";
+    job.externalUrl = jobUrl;
+    job.atsType = "personio";
+    job.atsIdentifier = companyIdentifier;
+    job.jobType =
+      SCHEDULES[xmlText(fields, "schedule").toLowerCase()] || xmlText(fields, "employmentType");
+    job.experienceLevel = xmlText(fields, "seniority");
+    return job;
+  });
+}
@@ -0,0 +1,80 @@
+import type { DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+
+/** "active" providers are expanded by a crawler; "detect_only" ones are only recognized. */
+export type AtsProviderStatus = "active" | "detect_only";
+
+export interface AtsProviderCapabilities {
+  /** Structured or free-text salary comes back from the provider's public feed. */
+  salary: boolean;
+  /** The provider publishes the application form's questions. */
+  applyFormSchema: boolean;
+  /** Postings carry a department or team. */
+  departments: boolean;
+}
+
+export interface AtsCrawlOptions {
+  /** Aborts the crawl when the discovery run is cancelled. */
+  signal?: AbortSignal;
+  /**
+   * The run's search keyword. Crawlers that need a request per posting only
+   * spend it on postings whose title matches.
+   */
+  keyword?: string;
+}
+
+export interface AtsCrawler<TName extends string = string> {
+  readonly name: TName;
+  crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options?: AtsCrawlOptions,
+  ): Promise<DiscoveryJob[]>;
+}
+
+/**
+ * Everything the detector, the registry and ATS expansion need to know about
+ * one provider. Adding a provider means writing one of these and listing it in
+ * `ats/registry.ts`.
+ */
+export interface AtsProviderDefinition<TName extends string = string> {
+  name: TName;
+  displayName: string;
+  status: AtsProviderStatus;
+  /** Hosts matched exactly or as a parent domain, e.g. "recruitee.com" matches "acme.recruitee.com". */
+  domains: readonly string[];
+  /** The company key the crawler takes, from a job or board URL on one of `domains`. */
+  extractCompanyIdentifier(url: URL, domain: string): string | null;
+  createCrawler?: (httpClient: HttpClient) => AtsCrawler<TName>;
+  capabilities: AtsProviderCapabilities;
+}
+
+export function defineAtsProvider<const TName extends string>(
+  definition: AtsProviderDefinition<TName>,
+): AtsProviderDefinition<TName> {
+  return definition;
+}
+
+/** Subdomains that belong to the ATS itself rather than a customer. */
+const RESERVED_SUBDOMAINS = new Set(["www", "app", "api", "apply", "careers", "jobs"]);
+
+export function urlPathParts(url: URL): string[] {
+  return url.pathname
+    .split("/")
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/** The customer label in front of the provider's domain: "acme" in "acme.recruitee.com". */
+export function subdomainIdentifier(url: URL, domain: string): string | null {
+  const hostname = url.hostname.toLowerCase();
+  if (!hostname.endsWith(`.${domain}`)) {
+    return null;
+  }
+  const label = hostname.slice(0, -(domain.length + 1)).split(".").pop();
+  return label && !RESERVED_SUBDOMAINS.has(label) ? label : null;
+}
+
+export function firstPathSegment(url: URL): string | null {
+  return urlPathParts(url)[0] || null;
+}
@@ -0,0 +1,139 @@
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText, normalizeWhitespace } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, subdomainIdentifier, type AtsCrawlOptions } from "./provider.js";
+
+const RECRUITEE_OFFERS_URL = "https://{company}.recruitee.com/api/offers/";
+
+interface RecruiteeOffer {
+  id?: number | string;
+  slug?: string;
+  title?: string;
+  company_name?: string;
+  description?: string;
+  requirements?: string;
+  location?: string;
+  city?: string;
+  country?: string;
+  careers_url?: string;
+  careers_apply_url?: string;
+  published_at?: string;
+  created_at?: string;
+  employment_type_code?: string;
+  remote?: boolean;
+  hybrid?: boolean;
+  on_site?: boolean;
+  salary?: {
+    min?: string | number | null;
+    max?: string | number | null;
+    currency?: string | null;
+    period?: string | null;
+  } | null;
+}
+
+interface RecruiteePayload {
+  offers?: RecruiteeOffer[];
+}
+
+export class RecruiteeCrawler {
+  readonly name = "recruitee" as const;
+  readonly atsType = "recruitee";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const url = RECRUITEE_OFFERS_URL.replace("{company}", companyIdentifier);
+    const payload = await this.httpClient.getJson<RecruiteePayload>(url, { signal: options.signal });
+    return normalizeRecruiteeJobs(payload, companyIdentifier, extractedAt);
+  }
+}
+
+export const recruiteeProvider = defineAtsProvider({
+  name: "recruitee",
+  displayName: "Recruitee",
+  status: "active",
+  domains: ["recruitee.com"],
+  extractCompanyIdentifier: subdomainIdentifier,
+  createCrawler: (httpClient) => new RecruiteeCrawler(httpClient),
+  capabilities: { salary: true, applyFormSchema: true, departments: true },
+});
+
+export function normalizeRecruiteeJobs(
+  payload: RecruiteePayload,
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return (payload.offers ?? []).map((item) => {
+    const jobUrl =
+      item.careers_url ||
+      (item.slug ? `https://${companyIdentifier}.recruitee.com/o/${item.slug}` : "");
+
+    const job = createEmptyDiscoveryJob({
+      id: String(item.id || item.slug || jobUrl || item.title || ""),
+      source: "linkedin",
+      title: item.title || "",
+      company: item.company_name || companyIdentifier,
+      location: item.location || [item.city, item.country].filter(Boolean).join(", "),
+      description: normalizeWhitespace(
+        `${htmlToText(item.description || "")} ${htmlToText(item.requirements || "")}`,
+      ),
+      jobUrl,
+      extractedAt,
+      postedAt: normalizeTimestamp(item.published_at || item.created_at),
+    });
+
+    job.source = "recruitee";
+    job.externalUrl = item.careers_apply_url || jobUrl;
+    job.atsType = "recruitee";
+    job.atsIdentifier = companyIdentifier;
+    job.jobType = normalizeEmploymentType(item.employment_type_code);
+    job.workArrangement = item.remote ? "remote" : item.hybrid ? "hybrid" : item.on_site ? "on-site" : "";
+    if (item.salary && (item.salary.min || item.salary.max)) {
+      job.salaryMin = item.salary.min ? String(item.salary.min) : "";
+      job.salaryMax = item.salary.max ? String(item.salary.max) : "";
+      job.salaryCurrency = (item.salary.currency || "").trim().toUpperCase();
+      job.salaryPeriod = normalizeSalaryPeriod(item.salary.period);
+    }
+    return job;
+  });
+}
+
+/** Recruitee timestamps look like "2026-03-10 04:00:00 UTC". */
+function normalizeTimestamp(value: string | undefined): string | null {
+  if (!value) {
+    return null;
+  }
+  const match = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})(?: UTC)?$/.exec(value.trim());
+  return match ? `${match[1]}T${match[2]}Z` : value;
+}
+
+function normalizeEmploymentType(value: string | undefined): string {
+  const mapping: Record<string, string> = {
+    fulltime: "Full-time",
+    fulltime_permanent: "Full-time",
+    fulltime_fixed_term: "Full-time",
+    parttime: "Part-time",
+    parttime_permanent: "Part-time",
+    parttime_fixed_term: "Part-time",
+    contract: "Contract",
+    freelance: "Contract",
+    internship: "Internship",
+    temporary: "Temporary",
+  };
+  return value ? mapping[value.trim().toLowerCase()] || "" : "";
+}
+
+function normalizeSalaryPeriod(value: string | null | undefined): string {
+  const mapping: Record<string, string> = {
+    hour: "hour",
+    day: "day",
+    week: "week",
+    month: "month",
+    year: "year",
+  };
+  return value ? mapping[value.trim().toLowerCase()] || "" : "";
+}
@@ -1,32 +1,82 @@
-export type AtsProviderName = "greenhouse" | "lever";
-export type AtsProviderStatus = "active";
+import { ashbyProvider } from "./ashby.js";
+import { bamboohrProvider } from "./bamboohr.js";
+import { greenhouseProvider } from "./greenhouse.js";
+import { leverProvider } from "./lever.js";
+import { personioProvider } from "./personio.js";
+import { defineAtsProvider, subdomainIdentifier, type AtsProviderDefinition } from "./provider.js";
+import { recruiteeProvider } from "./recruitee.js";
+import { smartrecruitersProvider } from "./smartrecruiters.js";
+import { teamtailorProvider } from "./teamtailor.js";
+import { workableProvider } from "./workable.js";
+import { workdayProvider } from "./workday.js";
 
-export interface AtsProviderDefinition {
-  name: AtsProviderName;
-  status: AtsProviderStatus;
-}
+export type { AtsProviderCapabilities, AtsProviderDefinition, AtsProviderStatus } from "./provider.js";
+
+/** JazzHR's job feed needs an API key, so its links are recognized but not expanded. */
+const jazzhrProvider = defineAtsProvider({
+  name: "jazzhr",
+  displayName: "JazzHR",
+  status: "detect_only",
+  domains: ["applytojob.com"],
+  extractCompanyIdentifier: subdomainIdentifier,
+  capabilities: { salary: false, applyFormSchema: false, departments: false },
+});
 
-const ATS_PROVIDER_DEFINITIONS: ReadonlyArray<AtsProviderDefinition> = [
-  { name: "greenhouse", status: "active" },
-  { name: "lever", status: "active" },
-];
+const ATS_PROVIDER_DEFINITIONS = [
+  greenhouseProvider,
+  leverProvider,
+  workdayProvider,
+  smartrecruitersProvider,
+  ashbyProvider,
+  workableProvider,
+  recruiteeProvider,
+  bamboohrProvider,
+  teamtailorProvider,
+  personioProvider,
+  jazzhrProvider,
+] as const;
 
-export const ATS_PROVIDER_NAMES = ATS_PROVIDER_DEFINITIONS.map(
-  (definition) => definition.name,
-);
+export type AtsProviderName = (typeof ATS_PROVIDER_DEFINITIONS)[number]["name"];
+
+/** Providers with a crawler, i.e. the ones jobs can be expanded from. */
+export const ATS_PROVIDER_NAMES = ATS_PROVIDER_DEFINITIONS.filter(
+  (definition) => definition.status === "active",
+).map((definition) => definition.name);
 
 export function getAtsProviderDefinition(
   name: AtsProviderName,
-): AtsProviderDefinition {
-  const definition = ATS_PROVIDER_DEFINITIONS.find(
-    (candidate) => candidate.name === name,
-  );
+): AtsProviderDefinition<AtsProviderName> {
+  const definition = findAtsProviderDefinition(name);
   if (!definition) {
     throw new Error(`Unsupported ATS provider: ${name}`);
   }
   return definition;
 }
 
-export function getAllAtsProviderDefinitions(): ReadonlyArray<AtsProviderDefinition> {
+export function findAtsProviderDefinition(
+  name: string,
+): AtsProviderDefinition<AtsProviderName> | undefined {
+  return ATS_PROVIDER_DEFINITIONS.find((candidate) => candidate.name === name);
+}
+
+export function getAllAtsProviderDefinitions(): ReadonlyArray<
+  AtsProviderDefinition<AtsProviderName>
+> {
   return ATS_PROVIDER_DEFINITIONS;
 }
+
+/** The provider hosting `hostname`, and which of its domains matched. */
+export function findAtsProviderForHost(
+  hostname: string,
+): { definition: AtsProviderDefinition<AtsProviderName>; domain: string } | null {
+  const normalized = hostname.toLowerCase();
+  for (const definition of ATS_PROVIDER_DEFINITIONS) {
+    const domain = definition.domains.find(
+      (candidate) => normalized === candidate || normalized.endsWith(`.${candidate}`),
+    );
+    if (domain) {
+      return { definition, domain };
+    }
+  }
+  return null;
+}
@@ -0,0 +1,186 @@
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText, normalizeWhitespace } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, urlPathParts, type AtsCrawlOptions } from "./provider.js";
+
+const SMARTRECRUITERS_POSTINGS_URL =
+  "https://api.smartrecruiters.com/v1/companies/{company}/postings";
+const SMARTRECRUITERS_JOB_URL = "https://jobs.smartrecruiters.com/{company}/{postingId}";
+const PAGE_SIZE = 100;
+const MAX_PAGES = 10;
+
+interface SmartRecruitersPosting {
+  id?: string;
+  name?: string;
+  refNumber?: string;
+  releasedDate?: string;
+  company?: { identifier?: string; name?: string };
+  location?: {
+    city?: string;
+    region?: string;
+    country?: string;
+    remote?: boolean;
+    hybrid?: boolean;
+    fullLocation?: string;
+  };
+  typeOfEmployment?: { label?: string };
+  experienceLevel?: { label?: string };
+}
+
+interface SmartRecruitersPostingsPage {
+  totalFound?: number;
+  content?: SmartRecruitersPosting[];
+}
+
+interface SmartRecruitersPostingDetail {
+  postingUrl?: string;
+  applyUrl?: string;
+  jobAd?: {
+    sections?: Record<string, { title?: string; text?: string } | undefined>;
+  };
+}
+
+export interface SmartRecruitersJobEntry {
+  posting: SmartRecruitersPosting;
+  detail?: SmartRecruitersPostingDetail | null;
+}
+
+/** Job ad sections in reading order; the company blurb goes last. */
+const DESCRIPTION_SECTIONS = [
+  "jobDescription",
+  "qualifications",
+  "additionalInformation",
+  "companyDescription",
+];
+
+export class SmartRecruitersCrawler {
+  readonly name = "smartrecruiters" as const;
+  readonly atsType = "smartrecruiters";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const url = SMARTRECRUITERS_POSTINGS_URL.replace(
+      "{company}",
+      encodeURIComponent(companyIdentifier),
+    );
+    const postings: SmartRecruitersPosting[] = [];
+
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+      const payload = await this.httpClient.getJson<SmartRecruitersPostingsPage>(url, {
+        params: { limit: String(PAGE_SIZE), offset: String(page * PAGE_SIZE) },
+        signal: options.signal,
+      });
+      const pagePostings = payload.content ?? [];
+      postings.push(...pagePostings);
+      if (
+        pagePostings.length < PAGE_SIZE ||
+        (typeof payload.totalFound === "number" && postings.length >= payload.totalFound)
+      ) {
+        break;
+      }
+    }
+
+    const entries: SmartRecruitersJobEntry[] = [];
+    for (const posting of postings) {
+      options.signal?.throwIfAborted();
+      entries.push({
+        posting,
+        detail: posting.id
+          ? await this.httpClient
+              .getJson<SmartRecruitersPostingDetail>(`${url}/${encodeURIComponent(posting.id)}`, {
+                signal: options.signal,
+              })
+              .catch(() => null)
+          : null,
+      });
+    }
+    return normalizeSmartRecruitersJobs(entries, companyIdentifier, extractedAt);
+  }
+}
+
+export const smartrecruitersProvider = defineAtsProvider({
+  name: "smartrecruiters",
+  displayName: "SmartRecruiters",
+  status: "active",
+  domains: ["smartrecruiters.com"],
+  extractCompanyIdentifier: (url) => {
+    // jobs.smartrecruiters.com/{company}/{id} or the one-click apply
+    // flow at /oneclick-ui/company/{company}/publication/{id}.
+    const pathParts = urlPathParts(url);
+    if (pathParts[0] === "oneclick-ui" && pathParts[1] === "company") {
+      return pathParts[2] || null;
+    }
+    return pathParts[0] || null;
+  },
+  createCrawler: (httpClient) => new SmartRecruitersCrawler(httpClient),
+  capabilities: { salary: false, applyFormSchema: true, departments: true },
+});
+
+export function normalizeSmartRecruitersJobs(
+  entries: SmartRecruitersJobEntry[],
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return entries.map(({ posting, detail }) => {
+    const jobUrl =
+      detail?.postingUrl ||
+      (posting.id
+        ? SMARTRECRUITERS_JOB_URL.replace(
+            "{company}",
+            posting.company?.identifier || companyIdentifier,
+          ).replace("{postingId}", posting.id)
+        : "");
+
+    const job = createEmptyDiscoveryJob({
+      id: String(posting.id || posting.refNumber || jobUrl || posting.name || ""),
+      source: "linkedin",
+      title: posting.name || "",
+      company: posting.company?.name || companyIdentifier,
+      location: formatLocation(posting.location),
+      description: buildDescription(detail),
+      jobUrl,
+      extractedAt,
+      postedAt: posting.releasedDate || null,
+    });
+
+    job.source = "smartrecruiters";
+    job.externalUrl = jobUrl;
+    job.atsType = "smartrecruiters";
+    job.atsIdentifier = posting.company?.identifier || companyIdentifier;
+    job.jobType = posting.typeOfEmployment?.label || "";
+    job.experienceLevel = posting.experienceLevel?.label || "";
+    job.workArrangement = posting.location?.remote
+      ? "remote"
+      : posting.location?.hybrid
+        ? "hybrid"
+        : "";
+    return job;
+  });
+}
+
+function formatLocation(location: SmartRecruitersPosting["location"]): string {
+  if (!location) {
+    return "";
+  }
+  if (location.fullLocation) {
+    return location.fullLocation;
+  }
+  return [location.city, location.region, location.country?.toUpperCase()]
+    .filter((part): part is string => Boolean(part))
+    .join(", ");
+}
+
+function buildDescription(detail: SmartRecruitersPostingDetail | null | undefined): string {
+  const sections = detail?.jobAd?.sections;
+  if (!sections) {
+    return "";
+  }
+  return normalizeWhitespace(
+    DESCRIPTION_SECTIONS.map((key) => htmlToText(sections[key]?.text || "")).join(" "),
+  );
+}
@@ -0,0 +1,86 @@
+import type { HttpClient } from "../utils/http.js";
+import { xmlElements, xmlText } from "../utils/xml.js";
+import { htmlToText } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, subdomainIdentifier, type AtsCrawlOptions } from "./provider.js";
+
+const TEAMTAILOR_FEED_URL = "https://{company}.teamtailor.com/jobs.rss";
+
+const REMOTE_STATUSES: Record<string, string> = {
+  none: "on-site",
+  hybrid: "hybrid",
+  temporary: "hybrid",
+  fully: "remote",
+};
+
+export class TeamtailorCrawler {
+  readonly name = "teamtailor" as const;
+  readonly atsType = "teamtailor";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const url = TEAMTAILOR_FEED_URL.replace("{company}", companyIdentifier);
+    const feed = await this.httpClient.getText(url, {
+      headers: { Accept: "application/rss+xml, application/xml" },
+      signal: options.signal,
+    });
+    return normalizeTeamtailorFeed(feed, companyIdentifier, extractedAt);
+  }
+}
+
+export const teamtailorProvider = defineAtsProvider({
+  name: "teamtailor",
+  displayName: "Teamtailor",
+  status: "active",
+  domains: ["teamtailor.com"],
+  extractCompanyIdentifier: subdomainIdentifier,
+  createCrawler: (httpClient) => new TeamtailorCrawler(httpClient),
+  capabilities: { salary: false, applyFormSchema: false, departments: true },
+});
+
+export function normalizeTeamtailorFeed(
+  feed: string,
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return xmlElements(feed, "item").map((item) => {
+    const jobUrl = xmlText(item, "link");
+    const locations = xmlElements(item, "tt:location").map((location) =>
+      [xmlText(location, "tt:city") || xmlText(location, "tt:name"), xmlText(location, "tt:country")]
+        .filter(Boolean)
+        .join(", "),
+    );
+
+    const job = createEmptyDiscoveryJob({
+      id: xmlText(item, "guid") || jobUrl,
+      source: "linkedin",
+      title: xmlText(item, "title"),
+      company: companyIdentifier,
+      location: locations.filter(Boolean).join("; "),
+      description: htmlToText(xmlText(item, "description")),
+      jobUrl,
+      extractedAt,
+      postedAt: normalizePubDate(xmlText(item, "pubDate")),
+    });
+
+    job.source = "teamtailor";
+    job.externalUrl = jobUrl;
+    job.atsType = "teamtailor";
+    job.atsIdentifier = companyIdentifier;
+    job.workArrangement = REMOTE_STATUSES[xmlText(item, "remoteStatus").toLowerCase()] || "";
+    return job;
+  });
+}
+
+function normalizePubDate(value: string): string | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toISOString().replace(".000Z", "Z");
+}
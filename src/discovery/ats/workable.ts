@@ -0,0 +1,120 @@
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import {
+  defineAtsProvider,
+  firstPathSegment,
+  subdomainIdentifier,
+  type AtsCrawlOptions,
+} from "./provider.js";
+
+const WORKABLE_JOBS_URL = "https://apply.workable.com/api/v1/widget/accounts/{company}";
+
+interface WorkableJobItem {
+  title?: string;
+  shortcode?: string;
+  code?: string;
+  employment_type?: string;
+  telecommuting?: boolean;
+  url?: string;
+  shortlink?: string;
+  application_url?: string;
+  published_on?: string;
+  created_at?: string;
+  city?: string;
+  state?: string;
+  country?: string;
+  experience?: string;
+  description?: string;
+  locations?: Array<{
+    city?: string;
+    region?: string;
+    country?: string;
+    hidden?: boolean;
+  }>;
+}
+
+interface WorkablePayload {
+  name?: string;
+  jobs?: WorkableJobItem[];
+}
+
+export class WorkableCrawler {
+  readonly name = "workable" as const;
+  readonly atsType = "workable";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const url = WORKABLE_JOBS_URL.replace("{company}", encodeURIComponent(companyIdentifier));
+    const payload = await this.httpClient.getJson<WorkablePayload>(url, {
+      params: { details: "true" },
+      signal: options.signal,
+    });
+    return normalizeWorkableJobs(payload, companyIdentifier, extractedAt);
+  }
+}
+
+export const workableProvider = defineAtsProvider({
+  name: "workable",
+  displayName: "Workable",
+  status: "active",
+  domains: ["workable.com"],
+  // apply.workable.com/{company}/j/{shortcode}, or the older {company}.workable.com.
+  extractCompanyIdentifier: (url, domain) =>
+    subdomainIdentifier(url, domain) || firstPathSegment(url),
+  createCrawler: (httpClient) => new WorkableCrawler(httpClient),
+  capabilities: { salary: false, applyFormSchema: false, departments: true },
+});
+
+export function normalizeWorkableJobs(
+  payload: WorkablePayload,
+  companyIdentifier: string,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return (payload.jobs ?? []).map((item) => {
+    const jobUrl =
+      item.url ||
+      item.shortlink ||
+      (item.shortcode ? `https://apply.workable.com/${companyIdentifier}/j/${item.shortcode}/` : "");
+
+    const job = createEmptyDiscoveryJob({
+      id: String(item.shortcode || item.code || jobUrl || item.title || ""),
+      source: "linkedin",
+      title: item.title || "",
+      company: payload.name || companyIdentifier,
+      location: formatLocation(item),
+      description: htmlToText(item.description || ""),
+      jobUrl,
+      extractedAt,
+      postedAt: item.published_on || item.created_at || null,
+    });
+
+    job.source = "workable";
+    job.externalUrl = item.application_url || jobUrl;
+    job.atsType = "workable";
+    job.atsIdentifier = companyIdentifier;
+    job.jobType = item.employment_type || "";
+    job.experienceLevel = item.experience || "";
+    job.workArrangement = item.telecommuting ? "remote" : "";
+    return job;
+  });
+}
+
+function formatLocation(item: WorkableJobItem): string {
+  const visible = (item.locations ?? []).filter((location) => !location.hidden);
+  const locations =
+    visible.length > 0 ? visible : [{ city: item.city, region: item.state, country: item.country }];
+  return locations
+    .map((location) =>
+      [location.city, location.region, location.country]
+        .filter((part): part is string => Boolean(part))
+        .join(", "),
+    )
+    .filter(Boolean)
+    .join("; ");
+}
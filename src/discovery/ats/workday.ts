@@ -0,0 +1,239 @@
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import { titleMatchesKeyword } from "../core/search-match.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import { defineAtsProvider, type AtsCrawlOptions } from "./provider.js";
+
+const WORKDAY_HOST = "myworkdayjobs.com";
+const PAGE_SIZE = 20;
+/** Large tenants list thousands of roles; cap a single expansion at 1,000 postings. */
+const MAX_PAGES = 50;
+/**
+ * Each detail is one more paced request, so only this many postings per crawl
+ * get a full description; the rest keep the list data.
+ */
+const MAX_DETAIL_FETCHES = 50;
+
+interface WorkdayJobPosting {
+  title?: string;
+  externalPath?: string;
+  locationsText?: string;
+  postedOn?: string;
+  bulletFields?: string[];
+}
+
+interface WorkdayJobsPage {
+  total?: number;
+  jobPostings?: WorkdayJobPosting[];
+}
+
+interface WorkdayJobDetail {
+  jobPostingInfo?: {
+    id?: string;
+    title?: string;
+    jobDescription?: string;
+    location?: string;
+    additionalLocations?: string[];
+    startDate?: string;
+    timeType?: string;
+    remoteType?: string;
+    jobReqId?: string;
+    externalUrl?: string;
+  };
+  hiringOrganization?: {
+    name?: string;
+  };
+}
+
+export interface WorkdayJobEntry {
+  posting: WorkdayJobPosting;
+  detail?: WorkdayJobDetail | null;
+}
+
+export interface WorkdaySite {
+  tenant: string;
+  /** Workday data centre shard, e.g. "wd3". */
+  dataCenter: string;
+  site: string;
+}
+
+export class WorkdayCrawler {
+  readonly name = "workday" as const;
+  readonly atsType = "workday";
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async crawlJobs(
+    companyIdentifier: string,
+    extractedAt: string,
+    options: AtsCrawlOptions = {},
+  ): Promise<DiscoveryJob[]> {
+    const site = parseWorkdayIdentifier(companyIdentifier);
+    if (!site) {
+      throw new Error(`Invalid Workday identifier: ${companyIdentifier}`);
+    }
+
+    const apiBase = `${workdayOrigin(site)}/wday/cxs/${site.tenant}/${site.site}`;
+    const postings: WorkdayJobPosting[] = [];
+    let total: number | null = null;
+
+    for (let page = 0; page < MAX_PAGES; page += 1) {
+      const payload = await this.httpClient.postJson<WorkdayJobsPage>(
+        `${apiBase}/jobs`,
+        {
+          appliedFacets: {},
+          limit: PAGE_SIZE,
+          offset: page * PAGE_SIZE,
+          searchText: "",
+        },
+        { signal: options.signal },
+      );
+      const pagePostings = payload.jobPostings ?? [];
+      // Only the first page reports a reliable total; later pages often return 0.
+      if (total === null && typeof payload.total === "number") {
+        total = payload.total;
+      }
+      postings.push(...pagePostings);
+      if (pagePostings.length < PAGE_SIZE || (total !== null && postings.length >= total)) {
+        break;
+      }
+    }
+
+    const entries: WorkdayJobEntry[] = [];
+    let detailFetches = 0;
+    for (const posting of postings) {
+      options.signal?.throwIfAborted();
+      const wantsDetail =
+        Boolean(posting.externalPath) &&
+        detailFetches < MAX_DETAIL_FETCHES &&
+        titleMatchesKeyword(posting.title ?? "", options.keyword ?? "");
+      if (!wantsDetail) {
+        entries.push({ posting, detail: null });
+        continue;
+      }
+      detailFetches += 1;
+      entries.push({
+        posting,
+        detail: await this.httpClient
+          .getJson<WorkdayJobDetail>(`${apiBase}${posting.externalPath}`, {
+            headers: { Accept: "application/json" },
+            signal: options.signal,
+          })
+          .catch(() => null),
+      });
+    }
+    return normalizeWorkdayJobs(entries, site, extractedAt);
+  }
+}
+
+/**
+ * Tenant, data centre and career site from a Workday job or board URL:
+ * `https://{tenant}.{wdN}.myworkdayjobs.com/{locale?}/{site}/...`.
+ */
+export function parseWorkdayUrl(parsedUrl: URL): WorkdaySite | null {
+  const hostname = parsedUrl.hostname.toLowerCase();
+  if (!hostname.endsWith(`.${WORKDAY_HOST}`)) {
+    return null;
+  }
+
+  const [tenant, dataCenter] = hostname.slice(0, -WORKDAY_HOST.length - 1).split(".");
+  if (!tenant || !dataCenter) {
+    return null;
+  }
+
+  const pathParts = parsedUrl.pathname
+    .split("/")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (pathParts[0] === "wday" && pathParts[1] === "cxs") {
+    // API URLs: /wday/cxs/{tenant}/{site}/...
+    return pathParts[3] ? { tenant, dataCenter, site: pathParts[3] } : null;
+  }
+  if (pathParts[0] && /^[a-z]{2}(-[a-z]{2})?$/i.test(pathParts[0])) {
+    pathParts.shift();
+  }
+  const site = pathParts[0];
+  return site ? { tenant, dataCenter, site } : null;
+}
+
+export function formatWorkdayIdentifier(site: WorkdaySite): string {
+  return `${site.tenant}/${site.dataCenter}/${site.site}`;
+}
+
+export function parseWorkdayIdentifier(identifier: string): WorkdaySite | null {
+  const [tenant, dataCenter, site, ...rest] = identifier.split("/");
+  if (!tenant || !dataCenter || !site || rest.length > 0) {
+    return null;
+  }
+  return { tenant, dataCenter, site };
+}
+
+export const workdayProvider = defineAtsProvider({
+  name: "workday",
+  displayName: "Workday",
+  status: "active",
+  domains: ["myworkdayjobs.com"],
+  extractCompanyIdentifier: (url) => {
+    const site = parseWorkdayUrl(url);
+    return site ? formatWorkdayIdentifier(site) : null;
+  },
+  createCrawler: (httpClient) => new WorkdayCrawler(httpClient),
+  capabilities: { salary: false, applyFormSchema: false, departments: false },
+});
+
+export function normalizeWorkdayJobs(
+  entries: WorkdayJobEntry[],
+  site: WorkdaySite,
+  extractedAt: string,
+): DiscoveryJob[] {
+  const origin = workdayOrigin(site);
+  return entries.map(({ posting, detail }) => {
+    const info = detail?.jobPostingInfo;
+    const jobUrl =
+      info?.externalUrl || (posting.externalPath ? `${origin}/${site.site}${posting.externalPath}` : "");
+    const location = info?.location
+      ? [info.location, ...(info.additionalLocations ?? [])].join("; ")
+      : posting.locationsText || "";
+
+    const job = createEmptyDiscoveryJob({
+      id: info?.jobReqId || posting.bulletFields?.[0] || posting.externalPath || info?.id || "",
+      source: "linkedin",
+      title: info?.title || posting.title || "",
+      company: detail?.hiringOrganization?.name || site.tenant,
+      location,
+      description: htmlToText(info?.jobDescription || ""),
+      jobUrl,
+      extractedAt,
+      postedAt: info?.startDate || null,
+    });
+
+    job.source = "workday";
+    job.externalUrl = jobUrl;
+    job.atsType = "workday";
+    job.atsIdentifier = formatWorkdayIdentifier(site);
+    job.jobType = info?.timeType || "";
+    job.workArrangement = normalizeRemoteType(info?.remoteType);
+    return job;
+  });
+}
+
+function workdayOrigin(site: WorkdaySite): string {
+  return `https://${site.tenant}.${site.dataCenter}.${WORKDAY_HOST}`;
+}
+
+function normalizeRemoteType(value: string | undefined): string {
+  const normalized = (value || "").trim().toLowerCase();
+  if (!normalized) {
+    return "";
+  }
+  if (normalized.includes("hybrid")) {
+    return "hybrid";
+  }
+  if (normalized.includes("remote")) {
+    return "remote";
+  }
+  if (normalized.includes("site") || normalized.includes("office")) {
+    return "on-site";
+  }
+  return "";
+}
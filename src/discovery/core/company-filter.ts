@@ -0,0 +1,139 @@
+import { normalizeForDedup } from "./normalize.js";
+import type { DiscoveryJob } from "./types.js";
+
+export type CompanyFilterList = "allow" | "deny";
+/** "company" rules match the employer name, "domain" rules the job's apply/listing hosts. */
+export type CompanyFilterKind = "company" | "domain";
+export type CompanyFilterMatchType = "exact" | "normalized" | "regex";
+
+export interface CompanyFilterRule {
+  list: CompanyFilterList;
+  kind: CompanyFilterKind;
+  matchType: CompanyFilterMatchType;
+  pattern: string;
+}
+
+export interface CompanyFilterVerdict {
+  allowed: boolean;
+  /** The rule (or "allowlist") that rejected the job. */
+  reason?: string;
+}
+
+export interface CompanyFilterLike {
+  check(job: DiscoveryJob): CompanyFilterVerdict;
+}
+
+interface CompiledRule {
+  rule: CompanyFilterRule;
+  matches: (value: string) => boolean;
+}
+
+/**
+ * Deny rules always win. When any allow rule exists, a job must also match
+ * one of them to be kept.
+ */
+export class CompanyFilter implements CompanyFilterLike {
+  private readonly deny: CompiledRule[];
+  private readonly allow: CompiledRule[];
+
+  constructor(rules: CompanyFilterRule[]) {
+    const compiled = rules.map((rule) => ({ rule, matches: compileCompanyFilterRule(rule) }));
+    this.deny = compiled.filter((entry) => entry.rule.list === "deny");
+    this.allow = compiled.filter((entry) => entry.rule.list === "allow");
+  }
+
+  check(job: DiscoveryJob): CompanyFilterVerdict {
+    const hosts = jobHosts(job);
+    const denied = this.deny.find((entry) => matchesJob(entry, job.company, hosts));
+    if (denied) {
+      return { allowed: false, reason: describeRule(denied.rule) };
+    }
+    if (this.allow.length > 0 && !this.allow.some((entry) => matchesJob(entry, job.company, hosts))) {
+      return { allowed: false, reason: "not on allowlist" };
+    }
+    return { allowed: true };
+  }
+}
+
+/** Throws when a regex rule does not compile. */
+export function compileCompanyFilterRule(rule: CompanyFilterRule): (value: string) => boolean {
+  if (rule.matchType === "regex") {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(rule.pattern, "i");
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Invalid company filter pattern: ${reason}`);
+    }
+    return (value) => regex.test(value);
+  }
+
+  if (rule.kind === "domain") {
+    // A domain rule covers its subdomains: "hays.com.au" matches "jobs.hays.com.au".
+    const domain = rule.pattern.trim().toLowerCase().replace(/^www\./, "");
+    return (host) => host === domain || host.endsWith(`.${domain}`);
+  }
+
+  if (rule.matchType === "normalized") {
+    const normalized = normalizeForDedup(rule.pattern);
+    return (value) => normalized !== "" && normalizeForDedup(value) === normalized;
+  }
+
+  const exact = rule.pattern.trim().toLowerCase();
+  return (value) => value.trim().toLowerCase() === exact;
+}
+
+const AGENCY_NAME_PATTERN =
+  /\b(recruit(?:ment|ing|ers?)?|staffing|personnel|headhunt\w*|resourcing|executive search|talent (?:solutions|partners|acquisition|group|international|street)|employment (?:services|agency|solutions)|labou?r hire|workforce solutions)\b/i;
+
+const KNOWN_AGENCIES = new Set(
+  [
+    "Hays",
+    "Robert Half",
+    "Robert Walters",
+    "Michael Page",
+    "Page Personnel",
+    "Randstad",
+    "Adecco",
+    "Hudson",
+    "Peoplebank",
+    "Paxus",
+    "Chandler Macleod",
+    "Aquent",
+    "Sharp & Carter",
+    "Halcyon Knights",
+    "Harvey Nash",
+    "Manpower",
+    "ManpowerGroup",
+    "Kelly Services",
+  ].map(normalizeForDedup),
+);
+
+/** Name-based guess that a "company" is a recruitment agency rather than the employer. */
+export function isProbableRecruitmentAgency(company: string): boolean {
+  return AGENCY_NAME_PATTERN.test(company) || KNOWN_AGENCIES.has(normalizeForDedup(company));
+}
+
+function matchesJob(entry: CompiledRule, company: string, hosts: string[]): boolean {
+  if (entry.rule.kind === "company") {
+    return entry.matches(company);
+  }
+  return hosts.some((host) => entry.matches(host));
+}
+
+function jobHosts(job: DiscoveryJob): string[] {
+  const hosts: string[] = [];
+  for (const url of [job.externalUrl, job.jobUrl]) {
+    if (!url) continue;
+    try {
+      hosts.push(new URL(url).hostname.toLowerCase().replace(/^www\./, ""));
+    } catch {
+      // not a URL we can take a host from
+    }
+  }
+  return hosts;
+}
+
+function describeRule(rule: CompanyFilterRule): string {
+  return `${rule.list} ${rule.kind} ${rule.matchType}: ${rule.pattern}`;
+}
@@ -0,0 +1,260 @@
+import { enrichDiscoveryJob } from "../analysis/enrichment.js";
+import { detectAts, extractKnownAtsUrls } from "../ats/detector.js";
+import { findAtsProviderDefinition, type AtsProviderName } from "../ats/registry.js";
+import { HttpClient } from "../utils/http.js";
+import { HostRateLimiter, type HostDelay } from "../utils/rate-limit.js";
+import type { CompanyFilterLike } from "./company-filter.js";
+import {
+  applyAtsDetection,
+  createDefaultAtsCrawlerFactories,
+  type AtsCrawlerRunner,
+} from "./run-discovery.js";
+import { matchesSearchTerms } from "./search-match.js";
+import type { DiscoveryJob } from "./types.js";
+
+/** A company whose ATS board is crawled directly. */
+export interface WatchlistCompany {
+  id?: number;
+  company: string;
+  atsType?: string | null;
+  atsIdentifier?: string | null;
+  /** Probed for an ATS link when the board itself is not known. */
+  careersUrl?: string | null;
+}
+
+export interface WatchlistCrawlOptions {
+  /** Matched locally against job titles; blank keeps every posting. */
+  keyword: string;
+  /** Matched locally against job locations; blank keeps every posting. */
+  location: string;
+  companies: WatchlistCompany[];
+  /** Delay window in seconds between requests to the same host. */
+  minDelay?: number;
+  maxDelay?: number;
+  hostDelays?: Record<string, HostDelay>;
+}
+
+export interface WatchlistCompanyOutcome {
+  company: WatchlistCompany;
+  atsType: AtsProviderName | null;
+  atsIdentifier: string | null;
+  /** Postings on the board, before keyword/location matching and company filters. */
+  boardJobs: number;
+  matchedJobs: number;
+  error?: string;
+}
+
+export interface WatchlistCrawlResult {
+  jobs: DiscoveryJob[];
+  /** Providers whose every watched board was crawled, i.e. whose missing jobs are really gone. */
+  sources: AtsProviderName[];
+  companies: WatchlistCompanyOutcome[];
+  /** Jobs dropped by the company filter. */
+  filteredJobs: number;
+  /** The crawl was cancelled before every company was crawled. */
+  cancelled: boolean;
+}
+
+export interface CrawlWatchlistDependencies {
+  atsCrawlerFactories?: Partial<Record<AtsProviderName, () => AtsCrawlerRunner>>;
+  extractedAt?: () => string;
+  httpClient?: HttpClient;
+  logger?: (payload: Record<string, unknown>) => void;
+  companyFilter?: CompanyFilterLike;
+  /** Cancels the crawl: companies not yet crawled are skipped. */
+  signal?: AbortSignal;
+  /** Called after each company is crawled with its matching jobs, enabling incremental persistence. */
+  onJobsBatch?: (jobs: DiscoveryJob[], outcome: WatchlistCompanyOutcome) => void;
+}
+
+interface WatchlistBoard {
+  atsType: AtsProviderName;
+  atsIdentifier: string;
+}
+
+/**
+ * Crawls the ATS boards of watched companies instead of searching job sites,
+ * keeping postings that match the keyword and location.
+ */
+export async function crawlWatchlist(
+  options: WatchlistCrawlOptions,
+  dependencies: CrawlWatchlistDependencies = {},
+): Promise<WatchlistCrawlResult> {
+  const logger = dependencies.logger;
+  const httpClient =
+    dependencies.httpClient ??
+    new HttpClient({
+      rateLimiter: new HostRateLimiter({
+        minDelay: options.minDelay,
+        maxDelay: options.maxDelay,
+        hosts: options.hostDelays,
+      }),
+    });
+  const atsCrawlerFactories = {
+    ...createDefaultAtsCrawlerFactories(httpClient),
+    ...(dependencies.atsCrawlerFactories ?? {}),
+  };
+  const extractedAtFactory =
+    dependencies.extractedAt ??
+    (() => new Date().toISOString().replace(/\.\d{3}Z$/, "Z"));
+
+  const jobs: DiscoveryJob[] = [];
+  const outcomes: WatchlistCompanyOutcome[] = [];
+  const crawledBoards = new Set<string>();
+  const crawledProviders = new Set<AtsProviderName>();
+  const failedProviders = new Set<AtsProviderName>();
+  let filteredJobs = 0;
+
+  for (const company of options.companies) {
+    if (dependencies.signal?.aborted) {
+      break;
+    }
+    const outcome: WatchlistCompanyOutcome = {
+      company,
+      atsType: null,
+      atsIdentifier: null,
+      boardJobs: 0,
+      matchedJobs: 0,
+    };
+    outcomes.push(outcome);
+
+    try {
+      const board = await resolveWatchlistBoard(company, httpClient);
+      outcome.atsType = board.atsType;
+      outcome.atsIdentifier = board.atsIdentifier;
+      const boardKey = `${board.atsType}:${board.atsIdentifier}`;
+      if (crawledBoards.has(boardKey)) {
+        continue;
+      }
+      crawledBoards.add(boardKey);
+
+      const crawlerFactory = atsCrawlerFactories[board.atsType];
+      if (!crawlerFactory) {
+        throw new Error(`No crawler registered for ${board.atsType}`);
+      }
+
+      logger?.({
+        event: "discovery_watchlist_company_start",
+        company: company.company,
+        atsType: board.atsType,
+        companyIdentifier: board.atsIdentifier,
+      });
+      const boardJobs = await crawlerFactory().crawlJobs(board.atsIdentifier, extractedAtFactory(), {
+        signal: dependencies.signal,
+        keyword: options.keyword,
+      });
+      outcome.boardJobs = boardJobs.length;
+
+      const batchJobs: DiscoveryJob[] = [];
+      for (const boardJob of boardJobs) {
+        boardJob.atsType = board.atsType;
+        boardJob.atsIdentifier = board.atsIdentifier;
+        const detected = applyAtsDetection(boardJob);
+        if (!matchesSearchTerms(detected, options)) {
+          continue;
+        }
+        const verdict = dependencies.companyFilter?.check(detected) ?? { allowed: true };
+        if (!verdict.allowed) {
+          filteredJobs += 1;
+          logger?.({
+            event: "discovery_company_filtered",
+            source: detected.source,
+            company: detected.company,
+            reason: verdict.reason,
+          });
+          continue;
+        }
+        batchJobs.push(enrichDiscoveryJob(detected));
+      }
+
+      outcome.matchedJobs = batchJobs.length;
+      crawledProviders.add(board.atsType);
+      jobs.push(...batchJobs);
+      logger?.({
+        event: "discovery_watchlist_company_success",
+        company: company.company,
+        atsType: board.atsType,
+        companyIdentifier: board.atsIdentifier,
+        boardJobs: boardJobs.length,
+        matchedJobs: batchJobs.length,
+      });
+      if (batchJobs.length > 0) {
+        dependencies.onJobsBatch?.(batchJobs, outcome);
+      }
+    } catch (error) {
+      if (dependencies.signal?.aborted) {
+        // Not a failure of the board: leave its last crawl outcome as it was.
+        outcomes.pop();
+        break;
+      }
+      outcome.error = error instanceof Error ? error.message : String(error);
+      if (outcome.atsType) {
+        failedProviders.add(outcome.atsType);
+      }
+      logger?.({
+        event: "discovery_watchlist_company_error",
+        company: company.company,
+        atsType: outcome.atsType,
+        companyIdentifier: outcome.atsIdentifier,
+        error: outcome.error,
+      });
+    }
+  }
+
+  const sources = [...crawledProviders].filter((provider) => !failedProviders.has(provider));
+  const cancelled = dependencies.signal?.aborted ?? false;
+  logger?.({
+    event: "discovery_watchlist_complete",
+    totalJobs: jobs.length,
+    crawledCompanies: outcomes.filter((outcome) => !outcome.error).length,
+    failedCompanies: outcomes.filter((outcome) => outcome.error).length,
+    filteredJobs,
+    ...(cancelled ? { cancelled } : {}),
+  });
+  return { jobs, sources, companies: outcomes, filteredJobs, cancelled };
+}
+
+/**
+ * The crawlable board for a watched company: its stored ATS type and
+ * identifier, else the careers URL itself when it is an ATS link, else the
+ * first crawlable ATS link on the careers page.
+ */
+async function resolveWatchlistBoard(
+  company: WatchlistCompany,
+  httpClient: HttpClient,
+): Promise<WatchlistBoard> {
+  if (company.atsType && company.atsIdentifier) {
+    if (!isCrawlableAts(company.atsType)) {
+      throw new Error(`${company.atsType} boards cannot be crawled`);
+    }
+    return { atsType: company.atsType, atsIdentifier: company.atsIdentifier };
+  }
+  if (!company.careersUrl) {
+    throw new Error(`No ATS board or careers URL for ${company.company}`);
+  }
+
+  const direct = boardFromUrl(company.careersUrl);
+  if (direct) {
+    return direct;
+  }
+  const html = await httpClient.getText(company.careersUrl);
+  for (const candidate of extractKnownAtsUrls(html)) {
+    const board = boardFromUrl(candidate);
+    if (board) {
+      return board;
+    }
+  }
+  throw new Error(`No crawlable ATS board found on ${company.careersUrl}`);
+}
+
+function boardFromUrl(url: string): WatchlistBoard | null {
+  const detection = detectAts(url);
+  if (!isCrawlableAts(detection.atsType) || !detection.companyIdentifier) {
+    return null;
+  }
+  return { atsType: detection.atsType, atsIdentifier: detection.companyIdentifier };
+}
+
+function isCrawlableAts(atsType: string): atsType is AtsProviderName {
+  return findAtsProviderDefinition(atsType)?.status === "active";
+}
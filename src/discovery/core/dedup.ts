@@ -0,0 +1,220 @@
+import { jobRichness, normalizeForDedup } from "./normalize.js";
+import type { DiscoveryJob, DiscoveryJobSourceLink } from "./types.js";
+
+export const DEFAULT_DEDUP_THRESHOLD = 0.8;
+
+const TITLE_WEIGHT = 0.6;
+const LOCATION_WEIGHT = 0.15;
+const DESCRIPTION_WEIGHT = 0.25;
+const SHINGLE_SIZE = 3;
+/** Descriptions are compared on their opening words; enough to tell postings apart. */
+const MAX_DESCRIPTION_WORDS = 300;
+
+export interface CrossPlatformDeduperOptions {
+  /** Minimum similarity (0-1) for two jobs at the same company to be merged. */
+  threshold?: number;
+  /** Normalized alias → normalized canonical company name. */
+  companyAliases?: ReadonlyMap<string, string>;
+}
+
+interface IndexedJob {
+  index: number;
+  /** Every source the kept record was seen on, including merged ones. */
+  sources: Set<string>;
+  titleTokens: Set<string>;
+  locationTokens: Set<string>;
+  shingles: Set<string>;
+}
+
+/**
+ * Finds jobs already kept in a run that describe the same posting: same
+ * company (after alias resolution) and a weighted similarity of title tokens,
+ * location and description shingles at or above the threshold. Jobs from a
+ * source the kept record was already seen on are never matched, since two
+ * listing IDs on one board are two jobs, and neither are jobs whose known
+ * locations share no token.
+ */
+export class CrossPlatformDeduper {
+  private readonly threshold: number;
+  private readonly companyAliases: ReadonlyMap<string, string>;
+  private readonly byCompany = new Map<string, IndexedJob[]>();
+
+  constructor(options: CrossPlatformDeduperOptions = {}) {
+    this.threshold = options.threshold ?? DEFAULT_DEDUP_THRESHOLD;
+    this.companyAliases = options.companyAliases ?? new Map();
+  }
+
+  /** Index of the best matching kept job, if any reaches the threshold. */
+  findMatch(job: DiscoveryJob): number | undefined {
+    const candidates = this.byCompany.get(this.companyKey(job.company));
+    if (!candidates) {
+      return undefined;
+    }
+
+    const features = extractFeatures(job);
+    let best: { index: number; score: number } | undefined;
+    for (const candidate of candidates) {
+      if (candidate.sources.has(job.source)) {
+        continue;
+      }
+      const score = similarity(features, candidate);
+      if (score >= this.threshold && (!best || score > best.score)) {
+        best = { index: candidate.index, score };
+      }
+    }
+    return best?.index;
+  }
+
+  /** Register a kept job, or refresh the features of one that was merged. */
+  set(index: number, job: DiscoveryJob): void {
+    const key = this.companyKey(job.company);
+    const bucket = this.byCompany.get(key) ?? [];
+    const entry = { index, ...extractFeatures(job) };
+    const existing = bucket.findIndex((candidate) => candidate.index === index);
+    if (existing === -1) {
+      bucket.push(entry);
+    } else {
+      bucket[existing] = entry;
+    }
+    this.byCompany.set(key, bucket);
+  }
+
+  companyKey(company: string): string {
+    const normalized = normalizeForDedup(company);
+    return this.companyAliases.get(normalized) ?? normalized;
+  }
+}
+
+/**
+ * Combine two records of the same posting. The richer record keeps its
+ * identity; empty fields are filled from the other, the longer description
+ * wins, and every URL the job was seen at is kept in `mergedFrom`.
+ */
+export function mergeDiscoveryJobs(existing: DiscoveryJob, incoming: DiscoveryJob): DiscoveryJob {
+  const [primary, secondary] =
+    jobRichness(incoming) > jobRichness(existing) ? [incoming, existing] : [existing, incoming];
+  const merged: DiscoveryJob = { ...primary };
+
+  for (const field of FILLABLE_FIELDS) {
+    if (isEmptyValue(merged[field]) && !isEmptyValue(secondary[field])) {
+      (merged as unknown as Record<string, unknown>)[field] = secondary[field];
+    }
+  }
+  if (secondary.description.length > merged.description.length) {
+    merged.description = secondary.description;
+  }
+  merged.isPrRequired = primary.isPrRequired || secondary.isPrRequired;
+
+  const links = new Map<string, DiscoveryJobSourceLink>();
+  for (const link of [
+    ...(primary.mergedFrom ?? []),
+    toSourceLink(secondary),
+    ...(secondary.mergedFrom ?? []),
+  ]) {
+    if (link.jobUrl && link.jobUrl !== merged.jobUrl && !links.has(link.jobUrl)) {
+      links.set(link.jobUrl, link);
+    }
+  }
+  merged.mergedFrom = [...links.values()];
+  return merged;
+}
+
+export function tokenSetSimilarity(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared / (a.size + b.size - shared);
+}
+
+const FILLABLE_FIELDS = [
+  "externalUrl",
+  "atsType",
+  "atsIdentifier",
+  "postedAt",
+  "salary",
+  "salaryRaw",
+  "salaryMin",
+  "salaryMax",
+  "salaryCurrency",
+  "salaryPeriod",
+  "jobType",
+  "workArrangement",
+  "applicantCount",
+  "requiredSkills",
+  "techStack",
+  "experienceLevel",
+  "experienceYears",
+  "securityClearance",
+  "prConfidence",
+  "prReasoning",
+  "companyLogoUrl",
+] as const satisfies ReadonlyArray<keyof DiscoveryJob>;
+
+function isEmptyValue(value: unknown): boolean {
+  return value === null || value === undefined || value === "" || value === "[]" || value === "unknown";
+}
+
+function toSourceLink(job: DiscoveryJob): DiscoveryJobSourceLink {
+  return { source: job.source, jobUrl: job.jobUrl, externalUrl: job.externalUrl };
+}
+
+function extractFeatures(job: DiscoveryJob): Omit<IndexedJob, "index"> {
+  return {
+    sources: new Set([job.source, ...(job.mergedFrom ?? []).map((link) => link.source)]),
+    titleTokens: tokenize(job.title),
+    locationTokens: tokenize(job.location),
+    shingles: shingle(job.description),
+  };
+}
+
+function similarity(a: Omit<IndexedJob, "index">, b: Omit<IndexedJob, "index">): number {
+  let score = TITLE_WEIGHT * tokenSetSimilarity(a.titleTokens, b.titleTokens);
+  let weight = TITLE_WEIGHT;
+
+  // Missing locations or descriptions are unknown, not different; two known
+  // locations with nothing in common are different postings.
+  if (a.locationTokens.size > 0 && b.locationTokens.size > 0) {
+    const locationOverlap = overlapCoefficient(a.locationTokens, b.locationTokens);
+    if (locationOverlap === 0) {
+      return 0;
+    }
+    score += LOCATION_WEIGHT * locationOverlap;
+    weight += LOCATION_WEIGHT;
+  }
+  if (a.shingles.size > 0 && b.shingles.size > 0) {
+    score += DESCRIPTION_WEIGHT * tokenSetSimilarity(a.shingles, b.shingles);
+    weight += DESCRIPTION_WEIGHT;
+  }
+  return score / weight;
+}
+
+/** "Sydney NSW" and "Sydney, New South Wales" overlap fully on the smaller side. */
+function overlapCoefficient(a: ReadonlySet<string>, b: ReadonlySet<string>): number {
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared / Math.min(a.size, b.size);
+}
+
+function tokenize(value: string): Set<string> {
+  return new Set(normalizeForDedup(value).split(" ").filter(Boolean));
+}
+
+function shingle(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, MAX_DESCRIPTION_WORDS);
+  const shingles = new Set<string>();
+  for (let i = 0; i + SHINGLE_SIZE <= words.length; i += 1) {
+    shingles.add(words.slice(i, i + SHINGLE_SIZE).join(" "));
+  }
+  return shingles;
+}
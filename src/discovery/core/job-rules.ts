@@ -0,0 +1,49 @@
+import type { JobRow } from "../../storage/sqlite/jobs-repo.js";
+
+/** Rules on stored jobs shared by schedule notifiers and standing alert rules. Every rule that is set must match. */
+export interface JobRules {
+  /** Minimum advertised salary: the job's salary_min must be at least this. */
+  minSalary?: number;
+  workArrangements?: string[];
+  excludeCompanies?: string[];
+  excludePrRequired?: boolean;
+}
+
+export function matchesJobRules(job: JobRow, rules: JobRules): boolean {
+  if (rules.minSalary !== undefined) {
+    const floor = parseAmount(job.salary_min);
+    if (floor === null || floor < rules.minSalary) {
+      return false;
+    }
+  }
+  if (!matchesOneOf(job.work_arrangement, rules.workArrangements)) {
+    return false;
+  }
+  if (rules.excludeCompanies?.length) {
+    const company = job.company.trim().toLowerCase();
+    if (rules.excludeCompanies.some((value) => value.trim().toLowerCase() === company)) {
+      return false;
+    }
+  }
+  if (rules.excludePrRequired && job.is_pr_required === 1) {
+    return false;
+  }
+  return true;
+}
+
+/** Case-insensitive membership; an empty or missing list allows everything, a missing value matches nothing else. */
+export function matchesOneOf(value: string | null, allowed: string[] | undefined): boolean {
+  if (!allowed?.length) {
+    return true;
+  }
+  const normalized = value?.toLowerCase();
+  return Boolean(normalized) && allowed.some((entry) => entry.toLowerCase() === normalized);
+}
+
+function parseAmount(value: string | null): number | null {
+  if (value === null || value.trim() === "") {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
@@ -24,16 +24,6 @@ export function normalizeForDedup(value: string): string {
     .trim();
 }
 
-/**
- * Build a cross-platform dedup key from normalized company + title.
- * This allows detecting the same job posted on different platforms.
- */
-export function crossPlatformDedupKey(job: DiscoveryJob): string {
-  const company = normalizeForDedup(job.company);
-  const title = normalizeForDedup(job.title);
-  return `${company}||${title}`;
-}
-
 /**
  * Count how many non-empty "richness" fields a job has.
  * Used to pick the best version when deduplicating.
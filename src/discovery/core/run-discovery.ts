@@ -1,6 +1,4 @@
 import { enrichDiscoveryJob } from "../analysis/enrichment.js";
-import { GreenhouseCrawler } from "../ats/greenhouse.js";
-import { LeverCrawler } from "../ats/lever.js";
 import { detectAts } from "../ats/detector.js";
 import {
   CompanyCareerDiscoverer,
@@ -8,21 +6,56 @@ import {
   shouldRunCareerDiscovery,
 } from "../fallback/company-site.js";
 import { HttpClient } from "../utils/http.js";
-import { RateLimiter } from "../utils/rate-limit.js";
+import { HostRateLimiter } from "../utils/rate-limit.js";
 import { LinkedInGuestSource } from "../sources/linkedin-guest.js";
 import { SeekBrowserSource } from "../sources/seek-browser.js";
+import { SeekHttpSource } from "../sources/seek-http.js";
 import { IndeedBrowserSource } from "../sources/indeed-browser.js";
 import { JoraBrowserSource } from "../sources/jora-browser.js";
-import { getActiveDiscoverySourceNames } from "../sources/registry.js";
-import { crossPlatformDedupKey, jobRichness } from "./normalize.js";
-import type { DiscoverySourceRunner } from "../sources/base.js";
-import type { AtsProviderName } from "../ats/registry.js";
+import { GlassdoorBrowserSource } from "../sources/glassdoor-browser.js";
+import { WorkforceAustraliaSource } from "../sources/workforce-australia.js";
+import { CareerOneSource } from "../sources/careerone.js";
+import { RemotiveSource } from "../sources/remotive.js";
+import { WeWorkRemotelySource } from "../sources/we-work-remotely.js";
+import { RemoteOkSource } from "../sources/remoteok.js";
+import { HackerNewsHiringSource } from "../sources/hacker-news.js";
+import { getDefaultDiscoverySourceNames, getDiscoverySourceDefinition } from "../sources/registry.js";
+import { CrossPlatformDeduper, mergeDiscoveryJobs } from "./dedup.js";
+import { isProbableRecruitmentAgency, type CompanyFilterLike } from "./company-filter.js";
+import { matchesSearchFilters } from "./search-filters.js";
+import type { DiscoverySourceRunner, KnownJobLookup } from "../sources/base.js";
+import {
+  findAtsProviderDefinition,
+  getAllAtsProviderDefinitions,
+  type AtsProviderName,
+} from "../ats/registry.js";
+import type { AtsCrawler } from "../ats/provider.js";
 import type { DiscoveryJob, DiscoveryRunOptions, DiscoveryRunResult, DiscoverySourceName } from "./types.js";
 import type { CompanyCareerDiscovererLike } from "../fallback/company-site.js";
 
-export interface AtsCrawlerRunner {
-  name: AtsProviderName;
-  crawlJobs(companyIdentifier: string, extractedAt: string): Promise<DiscoveryJob[]>;
+export type AtsCrawlerRunner = AtsCrawler<AtsProviderName>;
+
+/** What an interrupted run already finished for one source. */
+export interface SourceCheckpoint {
+  /** Jobs from the finished pages, or from the whole source once complete. */
+  jobs: DiscoveryJob[];
+  /** Last finished page; the source resumes at the one after it. */
+  lastPage: number;
+  /** The source finished, so its jobs are used without running it again. */
+  complete: boolean;
+}
+
+/**
+ * A run's progress, saved as it goes so an interrupted run can resume from
+ * its last completed page and ATS expansion.
+ */
+export interface DiscoveryCheckpointStore {
+  loadSource(source: DiscoverySourceName): SourceCheckpoint | null;
+  savePage(source: DiscoverySourceName, page: number, jobs: DiscoveryJob[]): void;
+  completeSource(source: DiscoverySourceName, jobs: DiscoveryJob[]): void;
+  /** Jobs an ATS board returned earlier in the run, or null when it was not crawled yet. */
+  loadAtsCrawl(companyKey: string): DiscoveryJob[] | null;
+  saveAtsCrawl(companyKey: string, jobs: DiscoveryJob[]): void;
 }
 
 export interface RunDiscoveryDependencies {
@@ -32,6 +65,16 @@ export interface RunDiscoveryDependencies {
   httpClient?: HttpClient;
   careerDiscoverer?: CompanyCareerDiscovererLike;
   logger?: (payload: Record<string, unknown>) => void;
+  /** Company/domain allow and deny rules, applied before enrichment and ATS expansion. */
+  companyFilter?: CompanyFilterLike;
+  /** Normalized company alias → normalized canonical name, used by cross-platform dedup. */
+  companyAliases?: ReadonlyMap<string, string>;
+  /** Cancels the run: no new sources or ATS expansions start, and the jobs found so far are kept. */
+  signal?: AbortSignal;
+  /** Stored jobs; when set, sources skip detail fetches for the ones they already know. */
+  knownJobs?: KnownJobLookup;
+  /** Saves each finished page and ATS crawl, and supplies them again when the run is resumed. */
+  checkpoints?: DiscoveryCheckpointStore;
   /** Called after each source completes with its batch of jobs, enabling incremental persistence. */
   onJobsBatch?: (jobs: DiscoveryJob[], source: DiscoverySourceName) => void;
 }
@@ -40,14 +83,17 @@ export async function runDiscovery(
   options: DiscoveryRunOptions,
   dependencies: RunDiscoveryDependencies = {},
 ): Promise<DiscoveryRunResult> {
-  const selectedSources = options.sources ?? getActiveDiscoverySourceNames();
+  const selectedSources = options.sources ?? getDefaultDiscoverySourceNames(options.filters);
   const logger = dependencies.logger;
+  const signal = dependencies.signal;
+  const checkpoints = dependencies.checkpoints;
   const httpClient =
     dependencies.httpClient ??
     new HttpClient({
-      rateLimiter: new RateLimiter({
+      rateLimiter: new HostRateLimiter({
         minDelay: options.minDelay,
         maxDelay: options.maxDelay,
+        hosts: options.hostDelays,
       }),
     });
   const sourceFactories = {
@@ -76,14 +122,48 @@ export async function runDiscovery(
   const failedSources: DiscoverySourceName[] = [];
   const expandedCompanies: string[] = [];
   const expandedCompanyKeys = new Set<string>();
+  let filteredJobs = 0;
+  let searchFilteredJobs = 0;
+  const keepJob = (job: DiscoveryJob): boolean => {
+    job.isProbableAgency = isProbableRecruitmentAgency(job.company);
+    const verdict = dependencies.companyFilter?.check(job) ?? { allowed: true };
+    const reason = !verdict.allowed
+      ? verdict.reason
+      : job.isProbableAgency && options.excludeRecruitmentAgencies
+        ? "probable recruitment agency"
+        : undefined;
+    if (reason === undefined) {
+      return true;
+    }
+    filteredJobs += 1;
+    logger?.({
+      event: "discovery_company_filtered",
+      source: job.source,
+      company: job.company,
+      reason,
+    });
+    return false;
+  };
   const careerDiscoveryCache = new Map<string, unknown>();
   const seenJobs = new Set<string>();
-  /** Maps normalized company+title → index in `jobs` array for cross-platform dedup. */
-  const crossPlatformSeen = new Map<string, number>();
+  const deduper = new CrossPlatformDeduper({
+    threshold: options.dedupThreshold,
+    companyAliases: dependencies.companyAliases,
+  });
+  let crossPlatformMerges = 0;
   const sourceResults = await mapWithConcurrency(
     selectedSources,
     2,
     async (sourceName): Promise<SourceRunResult> => {
+      if (signal?.aborted) {
+        return {
+          sourceName,
+          success: false,
+          cancelled: true,
+          jobs: [],
+          expandedCompanies: [],
+        };
+      }
       const factory = sourceFactories[sourceName];
       if (!factory) {
         return {
@@ -104,43 +184,88 @@ export async function runDiscovery(
 
       try {
         const source = factory();
-        const discoveredJobs = await source.discoverJobs({
-          keyword: options.keyword,
-          location: options.location,
-          pages: options.pages ?? 30,
-          extractedAt: extractedAtFactory(),
-          onProgress: (info) => {
-            logger?.({
-              event: "discovery_source_page",
-              source: sourceName,
-              page: info.page,
-              totalPages: info.totalPages,
-              jobsFound: info.jobsFound,
-            });
-          },
-        });
+        const checkpoint = checkpoints?.loadSource(sourceName) ?? null;
+        if (checkpoint) {
+          logger?.({
+            event: "discovery_source_resumed",
+            source: sourceName,
+            checkpointedJobs: checkpoint.jobs.length,
+            ...(checkpoint.complete ? { complete: true } : { nextPage: checkpoint.lastPage + 1 }),
+          });
+        }
+        const discoveredJobs = checkpoint?.complete
+          ? checkpoint.jobs
+          : [
+              ...(checkpoint?.jobs ?? []),
+              ...(await source.discoverJobs({
+                keyword: options.keyword,
+                location: options.location,
+                filters: options.filters,
+                knownJobs: dependencies.knownJobs,
+                pages: options.pages ?? 30,
+                startPage: checkpoint ? checkpoint.lastPage + 1 : undefined,
+                extractedAt: extractedAtFactory(),
+                signal,
+                onProgress: (info) => {
+                  logger?.({
+                    event: "discovery_source_page",
+                    source: sourceName,
+                    page: info.page,
+                    totalPages: info.totalPages,
+                    jobsFound: info.jobsFound,
+                  });
+                },
+                onPageComplete: checkpoints
+                  ? (page, pageJobs) => checkpoints.savePage(sourceName, page, pageJobs)
+                  : undefined,
+              })),
+            ];
+        // A cancelled source returns early, so only its finished pages count.
+        if (!signal?.aborted) {
+          checkpoints?.completeSource(sourceName, discoveredJobs);
+        }
         logger?.({
           event: "discovery_source_success",
           source: sourceName,
           discoveredJobs: discoveredJobs.length,
+          ...(dependencies.knownJobs
+            ? { knownJobsReused: discoveredJobs.filter((job) => job.detailSkipped).length }
+            : {}),
         });
 
         const sourceJobs: DiscoveryJob[] = [];
         const sourceExpandedCompanies: string[] = [];
+        const matchesFilters = (job: DiscoveryJob, skip = source.nativeFilters): boolean => {
+          if (matchesSearchFilters(job, options.filters, { skip })) {
+            return true;
+          }
+          searchFilteredJobs += 1;
+          return false;
+        };
 
         for (const job of discoveredJobs) {
+          const detected = applyAtsDetection(job);
+          if (!keepJob(detected)) {
+            continue;
+          }
+          // After a cancel the jobs already fetched are kept, without further requests.
           const enriched = enrichDiscoveryJob(
-            await maybeApplyCareerDiscovery(
-              applyAtsDetection(job),
-              options,
-              careerDiscoverer,
-              careerDiscoveryCache,
-              logger,
-            ),
+            signal?.aborted
+              ? detected
+              : await maybeApplyCareerDiscovery(
+                  detected,
+                  options,
+                  careerDiscoverer,
+                  careerDiscoveryCache,
+                  logger,
+                ),
           );
-          sourceJobs.push(enriched);
+          // A job outside the filters still points at a company worth expanding.
+          if (matchesFilters(enriched)) {
+            sourceJobs.push(enriched);
+          }
 
-          if (!isSupportedAts(enriched.atsType) || !enriched.atsIdentifier) {
+          if (signal?.aborted || !isSupportedAts(enriched.atsType) || !enriched.atsIdentifier) {
             continue;
           }
 
@@ -162,10 +287,24 @@ export async function runDiscovery(
             atsType: enriched.atsType,
             companyIdentifier: enriched.atsIdentifier,
           });
-          const atsJobs = await crawlerFactory().crawlJobs(
-            enriched.atsIdentifier,
-            extractedAtFactory(),
-          );
+          let atsJobs = checkpoints?.loadAtsCrawl(companyKey) ?? null;
+          if (!atsJobs) {
+            try {
+              atsJobs = await crawlerFactory().crawlJobs(
+                enriched.atsIdentifier,
+                extractedAtFactory(),
+                { signal, keyword: options.keyword },
+              );
+            } catch (error) {
+              if (signal?.aborted) {
+                continue;
+              }
+              throw error;
+            }
+            if (!signal?.aborted) {
+              checkpoints?.saveAtsCrawl(companyKey, atsJobs);
+            }
+          }
           logger?.({
             event: "discovery_ats_expand_success",
             source: enriched.source,
@@ -177,7 +316,14 @@ export async function runDiscovery(
             atsJob.source = enriched.source;
             atsJob.atsType = enriched.atsType;
             atsJob.atsIdentifier = enriched.atsIdentifier;
-            sourceJobs.push(enrichDiscoveryJob(applyAtsDetection(atsJob)));
+            const detectedAtsJob = applyAtsDetection(atsJob);
+            if (!keepJob(detectedAtsJob)) {
+              continue;
+            }
+            const enrichedAtsJob = enrichDiscoveryJob(detectedAtsJob);
+            if (matchesFilters(enrichedAtsJob, [])) {
+              sourceJobs.push(enrichedAtsJob);
+            }
           }
         }
 
@@ -188,6 +334,16 @@ export async function runDiscovery(
           expandedCompanies: sourceExpandedCompanies,
         };
       } catch (error) {
+        if (signal?.aborted) {
+          logger?.({ event: "discovery_source_cancelled", source: sourceName });
+          return {
+            sourceName,
+            success: false,
+            cancelled: true,
+            jobs: [],
+            expandedCompanies: [],
+          };
+        }
         logger?.({
           event: "discovery_source_error",
           source: sourceName,
@@ -211,57 +367,60 @@ export async function runDiscovery(
       for (const job of result.jobs) {
         if (!pushJob(jobs, seenJobs, job)) continue;
 
-        // Cross-platform dedup: same company+title from different sources
-        const xKey = crossPlatformDedupKey(job);
-        const existingIdx = crossPlatformSeen.get(xKey);
+        // Cross-platform dedup: the same posting seen again, possibly on another source
+        const existingIdx = deduper.findMatch(job);
         if (existingIdx !== undefined) {
-          // Keep the version with richer data
-          const existing = jobs[existingIdx];
-          if (jobRichness(job) > jobRichness(existing)) {
-            jobs[existingIdx] = job;
-            // Replace in batch if the existing was in current batch
-            const batchIdx = batchJobs.indexOf(existing);
-            if (batchIdx !== -1) batchJobs[batchIdx] = job;
-          }
-          // Pop the duplicate we just pushed
+          // Pop the duplicate we just pushed and fold it into the kept record
           jobs.pop();
+          const existing = jobs[existingIdx];
+          const merged = mergeDiscoveryJobs(existing, job);
+          jobs[existingIdx] = merged;
+          deduper.set(existingIdx, merged);
+          crossPlatformMerges += 1;
+          // Re-emit jobs persisted by an earlier batch so the merge is stored too
+          const batchIdx = batchJobs.indexOf(existing);
+          if (batchIdx !== -1) batchJobs[batchIdx] = merged;
+          else batchJobs.push(merged);
           continue;
         }
-        crossPlatformSeen.set(xKey, jobs.length - 1);
+        deduper.set(jobs.length - 1, job);
         batchJobs.push(job);
       }
       if (batchJobs.length > 0) {
         dependencies.onJobsBatch?.(batchJobs, result.sourceName);
       }
-    } else {
+    } else if (!result.cancelled) {
       failedSources.push(result.sourceName);
     }
   }
+  const cancelled = signal?.aborted ?? false;
 
-  const dedupedCount = Array.from(crossPlatformSeen.values()).length;
-  const totalBeforeDedup = sourceResults.reduce(
-    (sum, r) => sum + (r.success ? r.jobs.length : 0),
-    0,
-  );
   logger?.({
     event: "discovery_run_complete",
     successfulSources,
     failedSources,
     totalJobs: jobs.length,
     expandedCompanies,
-    crossPlatformDuplicatesRemoved: totalBeforeDedup - jobs.length,
+    crossPlatformDuplicatesRemoved: crossPlatformMerges,
+    filteredJobs,
+    searchFilteredJobs,
+    ...(cancelled ? { cancelled } : {}),
   });
   return {
     jobs,
     sources: successfulSources,
     failedSources,
     expandedCompanies,
+    filteredJobs,
+    cancelled,
   };
 }
 
 interface SourceRunResult {
   sourceName: DiscoverySourceName;
   success: boolean;
+  /** The run was cancelled before or during this source. */
+  cancelled?: boolean;
   jobs: DiscoveryJob[];
   expandedCompanies: string[];
 }
@@ -269,21 +428,39 @@ interface SourceRunResult {
 function createDefaultSourceFactories(
   httpClient: HttpClient,
 ): Partial<Record<DiscoverySourceName, () => DiscoverySourceRunner>> {
+  const seek = getDiscoverySourceDefinition("seek");
   return {
     linkedin: () => new LinkedInGuestSource(httpClient),
-    seek: () => new SeekBrowserSource(),
+    seek: () =>
+      seek.transport === "http"
+        ? new SeekHttpSource(httpClient, {
+            fallback:
+              seek.fallbackTransport === "browser" ? () => new SeekBrowserSource() : undefined,
+          })
+        : new SeekBrowserSource(),
     indeed: () => new IndeedBrowserSource(),
     jora: () => new JoraBrowserSource(),
+    glassdoor: () => new GlassdoorBrowserSource(),
+    workforce_australia: () => new WorkforceAustraliaSource(httpClient),
+    careerone: () => new CareerOneSource(httpClient),
+    remotive: () => new RemotiveSource(httpClient),
+    we_work_remotely: () => new WeWorkRemotelySource(httpClient),
+    remoteok: () => new RemoteOkSource(httpClient),
+    hackernews: () => new HackerNewsHiringSource(httpClient),
   };
 }
 
-function createDefaultAtsCrawlerFactories(
+export function createDefaultAtsCrawlerFactories(
   httpClient: HttpClient,
 ): Partial<Record<AtsProviderName, () => AtsCrawlerRunner>> {
-  return {
-    greenhouse: () => new GreenhouseCrawler(httpClient),
-    lever: () => new LeverCrawler(httpClient),
-  };
+  const factories: Partial<Record<AtsProviderName, () => AtsCrawlerRunner>> = {};
+  for (const definition of getAllAtsProviderDefinitions()) {
+    const createCrawler = definition.createCrawler;
+    if (createCrawler) {
+      factories[definition.name] = () => createCrawler(httpClient);
+    }
+  }
+  return factories;
 }
 
 async function mapWithConcurrency<T, TResult>(
@@ -308,7 +485,7 @@ async function mapWithConcurrency<T, TResult>(
   return results;
 }
 
-function applyAtsDetection(job: DiscoveryJob): DiscoveryJob {
+export function applyAtsDetection(job: DiscoveryJob): DiscoveryJob {
   const detection = detectAts(job.externalUrl || null, {
     easyApply: job.atsType === "linkedin_easy_apply",
   });
@@ -339,7 +516,7 @@ function pushJob(
 }
 
 function isSupportedAts(atsType: DiscoveryJob["atsType"]): atsType is AtsProviderName {
-  return atsType === "greenhouse" || atsType === "lever";
+  return findAtsProviderDefinition(atsType)?.status === "active";
 }
 
 async function maybeApplyCareerDiscovery(
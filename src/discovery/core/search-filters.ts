@@ -0,0 +1,92 @@
+import type {
+  DatePostedWindow,
+  DiscoveryJob,
+  DiscoverySearchFilters,
+  SearchFilterName,
+} from "./types.js";
+
+const DATE_POSTED_WINDOW_MS: Record<DatePostedWindow, number> = {
+  "24h": 24 * 60 * 60 * 1000,
+  "3d": 3 * 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+};
+
+/** Rough multipliers to compare advertised pay with an annual floor. */
+const ANNUAL_SALARY_MULTIPLIERS: Record<string, number> = {
+  year: 1,
+  month: 12,
+  week: 52,
+  day: 260,
+  hour: 2080,
+};
+
+export function hasSearchFilters(filters: DiscoverySearchFilters | undefined): boolean {
+  return Object.values(filters ?? {}).some((value) =>
+    Array.isArray(value) ? value.length > 0 : value !== undefined,
+  );
+}
+
+/**
+ * Whether an enriched job passes the search filters, skipping the ones a
+ * source already applied natively. A job is only rejected on what it states:
+ * a job without a posting date, work arrangement, job type, experience level
+ * or salary passes the matching filter. The radius has no post-filter.
+ */
+export function matchesSearchFilters(
+  job: DiscoveryJob,
+  filters: DiscoverySearchFilters | undefined,
+  options: { skip?: ReadonlyArray<SearchFilterName>; now?: Date } = {},
+): boolean {
+  if (!filters) {
+    return true;
+  }
+  const applies = (name: SearchFilterName) =>
+    filters[name] !== undefined && !options.skip?.includes(name);
+
+  if (applies("datePosted") && job.postedAt) {
+    const postedAt = Date.parse(job.postedAt);
+    const now = (options.now ?? new Date()).getTime();
+    if (!Number.isNaN(postedAt) && now - postedAt > DATE_POSTED_WINDOW_MS[filters.datePosted!]) {
+      return false;
+    }
+  }
+  if (applies("workArrangements") && filters.workArrangements!.length > 0 && job.workArrangement) {
+    const arrangement = normalizeLabel(job.workArrangement).replace(/^onsite$/, "on-site");
+    if (!filters.workArrangements!.some((wanted) => arrangement === wanted)) {
+      return false;
+    }
+  }
+  if (applies("employmentTypes") && filters.employmentTypes!.length > 0 && job.jobType) {
+    const jobType = normalizeLabel(job.jobType).replace(/\binternship\b|\bintern\b/, "internship");
+    if (!filters.employmentTypes!.some((wanted) => jobType.includes(wanted))) {
+      return false;
+    }
+  }
+  if (applies("experienceLevels") && filters.experienceLevels!.length > 0 && job.experienceLevel) {
+    const level = normalizeLabel(job.experienceLevel);
+    if (!filters.experienceLevels!.some((wanted) => level === wanted)) {
+      return false;
+    }
+  }
+  if (applies("salaryMin")) {
+    const top = parseAmount(job.salaryMax) ?? parseAmount(job.salaryMin);
+    const multiplier = ANNUAL_SALARY_MULTIPLIERS[job.salaryPeriod || "year"];
+    if (top !== null && multiplier !== undefined && top * multiplier < filters.salaryMin!) {
+      return false;
+    }
+  }
+  return true;
+}
+
+function normalizeLabel(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, "-");
+}
+
+function parseAmount(value: string): number | null {
+  if (!value.trim()) {
+    return null;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
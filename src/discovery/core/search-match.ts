@@ -0,0 +1,45 @@
+import type { DiscoveryJob } from "./types.js";
+
+export interface SearchTerms {
+  keyword: string;
+  location: string;
+}
+
+/**
+ * Local stand-in for a job site's search, used where jobs are crawled without
+ * one (e.g. whole ATS boards). Every keyword term must appear in the title;
+ * the location must appear in the job's location, and remote roles or roles
+ * without a location are kept. Blank terms match everything.
+ */
+export function matchesSearchTerms(job: DiscoveryJob, terms: SearchTerms): boolean {
+  return titleMatchesKeyword(job.title, terms.keyword) && matchesLocation(job, terms.location);
+}
+
+/** Every keyword term appears in the title; a blank keyword matches everything. */
+export function titleMatchesKeyword(title: string, keyword: string): boolean {
+  const words = tokenize(keyword);
+  if (words.length === 0) {
+    return true;
+  }
+  const titleWords = new Set(tokenize(title));
+  return words.every((word) => titleWords.has(word));
+}
+
+function matchesLocation(job: DiscoveryJob, location: string): boolean {
+  const wanted = tokenize(location).join(" ");
+  if (!wanted) {
+    return true;
+  }
+  const jobLocation = tokenize(job.location).join(" ");
+  if (!jobLocation || job.workArrangement === "remote") {
+    return true;
+  }
+  return ` ${jobLocation} `.includes(` ${wanted} `);
+}
+
+function tokenize(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9+#]+/)
+    .filter(Boolean);
+}
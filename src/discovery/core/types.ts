@@ -1,17 +1,21 @@
-export type DiscoverySourceName = "linkedin" | "seek" | "indeed" | "jora";
-export type DiscoveryJobSourceName =
-  | DiscoverySourceName
-  | "greenhouse"
-  | "lever";
+import type { AtsProviderName } from "../ats/registry.js";
+import type { HostDelay } from "../utils/rate-limit.js";
 
-export type AtsType =
-  | "unknown"
-  | "linkedin_easy_apply"
-  | "greenhouse"
-  | "lever"
-  | "workday"
-  | "smartrecruiters"
-  | "ashby";
+export type DiscoverySourceName =
+  | "linkedin"
+  | "seek"
+  | "indeed"
+  | "jora"
+  | "glassdoor"
+  | "workforce_australia"
+  | "careerone"
+  | "remotive"
+  | "we_work_remotely"
+  | "remoteok"
+  | "hackernews";
+export type DiscoveryJobSourceName = DiscoverySourceName | AtsProviderName;
+
+export type AtsType = "unknown" | "linkedin_easy_apply" | AtsProviderName;
 
 export interface DiscoveryJob {
   id: string;
@@ -46,19 +50,77 @@ export interface DiscoveryJob {
   companyLogoUrl: string;
   isAlreadyApplied: boolean;
   appliedDateUtc: string;
+  /** The company name looks like a recruitment agency rather than the employer. */
+  isProbableAgency: boolean;
+  /** Other listings of the same posting that cross-platform dedup folded into this one. */
+  mergedFrom?: DiscoveryJobSourceLink[];
+  /** An incremental run reused the stored details instead of fetching them again. */
+  detailSkipped?: boolean;
+}
+
+export interface DiscoveryJobSourceLink {
+  source: DiscoveryJobSourceName;
+  jobUrl: string;
+  externalUrl: string;
 }
 
+export type DatePostedWindow = "24h" | "3d" | "week" | "month";
+export type SearchWorkArrangement = "remote" | "hybrid" | "on-site";
+export type SearchEmploymentType =
+  | "full-time"
+  | "part-time"
+  | "contract"
+  | "casual"
+  | "temporary"
+  | "internship";
+export type SearchExperienceLevel = "intern" | "graduate" | "junior" | "mid" | "senior" | "lead";
+
+/**
+ * Structured search filters. Sources map what they support to their own query
+ * parameters; the engine applies the rest to the jobs it gets back.
+ */
+export interface DiscoverySearchFilters {
+  datePosted?: DatePostedWindow;
+  workArrangements?: SearchWorkArrangement[];
+  employmentTypes?: SearchEmploymentType[];
+  experienceLevels?: SearchExperienceLevel[];
+  /** Minimum annual salary; the top of the advertised range must reach it. */
+  salaryMin?: number;
+  /** Distance around the location, in km. Only applied by sources that support it. */
+  radiusKm?: number;
+}
+
+export type SearchFilterName = keyof DiscoverySearchFilters;
+
 export interface DiscoveryRunOptions {
   keyword: string;
   location: string;
+  filters?: DiscoverySearchFilters;
   sources?: DiscoverySourceName[];
   pages?: number;
+  /**
+   * Delay window in seconds between requests to the same host. Setting it
+   * replaces the built-in LinkedIn and ATS host windows too.
+   */
   minDelay?: number;
   maxDelay?: number;
+  /** Delay windows for particular hosts, e.g. `{ "linkedin.com": { minDelay: 3, maxDelay: 5 } }`. */
+  hostDelays?: Record<string, HostDelay>;
   careerDiscovery?: boolean;
   careerDiscoveryOnlyUnknown?: boolean;
   careerDiscoveryMaxProbes?: number;
   careerPaths?: string[];
+  /** Drop jobs from probable recruitment agencies instead of only flagging them. */
+  excludeRecruitmentAgencies?: boolean;
+  /** Similarity (0-1) at which two jobs at the same company are merged. Defaults to 0.8. */
+  dedupThreshold?: number;
+}
+
+/** What a discovery run was started with, stored on the run so it can be resumed. */
+export interface StoredDiscoveryRunOptions extends DiscoveryRunOptions {
+  /** Reuse the stored details of known jobs. */
+  incremental?: boolean;
+  refreshAfterHours?: number;
 }
 
 export interface DiscoveryRunResult {
@@ -66,6 +128,10 @@ export interface DiscoveryRunResult {
   sources: DiscoverySourceName[];
   failedSources: DiscoverySourceName[];
   expandedCompanies: string[];
+  /** Jobs dropped by the company filter or agency exclusion before enrichment. */
+  filteredJobs: number;
+  /** The run was cancelled; `jobs` holds what was collected before it stopped. */
+  cancelled: boolean;
 }
 
 export interface DiscoveryJobSeed {
@@ -114,5 +180,6 @@ export function createEmptyDiscoveryJob(seed: DiscoveryJobSeed): DiscoveryJob {
     companyLogoUrl: "",
     isAlreadyApplied: false,
     appliedDateUtc: "",
+    isProbableAgency: false,
   };
 }
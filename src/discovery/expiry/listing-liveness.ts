@@ -0,0 +1,128 @@
+import { DEFAULT_HEADERS } from "../utils/http.js";
+
+const GREENHOUSE_JOB_URL = "https://boards-api.greenhouse.io/v1/boards/{company}/jobs/{jobId}";
+const LEVER_JOB_URL = "https://api.lever.co/v0/postings/{company}/{postingId}";
+
+const CLOSED_STATUS_CODES = new Set([404, 410]);
+const CLOSED_PAGE_MARKERS = [
+  /no longer accepting applications/i,
+  /this job (?:has )?(?:expired|closed)/i,
+  /job (?:is )?no longer available/i,
+  /position has been filled/i,
+  /this job ad has expired/i,
+  /job posting (?:is )?(?:closed|no longer active)/i,
+];
+
+export type ListingLiveness = "open" | "closed" | "unknown";
+
+export interface ListingLivenessTarget {
+  url: string;
+  jobUrl?: string | null;
+  externalUrl?: string | null;
+  atsType?: string | null;
+  atsIdentifier?: string | null;
+}
+
+export interface ListingLivenessCheckerLike {
+  check(target: ListingLivenessTarget): Promise<ListingLiveness>;
+}
+
+export interface ListingLivenessCheckerOptions {
+  fetchImpl?: typeof fetch;
+  timeoutMs?: number;
+}
+
+/**
+ * Single-request check of whether a listing still exists. Greenhouse and Lever
+ * postings are looked up through their public APIs; anything else is fetched
+ * directly and judged by status code and "no longer available" page text.
+ * Never retries — an inconclusive answer is reported as "unknown".
+ */
+export class ListingLivenessChecker implements ListingLivenessCheckerLike {
+  private readonly fetchImpl: typeof fetch;
+  private readonly timeoutMs: number;
+
+  constructor(options: ListingLivenessCheckerOptions = {}) {
+    this.fetchImpl = options.fetchImpl ?? fetch;
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  async check(target: ListingLivenessTarget): Promise<ListingLiveness> {
+    const atsApiUrl = buildAtsApiUrl(target);
+    if (atsApiUrl) {
+      return this.fetchStatus(atsApiUrl, false);
+    }
+
+    const pageUrl = target.jobUrl || target.url;
+    return pageUrl ? this.fetchStatus(pageUrl, true) : "unknown";
+  }
+
+  private async fetchStatus(url: string, inspectBody: boolean): Promise<ListingLiveness> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method: "GET",
+        headers: DEFAULT_HEADERS,
+        redirect: "follow",
+        signal: controller.signal,
+      });
+
+      if (CLOSED_STATUS_CODES.has(response.status)) {
+        return "closed";
+      }
+      if (!response.ok) {
+        return "unknown";
+      }
+      if (inspectBody) {
+        const body = await response.text();
+        if (CLOSED_PAGE_MARKERS.some((pattern) => pattern.test(body))) {
+          return "closed";
+        }
+      }
+      return "open";
+    } catch {
+      return "unknown";
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+}
+
+function buildAtsApiUrl(target: ListingLivenessTarget): string | null {
+  const company = target.atsIdentifier;
+  if (!company) {
+    return null;
+  }
+
+  const candidates = [target.externalUrl, target.jobUrl, target.url].filter(
+    (value): value is string => Boolean(value),
+  );
+
+  for (const candidate of candidates) {
+    let parsed: URL;
+    try {
+      parsed = new URL(candidate);
+    } catch {
+      continue;
+    }
+    const hostname = parsed.hostname.toLowerCase();
+
+    if (target.atsType === "greenhouse" && hostname.includes("greenhouse.io")) {
+      const jobId = parsed.pathname.match(/\/jobs\/(\d+)/)?.[1] ?? parsed.searchParams.get("gh_jid");
+      if (jobId) {
+        return GREENHOUSE_JOB_URL.replace("{company}", company).replace("{jobId}", jobId);
+      }
+    }
+
+    if (target.atsType === "lever" && hostname.endsWith("lever.co")) {
+      const postingId = parsed.pathname.split("/").filter(Boolean)[1];
+      if (postingId) {
+        return LEVER_JOB_URL.replace("{company}", company).replace("{postingId}", postingId);
+      }
+    }
+  }
+
+  return null;
+}
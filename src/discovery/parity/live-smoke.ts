@@ -237,6 +237,27 @@ function isPrimaryPlatformJob(job: DiscoveryJob, source: string): boolean {
     if (source === "jora") {
       return hostname.includes("jora.");
     }
+    if (source === "glassdoor") {
+      return hostname.includes("glassdoor.");
+    }
+    if (source === "workforce_australia") {
+      return hostname.includes("workforceaustralia.gov.au");
+    }
+    if (source === "careerone") {
+      return hostname.includes("careerone.");
+    }
+    if (source === "remotive") {
+      return hostname.includes("remotive.");
+    }
+    if (source === "we_work_remotely") {
+      return hostname.includes("weworkremotely.");
+    }
+    if (source === "remoteok") {
+      return hostname.includes("remoteok.");
+    }
+    if (source === "hackernews") {
+      return hostname.includes("ycombinator.com");
+    }
   } catch {
     return true;
   }
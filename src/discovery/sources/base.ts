@@ -1,14 +1,79 @@
-import type { DiscoveryJob, DiscoverySourceName } from "../core/types.js";
+import type {
+  DiscoveryJob,
+  DiscoverySearchFilters,
+  DiscoverySourceName,
+  SearchFilterName,
+} from "../core/types.js";
 
 export interface DiscoverSourceRequest {
   keyword: string;
   location: string;
+  filters?: DiscoverySearchFilters;
+  /** Set for incremental runs: sources skip detail fetches for fresh known jobs. */
+  knownJobs?: KnownJobLookup;
   pages: number;
+  /**
+   * First page to fetch, when resuming a run whose earlier pages are already
+   * checkpointed. Defaults to 1; sources that do not page ignore it.
+   */
+  startPage?: number;
   extractedAt: string;
+  /**
+   * Aborted when the run is cancelled. Sources stop paging and return the jobs
+   * they already have; an in-flight request may throw instead.
+   */
+  signal?: AbortSignal;
   onProgress?: (info: { page: number; totalPages: number; jobsFound: number }) => void;
+  /** Called with a page's jobs once they are final, so the run can checkpoint them. */
+  onPageComplete?: (page: number, jobs: DiscoveryJob[]) => void;
+}
+
+/** Jobs stored by earlier runs, looked up by listing URL. */
+export interface KnownJobLookup {
+  /** The stored job, or null when the listing has not been seen before. */
+  find(jobUrl: string): KnownJob | null;
+}
+
+export interface KnownJob {
+  job: DiscoveryJob;
+  /** Its details are older than the refresh TTL and should be fetched again. */
+  stale: boolean;
 }
 
 export interface DiscoverySourceRunner {
   name: DiscoverySourceName;
+  /**
+   * Filters applied through the source's own search; the engine post-filters
+   * the rest. Read after `discoverJobs`, since a source that falls back to
+   * another transport may lose them.
+   */
+  readonly nativeFilters?: ReadonlyArray<SearchFilterName>;
   discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]>;
 }
+
+/**
+ * A known job reused in place of fetching its details again, refreshed with
+ * what this run's search card says. The card's source and URL replace the
+ * stored ones: a listing merged into a job first seen elsewhere must still be
+ * recorded as seen on this source.
+ */
+export function reuseKnownJob(
+  known: DiscoveryJob,
+  card: {
+    id: string;
+    source: DiscoveryJob["source"];
+    jobUrl: string;
+    postedAt?: string | null;
+    extractedAt: string;
+  },
+): DiscoveryJob {
+  return {
+    ...known,
+    id: card.id,
+    source: card.source,
+    jobUrl: card.jobUrl,
+    postedAt: card.postedAt || known.postedAt,
+    extractedAt: card.extractedAt,
+    detailSkipped: true,
+  };
+}
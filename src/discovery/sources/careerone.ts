@@ -0,0 +1,114 @@
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+
+const CAREERONE_ORIGIN = "https://www.careerone.com.au";
+const CAREERONE_SEARCH_URL = "https://seeker-api.careerone.com.au/api/v1/search-job";
+const RESULTS_PER_PAGE = 20;
+
+export interface CareerOneSearchJob {
+  id?: string | number;
+  job_title?: string;
+  company_name?: string;
+  job_location?: string;
+  /** Path of the job page on careerone.com.au. */
+  job_url?: string;
+  job_type?: string;
+  work_arrangement?: string;
+  pay_range?: string;
+  job_abstract?: string;
+  /** Full description HTML. */
+  description?: string;
+  activation_date?: string;
+  company_logo?: string;
+}
+
+export interface CareerOneSearchPayload {
+  search_results?: {
+    jobs?: CareerOneSearchJob[];
+    total_jobs?: number;
+  };
+}
+
+/** CareerOne through the JSON search API behind its job search pages. */
+export class CareerOneSource implements DiscoverySourceRunner {
+  readonly name = "careerone" as const;
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const jobs: DiscoveryJob[] = [];
+    const seenJobIds = new Set<string>();
+
+    for (let page = request.startPage ?? 1; page <= request.pages; page += 1) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      const payload = await this.httpClient.postJson<CareerOneSearchPayload>(
+        CAREERONE_SEARCH_URL,
+        {
+          search_keywords: request.keyword,
+          location: request.location,
+          page,
+          resultsPerPage: RESULTS_PER_PAGE,
+          sort_by: "date",
+        },
+        { signal: request.signal },
+      );
+      const pageJobs = payload.search_results?.jobs ?? [];
+      if (pageJobs.length === 0) {
+        break;
+      }
+      const pageStart = jobs.length;
+      for (const result of pageJobs) {
+        const jobId = result.id === undefined ? "" : String(result.id);
+        if (!jobId || seenJobIds.has(jobId)) {
+          continue;
+        }
+        seenJobIds.add(jobId);
+        jobs.push(normalizeCareerOneJob(result, request.extractedAt));
+      }
+      request.onProgress?.({ page, totalPages: request.pages, jobsFound: jobs.length });
+      request.onPageComplete?.(page, jobs.slice(pageStart));
+
+      const totalJobs = payload.search_results?.total_jobs;
+      if (typeof totalJobs === "number" && page * RESULTS_PER_PAGE >= totalJobs) {
+        break;
+      }
+    }
+    return jobs;
+  }
+}
+
+export function normalizeCareerOneJob(result: CareerOneSearchJob, extractedAt: string): DiscoveryJob {
+  const jobUrl = result.job_url
+    ? new URL(result.job_url, CAREERONE_ORIGIN).toString()
+    : `${CAREERONE_ORIGIN}/jobview/${encodeURIComponent(String(result.id ?? ""))}`;
+  const job = createEmptyDiscoveryJob({
+    id: jobUrl,
+    source: "careerone",
+    title: (result.job_title || "").trim(),
+    company: (result.company_name || "").trim(),
+    location: (result.job_location || "").trim(),
+    description: result.description
+      ? htmlToText(result.description, { keepLineBreaks: true })
+      : (result.job_abstract || "").trim(),
+    jobUrl,
+    extractedAt,
+    postedAt: result.activation_date || null,
+  });
+  job.salary = (result.pay_range || "").trim();
+  job.jobType = (result.job_type || "").trim();
+  job.workArrangement = normalizeWorkArrangement(result.work_arrangement);
+  job.companyLogoUrl = result.company_logo || "";
+  return job;
+}
+
+function normalizeWorkArrangement(value: string | undefined): string {
+  const normalized = (value || "").toLowerCase();
+  if (normalized.includes("remote")) return "Remote";
+  if (normalized.includes("hybrid")) return "Hybrid";
+  if (/on.?site/.test(normalized)) return "On-site";
+  return "";
+}
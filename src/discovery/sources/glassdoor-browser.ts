@@ -0,0 +1,36 @@
+import { GlassdoorScraper } from "../../scraper/sources/glassdoor.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+
+export class GlassdoorBrowserSource implements DiscoverySourceRunner {
+  readonly name = "glassdoor" as const;
+
+  private readonly scraper = new GlassdoorScraper();
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const jobs = await this.scraper.scrape({
+      keyword: request.keyword,
+      location: request.location,
+      source: "glassdoor",
+      maxPages: request.pages,
+      signal: request.signal,
+    });
+
+    return jobs.map((job) => {
+      const normalized = createEmptyDiscoveryJob({
+        id: job.url || `${job.company}:${job.title}:${job.location}`,
+        source: "glassdoor",
+        title: job.title,
+        company: job.company,
+        location: job.location,
+        description: job.description || "",
+        jobUrl: job.url,
+        postedAt: job.postedDate || null,
+        extractedAt: job.scrapedAt || request.extractedAt,
+      });
+      normalized.salary = job.salary || "";
+      normalized.companyLogoUrl = job.companyLogoUrl || "";
+      return normalized;
+    });
+  }
+}
@@ -0,0 +1,152 @@
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+import { applyRemoteBoardDefaults, matchesRemoteBoardSearch } from "./remote-board.js";
+
+const ALGOLIA_SEARCH_URL = "https://hn.algolia.com/api/v1/search";
+const ALGOLIA_SEARCH_BY_DATE_URL = "https://hn.algolia.com/api/v1/search_by_date";
+const HN_ITEM_URL = "https://news.ycombinator.com/item?id={id}";
+const WHO_IS_HIRING_TITLE = /^Ask HN: Who is hiring\?/i;
+const COMMENTS_PER_PAGE = 50;
+
+export interface HackerNewsHit {
+  objectID: string;
+  title?: string;
+  comment_text?: string;
+  author?: string;
+  created_at?: string;
+  parent_id?: number;
+  story_id?: number;
+}
+
+interface HackerNewsSearchPayload {
+  hits?: HackerNewsHit[];
+  nbPages?: number;
+}
+
+/**
+ * Top-level replies to the latest "Ask HN: Who is hiring?" thread, searched
+ * through the Algolia HN API. Each reply starts with a pipe-separated header
+ * ("Company | Role | Location | REMOTE | Salary") that supplies the job fields.
+ */
+export class HackerNewsHiringSource implements DiscoverySourceRunner {
+  readonly name = "hackernews" as const;
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const threadId = await this.findLatestThreadId(request.signal);
+    const jobs: DiscoveryJob[] = [];
+
+    for (let page = (request.startPage ?? 1) - 1; page < request.pages; page += 1) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      const payload = await this.httpClient.getJson<HackerNewsSearchPayload>(ALGOLIA_SEARCH_URL, {
+        params: {
+          tags: `comment,story_${threadId}`,
+          query: request.keyword,
+          hitsPerPage: String(COMMENTS_PER_PAGE),
+          page: String(page),
+        },
+        signal: request.signal,
+      });
+      const hits = payload.hits ?? [];
+      const pageStart = jobs.length;
+      // Algolia has already matched the keyword anywhere in the post.
+      jobs.push(
+        ...hits
+          .filter((hit) => hit.parent_id === Number(threadId))
+          .flatMap((hit) => {
+            const job = parseHiringComment(hit, request.extractedAt);
+            return job && matchesRemoteBoardSearch(job, request, { matchKeyword: false })
+              ? [job]
+              : [];
+          }),
+      );
+      request.onProgress?.({ page: page + 1, totalPages: request.pages, jobsFound: jobs.length });
+      request.onPageComplete?.(page + 1, jobs.slice(pageStart));
+      if (hits.length === 0 || page + 1 >= (payload.nbPages ?? 0)) {
+        break;
+      }
+    }
+    return jobs;
+  }
+
+  private async findLatestThreadId(signal: AbortSignal | undefined): Promise<string> {
+    const payload = await this.httpClient.getJson<HackerNewsSearchPayload>(
+      ALGOLIA_SEARCH_BY_DATE_URL,
+      {
+        params: {
+          tags: "story,author_whoishiring",
+          query: "Ask HN: Who is hiring?",
+          hitsPerPage: "10",
+        },
+        signal,
+      },
+    );
+    const thread = (payload.hits ?? []).find((hit) => WHO_IS_HIRING_TITLE.test(hit.title ?? ""));
+    if (!thread) {
+      throw new Error("No 'Ask HN: Who is hiring?' thread found");
+    }
+    return thread.objectID;
+  }
+}
+
+/** A job from a "Who is hiring?" reply, or null when it has no recognisable header. */
+export function parseHiringComment(hit: HackerNewsHit, extractedAt: string): DiscoveryJob | null {
+  const commentHtml = hit.comment_text ?? "";
+  const headerHtml = commentHtml.split(/<p\b[^>]*>/i)[0] ?? "";
+  const parts = htmlToText(headerHtml, { keepLineBreaks: true })
+    .split("|")
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length < 2) {
+    return null;
+  }
+
+  const [company, ...fields] = parts;
+  const descriptive: string[] = [];
+  const arrangements: string[] = [];
+  let salary = "";
+  for (const field of fields) {
+    if (/https?:\/\/|www\.|^\S+\.(com|io|ai|co|dev|org|net)\S*$/i.test(field)) {
+      continue;
+    }
+    if (/[$€£]|\b\d{2,3}k\b/i.test(field)) {
+      salary ||= field;
+    } else if (/^(remote|onsite|on-site|hybrid|in[- ]office)\b/i.test(field)) {
+      arrangements.push(field);
+    } else {
+      descriptive.push(field);
+    }
+  }
+  const title = descriptive[0] ?? "";
+  if (!title) {
+    return null;
+  }
+
+  const jobUrl = HN_ITEM_URL.replace("{id}", hit.objectID);
+  const header = parts.join(" | ");
+  const job = createEmptyDiscoveryJob({
+    id: jobUrl,
+    source: "hackernews",
+    title,
+    company,
+    location: descriptive[1] ?? arrangements.join(", "),
+    description: htmlToText(commentHtml, { keepLineBreaks: true }),
+    jobUrl,
+    extractedAt,
+    postedAt: hit.created_at || null,
+  });
+  job.salary = salary;
+  job.workArrangement = /hybrid/i.test(header)
+    ? "hybrid"
+    : /remote/i.test(header)
+      ? "remote"
+      : /\b(onsite|on-site|in[- ]office)\b/i.test(header)
+        ? "on-site"
+        : "";
+  return applyRemoteBoardDefaults(job, commentHtml);
+}
@@ -13,6 +13,7 @@ export class IndeedBrowserSource implements DiscoverySourceRunner {
       location: request.location,
       source: "indeed",
       maxPages: request.pages,
+      signal: request.signal,
     });
 
     return jobs.map((job) => {
@@ -30,6 +31,8 @@ export class IndeedBrowserSource implements DiscoverySourceRunner {
       normalized.externalUrl = job.externalUrl || "";
       normalized.salary = job.salary || "";
       normalized.jobType = job.jobType || "";
+      normalized.workArrangement = job.workplaceType || "";
+      normalized.companyLogoUrl = job.companyLogoUrl || "";
       return normalized;
     });
   }
@@ -13,6 +13,7 @@ export class JoraBrowserSource implements DiscoverySourceRunner {
       location: request.location,
       source: "jora",
       maxPages: request.pages,
+      signal: request.signal,
     });
 
     return jobs.map((job) => {
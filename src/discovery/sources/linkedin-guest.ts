@@ -5,15 +5,53 @@ import {
   unwrapLinkedInRedirect,
 } from "../ats/detector.js";
 import { detectAts } from "../ats/detector.js";
-import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
-import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+import {
+  createEmptyDiscoveryJob,
+  type DatePostedWindow,
+  type DiscoveryJob,
+  type DiscoverySearchFilters,
+  type SearchEmploymentType,
+  type SearchExperienceLevel,
+  type SearchFilterName,
+  type SearchWorkArrangement,
+} from "../core/types.js";
+import { reuseKnownJob, type DiscoverSourceRequest, type DiscoverySourceRunner } from "./base.js";
 import type { HttpClient } from "../utils/http.js";
+import { decodeHtmlEntities, normalizeWhitespace } from "../utils/html.js";
 
 const JOB_URN_PATTERN = /urn:li:jobPosting:(\d+)/i;
 const LINKEDIN_SEARCH_URL =
   "https://www.linkedin.com/jobs-guest/jobs/api/seeMoreJobPostings/search";
 const LINKEDIN_JOB_DETAIL_URL =
   "https://www.linkedin.com/jobs-guest/jobs/api/jobPosting/{jobId}";
+const KM_PER_MILE = 1.609;
+
+const LINKEDIN_TIME_POSTED: Record<DatePostedWindow, string> = {
+  "24h": "r86400",
+  "3d": "r259200",
+  week: "r604800",
+  month: "r2592000",
+};
+const LINKEDIN_WORK_TYPES: Record<SearchWorkArrangement, string> = {
+  "on-site": "1",
+  remote: "2",
+  hybrid: "3",
+};
+const LINKEDIN_JOB_TYPES: Partial<Record<SearchEmploymentType, string>> = {
+  "full-time": "F",
+  "part-time": "P",
+  contract: "C",
+  temporary: "T",
+  internship: "I",
+};
+const LINKEDIN_EXPERIENCE_LEVELS: Record<SearchExperienceLevel, string[]> = {
+  intern: ["1"],
+  graduate: ["2"],
+  junior: ["2"],
+  mid: ["3", "4"],
+  senior: ["4"],
+  lead: ["4", "5"],
+};
 
 export interface LinkedInGuestSearchCard {
   jobId: string;
@@ -42,19 +80,38 @@ export interface LinkedInGuestJobDetail {
 export class LinkedInGuestSource implements DiscoverySourceRunner {
   readonly name = "linkedin" as const;
 
+  nativeFilters: SearchFilterName[] = [];
+
   constructor(private readonly httpClient: HttpClient) {}
 
   async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
     const jobs: DiscoveryJob[] = [];
+    const filterParams = buildLinkedInFilterParams(request.filters);
+    this.nativeFilters = filterParams.applied;
 
-    for (let pageIndex = 0; pageIndex < request.pages; pageIndex += 1) {
-      const html = await this.httpClient.getText(LINKEDIN_SEARCH_URL, {
-        params: {
-          keywords: request.keyword,
-          location: request.location,
-          start: String(pageIndex * 25),
-        },
-      });
+    for (let pageIndex = (request.startPage ?? 1) - 1; pageIndex < request.pages; pageIndex += 1) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      let html: string;
+      try {
+        html = await this.httpClient.getText(LINKEDIN_SEARCH_URL, {
+          params: {
+            keywords: request.keyword,
+            location: request.location,
+            start: String(pageIndex * 25),
+            // Newest first, so incremental runs can stop at the first page of known jobs.
+            ...(request.knownJobs ? { sortBy: "DD" } : {}),
+            ...filterParams.params,
+          },
+          signal: request.signal,
+        });
+      } catch (error) {
+        if (request.signal?.aborted) {
+          break;
+        }
+        throw error;
+      }
       const cards = parseLinkedInGuestSearchResults(html);
       if (cards.length === 0) {
         break;
@@ -66,10 +123,32 @@ export class LinkedInGuestSource implements DiscoverySourceRunner {
         jobsFound: jobs.length + cards.length,
       });
 
+      const pageStart = jobs.length;
+      let knownCards = 0;
       for (const card of cards) {
+        if (request.signal?.aborted) {
+          break;
+        }
+        const known = card.jobUrl ? (request.knownJobs?.find(card.jobUrl) ?? null) : null;
+        if (known) {
+          knownCards += 1;
+          if (!known.stale) {
+            jobs.push(
+              reuseKnownJob(known.job, {
+                id: card.jobId,
+                source: "linkedin",
+                jobUrl: card.jobUrl,
+                postedAt: card.postedAt,
+                extractedAt: request.extractedAt,
+              }),
+            );
+            continue;
+          }
+        }
         try {
           const detailHtml = await this.httpClient.getText(
             LINKEDIN_JOB_DETAIL_URL.replace("{jobId}", card.jobId),
+            { signal: request.signal },
           );
           const detail = parseLinkedInGuestJobDetail(detailHtml, {
             jobId: card.jobId,
@@ -98,6 +177,9 @@ export class LinkedInGuestSource implements DiscoverySourceRunner {
           job.companyLogoUrl = detail.companyLogoUrl || card.companyLogoUrl;
           jobs.push(job);
         } catch {
+          if (request.signal?.aborted) {
+            break;
+          }
           jobs.push(
             createEmptyDiscoveryJob({
               id: card.jobId,
@@ -113,12 +195,62 @@ export class LinkedInGuestSource implements DiscoverySourceRunner {
           );
         }
       }
+      if (request.signal?.aborted) {
+        break;
+      }
+      request.onPageComplete?.(pageIndex + 1, jobs.slice(pageStart));
+      if (request.knownJobs && knownCards === cards.length) {
+        break;
+      }
     }
 
     return jobs;
   }
 }
 
+/**
+ * Guest search query parameters for the filters LinkedIn supports, and which
+ * filters they fully apply. A list filter only counts as applied when every
+ * value maps; experience levels are sent to narrow the search but LinkedIn's
+ * bands (e.g. "Mid-Senior level") are broader than ours, so they never count.
+ */
+export function buildLinkedInFilterParams(filters: DiscoverySearchFilters | undefined): {
+  params: Record<string, string>;
+  applied: SearchFilterName[];
+} {
+  const params: Record<string, string> = {};
+  const applied: SearchFilterName[] = [];
+  if (!filters) {
+    return { params, applied };
+  }
+
+  if (filters.datePosted) {
+    params.f_TPR = LINKEDIN_TIME_POSTED[filters.datePosted];
+    applied.push("datePosted");
+  }
+  if (filters.workArrangements?.length) {
+    params.f_WT = filters.workArrangements.map((value) => LINKEDIN_WORK_TYPES[value]).join(",");
+    applied.push("workArrangements");
+  }
+  if (filters.employmentTypes?.length) {
+    const codes = filters.employmentTypes.map((value) => LINKEDIN_JOB_TYPES[value]);
+    if (codes.every(Boolean)) {
+      params.f_JT = codes.join(",");
+      applied.push("employmentTypes");
+    }
+  }
+  if (filters.experienceLevels?.length) {
+    params.f_E = [
+      ...new Set(filters.experienceLevels.flatMap((value) => LINKEDIN_EXPERIENCE_LEVELS[value])),
+    ].join(",");
+  }
+  if (filters.radiusKm !== undefined) {
+    params.distance = String(Math.max(1, Math.round(filters.radiusKm / KM_PER_MILE)));
+    applied.push("radiusKm");
+  }
+  return { params, applied };
+}
+
 export function parseLinkedInGuestSearchResults(
   html: string,
 ): LinkedInGuestSearchCard[] {
@@ -555,10 +687,6 @@ function stripTags(html: string, separator = " "): string {
   return html.replace(/<br\s*\/?>/gi, separator).replace(/<[^>]+>/g, separator);
 }
 
-function normalizeWhitespace(value: string): string {
-  return value.replace(/\s+/g, " ").trim();
-}
-
 function looksLikeThinHeading(value: string): boolean {
   return value.length <= 32 && !/[.!?]/.test(value);
 }
@@ -573,15 +701,6 @@ function escapeRegExp(value: string): string {
   return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
 }
 
-function decodeHtmlEntities(text: string): string {
-  return text
-    .replace(/&amp;/g, "&")
-    .replace(/&lt;/g, "<")
-    .replace(/&gt;/g, ">")
-    .replace(/&quot;/g, '"')
-    .replace(/&#39;/g, "'");
-}
-
 function toAbsoluteLinkedInUrl(value: string): string {
   if (!value) {
     return "";
@@ -1,4 +1,4 @@
-import type { DiscoverySourceName } from "../core/types.js";
+import type { DiscoverySearchFilters, DiscoverySourceName } from "../core/types.js";
 
 export type DiscoverySourceTransport = "http" | "browser";
 export type DiscoverySourceStatus = "active" | "planned";
@@ -6,14 +6,28 @@ export type DiscoverySourceStatus = "active" | "planned";
 export interface DiscoverySourceDefinition {
   name: DiscoverySourceName;
   transport: DiscoverySourceTransport;
+  /** Transport used instead when the primary one is blocked. */
+  fallbackTransport?: DiscoverySourceTransport;
   status: DiscoverySourceStatus;
+  /**
+   * Lists remote jobs worldwide and only soft-matches location, so it runs by
+   * default only for searches filtered to remote work.
+   */
+  remoteOnly?: boolean;
 }
 
 const DISCOVERY_SOURCE_DEFINITIONS: ReadonlyArray<DiscoverySourceDefinition> = [
   { name: "linkedin", transport: "http", status: "active" },
-  { name: "seek", transport: "browser", status: "active" },
-  { name: "indeed", transport: "browser", status: "planned" },
+  { name: "seek", transport: "http", fallbackTransport: "browser", status: "active" },
+  { name: "indeed", transport: "browser", status: "active" },
   { name: "jora", transport: "browser", status: "active" },
+  { name: "glassdoor", transport: "browser", status: "active" },
+  { name: "workforce_australia", transport: "http", status: "active" },
+  { name: "careerone", transport: "http", status: "active" },
+  { name: "remotive", transport: "http", status: "active", remoteOnly: true },
+  { name: "we_work_remotely", transport: "http", status: "active", remoteOnly: true },
+  { name: "remoteok", transport: "http", status: "active", remoteOnly: true },
+  { name: "hackernews", transport: "http", status: "active", remoteOnly: true },
 ];
 
 export const DISCOVERY_SOURCE_NAMES = DISCOVERY_SOURCE_DEFINITIONS.map(
@@ -43,3 +57,11 @@ export function getAllDiscoverySourceDefinitions(): ReadonlyArray<DiscoverySourc
 export function getActiveDiscoverySourceNames(): DiscoverySourceName[] {
   return [...ACTIVE_DISCOVERY_SOURCE_NAMES];
 }
+
+/** Sources a discover run uses when none are named: remote-only boards join remote searches. */
+export function getDefaultDiscoverySourceNames(filters?: DiscoverySearchFilters): DiscoverySourceName[] {
+  const remoteSearch = filters?.workArrangements?.includes("remote") ?? false;
+  return DISCOVERY_SOURCE_DEFINITIONS.filter(
+    (definition) => definition.status === "active" && (remoteSearch || !definition.remoteOnly),
+  ).map((definition) => definition.name);
+}
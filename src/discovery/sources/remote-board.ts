@@ -0,0 +1,53 @@
+import { extractKnownAtsUrls } from "../ats/detector.js";
+import { matchesSearchTerms } from "../core/search-match.js";
+import type { DiscoveryJob } from "../core/types.js";
+
+const UNRESTRICTED_LOCATION_PATTERN = /\b(worldwide|anywhere|global|international)\b/i;
+
+/**
+ * Shared handling for remote-first job boards: postings are remote unless
+ * they say otherwise, and an ATS link in the post becomes the external URL so
+ * the company's board can be expanded.
+ */
+export function applyRemoteBoardDefaults(job: DiscoveryJob, postHtml: string): DiscoveryJob {
+  job.workArrangement ||= "remote";
+  job.externalUrl ||= extractKnownAtsUrls(postHtml)[0] ?? "";
+  return job;
+}
+
+/**
+ * Keeps jobs whose title matches the keyword and whose hiring region allows
+ * the requested location. Remote boards list regions ("USA only", "Europe",
+ * "Worldwide") rather than cities, so the location is applied softly: jobs
+ * with no region or an unrestricted one are always kept.
+ */
+export function matchesRemoteBoardSearch(
+  job: DiscoveryJob,
+  terms: { keyword: string; location: string },
+  options: { matchKeyword?: boolean } = {},
+): boolean {
+  if (
+    options.matchKeyword !== false &&
+    !matchesSearchTerms(job, { keyword: terms.keyword, location: "" })
+  ) {
+    return false;
+  }
+  return acceptsLocation(job.location, terms.location);
+}
+
+function acceptsLocation(region: string, location: string): boolean {
+  const wanted = location.trim().toLowerCase();
+  if (
+    !wanted ||
+    !region.trim() ||
+    /^remote$/i.test(region.trim()) ||
+    UNRESTRICTED_LOCATION_PATTERN.test(region)
+  ) {
+    return true;
+  }
+  const regionText = region.toLowerCase();
+  return wanted
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1)
+    .some((word) => regionText.includes(word));
+}
@@ -0,0 +1,77 @@
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+import { applyRemoteBoardDefaults, matchesRemoteBoardSearch } from "./remote-board.js";
+
+const REMOTEOK_API_URL = "https://remoteok.com/api";
+
+export interface RemoteOkJob {
+  id?: string | number;
+  url?: string;
+  position?: string;
+  company?: string;
+  company_logo?: string;
+  location?: string;
+  description?: string;
+  apply_url?: string;
+  date?: string;
+  salary_min?: number;
+  salary_max?: number;
+  tags?: string[];
+}
+
+/**
+ * RemoteOK through its public JSON feed. The feed is the latest postings with
+ * no search, so the keyword is matched locally against job titles.
+ */
+export class RemoteOkSource implements DiscoverySourceRunner {
+  readonly name = "remoteok" as const;
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const feed = await this.httpClient.getJson<unknown[]>(REMOTEOK_API_URL, {
+      signal: request.signal,
+    });
+    const jobs = normalizeRemoteOkFeed(feed, request.extractedAt).filter((job) =>
+      matchesRemoteBoardSearch(job, request),
+    );
+    request.onProgress?.({ page: 1, totalPages: 1, jobsFound: jobs.length });
+    return jobs;
+  }
+}
+
+export function normalizeRemoteOkFeed(feed: unknown[], extractedAt: string): DiscoveryJob[] {
+  // The first entry is the API's legal notice, not a job.
+  return (feed as RemoteOkJob[])
+    .filter((result) => result.id !== undefined && result.position && result.url)
+    .map((result) => {
+      const jobUrl = result.url ?? "";
+      const job = createEmptyDiscoveryJob({
+        id: jobUrl,
+        source: "remoteok",
+        title: (result.position ?? "").trim(),
+        company: (result.company || "").trim(),
+        location: (result.location || "").trim(),
+        description: htmlToText(result.description || "", { keepLineBreaks: true }),
+        jobUrl,
+        extractedAt,
+        postedAt: result.date || null,
+      });
+      job.salary = formatSalaryRange(result.salary_min, result.salary_max);
+      job.companyLogoUrl = result.company_logo || "";
+      return applyRemoteBoardDefaults(
+        job,
+        [result.apply_url ?? "", result.description ?? ""].join("\n"),
+      );
+    });
+}
+
+function formatSalaryRange(min: number | undefined, max: number | undefined): string {
+  const values = [min, max].filter((value): value is number => typeof value === "number" && value > 0);
+  if (values.length === 0) {
+    return "";
+  }
+  return `${[...new Set(values)].map((value) => `$${value.toLocaleString("en-US")}`).join(" - ")} a year`;
+}
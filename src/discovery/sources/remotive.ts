@@ -0,0 +1,83 @@
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+import { applyRemoteBoardDefaults, matchesRemoteBoardSearch } from "./remote-board.js";
+
+const REMOTIVE_API_URL = "https://remotive.com/api/remote-jobs";
+const JOBS_PER_PAGE = 50;
+
+const JOB_TYPES: Record<string, string> = {
+  full_time: "Full-time",
+  part_time: "Part-time",
+  contract: "Contract",
+  freelance: "Freelance",
+  internship: "Internship",
+};
+
+export interface RemotiveJob {
+  id?: number;
+  url?: string;
+  title?: string;
+  company_name?: string;
+  company_logo?: string;
+  job_type?: string;
+  publication_date?: string;
+  candidate_required_location?: string;
+  salary?: string;
+  description?: string;
+}
+
+export interface RemotivePayload {
+  jobs?: RemotiveJob[];
+}
+
+/** Remotive through its public remote jobs API. */
+export class RemotiveSource implements DiscoverySourceRunner {
+  readonly name = "remotive" as const;
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    // The API has no paging, so pages only raise the result limit.
+    const payload = await this.httpClient.getJson<RemotivePayload>(REMOTIVE_API_URL, {
+      params: {
+        search: request.keyword,
+        limit: String(request.pages * JOBS_PER_PAGE),
+      },
+      signal: request.signal,
+    });
+    // Remotive's search already matches descriptions and tags, so only the location is applied here.
+    const jobs = normalizeRemotivePayload(payload, request.extractedAt).filter((job) =>
+      matchesRemoteBoardSearch(job, request, { matchKeyword: false }),
+    );
+    request.onProgress?.({ page: 1, totalPages: 1, jobsFound: jobs.length });
+    return jobs;
+  }
+}
+
+export function normalizeRemotivePayload(
+  payload: RemotivePayload,
+  extractedAt: string,
+): DiscoveryJob[] {
+  return (payload.jobs ?? [])
+    .filter((result) => result.url && result.title)
+    .map((result) => {
+      const jobUrl = result.url ?? "";
+      const job = createEmptyDiscoveryJob({
+        id: jobUrl,
+        source: "remotive",
+        title: (result.title ?? "").trim(),
+        company: (result.company_name || "").trim(),
+        location: (result.candidate_required_location || "").trim(),
+        description: htmlToText(result.description || "", { keepLineBreaks: true }),
+        jobUrl,
+        extractedAt,
+        postedAt: result.publication_date || null,
+      });
+      job.salary = (result.salary || "").trim();
+      job.jobType = JOB_TYPES[result.job_type || ""] || result.job_type || "";
+      job.companyLogoUrl = result.company_logo || "";
+      return applyRemoteBoardDefaults(job, result.description || "");
+    });
+}
@@ -13,6 +13,7 @@ export class SeekBrowserSource implements DiscoverySourceRunner {
       location: request.location,
       source: "seek",
       maxPages: request.pages,
+      signal: request.signal,
     });
 
     return jobs.map((job) => {
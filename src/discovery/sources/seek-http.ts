@@ -0,0 +1,315 @@
+import {
+  createEmptyDiscoveryJob,
+  type DatePostedWindow,
+  type DiscoveryJob,
+  type DiscoverySearchFilters,
+  type SearchEmploymentType,
+  type SearchFilterName,
+  type SearchWorkArrangement,
+} from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import { reuseKnownJob, type DiscoverSourceRequest, type DiscoverySourceRunner } from "./base.js";
+
+const SEEK_SEARCH_URL = "https://www.seek.com.au/api/jobsearch/v5/search";
+const SEEK_GRAPHQL_URL = "https://www.seek.com.au/graphql";
+const SEEK_JOB_URL = "https://www.seek.com.au/job/{jobId}";
+const PAGE_SIZE = 22;
+
+const SEEK_DATE_RANGES: Record<DatePostedWindow, string> = {
+  "24h": "1",
+  "3d": "3",
+  week: "7",
+  month: "31",
+};
+const SEEK_WORK_TYPES: Partial<Record<SearchEmploymentType, string>> = {
+  "full-time": "242",
+  "part-time": "243",
+  contract: "244",
+  temporary: "244",
+  casual: "245",
+};
+const SEEK_WORK_ARRANGEMENTS: Record<SearchWorkArrangement, string> = {
+  "on-site": "1",
+  hybrid: "2",
+  remote: "3",
+};
+
+const SEEK_JOB_DETAILS_QUERY = `query jobDetails($jobId: ID!, $locale: Locale!) {
+  jobDetails(id: $jobId) {
+    job {
+      id
+      title
+      content(platform: WEB)
+      salary { label }
+      workTypes { label(locale: $locale) }
+      listedAt { dateTimeUtc }
+    }
+  }
+}`;
+
+export interface SeekSearchResult {
+  id?: string | number;
+  title?: string;
+  teaser?: string;
+  bulletPoints?: string[];
+  advertiser?: { id?: string; description?: string };
+  companyName?: string;
+  locations?: Array<{ label?: string }>;
+  listingDate?: string;
+  salaryLabel?: string;
+  workTypes?: string[];
+  workArrangements?: { data?: Array<{ label?: { text?: string } }> };
+  branding?: { serpLogoUrl?: string } | null;
+}
+
+interface SeekSearchPayload {
+  data?: SeekSearchResult[];
+  totalCount?: number;
+}
+
+export interface SeekJobDetail {
+  id?: string;
+  title?: string;
+  content?: string;
+  salary?: { label?: string } | null;
+  workTypes?: { label?: string } | null;
+  listedAt?: { dateTimeUtc?: string } | null;
+}
+
+interface SeekJobDetailsPayload {
+  data?: { jobDetails?: { job?: SeekJobDetail | null } | null };
+}
+
+interface SeekHttpSourceOptions {
+  /** Used instead when SEEK blocks the first search request. */
+  fallback?: () => DiscoverySourceRunner;
+}
+
+/**
+ * SEEK through its JSON search API and job-details GraphQL endpoint, without
+ * a browser. When the search API is blocked the optional fallback source runs
+ * instead.
+ */
+export class SeekHttpSource implements DiscoverySourceRunner {
+  readonly name = "seek" as const;
+
+  nativeFilters: SearchFilterName[] = [];
+
+  constructor(
+    private readonly httpClient: HttpClient,
+    private readonly options: SeekHttpSourceOptions = {},
+  ) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const jobs: DiscoveryJob[] = [];
+    const seenJobIds = new Set<string>();
+    const filterParams = buildSeekFilterParams(request.filters);
+    this.nativeFilters = filterParams.applied;
+    const firstPageIndex = (request.startPage ?? 1) - 1;
+
+    for (let pageIndex = firstPageIndex; pageIndex < request.pages; pageIndex += 1) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      let payload: SeekSearchPayload;
+      try {
+        payload = await this.httpClient.getJson<SeekSearchPayload>(SEEK_SEARCH_URL, {
+          params: {
+            siteKey: "AU-Main",
+            sourcesystem: "houston",
+            keywords: request.keyword,
+            where: request.location,
+            page: String(pageIndex + 1),
+            pageSize: String(PAGE_SIZE),
+            locale: "en-AU",
+            // Newest first, so incremental runs can stop at the first page of known jobs.
+            ...(request.knownJobs ? { sortmode: "ListedDate" } : {}),
+            ...filterParams.params,
+          },
+          headers: { Accept: "application/json" },
+          signal: request.signal,
+        });
+      } catch (error) {
+        if (request.signal?.aborted) {
+          break;
+        }
+        if (pageIndex === firstPageIndex && this.options.fallback) {
+          this.nativeFilters = [];
+          return this.options.fallback().discoverJobs(request);
+        }
+        if (pageIndex === firstPageIndex) {
+          throw error;
+        }
+        break;
+      }
+
+      const pageResults = payload.data ?? [];
+      if (pageResults.length === 0) {
+        break;
+      }
+      request.onProgress?.({
+        page: pageIndex + 1,
+        totalPages: request.pages,
+        jobsFound: jobs.length + pageResults.length,
+      });
+      const pageJobs = await this.fetchPageJobs(pageResults, seenJobIds, request);
+      jobs.push(...pageJobs);
+      if (request.signal?.aborted) {
+        break;
+      }
+      request.onPageComplete?.(pageIndex + 1, pageJobs);
+
+      if (
+        typeof payload.totalCount === "number" &&
+        pageIndex * PAGE_SIZE + pageResults.length >= payload.totalCount
+      ) {
+        break;
+      }
+      const knownJobs = request.knownJobs;
+      if (knownJobs && pageResults.every((result) => knownJobs.find(seekJobUrl(result)))) {
+        break;
+      }
+    }
+    return jobs;
+  }
+
+  /** Jobs for one page of search results, with each job's details fetched. */
+  private async fetchPageJobs(
+    results: SeekSearchResult[],
+    seenJobIds: Set<string>,
+    request: DiscoverSourceRequest,
+  ): Promise<DiscoveryJob[]> {
+    const jobs: DiscoveryJob[] = [];
+    for (const result of results) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      const jobId = result.id === undefined ? "" : String(result.id);
+      if (!jobId || seenJobIds.has(jobId)) {
+        continue;
+      }
+      seenJobIds.add(jobId);
+      const known = request.knownJobs?.find(seekJobUrl(result));
+      if (known && !known.stale) {
+        jobs.push(
+          reuseKnownJob(known.job, {
+            id: seekJobUrl(result),
+            source: "seek",
+            jobUrl: seekJobUrl(result),
+            postedAt: result.listingDate,
+            extractedAt: request.extractedAt,
+          }),
+        );
+        continue;
+      }
+      const detail = await this.fetchJobDetail(jobId, request.signal).catch(() => null);
+      if (request.signal?.aborted) {
+        break;
+      }
+      jobs.push(normalizeSeekSearchResult(result, detail, request.extractedAt));
+    }
+    return jobs;
+  }
+
+  private async fetchJobDetail(
+    jobId: string,
+    signal: AbortSignal | undefined,
+  ): Promise<SeekJobDetail | null> {
+    const payload = await this.httpClient.postJson<SeekJobDetailsPayload>(
+      SEEK_GRAPHQL_URL,
+      {
+        operationName: "jobDetails",
+        query: SEEK_JOB_DETAILS_QUERY,
+        variables: { jobId, locale: "en-AU" },
+      },
+      { signal },
+    );
+    return payload.data?.jobDetails?.job ?? null;
+  }
+}
+
+/**
+ * Search API parameters for the filters SEEK supports, and which filters they
+ * fully apply. A list filter only counts as applied when every value maps.
+ */
+export function buildSeekFilterParams(filters: DiscoverySearchFilters | undefined): {
+  params: Record<string, string>;
+  applied: SearchFilterName[];
+} {
+  const params: Record<string, string> = {};
+  const applied: SearchFilterName[] = [];
+  if (!filters) {
+    return { params, applied };
+  }
+
+  if (filters.datePosted) {
+    params.daterange = SEEK_DATE_RANGES[filters.datePosted];
+    applied.push("datePosted");
+  }
+  if (filters.employmentTypes?.length) {
+    const codes = filters.employmentTypes.map((value) => SEEK_WORK_TYPES[value]);
+    if (codes.every(Boolean)) {
+      params.worktype = [...new Set(codes)].join(",");
+      applied.push("employmentTypes");
+    }
+  }
+  if (filters.workArrangements?.length) {
+    params.workarrangement = filters.workArrangements
+      .map((value) => SEEK_WORK_ARRANGEMENTS[value])
+      .join(",");
+    applied.push("workArrangements");
+  }
+  if (filters.salaryMin !== undefined) {
+    params.salarytype = "annual";
+    params.salaryrange = `${Math.round(filters.salaryMin)}-`;
+    applied.push("salaryMin");
+  }
+  return { params, applied };
+}
+
+export function normalizeSeekSearchResult(
+  result: SeekSearchResult,
+  detail: SeekJobDetail | null,
+  extractedAt: string,
+): DiscoveryJob {
+  const jobUrl = seekJobUrl(result);
+  const job = createEmptyDiscoveryJob({
+    // Same id as the browser source so either transport updates the same stored job.
+    id: jobUrl,
+    source: "seek",
+    title: (detail?.title || result.title || "").trim(),
+    company: (result.advertiser?.description || result.companyName || "").trim(),
+    location: (result.locations ?? [])
+      .map((location) => location.label)
+      .filter((label): label is string => Boolean(label))
+      .join("; "),
+    description: detail?.content
+      ? htmlToText(detail.content, { keepLineBreaks: true })
+      : [result.teaser, ...(result.bulletPoints ?? [])].filter(Boolean).join("\n"),
+    jobUrl,
+    extractedAt,
+    postedAt: detail?.listedAt?.dateTimeUtc || result.listingDate || null,
+  });
+
+  job.salary = detail?.salary?.label || result.salaryLabel || "";
+  job.jobType = detail?.workTypes?.label || (result.workTypes ?? []).join(", ");
+  job.workArrangement = normalizeWorkArrangement(
+    result.workArrangements?.data?.[0]?.label?.text,
+  );
+  job.companyLogoUrl = result.branding?.serpLogoUrl || "";
+  return job;
+}
+
+function normalizeWorkArrangement(value: string | undefined): string {
+  const normalized = (value || "").toLowerCase();
+  // Same labels as the browser source.
+  if (normalized.includes("remote")) return "Remote";
+  if (normalized.includes("hybrid")) return "Hybrid";
+  if (/on.?site/.test(normalized)) return "On-site";
+  return "";
+}
+
+function seekJobUrl(result: SeekSearchResult): string {
+  return SEEK_JOB_URL.replace("{jobId}", String(result.id ?? ""));
+}
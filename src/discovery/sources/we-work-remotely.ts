@@ -0,0 +1,67 @@
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { xmlElements, xmlText } from "../utils/xml.js";
+import { htmlToText } from "../utils/html.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+import { applyRemoteBoardDefaults, matchesRemoteBoardSearch } from "./remote-board.js";
+
+const WE_WORK_REMOTELY_FEED_URL = "https://weworkremotely.com/remote-jobs.rss";
+
+/**
+ * We Work Remotely through its RSS feed of the latest postings. The feed has
+ * no search, so the keyword is matched locally against job titles.
+ */
+export class WeWorkRemotelySource implements DiscoverySourceRunner {
+  readonly name = "we_work_remotely" as const;
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const feed = await this.httpClient.getText(WE_WORK_REMOTELY_FEED_URL, {
+      headers: { Accept: "application/rss+xml, application/xml" },
+      signal: request.signal,
+    });
+    const jobs = normalizeWeWorkRemotelyFeed(feed, request.extractedAt).filter((job) =>
+      matchesRemoteBoardSearch(job, request),
+    );
+    request.onProgress?.({ page: 1, totalPages: 1, jobsFound: jobs.length });
+    return jobs;
+  }
+}
+
+export function normalizeWeWorkRemotelyFeed(feed: string, extractedAt: string): DiscoveryJob[] {
+  return xmlElements(feed, "item").flatMap((item) => {
+    const jobUrl = xmlText(item, "link") || xmlText(item, "guid");
+    // Item titles are "Company: Job title".
+    const heading = xmlText(item, "title");
+    const separator = heading.indexOf(": ");
+    const title = separator === -1 ? heading : heading.slice(separator + 2);
+    if (!jobUrl || !title) {
+      return [];
+    }
+
+    const descriptionHtml = xmlText(item, "description");
+    const job = createEmptyDiscoveryJob({
+      id: jobUrl,
+      source: "we_work_remotely",
+      title: title.trim(),
+      company: separator === -1 ? "" : heading.slice(0, separator).trim(),
+      location: xmlText(item, "region"),
+      description: htmlToText(descriptionHtml, { keepLineBreaks: true }),
+      jobUrl,
+      extractedAt,
+      postedAt: normalizePubDate(xmlText(item, "pubDate")),
+    });
+    job.jobType = xmlText(item, "type");
+    job.companyLogoUrl = /<media:content\b[^>]*\burl="([^"]+)"/i.exec(item)?.[1] ?? "";
+    return [applyRemoteBoardDefaults(job, descriptionHtml)];
+  });
+}
+
+function normalizePubDate(value: string): string | null {
+  if (!value) {
+    return null;
+  }
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? value : parsed.toISOString().replace(".000Z", "Z");
+}
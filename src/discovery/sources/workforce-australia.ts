@@ -0,0 +1,137 @@
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../core/types.js";
+import type { HttpClient } from "../utils/http.js";
+import { htmlToText } from "../utils/html.js";
+import type { DiscoverSourceRequest, DiscoverySourceRunner } from "./base.js";
+
+const WORKFORCE_AUSTRALIA_ORIGIN = "https://www.workforceaustralia.gov.au";
+const VACANCY_SEARCH_URL = `${WORKFORCE_AUSTRALIA_ORIGIN}/api/v1/global/vacancies/`;
+const VACANCY_DETAIL_URL = `${WORKFORCE_AUSTRALIA_ORIGIN}/api/v1/global/vacancies/{vacancyId}`;
+const VACANCY_URL = `${WORKFORCE_AUSTRALIA_ORIGIN}/individuals/jobs/details/{vacancyId}`;
+const PAGE_SIZE = 20;
+
+export interface WorkforceAustraliaVacancy {
+  vacancyId?: string | number;
+  title?: string;
+  employerName?: string;
+  address?: { suburb?: string; state?: string; postcode?: string } | null;
+  /** Short plain-text summary shown on search results. */
+  summary?: string;
+  /** Full description HTML, only on the vacancy detail. */
+  description?: string;
+  salaryDescription?: string;
+  workType?: string;
+  creationDate?: string;
+}
+
+export interface WorkforceAustraliaSearchPayload {
+  results?: WorkforceAustraliaVacancy[];
+  totalResults?: number;
+}
+
+/** Workforce Australia, the Australian Government job board, through its vacancy API. */
+export class WorkforceAustraliaSource implements DiscoverySourceRunner {
+  readonly name = "workforce_australia" as const;
+
+  constructor(private readonly httpClient: HttpClient) {}
+
+  async discoverJobs(request: DiscoverSourceRequest): Promise<DiscoveryJob[]> {
+    const jobs: DiscoveryJob[] = [];
+    const seenVacancyIds = new Set<string>();
+
+    for (let pageNumber = request.startPage ?? 1; pageNumber <= request.pages; pageNumber += 1) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      const payload = await this.httpClient.getJson<WorkforceAustraliaSearchPayload>(
+        VACANCY_SEARCH_URL,
+        {
+          params: {
+            searchText: request.keyword,
+            locationText: request.location,
+            pageNumber: String(pageNumber),
+            pageSize: String(PAGE_SIZE),
+            sort: "DateAddedDescending",
+          },
+          signal: request.signal,
+        },
+      );
+      const pageVacancies = payload.results ?? [];
+      if (pageVacancies.length === 0) {
+        break;
+      }
+      request.onProgress?.({
+        page: pageNumber,
+        totalPages: request.pages,
+        jobsFound: jobs.length + pageVacancies.length,
+      });
+      const pageJobs = await this.fetchPageJobs(pageVacancies, seenVacancyIds, request);
+      jobs.push(...pageJobs);
+      if (request.signal?.aborted) {
+        break;
+      }
+      request.onPageComplete?.(pageNumber, pageJobs);
+      if (
+        typeof payload.totalResults === "number" &&
+        (pageNumber - 1) * PAGE_SIZE + pageVacancies.length >= payload.totalResults
+      ) {
+        break;
+      }
+    }
+    return jobs;
+  }
+
+  /** Jobs for one page of search results, with each vacancy's detail fetched. */
+  private async fetchPageJobs(
+    vacancies: WorkforceAustraliaVacancy[],
+    seenVacancyIds: Set<string>,
+    request: DiscoverSourceRequest,
+  ): Promise<DiscoveryJob[]> {
+    const jobs: DiscoveryJob[] = [];
+    for (const vacancy of vacancies) {
+      if (request.signal?.aborted) {
+        break;
+      }
+      const vacancyId = vacancy.vacancyId === undefined ? "" : String(vacancy.vacancyId);
+      if (!vacancyId || seenVacancyIds.has(vacancyId)) {
+        continue;
+      }
+      seenVacancyIds.add(vacancyId);
+      const detail = await this.httpClient
+        .getJson<WorkforceAustraliaVacancy>(VACANCY_DETAIL_URL.replace("{vacancyId}", vacancyId), {
+          signal: request.signal,
+        })
+        .catch(() => null);
+      if (request.signal?.aborted) {
+        break;
+      }
+      jobs.push(normalizeWorkforceAustraliaVacancy({ ...vacancy, ...detail }, request.extractedAt));
+    }
+    return jobs;
+  }
+}
+
+export function normalizeWorkforceAustraliaVacancy(
+  vacancy: WorkforceAustraliaVacancy,
+  extractedAt: string,
+): DiscoveryJob {
+  const jobUrl = VACANCY_URL.replace("{vacancyId}", String(vacancy.vacancyId ?? ""));
+  const address = vacancy.address;
+  const job = createEmptyDiscoveryJob({
+    id: jobUrl,
+    source: "workforce_australia",
+    title: (vacancy.title || "").trim(),
+    company: (vacancy.employerName || "").trim(),
+    location: [address?.suburb, [address?.state, address?.postcode].filter(Boolean).join(" ")]
+      .filter(Boolean)
+      .join(", "),
+    description: vacancy.description
+      ? htmlToText(vacancy.description, { keepLineBreaks: true })
+      : (vacancy.summary || "").trim(),
+    jobUrl,
+    extractedAt,
+    postedAt: vacancy.creationDate || null,
+  });
+  job.salary = (vacancy.salaryDescription || "").trim();
+  job.jobType = (vacancy.workType || "").trim();
+  return job;
+}
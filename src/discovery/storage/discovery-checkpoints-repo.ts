@@ -0,0 +1,81 @@
+import Database from "better-sqlite3";
+import type { DiscoveryJob, DiscoverySourceName } from "../core/types.js";
+import type { DiscoveryCheckpointStore, SourceCheckpoint } from "../core/run-discovery.js";
+
+type CheckpointKind = "page" | "source" | "ats";
+
+interface CheckpointRow {
+  page: number;
+  jobs: string;
+}
+
+/** Checkpoints of one discovery run, kept in `discovery_checkpoints`. */
+export class DiscoveryCheckpointsRepo implements DiscoveryCheckpointStore {
+  constructor(
+    private readonly db: Database.Database,
+    private readonly runId: number,
+  ) {}
+
+  loadSource(source: DiscoverySourceName): SourceCheckpoint | null {
+    const [complete] = this.load("source", source);
+    if (complete) {
+      return { jobs: parseJobs(complete.jobs), lastPage: complete.page, complete: true };
+    }
+    const pages = this.load("page", source);
+    if (pages.length === 0) {
+      return null;
+    }
+    return {
+      jobs: pages.flatMap((row) => parseJobs(row.jobs)),
+      lastPage: pages[pages.length - 1].page,
+      complete: false,
+    };
+  }
+
+  savePage(source: DiscoverySourceName, page: number, jobs: DiscoveryJob[]): void {
+    this.save("page", source, page, jobs);
+  }
+
+  /** Replaces the source's page checkpoints with everything it found. */
+  completeSource(source: DiscoverySourceName, jobs: DiscoveryJob[]): void {
+    this.db.transaction(() => {
+      this.db
+        .prepare("DELETE FROM discovery_checkpoints WHERE run_id = ? AND kind = 'page' AND target = ?")
+        .run(this.runId, source);
+      this.save("source", source, 0, jobs);
+    })();
+  }
+
+  loadAtsCrawl(companyKey: string): DiscoveryJob[] | null {
+    const [row] = this.load("ats", companyKey);
+    return row ? parseJobs(row.jobs) : null;
+  }
+
+  saveAtsCrawl(companyKey: string, jobs: DiscoveryJob[]): void {
+    this.save("ats", companyKey, 0, jobs);
+  }
+
+  private load(kind: CheckpointKind, target: string): CheckpointRow[] {
+    return this.db
+      .prepare(
+        `SELECT page, jobs
+         FROM discovery_checkpoints
+         WHERE run_id = ? AND kind = ? AND target = ?
+         ORDER BY page`,
+      )
+      .all(this.runId, kind, target) as CheckpointRow[];
+  }
+
+  private save(kind: CheckpointKind, target: string, page: number, jobs: DiscoveryJob[]): void {
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO discovery_checkpoints (run_id, kind, target, page, jobs)
+         VALUES (?, ?, ?, ?, ?)`,
+      )
+      .run(this.runId, kind, target, page, JSON.stringify(jobs));
+  }
+}
+
+function parseJobs(json: string): DiscoveryJob[] {
+  return JSON.parse(json) as DiscoveryJob[];
+}
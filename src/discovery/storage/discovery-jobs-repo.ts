@@ -1,6 +1,7 @@
 import Database from "better-sqlite3";
-import type { DiscoveryJob } from "../core/types.js";
-import { JobsRepo } from "../../storage/sqlite/jobs-repo.js";
+import type { AtsType, DiscoveryJob, DiscoveryJobSourceName } from "../core/types.js";
+import type { KnownJobLookup } from "../sources/base.js";
+import { JobsRepo, type JobRow } from "../../storage/sqlite/jobs-repo.js";
 
 export interface DiscoverySaveContext {
   keyword?: string;
@@ -8,6 +9,12 @@ export interface DiscoverySaveContext {
   runId?: number;
 }
 
+export interface KnownJobLookupOptions {
+  /** Fetch a known job's details again once they are this old. Omit to always reuse them. */
+  refreshAfterHours?: number;
+  now?: () => Date;
+}
+
 export class DiscoveryJobsRepo {
   private readonly jobsRepo: JobsRepo;
 
@@ -53,10 +60,74 @@ export class DiscoveryJobsRepo {
         securityClearance: job.securityClearance,
         prConfidence: job.prConfidence,
         prReasoning: job.prReasoning,
+        isProbableAgency: job.isProbableAgency,
         runId: context.runId,
         keyword: context.keyword,
         searchLocation: context.location,
+        sourceLinks: job.mergedFrom?.map((link) => ({
+          source: link.source,
+          url: link.jobUrl,
+          externalUrl: link.externalUrl,
+        })),
+        detailSkipped: job.detailSkipped,
       })),
     );
   }
+
+  /** Stored jobs for incremental discovery runs. */
+  createKnownJobLookup(options: KnownJobLookupOptions = {}): KnownJobLookup {
+    const now = options.now ?? (() => new Date());
+    return {
+      find: (jobUrl) => {
+        const row = this.jobsRepo.findByListingUrl(jobUrl);
+        if (!row) {
+          return null;
+        }
+        const fetchedAt = row.detail_fetched_at ? Date.parse(row.detail_fetched_at) : Number.NaN;
+        const stale =
+          options.refreshAfterHours !== undefined &&
+          (Number.isNaN(fetchedAt) ||
+            now().getTime() - fetchedAt >= options.refreshAfterHours * 60 * 60 * 1000);
+        return { job: toDiscoveryJob(row), stale };
+      },
+    };
+  }
+}
+
+function toDiscoveryJob(row: JobRow): DiscoveryJob {
+  return {
+    id: row.url,
+    source: row.source as DiscoveryJobSourceName,
+    title: row.title,
+    company: row.company,
+    location: row.location,
+    description: row.description ?? "",
+    jobUrl: row.job_url ?? row.url,
+    externalUrl: row.external_url ?? "",
+    atsType: (row.ats_type ?? "unknown") as AtsType,
+    atsIdentifier: row.ats_identifier ?? "",
+    postedAt: row.posted_at,
+    extractedAt: row.extracted_at ?? row.scraped_at,
+    salary: row.salary ?? "",
+    salaryRaw: row.salary_raw ?? "",
+    salaryMin: row.salary_min ?? "",
+    salaryMax: row.salary_max ?? "",
+    salaryCurrency: row.salary_currency ?? "",
+    salaryPeriod: row.salary_period ?? "",
+    jobType: row.job_type ?? "",
+    workArrangement: row.work_arrangement ?? "",
+    applicantCount: row.applicant_count ?? "",
+    requiredSkills: row.required_skills ?? "",
+    techStack: row.tech_stack ?? "[]",
+    experienceLevel: row.experience_level ?? "",
+    experienceYears: row.experience_years,
+    isPrRequired: row.is_pr_required === 1,
+    securityClearance: row.security_clearance ?? "",
+    prConfidence: row.pr_confidence ?? "",
+    prReasoning: row.pr_reasoning ?? "",
+    companyLogoUrl: row.company_logo_url ?? "",
+    isAlreadyApplied: row.is_already_applied === 1,
+    appliedDateUtc: row.applied_date_utc ?? "",
+    isProbableAgency: row.is_probable_agency === 1,
+  };
 }
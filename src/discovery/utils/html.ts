@@ -0,0 +1,74 @@
+/**
+ * Plain-text helpers for the HTML fragments job sites and ATS APIs return as
+ * descriptions. Regex-based on purpose: the fragments are small and a DOM
+ * parser would be a heavy dependency for stripping tags.
+ */
+
+export interface HtmlToTextOptions {
+  /**
+   * Keep one line per paragraph, list item or `<br>`, with list items
+   * bulleted. Otherwise everything collapses onto a single line.
+   */
+  keepLineBreaks?: boolean;
+}
+
+const BLOCK_END_PATTERN = /<\/(p|div|li|ul|ol|section|article|h\d)>/gi;
+
+export function htmlToText(content: string, options: HtmlToTextOptions = {}): string {
+  if (!content) {
+    return "";
+  }
+
+  if (!options.keepLineBreaks) {
+    return normalizeWhitespace(
+      decodeHtmlEntities(
+        content
+          .replace(/<br\s*\/?>/gi, " ")
+          .replace(BLOCK_END_PATTERN, " ")
+          .replace(/<[^>]+>/g, " "),
+      ),
+    );
+  }
+
+  return decodeHtmlEntities(
+    content
+      .replace(/<br\s*\/?>/gi, "\n")
+      .replace(/<p\b[^>]*>/gi, "\n")
+      .replace(/<li\b[^>]*>/gi, "\n• ")
+      .replace(BLOCK_END_PATTERN, "\n")
+      .replace(/<[^>]+>/g, " "),
+  )
+    .split("\n")
+    .map((line) =>
+      line
+        .replace(/[ \t]+/g, " ")
+        .replace(/ ([.,;:!?])/g, "$1")
+        .trim(),
+    )
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function normalizeWhitespace(value: string): string {
+  return value.replace(/\s+/g, " ").trim();
+}
+
+/** Decodes the named entities job HTML uses plus numeric ones; invalid code points are left as written. */
+export function decodeHtmlEntities(text: string): string {
+  return (
+    text
+      .replace(/&nbsp;/g, " ")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&quot;/g, '"')
+      .replace(/&apos;/g, "'")
+      .replace(/&#(\d+);/g, (entity, code: string) => fromCodePoint(Number(code)) ?? entity)
+      .replace(/&#x([0-9a-f]+);/gi, (entity, code: string) => fromCodePoint(parseInt(code, 16)) ?? entity)
+      // Last, so "&amp;lt;" decodes to "&lt;" rather than "<".
+      .replace(/&amp;/g, "&")
+  );
+}
+
+function fromCodePoint(code: number): string | null {
+  return Number.isInteger(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : null;
+}
@@ -1,4 +1,4 @@
-import { RateLimiter } from "./rate-limit.js";
+import { HostRateLimiter, defaultSleep, type SleepFn } from "./rate-limit.js";
 
 export const DEFAULT_HEADERS = {
   "User-Agent":
@@ -6,10 +6,13 @@ export const DEFAULT_HEADERS = {
   "Accept-Language": "en-US,en;q=0.9",
 };
 
-const RETRY_STATUS_CODES = new Set([429, 500, 502, 503, 504]);
+const RETRY_STATUS_CODES = new Set([429, 500, 502, 503, 504, 999]);
 
 export interface RateLimiterLike {
-  wait(): Promise<void>;
+  /** Resolves once a request to `url` may be sent; rejects if `signal` aborts first. */
+  wait(url?: string, signal?: AbortSignal): Promise<void>;
+  /** Told about every response, with its Retry-After in ms when it sent one. */
+  recordResponse?(url: string, status: number, retryAfterMs: number | null): void;
 }
 
 export interface HttpClientOptions {
@@ -17,31 +20,30 @@ export interface HttpClientOptions {
   timeoutMs?: number;
   maxRetries?: number;
   retryDelayMs?: number;
+  /** Longest Retry-After worth waiting out before retrying; longer ones fail the request. */
+  maxRetryAfterMs?: number;
   headers?: Record<string, string>;
   fetchImpl?: typeof fetch;
-  sleep?: (ms: number) => Promise<void>;
+  sleep?: SleepFn;
 }
 
-const defaultSleep = (ms: number) =>
-  new Promise<void>((resolve) => {
-    setTimeout(resolve, ms);
-  });
-
 export class HttpClient {
   readonly rateLimiter: RateLimiterLike;
   readonly timeoutMs: number;
   readonly maxRetries: number;
   readonly retryDelayMs: number;
+  readonly maxRetryAfterMs: number;
 
   private readonly headers: Record<string, string>;
   private readonly fetchImpl: typeof fetch;
-  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly sleep: SleepFn;
 
   constructor(options: HttpClientOptions = {}) {
-    this.rateLimiter = options.rateLimiter ?? new RateLimiter();
+    this.rateLimiter = options.rateLimiter ?? new HostRateLimiter();
     this.timeoutMs = options.timeoutMs ?? 20_000;
     this.maxRetries = options.maxRetries ?? 3;
     this.retryDelayMs = options.retryDelayMs ?? 1000;
+    this.maxRetryAfterMs = options.maxRetryAfterMs ?? 60_000;
     this.headers = { ...DEFAULT_HEADERS, ...(options.headers ?? {}) };
     this.fetchImpl = options.fetchImpl ?? fetch;
     this.sleep = options.sleep ?? defaultSleep;
@@ -52,28 +54,75 @@ export class HttpClient {
     options: {
       params?: Record<string, string>;
       headers?: Record<string, string>;
+      signal?: AbortSignal;
     } = {},
+  ): Promise<Response> {
+    return this.request("GET", url, options);
+  }
+
+  async post(
+    url: string,
+    options: {
+      params?: Record<string, string>;
+      headers?: Record<string, string>;
+      signal?: AbortSignal;
+      body?: string;
+    } = {},
+  ): Promise<Response> {
+    return this.request("POST", url, options);
+  }
+
+  private async request(
+    method: "GET" | "POST",
+    url: string,
+    options: {
+      params?: Record<string, string>;
+      headers?: Record<string, string>;
+      signal?: AbortSignal;
+      body?: string;
+    },
   ): Promise<Response> {
     const requestUrl = buildUrl(url, options.params);
     let attempt = 0;
     let lastError: unknown = null;
 
     while (attempt <= this.maxRetries) {
-      await this.rateLimiter.wait();
+      options.signal?.throwIfAborted();
+      await this.rateLimiter.wait(requestUrl, options.signal);
+      options.signal?.throwIfAborted();
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+      const abort = () => controller.abort(options.signal?.reason);
+      options.signal?.addEventListener("abort", abort, { once: true });
 
       try {
         const response = await this.fetchImpl(requestUrl, {
-          method: "GET",
+          method,
           headers: { ...this.headers, ...(options.headers ?? {}) },
+          body: options.body,
           signal: controller.signal,
         });
         clearTimeout(timeout);
+        options.signal?.removeEventListener("abort", abort);
+        options.signal?.throwIfAborted();
+        const retryAfterMs = parseRetryAfter(response.headers.get("retry-after"));
+        // A longer Retry-After fails this request below; the host is only held back as long as we would wait.
+        this.rateLimiter.recordResponse?.(
+          requestUrl,
+          response.status,
+          retryAfterMs === null ? null : Math.min(retryAfterMs, this.maxRetryAfterMs),
+        );
 
         if (RETRY_STATUS_CODES.has(response.status) && attempt < this.maxRetries) {
+          if (retryAfterMs !== null && retryAfterMs > this.maxRetryAfterMs) {
+            // Retrying sooner would ignore the server and waiting would stall the run.
+            lastError = new Error(
+              `HTTP ${response.status} for ${requestUrl} (retry after ${Math.ceil(retryAfterMs / 1000)}s)`,
+            );
+            break;
+          }
           attempt += 1;
-          await this.sleep(this.retryDelayMs * Math.pow(2, attempt - 1));
+          await this.sleep(retryAfterMs ?? this.retryDelayMs * Math.pow(2, attempt - 1), options.signal);
           continue;
         }
 
@@ -83,12 +132,14 @@ export class HttpClient {
         return response;
       } catch (error) {
         clearTimeout(timeout);
+        options.signal?.removeEventListener("abort", abort);
         lastError = error;
-        if (attempt >= this.maxRetries) {
+        // A cancelled run is not retried.
+        if (attempt >= this.maxRetries || options.signal?.aborted) {
           throw error;
         }
         attempt += 1;
-        await this.sleep(this.retryDelayMs * Math.pow(2, attempt - 1));
+        await this.sleep(this.retryDelayMs * Math.pow(2, attempt - 1), options.signal);
       }
     }
 
@@ -102,6 +153,7 @@ export class HttpClient {
     options: {
       params?: Record<string, string>;
       headers?: Record<string, string>;
+      signal?: AbortSignal;
     } = {},
   ): Promise<string> {
     const response = await this.get(url, options);
@@ -113,11 +165,47 @@ export class HttpClient {
     options: {
       params?: Record<string, string>;
       headers?: Record<string, string>;
+      signal?: AbortSignal;
     } = {},
   ): Promise<T> {
     const response = await this.get(url, options);
     return (await response.json()) as T;
   }
+
+  async postJson<T>(
+    url: string,
+    body: unknown,
+    options: {
+      params?: Record<string, string>;
+      headers?: Record<string, string>;
+      signal?: AbortSignal;
+    } = {},
+  ): Promise<T> {
+    const response = await this.post(url, {
+      ...options,
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...(options.headers ?? {}),
+      },
+      body: JSON.stringify(body),
+    });
+    return (await response.json()) as T;
+  }
+}
+
+/** Retry-After as a delay in ms, from either delta-seconds or an HTTP date. */
+export function parseRetryAfter(value: string | null, now = Date.now()): number | null {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return null;
+  }
+  const seconds = Number(trimmed);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
 }
 
 function buildUrl(url: string, params?: Record<string, string>): string {
@@ -1,5 +1,6 @@
 export interface SleepFn {
-  (ms: number): Promise<void>;
+  /** Rejects with the signal's reason if it aborts first. */
+  (ms: number, signal?: AbortSignal): Promise<void>;
 }
 
 export interface RandomFn {
@@ -10,63 +11,174 @@ export interface NowFn {
   (): number;
 }
 
-export interface RateLimiterOptions {
+export const defaultSleep: SleepFn = (ms, signal) =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface HostDelay {
+  minDelay: number;
+  maxDelay: number;
+}
+
+/**
+ * Hosts paced differently from the default window, unless the caller sets its
+ * own. Keys match the hostname and its subdomains. ATS job board APIs are
+ * built for polling; LinkedIn blocks quickly.
+ */
+export const DEFAULT_HOST_DELAYS: Readonly<Record<string, HostDelay>> = {
+  "linkedin.com": { minDelay: 1.5, maxDelay: 2.5 },
+  "greenhouse.io": { minDelay: 0.3, maxDelay: 0.6 },
+  "lever.co": { minDelay: 0.3, maxDelay: 0.6 },
+  "ashbyhq.com": { minDelay: 0.3, maxDelay: 0.6 },
+  "smartrecruiters.com": { minDelay: 0.3, maxDelay: 0.6 },
+};
+
+/** Status codes a host uses to say it is being hit too hard; 999 is LinkedIn's. */
+const THROTTLE_STATUS_CODES = new Set([429, 999]);
+const MAX_SLOWDOWN = 16;
+const RECOVERY_FACTOR = 1.25;
+
+export interface HostRateLimiterOptions {
+  /**
+   * Delay window, in seconds, for hosts without their own entry in `hosts`.
+   * Setting either one also replaces `DEFAULT_HOST_DELAYS`, so an explicit
+   * window is not overridden for LinkedIn or the ATS hosts.
+   */
   minDelay?: number;
   maxDelay?: number;
+  /** Per-host delay windows, merged over `DEFAULT_HOST_DELAYS` when those apply. */
+  hosts?: Record<string, HostDelay>;
+  /**
+   * Double a host's delay after each 429/999 response, up to 16x, and ease it
+   * back towards normal with every other response. Defaults to true.
+   */
+  adaptive?: boolean;
   random?: RandomFn;
   sleep?: SleepFn;
   now?: NowFn;
 }
 
-const defaultSleep: SleepFn = (ms) =>
-  new Promise((resolve) => {
-    setTimeout(resolve, ms);
-  });
+interface HostState {
+  delay: HostDelay;
+  /** When the latest request was, or is scheduled to be, sent. */
+  lastRequestAt: number | null;
+  /** Adaptive multiplier on the delay, 1 while the host is healthy. */
+  slowdown: number;
+  /** No request goes out before this time, set from Retry-After. */
+  blockedUntil: number;
+}
 
-export class RateLimiter {
+/**
+ * A jittered delay per host, so requests to one site never wait on another.
+ * Honours Retry-After and, in adaptive mode, slows a throttling host down.
+ */
+export class HostRateLimiter {
   readonly minDelay: number;
   readonly maxDelay: number;
 
+  private readonly hostDelays: Record<string, HostDelay>;
+  private readonly adaptive: boolean;
   private readonly random: RandomFn;
   private readonly sleep: SleepFn;
   private readonly now: NowFn;
-  private lastRequestAt: number | null = null;
+  private readonly states = new Map<string, HostState>();
 
-  constructor(options: RateLimiterOptions = {}) {
-    const minDelay = options.minDelay ?? 1.2;
-    const maxDelay = options.maxDelay ?? 1.8;
-    if (minDelay < 0) {
-      throw new Error("minDelay must be non-negative");
-    }
-    if (maxDelay < minDelay) {
-      throw new Error("maxDelay must be greater than or equal to minDelay");
+  constructor(options: HostRateLimiterOptions = {}) {
+    this.minDelay = options.minDelay ?? 1.2;
+    this.maxDelay = options.maxDelay ?? 1.8;
+    const customWindow = options.minDelay !== undefined || options.maxDelay !== undefined;
+    this.hostDelays = { ...(customWindow ? {} : DEFAULT_HOST_DELAYS), ...(options.hosts ?? {}) };
+    const delays = [{ minDelay: this.minDelay, maxDelay: this.maxDelay }, ...Object.values(this.hostDelays)];
+    for (const delay of delays) {
+      if (delay.minDelay < 0) {
+        throw new Error("minDelay must be non-negative");
+      }
+      if (delay.maxDelay < delay.minDelay) {
+        throw new Error("maxDelay must be greater than or equal to minDelay");
+      }
     }
-
-    this.minDelay = minDelay;
-    this.maxDelay = maxDelay;
+    this.adaptive = options.adaptive ?? true;
     this.random = options.random ?? Math.random;
     this.sleep = options.sleep ?? defaultSleep;
     this.now = options.now ?? (() => Date.now());
   }
 
-  async wait(): Promise<void> {
+  /**
+   * Waits for the URL's host to be free. Without a URL every call shares one
+   * bucket. An aborted signal ends the wait with its reason.
+   */
+  async wait(url?: string, signal?: AbortSignal): Promise<void> {
+    const state = this.stateFor(url);
     const currentTime = this.now();
-    if (this.lastRequestAt === null) {
-      this.lastRequestAt = currentTime;
+    let waitMs = Math.max(0, state.blockedUntil - currentTime);
+    if (state.lastRequestAt !== null) {
+      const spread = state.delay.maxDelay - state.delay.minDelay;
+      const delayMs = (state.delay.minDelay + spread * this.random()) * 1000 * state.slowdown;
+      waitMs = Math.max(waitMs, state.lastRequestAt + delayMs - currentTime);
+    }
+    // Claim the slot before sleeping so concurrent callers queue behind it.
+    state.lastRequestAt = currentTime + waitMs;
+    if (waitMs > 0) {
+      await this.sleep(waitMs, signal);
+    }
+  }
+
+  /** Feeds a response back: Retry-After blocks the host, throttling slows it down. */
+  recordResponse(url: string, status: number, retryAfterMs: number | null): void {
+    const state = this.stateFor(url);
+    if (retryAfterMs !== null) {
+      state.blockedUntil = Math.max(state.blockedUntil, this.now() + retryAfterMs);
+    }
+    if (!this.adaptive) {
       return;
     }
+    state.slowdown = THROTTLE_STATUS_CODES.has(status)
+      ? Math.min(state.slowdown * 2, MAX_SLOWDOWN)
+      : Math.max(1, state.slowdown / RECOVERY_FACTOR);
+  }
+
+  /** How many times slower than normal the URL's host is currently paced. */
+  slowdownFor(url: string): number {
+    return this.stateFor(url).slowdown;
+  }
+
+  private stateFor(url: string | undefined): HostState {
+    const host = url ? hostOf(url) : "";
+    let state = this.states.get(host);
+    if (!state) {
+      state = { delay: this.delayFor(host), lastRequestAt: null, slowdown: 1, blockedUntil: 0 };
+      this.states.set(host, state);
+    }
+    return state;
+  }
 
-    const delayMs = this.computeDelayMs();
-    const elapsedMs = currentTime - this.lastRequestAt;
-    const remainingMs = delayMs - elapsedMs;
-    if (remainingMs > 0) {
-      await this.sleep(remainingMs);
+  private delayFor(host: string): HostDelay {
+    for (const [pattern, delay] of Object.entries(this.hostDelays)) {
+      if (host === pattern || host.endsWith(`.${pattern}`)) {
+        return delay;
+      }
     }
-    this.lastRequestAt = this.now();
+    return { minDelay: this.minDelay, maxDelay: this.maxDelay };
   }
+}
 
-  private computeDelayMs(): number {
-    const spread = this.maxDelay - this.minDelay;
-    return (this.minDelay + spread * this.random()) * 1000;
+function hostOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return "";
   }
 }
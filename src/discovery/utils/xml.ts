@@ -0,0 +1,36 @@
+/**
+ * Minimal helpers for the flat RSS/XML job feeds some ATS providers publish.
+ * Not a general XML parser: nested elements with the same name are not supported.
+ */
+
+/** Inner XML of every `<tag>` element, in document order. */
+export function xmlElements(xml: string, tag: string): string[] {
+  const name = escapeTagName(tag);
+  const pattern = new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, "gi");
+  return [...xml.matchAll(pattern)].map((match) => match[1] ?? "");
+}
+
+/** Text of the first `<tag>` element with CDATA unwrapped and entities decoded. */
+export function xmlText(xml: string, tag: string): string {
+  const [element] = xmlElements(xml, tag);
+  return element === undefined ? "" : decodeXmlText(element).trim();
+}
+
+export function decodeXmlText(value: string): string {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(value);
+  if (cdata) {
+    return cdata[1] ?? "";
+  }
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#39;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/g, "&");
+}
+
+function escapeTagName(tag: string): string {
+  return tag.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
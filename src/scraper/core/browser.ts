@@ -126,22 +126,30 @@ export interface ScrapeProgress {
 }
 
 export interface StopController {
-  /** True when the user clicked Stop or the browser was closed. */
+  /** True when the user clicked Stop, the browser was closed or the run was cancelled. */
   get stopped(): boolean;
   /** Call to manually trigger a stop. */
   stop(): void;
 }
 
 /**
- * Creates a stop controller that also listens for browser disconnect.
- * Scrapers should check `controller.stopped` before processing each card.
+ * Creates a stop controller that also listens for browser disconnect and the
+ * optional abort signal. Scrapers should check `controller.stopped` before
+ * processing each card.
  */
-export function createStopController(browser: Browser): StopController {
-  let _stopped = false;
+export function createStopController(browser: Browser, signal?: AbortSignal): StopController {
+  let _stopped = signal?.aborted ?? false;
 
   browser.on("disconnected", () => {
     _stopped = true;
   });
+  signal?.addEventListener(
+    "abort",
+    () => {
+      _stopped = true;
+    },
+    { once: true },
+  );
 
   return {
     get stopped() {
@@ -321,6 +329,34 @@ export async function updateOverlayProgress(
   }
 }
 
+const CLOUDFLARE_CHALLENGE_TIMEOUT_MS = 30_000;
+const CLOUDFLARE_SETTLE_MS = 8000;
+const CLOUDFLARE_CHALLENGE_TITLES = ["Just a moment", "Verification"];
+
+/**
+ * Waits out a Cloudflare challenge ("Just a moment..." / verification) if the
+ * page is showing one, then lets the real page settle. Pages without a
+ * challenge only wait `idleDelayMs`.
+ */
+export async function waitForCloudflare(
+  page: Page,
+  options: { idleDelayMs?: number } = {},
+): Promise<void> {
+  const title = await page.title();
+  if (CLOUDFLARE_CHALLENGE_TITLES.some((marker) => title.includes(marker))) {
+    await page
+      .waitForFunction(
+        (markers: string[]) => !markers.some((marker) => document.title.includes(marker)),
+        CLOUDFLARE_CHALLENGE_TITLES,
+        { timeout: CLOUDFLARE_CHALLENGE_TIMEOUT_MS },
+      )
+      .catch(() => null);
+    await new Promise((r) => setTimeout(r, CLOUDFLARE_SETTLE_MS));
+  } else {
+    await new Promise((r) => setTimeout(r, options.idleDelayMs ?? 2000));
+  }
+}
+
 /**
  * Returns true if the error indicates the browser/page was closed by the user.
  */
@@ -98,6 +98,20 @@ function isPrimaryPlatformJob(job: DiscoveryJob, source: string): boolean {
       return hostname.includes("indeed.");
     case "jora":
       return hostname.includes("jora.");
+    case "glassdoor":
+      return hostname.includes("glassdoor.");
+    case "workforce_australia":
+      return hostname.includes("workforceaustralia.gov.au");
+    case "careerone":
+      return hostname.includes("careerone.");
+    case "remotive":
+      return hostname.includes("remotive.");
+    case "we_work_remotely":
+      return hostname.includes("weworkremotely.");
+    case "remoteok":
+      return hostname.includes("remoteok.");
+    case "hackernews":
+      return hostname.includes("ycombinator.com");
     default:
       return true;
   }
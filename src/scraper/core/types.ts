@@ -3,6 +3,8 @@ export interface ScrapeRequest {
   location: string;
   source: string;
   maxPages?: number;
+  /** Stops the scrape early, keeping the jobs collected so far. */
+  signal?: AbortSignal;
 }
 
 export interface ScrapedJob {
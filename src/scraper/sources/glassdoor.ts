@@ -0,0 +1,275 @@
+import type { Page } from "playwright";
+import {
+  launchBrowser,
+  createStopController,
+  injectScrapingOverlay,
+  updateOverlayProgress,
+  isBrowserClosedError,
+  waitForCloudflare,
+} from "../core/browser.js";
+import type {
+  ScrapeRequest,
+  ScrapedJob,
+  JobSourceScraper,
+} from "../core/types.js";
+import { htmlToText } from "../../discovery/utils/html.js";
+
+const GLASSDOOR_ORIGIN = "https://www.glassdoor.com.au";
+const BASE_DELAY_MS = 400;
+const LOAD_MORE_WAIT_MS = 3000;
+const MAX_TOTAL_JOBS = 500;
+const TOTAL_SCRAPE_TIMEOUT_MS = 15 * 60 * 1000;
+const DETAIL_TIMEOUT_MS = 20_000;
+const DETAIL_PANEL_WAIT_MS = 8000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+/** A search result card, before its job page is read. */
+export interface GlassdoorSearchCard {
+  jobId: string;
+  title: string;
+  company: string;
+  location: string;
+  url: string;
+  salary?: string;
+  snippet?: string;
+  postedDate?: string;
+  companyLogoUrl?: string;
+}
+
+export interface GlassdoorSearchPage {
+  cards: GlassdoorSearchCard[];
+  hasMoreJobs: boolean;
+}
+
+/**
+ * Glassdoor scraper. Results load in place through a "Show more jobs" button
+ * rather than separate pages, so each requested page is one more click and
+ * only cards not seen before are kept. Descriptions are read from each job's
+ * page in a second tab.
+ */
+export class GlassdoorScraper implements JobSourceScraper {
+  async scrape(request: ScrapeRequest): Promise<ScrapedJob[]> {
+    const browser = await launchBrowser();
+    const controller = createStopController(browser, request.signal);
+    const scrapeStart = Date.now();
+    try {
+      const context = await browser.newContext();
+      const page = await context.newPage();
+      const detailPage = await context.newPage();
+      const maxPages = request.maxPages ?? 1;
+      const allJobs: ScrapedJob[] = [];
+      const seenJobIds = new Set<string>();
+      let detailPagesOpened = 0;
+
+      await page.goto(buildGlassdoorUrl(request.keyword, request.location), {
+        waitUntil: "domcontentloaded",
+        timeout: 45000,
+      });
+      await waitForCloudflare(page);
+
+      for (let pageNum = 0; pageNum < maxPages; pageNum++) {
+        if (controller.stopped) break;
+        if (Date.now() - scrapeStart > TOTAL_SCRAPE_TIMEOUT_MS) break;
+
+        await dismissSignInModal(page);
+        await injectScrapingOverlay(page, controller);
+
+        const searchPage = parseGlassdoorSearchPage(await page.content());
+        const cards = searchPage.cards.filter((card) => {
+          if (seenJobIds.has(card.jobId)) return false;
+          seenJobIds.add(card.jobId);
+          return true;
+        });
+        if (cards.length === 0) break;
+
+        for (let i = 0; i < cards.length; i++) {
+          if (controller.stopped) break;
+          if (Date.now() - scrapeStart > TOTAL_SCRAPE_TIMEOUT_MS) break;
+
+          await updateOverlayProgress(page, {
+            source: "Glassdoor",
+            currentJob: i + 1,
+            totalCards: cards.length,
+            currentPage: pageNum + 1,
+            totalPages: maxPages,
+            jobsCollected: allJobs.length,
+          });
+
+          let description: string | null = null;
+          try {
+            description = await withTimeout(
+              readJobDescription(detailPage, cards[i].url, detailPagesOpened === 0),
+              DETAIL_TIMEOUT_MS,
+            );
+            detailPagesOpened += 1;
+            await sleep(BASE_DELAY_MS);
+          } catch (err) {
+            if (isBrowserClosedError(err)) break;
+            // keep the card-only job
+          }
+          allJobs.push(toScrapedJob(cards[i], description));
+        }
+
+        if (allJobs.length >= MAX_TOTAL_JOBS) {
+          allJobs.length = MAX_TOTAL_JOBS;
+          break;
+        }
+        if (!searchPage.hasMoreJobs || pageNum + 1 >= maxPages) break;
+        await page.click('button[data-test="load-more"]', { timeout: 10000 }).catch(() => null);
+        await sleep(LOAD_MORE_WAIT_MS);
+      }
+
+      return allJobs;
+    } catch (err) {
+      if (isBrowserClosedError(err)) return [];
+      throw err;
+    } finally {
+      if (!controller.stopped || request.signal?.aborted) {
+        await browser.close().catch(() => {});
+      }
+    }
+  }
+}
+
+async function dismissSignInModal(page: Page): Promise<void> {
+  await page
+    .click('[data-test="authModalContainerV2-content"] button.CloseButton', { timeout: 1000 })
+    .catch(() => null);
+}
+
+async function readJobDescription(
+  detailPage: Page,
+  url: string,
+  firstVisit: boolean,
+): Promise<string | null> {
+  await detailPage.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  if (firstVisit) {
+    await waitForCloudflare(detailPage);
+  }
+  await detailPage
+    .waitForSelector('[class*="JobDetails_jobDescription"]', { timeout: DETAIL_PANEL_WAIT_MS })
+    .catch(() => null);
+  return parseGlassdoorJobDescription(await detailPage.content());
+}
+
+/**
+ * Cards from a search results page's HTML. Listing ages ("3d", "24h") are
+ * converted to dates relative to `now`.
+ */
+export function parseGlassdoorSearchPage(html: string, now = new Date()): GlassdoorSearchPage {
+  const cards: GlassdoorSearchCard[] = [];
+  const cardStarts = [...html.matchAll(/<li\b[^>]*\bdata-test="jobListing"[^>]*>/gi)];
+
+  for (let index = 0; index < cardStarts.length; index++) {
+    const start = cardStarts[index];
+    const jobId = /\bdata-jobid="(\d+)"/i.exec(start[0])?.[1] ?? "";
+    const cardHtml = html.slice(
+      start.index,
+      index + 1 < cardStarts.length ? cardStarts[index + 1].index : undefined,
+    );
+    const titleMatch = /<a\b[^>]*\bdata-test="job-title"[^>]*>([\s\S]*?)<\/a>/i.exec(cardHtml);
+    const title = htmlToText(titleMatch?.[1] ?? "");
+    if (!jobId || !title) continue;
+
+    const age = textByDataTest(cardHtml, "job-age");
+    cards.push({
+      jobId,
+      title,
+      company: htmlToText(
+        /<span\b[^>]*class="[^"]*EmployerProfile_compactEmployerName[^"]*"[^>]*>([\s\S]*?)<\/span>/i
+          .exec(cardHtml)?.[1] ?? "",
+      ),
+      location: textByDataTest(cardHtml, "emp-location"),
+      url: buildJobListingUrl(jobId),
+      salary: textByDataTest(cardHtml, "detailSalary") || undefined,
+      snippet: textByDataTest(cardHtml, "descSnippet") || undefined,
+      postedDate: age ? listingAgeToDate(age, now) : undefined,
+      companyLogoUrl:
+        /<img\b[^>]*class="[^"]*avatar-base_Image[^"]*"[^>]*\bsrc="([^"]+)"/i.exec(cardHtml)?.[1] ||
+        undefined,
+    });
+  }
+
+  return {
+    cards,
+    hasMoreJobs: /data-test="load-more"/.test(html),
+  };
+}
+
+/** Description text from a job page's HTML. */
+export function parseGlassdoorJobDescription(html: string): string | null {
+  const open = /<div\b[^>]*class="[^"]*JobDetails_jobDescription[^"]*"[^>]*>/i.exec(html);
+  if (!open) {
+    return null;
+  }
+
+  const tagPattern = /<(\/?)div\b[^>]*>/gi;
+  tagPattern.lastIndex = open.index + open[0].length;
+  let depth = 1;
+  let end = html.length;
+  for (let match = tagPattern.exec(html); match; match = tagPattern.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      end = match.index;
+      break;
+    }
+  }
+  return htmlToText(html.slice(open.index + open[0].length, end), { keepLineBreaks: true }) || null;
+}
+
+function toScrapedJob(card: GlassdoorSearchCard, description: string | null): ScrapedJob {
+  return {
+    title: card.title,
+    company: card.company,
+    location: card.location,
+    url: card.url,
+    source: "glassdoor",
+    description: description || card.snippet || undefined,
+    salary: card.salary,
+    postedDate: card.postedDate,
+    companyLogoUrl: card.companyLogoUrl,
+    scrapedAt: new Date().toISOString(),
+  };
+}
+
+function textByDataTest(html: string, dataTest: string): string {
+  const match = new RegExp(
+    `<([a-z][a-z0-9]*)\\b[^>]*\\bdata-test="${dataTest}"[^>]*>([\\s\\S]*?)</\\1>`,
+    "i",
+  ).exec(html);
+  return htmlToText(match?.[2] ?? "");
+}
+
+function listingAgeToDate(age: string, now: Date): string | undefined {
+  const match = /^(\d+)\s*([hd])/i.exec(age.trim());
+  if (!match) {
+    return undefined;
+  }
+  const hours = Number(match[1]) * (match[2].toLowerCase() === "d" ? 24 : 1);
+  return new Date(now.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ms}ms`)),
+      ms,
+    );
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (err) => { clearTimeout(timer); reject(err); },
+    );
+  });
+}
+
+function buildJobListingUrl(jobId: string): string {
+  return `${GLASSDOOR_ORIGIN}/job-listing/j?jl=${encodeURIComponent(jobId)}`;
+}
+
+function buildGlassdoorUrl(keyword: string, location: string): string {
+  const params = new URLSearchParams({ "sc.keyword": keyword, locKeyword: location });
+  return `${GLASSDOOR_ORIGIN}/Job/jobs.htm?${params.toString()}`;
+}
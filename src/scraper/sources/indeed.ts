@@ -5,39 +5,88 @@ import {
   injectScrapingOverlay,
   updateOverlayProgress,
   isBrowserClosedError,
+  waitForCloudflare,
 } from "../core/browser.js";
 import type {
   ScrapeRequest,
   ScrapedJob,
   JobSourceScraper,
 } from "../core/types.js";
+import { htmlToText } from "../../discovery/utils/html.js";
 
+const INDEED_ORIGIN = "https://au.indeed.com";
+const RESULTS_PER_PAGE = 10;
+const BASE_DELAY_MS = 400;
 const PAGE_NAV_DELAY_MS = 2000;
-const CLOUDFLARE_WAIT_MS = 8000;
 const MAX_TOTAL_JOBS = 500;
 const TOTAL_SCRAPE_TIMEOUT_MS = 15 * 60 * 1000;
+const DETAIL_TIMEOUT_MS = 20_000;
+const DETAIL_PANEL_WAIT_MS = 8000;
 
 function sleep(ms: number): Promise<void> {
   return new Promise((r) => setTimeout(r, ms));
 }
 
+/** A search result card, before its detail panel is read. */
+export interface IndeedSearchCard {
+  jobKey: string;
+  title: string;
+  company: string;
+  location: string;
+  url: string;
+  salary?: string;
+  jobType?: string;
+  workplaceType?: string;
+  snippet?: string;
+  postedDate?: string;
+  companyLogoUrl?: string;
+}
+
+export interface IndeedSearchPage {
+  cards: IndeedSearchCard[];
+  hasNextPage: boolean;
+}
+
+export interface IndeedJobDetail {
+  description: string;
+  salary: string;
+  jobType: string;
+}
+
+interface IndeedMosaicResult {
+  jobkey?: string;
+  title?: string;
+  displayTitle?: string;
+  company?: string;
+  formattedLocation?: string;
+  salarySnippet?: { text?: string } | null;
+  jobTypes?: string[];
+  taxonomyAttributes?: Array<{ label?: string; attributes?: Array<{ label?: string }> }>;
+  remoteLocation?: boolean;
+  snippet?: string;
+  pubDate?: number;
+  companyBrandingAttributes?: { logoUrl?: string } | null;
+}
+
 /**
- * Indeed scraper — card-only extraction (no click-through).
- *
- * Indeed cards navigate away from the search page on click (no split-serp),
- * and redirect links are behind Cloudflare verification, so we extract
- * all available data directly from the search results cards.
+ * Indeed scraper. Search result pages embed their cards as JSON
+ * (`mosaic-provider-jobcards`), so cards are read from the page source with a
+ * DOM fallback. Cards navigate away from the results on click (no split-serp),
+ * so each job's detail panel is read from its `viewjob` page in a second tab.
  */
 export class IndeedScraper implements JobSourceScraper {
   async scrape(request: ScrapeRequest): Promise<ScrapedJob[]> {
     const browser = await launchBrowser();
-    const controller = createStopController(browser);
+    const controller = createStopController(browser, request.signal);
     const scrapeStart = Date.now();
     try {
       const context = await browser.newContext();
       const page = await context.newPage();
+      const detailPage = await context.newPage();
       const maxPages = request.maxPages ?? 1;
       const allJobs: ScrapedJob[] = [];
+      const seenJobKeys = new Set<string>();
+      let detailPagesOpened = 0;
 
       for (let pageNum = 0; pageNum < maxPages; pageNum++) {
         if (controller.stopped) break;
@@ -53,33 +102,51 @@ export class IndeedScraper implements JobSourceScraper {
         }
 
         await injectScrapingOverlay(page, controller);
-        await updateOverlayProgress(page, {
-          source: "Indeed",
-          currentJob: 0,
-          totalCards: 0,
-          currentPage: pageNum + 1,
-          totalPages: maxPages,
-          jobsCollected: allJobs.length,
+
+        const searchPage = parseIndeedSearchPage(await page.content());
+        const cards = (
+          searchPage.cards.length > 0 ? searchPage.cards : await extractCardsFromDom(page)
+        ).filter((card) => {
+          const key = card.jobKey || card.url;
+          if (seenJobKeys.has(key)) return false;
+          seenJobKeys.add(key);
+          return true;
         });
+        if (cards.length === 0) break;
 
-        const pageJobs = await extractJobsFromPage(page);
-        if (pageJobs.length === 0) break;
+        for (let i = 0; i < cards.length; i++) {
+          if (controller.stopped) break;
+          if (Date.now() - scrapeStart > TOTAL_SCRAPE_TIMEOUT_MS) break;
 
-        allJobs.push(...pageJobs);
+          await updateOverlayProgress(page, {
+            source: "Indeed",
+            currentJob: i + 1,
+            totalCards: cards.length,
+            currentPage: pageNum + 1,
+            totalPages: maxPages,
+            jobsCollected: allJobs.length,
+          });
 
-        await updateOverlayProgress(page, {
-          source: "Indeed",
-          currentJob: pageJobs.length,
-          totalCards: pageJobs.length,
-          currentPage: pageNum + 1,
-          totalPages: maxPages,
-          jobsCollected: allJobs.length,
-        });
+          let detail: IndeedJobDetail | null = null;
+          try {
+            detail = await withTimeout(
+              readDetailPanel(detailPage, cards[i].url, detailPagesOpened === 0),
+              DETAIL_TIMEOUT_MS,
+            );
+            detailPagesOpened += 1;
+            await sleep(BASE_DELAY_MS);
+          } catch (err) {
+            if (isBrowserClosedError(err)) break;
+            // keep the card-only job
+          }
+          allJobs.push(toScrapedJob(cards[i], detail));
+        }
 
         if (allJobs.length >= MAX_TOTAL_JOBS) {
           allJobs.length = MAX_TOTAL_JOBS;
           break;
         }
+        if (!searchPage.hasNextPage) break;
       }
 
       return allJobs;
@@ -87,51 +154,154 @@ export class IndeedScraper implements JobSourceScraper {
       if (isBrowserClosedError(err)) return [];
       throw err;
     } finally {
-      if (!controller.stopped) {
+      if (!controller.stopped || request.signal?.aborted) {
         await browser.close().catch(() => {});
       }
     }
   }
 }
 
-async function waitForCloudflare(page: Page): Promise<void> {
-  const title = await page.title();
-  if (title.includes("Just a moment") || title.includes("Verification")) {
-    await page.waitForFunction(
-      () => !document.title.includes("Just a moment") && !document.title.includes("Verification"),
-      { timeout: 30000 },
-    ).catch(() => null);
-    await sleep(CLOUDFLARE_WAIT_MS);
-  } else {
-    await sleep(2000);
+async function readDetailPanel(
+  detailPage: Page,
+  url: string,
+  firstVisit: boolean,
+): Promise<IndeedJobDetail | null> {
+  await detailPage.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+  if (firstVisit) {
+    await waitForCloudflare(detailPage);
+  }
+  await detailPage
+    .waitForSelector("#jobDescriptionText", { timeout: DETAIL_PANEL_WAIT_MS })
+    .catch(() => null);
+  return parseIndeedJobDetail(await detailPage.content());
+}
+
+/** Cards and pagination from a search results page's HTML. */
+export function parseIndeedSearchPage(html: string): IndeedSearchPage {
+  const payload = extractAssignedJson(
+    html,
+    'window.mosaic.providerData["mosaic-provider-jobcards"]',
+  ) as
+    | { metaData?: { mosaicProviderJobCardsModel?: { results?: IndeedMosaicResult[] } } }
+    | null;
+  const results = payload?.metaData?.mosaicProviderJobCardsModel?.results ?? [];
+
+  const cards: IndeedSearchCard[] = [];
+  for (const result of results) {
+    const title = (result.displayTitle || result.title || "").trim();
+    if (!result.jobkey || !title) continue;
+    cards.push({
+      jobKey: result.jobkey,
+      title,
+      company: (result.company || "").trim(),
+      location: (result.formattedLocation || "").trim(),
+      url: buildViewJobUrl(result.jobkey),
+      salary: result.salarySnippet?.text?.trim() || undefined,
+      jobType: mosaicJobTypes(result).join(", ") || undefined,
+      workplaceType: mosaicWorkplaceType(result),
+      snippet: htmlToText(result.snippet || "") || undefined,
+      postedDate:
+        typeof result.pubDate === "number" ? new Date(result.pubDate).toISOString() : undefined,
+      companyLogoUrl: result.companyBrandingAttributes?.logoUrl || undefined,
+    });
   }
+
+  return {
+    cards,
+    hasNextPage: /data-testid="pagination-page-next"/.test(html),
+  };
 }
 
-async function extractJobsFromPage(page: Page): Promise<ScrapedJob[]> {
+/** Description, salary and job type from a job's detail panel HTML. */
+export function parseIndeedJobDetail(html: string): IndeedJobDetail | null {
+  const descriptionHtml = elementInnerHtml(html, "jobDescriptionText");
+  if (descriptionHtml === null) {
+    return null;
+  }
+
+  let salary = "";
+  const jobTypes: string[] = [];
+  const headerHtml = elementInnerHtml(html, "salaryInfoAndJobType") ?? "";
+  for (const match of headerHtml.matchAll(/<span\b[^>]*>([\s\S]*?)<\/span>/gi)) {
+    const text = htmlToText(match[1]).replace(/^[-–—·]\s*/, "");
+    if (!text) continue;
+    if (isSalaryText(text)) {
+      salary ||= text;
+    } else if (isJobTypeText(text)) {
+      jobTypes.push(...text.split(/\s*,\s*/));
+    }
+  }
+
+  return {
+    description: htmlToText(descriptionHtml, { keepLineBreaks: true }),
+    salary,
+    jobType: [...new Set(jobTypes)].join(", "),
+  };
+}
+
+function toScrapedJob(card: IndeedSearchCard, detail: IndeedJobDetail | null): ScrapedJob {
+  return {
+    title: card.title,
+    company: card.company,
+    location: card.location,
+    url: card.url,
+    source: "indeed",
+    description: detail?.description || card.snippet || undefined,
+    salary: detail?.salary || card.salary || undefined,
+    postedDate: card.postedDate,
+    jobType: detail?.jobType || card.jobType || undefined,
+    workplaceType: card.workplaceType,
+    companyLogoUrl: card.companyLogoUrl,
+    scrapedAt: new Date().toISOString(),
+  };
+}
+
+function mosaicJobTypes(result: IndeedMosaicResult): string[] {
+  const fromTaxonomy = (result.taxonomyAttributes ?? [])
+    .filter((attribute) => attribute.label === "job-types")
+    .flatMap((attribute) => attribute.attributes ?? [])
+    .map((attribute) => attribute.label?.trim() ?? "")
+    .filter(Boolean);
+  return fromTaxonomy.length > 0 ? fromTaxonomy : (result.jobTypes ?? []).filter(Boolean);
+}
+
+function mosaicWorkplaceType(result: IndeedMosaicResult): string | undefined {
+  const remoteLabels = (result.taxonomyAttributes ?? [])
+    .filter((attribute) => attribute.label === "remote")
+    .flatMap((attribute) => attribute.attributes ?? [])
+    .map((attribute) => attribute.label?.toLowerCase() ?? "");
+  if (remoteLabels.some((label) => label.includes("hybrid"))) return "hybrid";
+  if (result.remoteLocation || remoteLabels.some((label) => label.includes("remote"))) {
+    return "remote";
+  }
+  return undefined;
+}
+
+/**
+ * Card extraction from the rendered DOM, for result pages that do not embed
+ * the job cards JSON.
+ */
+async function extractCardsFromDom(page: Page): Promise<IndeedSearchCard[]> {
   await page
     .waitForSelector(".job_seen_beacon", { timeout: 15000 })
     .catch(() => null);
 
-  // Extract all jobs in a single page.evaluate to avoid per-card overhead.
   // Use .job_seen_beacon as the card selector — these are the outer wrappers
   // that contain both the link and the metadata. The [data-jk] elements are
   // inner duplicates without links.
-  return page.evaluate(() => {
+  return page.evaluate((origin: string) => {
     const cards = document.querySelectorAll(".job_seen_beacon");
-    const jobs: Array<{
+    const results: Array<{
+      jobKey: string;
       title: string;
       company: string;
       location: string;
       url: string;
-      source: string;
       salary?: string;
       postedDate?: string;
       jobType?: string;
-      scrapedAt: string;
     }> = [];
 
-    const seen = new Set<string>();
-
     for (const el of cards) {
       const getText = (selector: string): string =>
         el.querySelector(selector)?.textContent?.trim() ?? "";
@@ -144,47 +314,25 @@ async function extractJobsFromPage(page: Page): Promise<ScrapedJob[]> {
         titleEl?.getAttribute("title") ??
         titleEl?.textContent?.trim() ??
         getText(".jobTitle");
-
       if (!title) continue;
 
-      // Company
-      const company = getText(
-        '[data-testid="company-name"], .companyName'
-      );
-
-      // Location
-      const location = getText(
-        '[data-testid="text-location"], .companyLocation'
-      );
-
       // URL — build canonical viewjob URL from data-jk if available
       const jk =
         el.getAttribute("data-jk") ||
         el.querySelector("[data-jk]")?.getAttribute("data-jk") ||
         "";
-
       let url = "";
       if (jk) {
-        url = `https://au.indeed.com/viewjob?jk=${jk}`;
+        url = `${origin}/viewjob?jk=${jk}`;
       } else {
         const titleLink = el.querySelector(
           "a.jcs-JobTitle, h2.jobTitle a"
         ) as HTMLAnchorElement | null;
         const href = titleLink?.getAttribute("href") ?? "";
-        url = href.startsWith("http")
-          ? href
-          : href
-            ? `https://au.indeed.com${href}`
-            : "";
+        url = href.startsWith("http") ? href : href ? `${origin}${href}` : "";
       }
-
       if (!url) continue;
 
-      // Deduplicate by jk or URL
-      const dedupeKey = jk || url;
-      if (seen.has(dedupeKey)) continue;
-      seen.add(dedupeKey);
-
       // Salary and job type from metadata snippets
       let salary: string | undefined;
       const jobTypeParts: string[] = [];
@@ -200,31 +348,111 @@ async function extractJobsFromPage(page: Page): Promise<ScrapedJob[]> {
           jobTypeParts.push(text);
         }
       });
-      const jobType = jobTypeParts.join(", ") || undefined;
 
-      // Posted date
-      const postedDate =
-        getText('.date, [data-testid="myJobsStateDate"]') || undefined;
-
-      jobs.push({
+      results.push({
+        jobKey: jk,
         title,
-        company,
-        location,
+        company: getText('[data-testid="company-name"], .companyName'),
+        location: getText('[data-testid="text-location"], .companyLocation'),
         url,
-        source: "indeed",
         salary,
-        postedDate,
-        jobType,
-        scrapedAt: new Date().toISOString(),
+        postedDate: getText('.date, [data-testid="myJobsStateDate"]') || undefined,
+        jobType: jobTypeParts.join(", ") || undefined,
       });
     }
 
-    return jobs;
+    return results;
+  }, INDEED_ORIGIN);
+}
+
+/** Parses the JSON object assigned to `target` in an inline script. */
+function extractAssignedJson(html: string, target: string): unknown {
+  const assignment = html.indexOf(target);
+  if (assignment === -1) {
+    return null;
+  }
+  const start = html.indexOf("{", assignment + target.length);
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  for (let index = start; index < html.length; index++) {
+    const char = html[index];
+    if (inString) {
+      if (char === "\\") {
+        index++;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inString = true;
+    } else if (char === "{") {
+      depth++;
+    } else if (char === "}") {
+      depth--;
+      if (depth === 0) {
+        try {
+          return JSON.parse(html.slice(start, index + 1));
+        } catch {
+          return null;
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/** Inner HTML of the element with the given id, matching nested tags of the same name. */
+function elementInnerHtml(html: string, id: string): string | null {
+  const open = new RegExp(`<([a-z][a-z0-9]*)\\b[^>]*\\bid="${id}"[^>]*>`, "i").exec(html);
+  if (!open) {
+    return null;
+  }
+  const tag = open[1];
+  const tagPattern = new RegExp(`<(/?)${tag}\\b[^>]*>`, "gi");
+  tagPattern.lastIndex = open.index + open[0].length;
+
+  let depth = 1;
+  for (let match = tagPattern.exec(html); match; match = tagPattern.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) {
+      return html.slice(open.index + open[0].length, match.index);
+    }
+  }
+  return html.slice(open.index + open[0].length);
+}
+
+function isSalaryText(text: string): boolean {
+  return /\$|a\s+year|a\s+month|a\s+week|a\s+day|an\s+hour|per\s+annum/i.test(text);
+}
+
+function isJobTypeText(text: string): boolean {
+  return /full.?time|part.?time|contract|casual|temporary|permanent|internship|fixed term/i.test(text);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out after ${ms}ms`)),
+      ms,
+    );
+    promise.then(
+      (value) => { clearTimeout(timer); resolve(value); },
+      (err) => { clearTimeout(timer); reject(err); },
+    );
   });
 }
 
+function buildViewJobUrl(jobKey: string): string {
+  return `${INDEED_ORIGIN}/viewjob?jk=${encodeURIComponent(jobKey)}`;
+}
+
 function buildIndeedUrl(keyword: string, location: string, pageNum: number): string {
   const params = new URLSearchParams({ q: keyword, l: location });
-  if (pageNum > 0) params.set("start", String(pageNum * 10));
-  return `https://au.indeed.com/jobs?${params.toString()}`;
+  if (pageNum > 0) params.set("start", String(pageNum * RESULTS_PER_PAGE));
+  return `${INDEED_ORIGIN}/jobs?${params.toString()}`;
 }
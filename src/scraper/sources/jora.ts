@@ -5,6 +5,7 @@ import {
   injectScrapingOverlay,
   updateOverlayProgress,
   isBrowserClosedError,
+  waitForCloudflare,
   type StopController,
 } from "../core/browser.js";
 import type {
@@ -15,7 +16,6 @@ import type {
 
 const BASE_DELAY_MS = 400;
 const PAGE_NAV_DELAY_MS = 2000;
-const CLOUDFLARE_WAIT_MS = 8000;
 const MAX_TOTAL_JOBS = 500;
 const TOTAL_SCRAPE_TIMEOUT_MS = 15 * 60 * 1000;
 const CARD_TIMEOUT_MS = 15_000;
@@ -28,7 +28,7 @@ function sleep(ms: number): Promise<void> {
 export class JoraScraper implements JobSourceScraper {
   async scrape(request: ScrapeRequest): Promise<ScrapedJob[]> {
     const browser = await launchBrowser();
-    const controller = createStopController(browser);
+    const controller = createStopController(browser, request.signal);
     const scrapeStart = Date.now();
     try {
       const context = await browser.newContext();
@@ -68,7 +68,7 @@ export class JoraScraper implements JobSourceScraper {
       if (isBrowserClosedError(err)) return [];
       throw err;
     } finally {
-      if (!controller.stopped) {
+      if (!controller.stopped || request.signal?.aborted) {
         await browser.close().catch(() => {});
       }
     }
@@ -177,20 +177,6 @@ export async function dismissPopups(page: Page): Promise<void> {
   }
 }
 
-async function waitForCloudflare(page: Page): Promise<void> {
-  const title = await page.title();
-  if (title.includes("Just a moment")) {
-    // Cloudflare challenge is active — wait for it to resolve
-    await page.waitForFunction(
-      () => !document.title.includes("Just a moment"),
-      { timeout: 30000 },
-    ).catch(() => null);
-    await sleep(CLOUDFLARE_WAIT_MS);
-  } else {
-    await sleep(2000);
-  }
-}
-
 async function scrapePageCards(
   page: Page,
   scrapeStart: number,
@@ -37,6 +37,7 @@ export class LinkedInScraper implements JobSourceScraper {
       const allJobs: ScrapedJob[] = [];
 
       for (let pageNum = 0; pageNum < maxPages; pageNum++) {
+        if (request.signal?.aborted) break;
         const url = buildLinkedInUrl(request.keyword, request.location, pageNum * JOBS_PER_PAGE);
         await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
         if (pageNum > 0) await sleep(PAGE_NAV_DELAY_MS);
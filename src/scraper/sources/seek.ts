@@ -36,7 +36,7 @@ function sleep(ms: number): Promise<void> {
 export class SeekScraper implements JobSourceScraper {
   async scrape(request: ScrapeRequest): Promise<ScrapedJob[]> {
     const browser = await launchBrowser();
-    const controller = createStopController(browser);
+    const controller = createStopController(browser, request.signal);
     const context = await createAuthenticatedContext(browser, "seek");
     const scrapeStart = Date.now();
     try {
@@ -91,7 +91,7 @@ export class SeekScraper implements JobSourceScraper {
       if (isBrowserClosedError(err)) return [];
       throw err;
     } finally {
-      if (!controller.stopped) {
+      if (!controller.stopped || request.signal?.aborted) {
         await browser.close().catch(() => {});
       }
     }
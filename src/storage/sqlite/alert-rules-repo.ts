@@ -0,0 +1,107 @@
+import Database from "better-sqlite3";
+import type { AlertRuleCriteria } from "../../discovery/alerts/alert-rules.js";
+
+export interface AlertRuleInput {
+  name: string;
+  criteria: AlertRuleCriteria;
+}
+
+export interface AlertRuleRow {
+  id: number;
+  name: string;
+  criteria: string;
+  enabled: number;
+  created_at: string;
+  updated_at: string | null;
+}
+
+export interface AlertRule {
+  id: number;
+  name: string;
+  criteria: AlertRuleCriteria;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+}
+
+export class AlertRulesRepo {
+  constructor(private readonly db: Database.Database) {}
+
+  create(input: AlertRuleInput): AlertRule {
+    const result = this.db
+      .prepare(
+        `INSERT INTO alert_rules (name, criteria, enabled, created_at)
+         VALUES (@name, @criteria, 1, datetime('now'))`,
+      )
+      .run({ name: input.name, criteria: JSON.stringify(input.criteria) });
+
+    const created = this.getById(Number(result.lastInsertRowid));
+    if (!created) {
+      throw new Error(`Failed to load created alert rule ${result.lastInsertRowid}`);
+    }
+    return created;
+  }
+
+  getById(id: number): AlertRule | null {
+    const row = this.db.prepare("SELECT * FROM alert_rules WHERE id = ?").get(id) as
+      | AlertRuleRow
+      | undefined;
+    return row ? toAlertRule(row) : null;
+  }
+
+  list(enabledOnly = false): AlertRule[] {
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM alert_rules
+         ${enabledOnly ? "WHERE enabled = 1" : ""}
+         ORDER BY id`,
+      )
+      .all() as AlertRuleRow[];
+    return rows.map(toAlertRule);
+  }
+
+  update(id: number, input: Partial<AlertRuleInput>): AlertRule | null {
+    const existing = this.getById(id);
+    if (!existing) {
+      return null;
+    }
+    this.db
+      .prepare(
+        `UPDATE alert_rules
+         SET name = @name, criteria = @criteria, updated_at = datetime('now')
+         WHERE id = @id`,
+      )
+      .run({
+        id,
+        name: input.name ?? existing.name,
+        criteria: JSON.stringify(input.criteria ?? existing.criteria),
+      });
+    return this.getById(id);
+  }
+
+  toggle(id: number, enabled: boolean): boolean {
+    const result = this.db
+      .prepare("UPDATE alert_rules SET enabled = ?, updated_at = datetime('now') WHERE id = ?")
+      .run(enabled ? 1 : 0, id);
+    return result.changes > 0;
+  }
+
+  /** Deletes the rule together with the alerts it raised. */
+  delete(id: number): boolean {
+    return this.db.transaction(() => {
+      this.db.prepare("DELETE FROM alerts WHERE rule_id = ?").run(id);
+      return this.db.prepare("DELETE FROM alert_rules WHERE id = ?").run(id).changes > 0;
+    })();
+  }
+}
+
+function toAlertRule(row: AlertRuleRow): AlertRule {
+  return {
+    id: row.id,
+    name: row.name,
+    criteria: JSON.parse(row.criteria),
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,107 @@
+import Database from "better-sqlite3";
+import type { JobRow } from "./jobs-repo.js";
+
+export interface AlertFilters {
+  unreadOnly?: boolean;
+  ruleId?: number;
+  limit?: number;
+  offset?: number;
+}
+
+export interface AlertRow {
+  id: number;
+  rule_id: number;
+  rule_name: string;
+  job_id: number;
+  run_id: number | null;
+  matched_at: string;
+  read_at: string | null;
+}
+
+export interface AlertWithJob extends AlertRow {
+  job: JobRow;
+}
+
+export class AlertsRepo {
+  constructor(private readonly db: Database.Database) {}
+
+  /** Records a match; returns false when the rule already alerted on this job. */
+  record(ruleId: number, jobId: number, runId: number | null): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT OR IGNORE INTO alerts (rule_id, job_id, run_id, matched_at)
+         VALUES (?, ?, ?, datetime('now'))`,
+      )
+      .run(ruleId, jobId, runId);
+    return result.changes > 0;
+  }
+
+  list(filters: AlertFilters = {}): AlertWithJob[] {
+    const { whereClause, params } = buildAlertWhere(filters);
+    const rows = this.db
+      .prepare(
+        `SELECT alerts.*, alert_rules.name AS rule_name
+         FROM alerts
+         JOIN alert_rules ON alert_rules.id = alerts.rule_id
+         ${whereClause}
+         ORDER BY alerts.matched_at DESC, alerts.id DESC
+         LIMIT @limit OFFSET @offset`,
+      )
+      .all({ ...params, limit: filters.limit ?? 50, offset: filters.offset ?? 0 }) as AlertRow[];
+
+    const selectJob = this.db.prepare("SELECT * FROM jobs WHERE id = ?");
+    return rows.flatMap((row) => {
+      const job = selectJob.get(row.job_id) as JobRow | undefined;
+      return job ? [{ ...row, job }] : [];
+    });
+  }
+
+  count(filters: Omit<AlertFilters, "limit" | "offset"> = {}): number {
+    const { whereClause, params } = buildAlertWhere(filters);
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM alerts ${whereClause}`)
+      .get(params) as { count: number };
+    return row.count;
+  }
+
+  /** Marks the given alerts (or every unread alert, optionally of one rule) as read. */
+  acknowledge(options: { ids?: number[]; ruleId?: number }): number {
+    if (options.ids) {
+      if (options.ids.length === 0) {
+        return 0;
+      }
+      return this.db
+        .prepare(
+          `UPDATE alerts SET read_at = datetime('now')
+           WHERE read_at IS NULL AND id IN (SELECT value FROM json_each(?))`,
+        )
+        .run(JSON.stringify(options.ids)).changes;
+    }
+    if (options.ruleId !== undefined) {
+      return this.db
+        .prepare("UPDATE alerts SET read_at = datetime('now') WHERE read_at IS NULL AND rule_id = ?")
+        .run(options.ruleId).changes;
+    }
+    return this.db.prepare("UPDATE alerts SET read_at = datetime('now') WHERE read_at IS NULL").run()
+      .changes;
+  }
+}
+
+function buildAlertWhere(filters: AlertFilters): {
+  whereClause: string;
+  params: Record<string, unknown>;
+} {
+  const where: string[] = [];
+  const params: Record<string, unknown> = {};
+  if (filters.unreadOnly) {
+    where.push("alerts.read_at IS NULL");
+  }
+  if (filters.ruleId !== undefined) {
+    where.push("alerts.rule_id = @ruleId");
+    params.ruleId = filters.ruleId;
+  }
+  return {
+    whereClause: where.length > 0 ? `WHERE ${where.join(" AND ")}` : "",
+    params,
+  };
+}
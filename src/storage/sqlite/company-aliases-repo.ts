@@ -0,0 +1,55 @@
+import Database from "better-sqlite3";
+import { normalizeForDedup } from "../../discovery/core/normalize.js";
+
+export interface CompanyAliasRow {
+  alias: string;
+  canonical: string;
+  created_at: string;
+}
+
+/**
+ * Names that refer to the same employer, e.g. "CBA" → "Commonwealth Bank".
+ * Both sides are stored in `normalizeForDedup` form.
+ */
+export class CompanyAliasesRepo {
+  constructor(private readonly db: Database.Database) {}
+
+  add(alias: string, canonical: string): CompanyAliasRow {
+    const normalizedAlias = normalizeForDedup(alias);
+    const normalizedCanonical = normalizeForDedup(canonical);
+    if (!normalizedAlias || !normalizedCanonical) {
+      throw new Error("Company alias and canonical name must contain letters or digits");
+    }
+    if (normalizedAlias === normalizedCanonical) {
+      throw new Error(`"${alias}" and "${canonical}" already normalize to the same name`);
+    }
+    this.db
+      .prepare(
+        `INSERT INTO company_aliases (alias, canonical, created_at)
+         VALUES (?, ?, datetime('now'))
+         ON CONFLICT(alias) DO UPDATE SET canonical = excluded.canonical`,
+      )
+      .run(normalizedAlias, normalizedCanonical);
+    return this.db
+      .prepare("SELECT * FROM company_aliases WHERE alias = ?")
+      .get(normalizedAlias) as CompanyAliasRow;
+  }
+
+  list(): CompanyAliasRow[] {
+    return this.db
+      .prepare("SELECT * FROM company_aliases ORDER BY canonical, alias")
+      .all() as CompanyAliasRow[];
+  }
+
+  /** Alias → canonical lookup for cross-platform dedup. */
+  toMap(): Map<string, string> {
+    return new Map(this.list().map((row) => [row.alias, row.canonical]));
+  }
+
+  delete(alias: string): boolean {
+    return (
+      this.db.prepare("DELETE FROM company_aliases WHERE alias = ?").run(normalizeForDedup(alias))
+        .changes > 0
+    );
+  }
+}
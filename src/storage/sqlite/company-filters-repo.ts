@@ -0,0 +1,92 @@
+import Database from "better-sqlite3";
+import type {
+  CompanyFilterKind,
+  CompanyFilterList,
+  CompanyFilterMatchType,
+  CompanyFilterRule,
+} from "../../discovery/core/company-filter.js";
+
+export interface CompanyFilterInput extends CompanyFilterRule {
+  note?: string;
+}
+
+export interface CompanyFilterRow {
+  id: number;
+  list: CompanyFilterList;
+  kind: CompanyFilterKind;
+  match_type: CompanyFilterMatchType;
+  pattern: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface StoredCompanyFilter extends CompanyFilterRule {
+  id: number;
+  note: string | null;
+  createdAt: string;
+}
+
+export class CompanyFiltersRepo {
+  constructor(private readonly db: Database.Database) {}
+
+  /** Adds a rule; adding the same rule twice returns the existing one. */
+  add(input: CompanyFilterInput): StoredCompanyFilter {
+    this.db
+      .prepare(
+        `INSERT INTO company_filters (list, kind, match_type, pattern, note, created_at)
+         VALUES (@list, @kind, @matchType, @pattern, @note, datetime('now'))
+         ON CONFLICT(list, kind, match_type, pattern) DO UPDATE SET note = COALESCE(excluded.note, note)`,
+      )
+      .run({
+        list: input.list,
+        kind: input.kind,
+        matchType: input.matchType,
+        pattern: input.pattern,
+        note: input.note ?? null,
+      });
+
+    const row = this.db
+      .prepare(
+        `SELECT * FROM company_filters
+         WHERE list = ? AND kind = ? AND match_type = ? AND pattern = ?`,
+      )
+      .get(input.list, input.kind, input.matchType, input.pattern) as CompanyFilterRow | undefined;
+    if (!row) {
+      throw new Error(`Failed to load company filter ${input.pattern}`);
+    }
+    return toStoredCompanyFilter(row);
+  }
+
+  list(list?: CompanyFilterList): StoredCompanyFilter[] {
+    const rows =
+      list === undefined
+        ? (this.db.prepare("SELECT * FROM company_filters ORDER BY list, id").all() as CompanyFilterRow[])
+        : (this.db
+            .prepare("SELECT * FROM company_filters WHERE list = ? ORDER BY id")
+            .all(list) as CompanyFilterRow[]);
+    return rows.map(toStoredCompanyFilter);
+  }
+
+  delete(id: number): boolean {
+    return this.db.prepare("DELETE FROM company_filters WHERE id = ?").run(id).changes > 0;
+  }
+
+  clear(list?: CompanyFilterList): number {
+    if (list === undefined) {
+      return this.db.prepare("DELETE FROM company_filters").run().changes;
+    }
+    return this.db.prepare("DELETE FROM company_filters WHERE list = ?").run(list).changes;
+  }
+}
+
+function toStoredCompanyFilter(row: CompanyFilterRow): StoredCompanyFilter {
+  return {
+    id: row.id,
+    list: row.list,
+    kind: row.kind,
+    matchType: row.match_type,
+    pattern: row.pattern,
+    note: row.note,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,171 @@
+import Database from "better-sqlite3";
+
+export interface WatchlistCompanyInput {
+  company: string;
+  atsType?: string | null;
+  atsIdentifier?: string | null;
+  /** Used to find the company's ATS board when the type and identifier are not known. */
+  careersUrl?: string | null;
+}
+
+export interface CompanyWatchlistRow {
+  id: number;
+  company: string;
+  ats_type: string | null;
+  ats_identifier: string | null;
+  careers_url: string | null;
+  enabled: number;
+  created_at: string;
+  updated_at: string;
+  last_crawled_at: string | null;
+  last_job_count: number | null;
+  last_error: string | null;
+}
+
+export interface StoredWatchlistCompany {
+  id: number;
+  company: string;
+  atsType: string | null;
+  atsIdentifier: string | null;
+  careersUrl: string | null;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastCrawledAt: string | null;
+  lastJobCount: number | null;
+  lastError: string | null;
+}
+
+export interface WatchlistCrawlRecord {
+  /** Board resolved from the careers URL during the crawl, remembered for next time. */
+  atsType?: string | null;
+  atsIdentifier?: string | null;
+  jobCount?: number;
+  error?: string;
+}
+
+/** Companies whose ATS boards are crawled directly, without a job-site search. */
+export class CompanyWatchlistRepo {
+  constructor(private readonly db: Database.Database) {}
+
+  /** Adds a company; adding a board that is already watched updates that entry. */
+  add(input: WatchlistCompanyInput): StoredWatchlistCompany {
+    const company = input.company.trim();
+    const atsType = input.atsType?.trim() || null;
+    const atsIdentifier = input.atsIdentifier?.trim() || null;
+    const careersUrl = input.careersUrl?.trim() || null;
+    if (!company) {
+      throw new Error("Watchlist company name must not be empty");
+    }
+    if (!careersUrl && (!atsType || !atsIdentifier)) {
+      throw new Error(`Watchlist entry for ${company} needs an ATS type and identifier or a careers URL`);
+    }
+
+    const existing =
+      atsType && atsIdentifier
+        ? (this.db
+            .prepare("SELECT id FROM company_watchlist WHERE ats_type = ? AND ats_identifier = ?")
+            .get(atsType, atsIdentifier) as { id: number } | undefined)
+        : undefined;
+    let id: number;
+    if (existing) {
+      this.db
+        .prepare(
+          `UPDATE company_watchlist
+           SET company = ?, careers_url = COALESCE(?, careers_url), updated_at = datetime('now')
+           WHERE id = ?`,
+        )
+        .run(company, careersUrl, existing.id);
+      id = existing.id;
+    } else {
+      const result = this.db
+        .prepare(
+          `INSERT INTO company_watchlist (company, ats_type, ats_identifier, careers_url, created_at, updated_at)
+           VALUES (?, ?, ?, ?, datetime('now'), datetime('now'))`,
+        )
+        .run(company, atsType, atsIdentifier, careersUrl);
+      id = Number(result.lastInsertRowid);
+    }
+
+    const stored = this.get(id);
+    if (!stored) {
+      throw new Error(`Failed to load watchlist company ${id}`);
+    }
+    return stored;
+  }
+
+  get(id: number): StoredWatchlistCompany | null {
+    const row = this.db.prepare("SELECT * FROM company_watchlist WHERE id = ?").get(id) as
+      | CompanyWatchlistRow
+      | undefined;
+    return row ? toStoredWatchlistCompany(row) : null;
+  }
+
+  list(enabledOnly = false): StoredWatchlistCompany[] {
+    const rows = this.db
+      .prepare(
+        enabledOnly
+          ? "SELECT * FROM company_watchlist WHERE enabled = 1 ORDER BY company, id"
+          : "SELECT * FROM company_watchlist ORDER BY company, id",
+      )
+      .all() as CompanyWatchlistRow[];
+    return rows.map(toStoredWatchlistCompany);
+  }
+
+  toggle(id: number, enabled: boolean): boolean {
+    return (
+      this.db
+        .prepare("UPDATE company_watchlist SET enabled = ?, updated_at = datetime('now') WHERE id = ?")
+        .run(enabled ? 1 : 0, id).changes > 0
+    );
+  }
+
+  recordCrawl(id: number, record: WatchlistCrawlRecord): void {
+    // Keep the careers URL as the source of truth when another entry already watches the board.
+    const boardTaken =
+      record.atsType && record.atsIdentifier
+        ? this.db
+            .prepare(
+              "SELECT 1 FROM company_watchlist WHERE ats_type = ? AND ats_identifier = ? AND id != ?",
+            )
+            .get(record.atsType, record.atsIdentifier, id) !== undefined
+        : false;
+    this.db
+      .prepare(
+        `UPDATE company_watchlist
+         SET ats_type = COALESCE(@atsType, ats_type),
+             ats_identifier = COALESCE(@atsIdentifier, ats_identifier),
+             last_crawled_at = datetime('now'),
+             last_job_count = COALESCE(@jobCount, last_job_count),
+             last_error = @error
+         WHERE id = @id`,
+      )
+      .run({
+        id,
+        atsType: boardTaken ? null : (record.atsType ?? null),
+        atsIdentifier: boardTaken ? null : (record.atsIdentifier ?? null),
+        jobCount: record.jobCount ?? null,
+        error: record.error ?? null,
+      });
+  }
+
+  delete(id: number): boolean {
+    return this.db.prepare("DELETE FROM company_watchlist WHERE id = ?").run(id).changes > 0;
+  }
+}
+
+function toStoredWatchlistCompany(row: CompanyWatchlistRow): StoredWatchlistCompany {
+  return {
+    id: row.id,
+    company: row.company,
+    atsType: row.ats_type,
+    atsIdentifier: row.ats_identifier,
+    careersUrl: row.careers_url,
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    lastCrawledAt: row.last_crawled_at,
+    lastJobCount: row.last_job_count,
+    lastError: row.last_error,
+  };
+}
@@ -10,7 +10,14 @@ export function openDatabase(
   mkdirSync(path.dirname(dbPath), { recursive: true });
 
   const db = new Database(dbPath);
-  runMigrations(db);
+  try {
+    // SQLite leaves foreign keys off per connection; the ON DELETE CASCADE clauses need them.
+    db.pragma("foreign_keys = ON");
+    runMigrations(db);
+  } catch (error) {
+    db.close();
+    throw error;
+  }
 
   return db;
 }
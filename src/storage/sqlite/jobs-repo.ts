@@ -36,16 +36,99 @@ export interface JobRecordInput {
   securityClearance?: string;
   prConfidence?: string;
   prReasoning?: string;
+  isProbableAgency?: boolean;
   runId?: number;
   keyword?: string;
   searchLocation?: string;
+  /** Other listings of the same posting (from cross-platform dedup). */
+  sourceLinks?: JobSourceLinkInput[];
+  /** The details were reused from the stored row rather than fetched again. */
+  detailSkipped?: boolean;
+}
+
+export interface JobSourceLinkInput {
+  source: string;
+  url: string;
+  externalUrl?: string;
+}
+
+export interface JobSourceRow {
+  id: number;
+  job_id: number;
+  source: string;
+  url: string;
+  external_url: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export type JobSortField =
+  | "scraped_at"
+  | "first_seen_at"
+  | "posted_at"
+  | "salary_min"
+  | "salary_max"
+  | "experience_years"
+  | "title"
+  | "company";
+
+export type JobSortOrder = "asc" | "desc";
+
+/**
+ * Local view of whether a listing is still open. "probably_expired" means it
+ * stopped appearing in a schedule's runs; "expired" means a liveness check
+ * confirmed it is gone.
+ */
+export type ListingStatus = "active" | "probably_expired" | "expired";
+
+export interface MissingScheduleJobsInput {
+  scheduleId: number;
+  runId: number;
+  /** Consecutive runs a job must be missing from before it is marked. */
+  missedRunsThreshold: number;
+  /** Only consider jobs from sources that completed in this run. */
+  sources: string[];
+}
+
+export interface ExpiryCandidate {
+  id: number;
+  url: string;
+  jobUrl: string | null;
+  externalUrl: string | null;
+  atsType: string | null;
+  atsIdentifier: string | null;
+  missedRuns: number;
 }
 
 export interface JobSearchFilters {
   keyword?: string;
   location?: string;
   source?: string;
+  /** Matches jobs whose advertised range reaches at least this amount. */
+  salaryMin?: number;
+  /** Matches jobs whose advertised range starts at or below this amount. */
+  salaryMax?: number;
+  salaryCurrency?: string;
+  salaryPeriod?: string;
+  workArrangement?: string;
+  jobType?: string;
+  experienceLevel?: string;
+  minExperienceYears?: number;
+  maxExperienceYears?: number;
+  isPrRequired?: boolean;
+  isProbableAgency?: boolean;
+  /** true = any clearance mentioned, false = none mentioned. */
+  requiresSecurityClearance?: boolean;
+  securityClearance?: string;
+  atsType?: string;
+  postedAfter?: string;
+  postedBefore?: string;
+  runId?: number;
+  listingStatus?: ListingStatus;
+  sortBy?: JobSortField;
+  sortOrder?: JobSortOrder;
   limit?: number;
+  offset?: number;
 }
 
 export interface JobRow {
@@ -85,9 +168,49 @@ export interface JobRow {
   security_clearance: string | null;
   pr_confidence: string | null;
   pr_reasoning: string | null;
+  is_probable_agency: number;
   run_id: number | null;
   keyword: string | null;
   search_location: string | null;
+  first_seen_at: string | null;
+  last_seen_at: string | null;
+  listing_status: ListingStatus;
+  missed_runs: number;
+  listing_status_changed_at: string | null;
+  listing_status_run_id: number | null;
+  detail_fetched_at: string | null;
+  /** Run whose liveness check last found the listing still open. */
+  liveness_checked_run_id: number | null;
+}
+
+export interface FieldChange {
+  from: string | number | null;
+  to: string | number | null;
+}
+
+export type FieldChanges = Record<string, FieldChange>;
+
+export interface JobObservation {
+  id: number;
+  jobId: number;
+  runId: number | null;
+  observedAt: string;
+  isNew: boolean;
+  changes: FieldChanges;
+}
+
+interface JobObservationRow {
+  id: number;
+  job_id: number;
+  run_id: number | null;
+  observed_at: string;
+  is_new: number;
+  changed_fields: string | null;
+}
+
+export interface JobTextSearchRow extends JobRow {
+  rank: number;
+  snippet: string;
 }
 
 export class JobsRepo {
@@ -105,8 +228,8 @@ export class JobsRepo {
         company_logo_url, applicant_count, is_already_applied, applied_date_utc,
         scraped_at, extracted_at, salary_raw, salary_min, salary_max, salary_currency, salary_period,
         required_skills, tech_stack, experience_level, experience_years, is_pr_required,
-        security_clearance, pr_confidence, pr_reasoning,
-        run_id, keyword, search_location
+        security_clearance, pr_confidence, pr_reasoning, is_probable_agency,
+        run_id, keyword, search_location, first_seen_at, last_seen_at, detail_fetched_at
       )
       VALUES (
         @title, @company, @location, @url, @jobUrl, @externalUrl, @source, @atsType, @atsIdentifier,
@@ -114,8 +237,8 @@ export class JobsRepo {
         @companyLogoUrl, @applicantCount, @isAlreadyApplied, @appliedDateUtc,
         @scrapedAt, @extractedAt, @salaryRaw, @salaryMin, @salaryMax, @salaryCurrency, @salaryPeriod,
         @requiredSkills, @techStack, @experienceLevel, @experienceYears, @isPrRequired,
-        @securityClearance, @prConfidence, @prReasoning,
-        @runId, @keyword, @searchLocation
+        @securityClearance, @prConfidence, @prReasoning, @isProbableAgency,
+        @runId, @keyword, @searchLocation, @scrapedAt, @scrapedAt, @detailFetchedAt
       )
       ON CONFLICT(url) DO UPDATE SET
         title = excluded.title,
@@ -152,14 +275,78 @@ export class JobsRepo {
         security_clearance = excluded.security_clearance,
         pr_confidence = excluded.pr_confidence,
         pr_reasoning = excluded.pr_reasoning,
+        is_probable_agency = excluded.is_probable_agency,
         run_id = excluded.run_id,
         keyword = excluded.keyword,
-        search_location = excluded.search_location
+        search_location = excluded.search_location,
+        first_seen_at = COALESCE(jobs.first_seen_at, excluded.first_seen_at),
+        last_seen_at = excluded.last_seen_at,
+        detail_fetched_at = COALESCE(excluded.detail_fetched_at, jobs.detail_fetched_at),
+        missed_runs = 0,
+        listing_status_changed_at = CASE
+          WHEN jobs.listing_status = 'active' THEN jobs.listing_status_changed_at
+          ELSE excluded.last_seen_at
+        END,
+        listing_status_run_id = CASE
+          WHEN jobs.listing_status = 'active' THEN jobs.listing_status_run_id
+          ELSE excluded.run_id
+        END,
+        listing_status = 'active'
+      RETURNING id
+    `);
+    const selectTracked = this.db.prepare(
+      `SELECT ${TRACKED_FIELDS.map(([column]) => column).join(", ")} FROM jobs WHERE url = ?`,
+    );
+    const selectRunObservation = this.db.prepare(`
+      SELECT id, changed_fields
+      FROM job_observations
+      WHERE job_id = @jobId AND run_id = @runId
+    `);
+    const insertObservation = this.db.prepare(`
+      INSERT INTO job_observations (job_id, run_id, observed_at, is_new, changed_fields)
+      VALUES (@jobId, @runId, @observedAt, @isNew, @changedFields)
+    `);
+    const updateObservation = this.db.prepare(`
+      UPDATE job_observations
+      SET observed_at = @observedAt, changed_fields = @changedFields
+      WHERE id = @id
+    `);
+
+    const selectJobIdByUrl = this.db.prepare("SELECT id FROM jobs WHERE url = ?");
+    const selectLinkedJobId = this.db.prepare(`
+      SELECT job_sources.job_id AS id
+      FROM job_sources
+      JOIN jobs ON jobs.id = job_sources.job_id
+      WHERE job_sources.url IN (SELECT value FROM json_each(?))
+      ORDER BY job_sources.job_id
+      LIMIT 1
+    `);
+    const adoptJobUrl = this.db.prepare("UPDATE jobs SET url = @url WHERE id = @id");
+    const upsertSource = this.db.prepare(`
+      INSERT INTO job_sources (job_id, source, url, external_url, first_seen_at, last_seen_at)
+      VALUES (@jobId, @source, @url, @externalUrl, @seenAt, @seenAt)
+      ON CONFLICT(url) DO UPDATE SET
+        -- Dedup may fold a listing into a different job; the link follows it.
+        job_id = excluded.job_id,
+        external_url = COALESCE(excluded.external_url, job_sources.external_url),
+        last_seen_at = excluded.last_seen_at
     `);
 
     const upsertMany = this.db.transaction((rows: JobRecordInput[]) => {
       for (const job of rows) {
-        statement.run({
+        const links = job.sourceLinks ?? [];
+        if (links.length > 0 && !selectJobIdByUrl.get(job.url)) {
+          // A merged record whose primary listing changed: keep updating the
+          // row stored under one of its other URLs instead of creating a twin.
+          const linked = selectLinkedJobId.get(JSON.stringify(links.map((link) => link.url))) as
+            | { id: number }
+            | undefined;
+          if (linked) {
+            adoptJobUrl.run({ id: linked.id, url: job.url });
+          }
+        }
+
+        const params = {
           title: job.title,
           company: job.company,
           location: job.location,
@@ -195,9 +382,55 @@ export class JobsRepo {
           securityClearance: job.securityClearance ?? null,
           prConfidence: job.prConfidence ?? null,
           prReasoning: job.prReasoning ?? null,
+          isProbableAgency: job.isProbableAgency ? 1 : 0,
           runId: job.runId ?? null,
           keyword: job.keyword ?? null,
           searchLocation: job.searchLocation ?? null,
+          detailFetchedAt: job.detailSkipped ? null : job.scrapedAt,
+        };
+        const previous = selectTracked.get(job.url) as Record<string, unknown> | undefined;
+        const { id: jobId } = statement.get(params) as { id: number };
+        for (const link of [
+          { source: job.source, url: job.url, externalUrl: job.externalUrl },
+          ...links,
+        ]) {
+          upsertSource.run({
+            jobId,
+            source: link.source,
+            url: link.url,
+            externalUrl: link.externalUrl || null,
+            seenAt: params.scrapedAt,
+          });
+        }
+        const changes = previous ? diffTrackedFields(previous, params) : null;
+
+        // A run may persist the same job more than once (incremental batches
+        // plus a final sweep); fold those into one observation per run.
+        const runObservation =
+          params.runId === null
+            ? undefined
+            : (selectRunObservation.get({ jobId, runId: params.runId }) as
+                | { id: number; changed_fields: string | null }
+                | undefined);
+        if (runObservation) {
+          if (changes && Object.keys(changes).length > 0) {
+            const merged = mergeFieldChanges(parseFieldChanges(runObservation.changed_fields), changes);
+            // A field that changed and changed back within the run is no change at all.
+            updateObservation.run({
+              id: runObservation.id,
+              observedAt: params.scrapedAt,
+              changedFields: Object.keys(merged).length > 0 ? JSON.stringify(merged) : null,
+            });
+          }
+          continue;
+        }
+
+        insertObservation.run({
+          jobId,
+          runId: params.runId,
+          observedAt: params.scrapedAt,
+          isNew: previous ? 0 : 1,
+          changedFields: changes && Object.keys(changes).length > 0 ? JSON.stringify(changes) : null,
         });
       }
     });
@@ -206,32 +439,505 @@ export class JobsRepo {
   }
 
   search(filters: JobSearchFilters): JobRow[] {
-    const where: string[] = [];
-    const params: Record<string, string | number> = {
-      limit: filters.limit ?? 50,
-    };
-
-    if (filters.keyword) {
-      where.push("(title LIKE @keyword OR company LIKE @keyword)");
-      params.keyword = `%${filters.keyword}%`;
-    }
+    const { whereClause, params } = buildSearchWhere(filters);
+    const sortColumn = SORT_COLUMNS[filters.sortBy ?? "scraped_at"];
+    const sortOrder = filters.sortOrder === "asc" ? "ASC" : "DESC";
 
-    if (filters.location) {
-      where.push("location LIKE @location");
-      params.location = `%${filters.location}%`;
-    }
+    return this.db
+      .prepare(
+        `SELECT * FROM jobs ${whereClause}
+         ORDER BY ${sortColumn} IS NULL, ${sortColumn} ${sortOrder}, id DESC
+         LIMIT @limit OFFSET @offset`,
+      )
+      .all({
+        ...params,
+        limit: filters.limit ?? 50,
+        offset: filters.offset ?? 0,
+      }) as JobRow[];
+  }
 
-    if (filters.source) {
-      where.push("source = @source");
-      params.source = filters.source;
-    }
+  count(filters: JobSearchFilters): number {
+    const { whereClause, params } = buildSearchWhere(filters);
+    const row = this.db
+      .prepare(`SELECT COUNT(*) AS count FROM jobs ${whereClause}`)
+      .get(params) as { count: number };
+    return row.count;
+  }
 
-    const whereClause = where.length > 0 ? `WHERE ${where.join(" AND ")}` : "";
+  getById(id: number): JobRow | null {
+    return (this.db.prepare("SELECT * FROM jobs WHERE id = ?").get(id) as JobRow | undefined) ?? null;
+  }
 
+  /** Every listing URL a stored job has been seen at, oldest first. */
+  getSources(jobId: number): JobSourceRow[] {
     return this.db
+      .prepare("SELECT * FROM job_sources WHERE job_id = ? ORDER BY first_seen_at, id")
+      .all(jobId) as JobSourceRow[];
+  }
+
+  getByUrl(url: string): JobRow | null {
+    return (
+      (this.db
+        .prepare(
+          `SELECT * FROM jobs
+           WHERE url = @url
+              OR job_url = @url
+              OR id = (SELECT job_id FROM job_sources WHERE url = @url)
+           ORDER BY id
+           LIMIT 1`,
+        )
+        .get({ url }) as JobRow | undefined) ?? null
+    );
+  }
+
+  /**
+   * The stored job for a listing URL, ignoring its query string: listing URLs
+   * from search results often carry per-search tracking parameters.
+   */
+  findByListingUrl(url: string): JobRow | null {
+    const baseUrl = url.split(/[?#]/)[0];
+    return (
+      (this.db
+        .prepare(
+          `SELECT * FROM jobs
+           WHERE id = (
+             SELECT job_id FROM job_sources
+             -- The range lets SQLite use the unique URL index.
+             WHERE url >= @baseUrl AND url < @baseUrl || '@'
+               AND (url = @baseUrl OR substr(url, 1, length(@baseUrl) + 1) IN (@baseUrl || '?', @baseUrl || '#'))
+             ORDER BY last_seen_at DESC
+             LIMIT 1
+           )`,
+        )
+        .get({ baseUrl }) as JobRow | undefined) ?? null
+    );
+  }
+
+  /**
+   * Recount, for every job a schedule has ever seen, how many of that
+   * schedule's runs in a row have missed it (since any run, of any schedule
+   * or none, last saw it or it was last confirmed open), and mark active jobs
+   * that reached the threshold as probably expired. Returns the jobs newly
+   * marked.
+   */
+  markMissingScheduleJobs(input: MissingScheduleJobsInput): ExpiryCandidate[] {
+    const rows = this.db
+      .prepare(
+        `WITH schedule_runs AS (
+           SELECT id FROM scrape_runs
+           WHERE schedule_id = @scheduleId AND (status = 'success' OR id = @runId)
+         ),
+         schedule_jobs AS (
+           SELECT DISTINCT observations.job_id
+           FROM job_observations AS observations
+           JOIN schedule_runs ON schedule_runs.id = observations.run_id
+         ),
+         -- Run ids grow in start order, so a schedule run only misses a job
+         -- if no run started after it has seen the job either.
+         last_seen AS (
+           SELECT observations.job_id, MAX(observations.run_id) AS last_run_id
+           FROM job_observations AS observations
+           JOIN schedule_jobs ON schedule_jobs.job_id = observations.job_id
+           GROUP BY observations.job_id
+         )
+         SELECT
+           jobs.id,
+           jobs.url,
+           jobs.job_url,
+           jobs.external_url,
+           jobs.ats_type,
+           jobs.ats_identifier,
+           jobs.listing_status,
+           (
+             SELECT COUNT(*) FROM schedule_runs
+             WHERE schedule_runs.id > MAX(last_seen.last_run_id, COALESCE(jobs.liveness_checked_run_id, 0))
+           ) AS missed_runs
+         FROM last_seen
+         JOIN jobs ON jobs.id = last_seen.job_id
+         WHERE jobs.source IN (SELECT value FROM json_each(@sources))`,
+      )
+      .all({
+        scheduleId: input.scheduleId,
+        runId: input.runId,
+        sources: JSON.stringify(input.sources),
+      }) as Array<{
+      id: number;
+      url: string;
+      job_url: string | null;
+      external_url: string | null;
+      ats_type: string | null;
+      ats_identifier: string | null;
+      listing_status: ListingStatus;
+      missed_runs: number;
+    }>;
+
+    const updateMissedRuns = this.db.prepare(
+      "UPDATE jobs SET missed_runs = @missedRuns WHERE id = @id",
+    );
+    const marked: ExpiryCandidate[] = [];
+
+    this.db.transaction(() => {
+      for (const row of rows) {
+        updateMissedRuns.run({ id: row.id, missedRuns: row.missed_runs });
+        if (row.listing_status !== "active" || row.missed_runs < input.missedRunsThreshold) {
+          continue;
+        }
+        this.setListingStatus(row.id, "probably_expired", input.runId);
+        marked.push({
+          id: row.id,
+          url: row.url,
+          jobUrl: row.job_url,
+          externalUrl: row.external_url,
+          atsType: row.ats_type,
+          atsIdentifier: row.ats_identifier,
+          missedRuns: row.missed_runs,
+        });
+      }
+    })();
+
+    return marked;
+  }
+
+  setListingStatus(id: number, status: ListingStatus, runId?: number): void {
+    this.db
+      .prepare(
+        `UPDATE jobs
+         SET
+           listing_status = @status,
+           listing_status_changed_at = datetime('now'),
+           listing_status_run_id = @runId
+         WHERE id = @id`,
+      )
+      .run({ id, status, runId: runId ?? null });
+  }
+
+  /**
+   * A liveness check found the listing still open: keep it active and restart
+   * its missed-run count from this run, so it is not re-checked every run.
+   */
+  markListingOpen(id: number, runId: number): void {
+    this.db
       .prepare(
-        `SELECT * FROM jobs ${whereClause} ORDER BY scraped_at DESC LIMIT @limit`,
+        `UPDATE jobs
+         SET
+           listing_status = 'active',
+           listing_status_changed_at = datetime('now'),
+           listing_status_run_id = NULL,
+           missed_runs = 0,
+           liveness_checked_run_id = @runId
+         WHERE id = @id`,
       )
-      .all(params) as JobRow[];
+      .run({ id, runId });
   }
+
+  countByListingStatus(runId: number): Record<ListingStatus, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT listing_status, COUNT(*) AS count
+         FROM jobs
+         WHERE listing_status_run_id = ?
+         GROUP BY listing_status`,
+      )
+      .all(runId) as Array<{ listing_status: ListingStatus; count: number }>;
+    const counts: Record<ListingStatus, number> = { active: 0, probably_expired: 0, expired: 0 };
+    for (const row of rows) {
+      counts[row.listing_status] = row.count;
+    }
+    return counts;
+  }
+
+  /** Every recorded sighting of a job, oldest first. */
+  getObservations(jobId: number): JobObservation[] {
+    const rows = this.db
+      .prepare(
+        `SELECT id, job_id, run_id, observed_at, is_new, changed_fields
+         FROM job_observations
+         WHERE job_id = ?
+         ORDER BY observed_at ASC, id ASC`,
+      )
+      .all(jobId) as JobObservationRow[];
+
+    return rows.map((row) => ({
+      id: row.id,
+      jobId: row.job_id,
+      runId: row.run_id,
+      observedAt: row.observed_at,
+      isNew: row.is_new === 1,
+      changes: parseFieldChanges(row.changed_fields),
+    }));
+  }
+
+  /**
+   * Ranked full-text search over title, company, description and required
+   * skills. `query` uses FTS5 syntax: implicit AND, OR, NOT, "exact phrases",
+   * prefix* and NEAR(). Results are ordered by relevance unless `sortBy` is set.
+   */
+  fullTextSearch(query: string, filters: JobSearchFilters = {}): JobTextSearchRow[] {
+    const { whereClause, params } = buildSearchWhere(filters);
+    const orderBy = filters.sortBy
+      ? `${SORT_COLUMNS[filters.sortBy]} IS NULL, ${SORT_COLUMNS[filters.sortBy]} ${
+          filters.sortOrder === "asc" ? "ASC" : "DESC"
+        }, matches.rank ASC`
+      : "matches.rank ASC";
+
+    return runFullTextQuery(query, () =>
+      this.db
+        .prepare(
+          `SELECT jobs.*, matches.rank AS rank, matches.snippet AS snippet
+           FROM (${FULL_TEXT_MATCH_SQL}) AS matches
+           JOIN jobs ON jobs.id = matches.job_id
+           ${whereClause}
+           ORDER BY ${orderBy}
+           LIMIT @limit OFFSET @offset`,
+        )
+        .all({
+          ...params,
+          query,
+          limit: filters.limit ?? 50,
+          offset: filters.offset ?? 0,
+        }) as JobTextSearchRow[],
+    );
+  }
+
+  countFullText(query: string, filters: JobSearchFilters = {}): number {
+    const { whereClause, params } = buildSearchWhere(filters);
+    return runFullTextQuery(query, () => {
+      const row = this.db
+        .prepare(
+          `SELECT COUNT(*) AS count
+           FROM (${FULL_TEXT_MATCH_SQL}) AS matches
+           JOIN jobs ON jobs.id = matches.job_id
+           ${whereClause}`,
+        )
+        .get({ ...params, query }) as { count: number };
+      return row.count;
+    });
+  }
+}
+
+// Column weights follow the FTS column order: title, company, description, required_skills.
+const FULL_TEXT_MATCH_SQL = `
+  SELECT
+    rowid AS job_id,
+    bm25(jobs_fts, 10.0, 5.0, 1.0, 3.0) AS rank,
+    snippet(jobs_fts, 2, '[', ']', '…', 16) AS snippet
+  FROM jobs_fts
+  WHERE jobs_fts MATCH @query
+`;
+
+function runFullTextQuery<T>(query: string, execute: () => T): T {
+  try {
+    return execute();
+  } catch (error) {
+    // The statement itself is fixed, so a generic SQLITE_ERROR comes from MATCH parsing.
+    if ((error as { code?: string }).code === "SQLITE_ERROR") {
+      throw new Error(`Invalid full-text query "${query}": ${(error as Error).message}`);
+    }
+    throw error;
+  }
+}
+
+/** Columns whose changes between sightings are recorded in job_observations. */
+const TRACKED_FIELDS: ReadonlyArray<[column: string, param: string]> = [
+  ["title", "title"],
+  ["company", "company"],
+  ["location", "location"],
+  ["description", "description"],
+  ["external_url", "externalUrl"],
+  ["ats_type", "atsType"],
+  ["salary", "salary"],
+  ["salary_min", "salaryMin"],
+  ["salary_max", "salaryMax"],
+  ["salary_currency", "salaryCurrency"],
+  ["salary_period", "salaryPeriod"],
+  ["job_type", "jobType"],
+  ["work_arrangement", "workArrangement"],
+  ["applicant_count", "applicantCount"],
+  ["posted_at", "postedAt"],
+  ["experience_level", "experienceLevel"],
+  ["is_pr_required", "isPrRequired"],
+  ["security_clearance", "securityClearance"],
+];
+
+function diffTrackedFields(
+  previous: Record<string, unknown>,
+  next: Record<string, unknown>,
+): FieldChanges {
+  const changes: FieldChanges = {};
+  for (const [column, param] of TRACKED_FIELDS) {
+    const from = normalizeFieldValue(previous[column]);
+    const to = normalizeFieldValue(next[param]);
+    if (from !== to) {
+      changes[column] = { from, to };
+    }
+  }
+  return changes;
+}
+
+function normalizeFieldValue(value: unknown): string | number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  return typeof value === "number" ? value : String(value);
+}
+
+function mergeFieldChanges(earlier: FieldChanges, later: FieldChanges): FieldChanges {
+  const merged: FieldChanges = { ...earlier };
+  for (const [column, change] of Object.entries(later)) {
+    const from = earlier[column]?.from ?? change.from;
+    if (from === change.to) {
+      delete merged[column];
+    } else {
+      merged[column] = { from, to: change.to };
+    }
+  }
+  return merged;
+}
+
+function parseFieldChanges(value: string | null): FieldChanges {
+  if (!value) {
+    return {};
+  }
+  try {
+    return JSON.parse(value) as FieldChanges;
+  } catch {
+    return {};
+  }
+}
+
+const SORT_COLUMNS: Record<JobSortField, string> = {
+  scraped_at: "scraped_at",
+  first_seen_at: "first_seen_at",
+  posted_at: "NULLIF(posted_at, '')",
+  salary_min: "CAST(NULLIF(salary_min, '') AS REAL)",
+  salary_max: "CAST(NULLIF(salary_max, '') AS REAL)",
+  experience_years: "experience_years",
+  title: "title COLLATE NOCASE",
+  company: "company COLLATE NOCASE",
+};
+
+function buildSearchWhere(filters: JobSearchFilters): {
+  whereClause: string;
+  params: Record<string, string | number>;
+} {
+  const where: string[] = [];
+  const params: Record<string, string | number> = {};
+
+  if (filters.keyword) {
+    where.push("(title LIKE @keyword OR company LIKE @keyword)");
+    params.keyword = `%${filters.keyword}%`;
+  }
+
+  if (filters.location) {
+    where.push("location LIKE @location");
+    params.location = `%${filters.location}%`;
+  }
+
+  if (filters.source) {
+    where.push("source = @source");
+    params.source = filters.source;
+  }
+
+  // Salary bounds are stored as text; a job with only one bound is treated
+  // as a single-point range.
+  if (filters.salaryMin !== undefined) {
+    where.push(
+      "CAST(COALESCE(NULLIF(salary_max, ''), NULLIF(salary_min, '')) AS REAL) >= @salaryMin",
+    );
+    params.salaryMin = filters.salaryMin;
+  }
+
+  if (filters.salaryMax !== undefined) {
+    where.push(
+      "CAST(COALESCE(NULLIF(salary_min, ''), NULLIF(salary_max, '')) AS REAL) <= @salaryMax",
+    );
+    params.salaryMax = filters.salaryMax;
+  }
+
+  if (filters.salaryCurrency) {
+    where.push("salary_currency = @salaryCurrency COLLATE NOCASE");
+    params.salaryCurrency = filters.salaryCurrency;
+  }
+
+  if (filters.salaryPeriod) {
+    where.push("salary_period = @salaryPeriod COLLATE NOCASE");
+    params.salaryPeriod = filters.salaryPeriod;
+  }
+
+  if (filters.workArrangement) {
+    where.push("work_arrangement = @workArrangement COLLATE NOCASE");
+    params.workArrangement = filters.workArrangement;
+  }
+
+  if (filters.jobType) {
+    where.push("job_type LIKE @jobType");
+    params.jobType = `%${filters.jobType}%`;
+  }
+
+  if (filters.experienceLevel) {
+    where.push("experience_level = @experienceLevel COLLATE NOCASE");
+    params.experienceLevel = filters.experienceLevel;
+  }
+
+  if (filters.minExperienceYears !== undefined) {
+    where.push("experience_years >= @minExperienceYears");
+    params.minExperienceYears = filters.minExperienceYears;
+  }
+
+  if (filters.maxExperienceYears !== undefined) {
+    where.push("experience_years <= @maxExperienceYears");
+    params.maxExperienceYears = filters.maxExperienceYears;
+  }
+
+  if (filters.isPrRequired !== undefined) {
+    where.push("COALESCE(is_pr_required, 0) = @isPrRequired");
+    params.isPrRequired = filters.isPrRequired ? 1 : 0;
+  }
+  if (filters.isProbableAgency !== undefined) {
+    where.push("is_probable_agency = @isProbableAgency");
+    params.isProbableAgency = filters.isProbableAgency ? 1 : 0;
+  }
+
+  if (filters.requiresSecurityClearance !== undefined) {
+    where.push(
+      filters.requiresSecurityClearance
+        ? "COALESCE(security_clearance, '') != ''"
+        : "COALESCE(security_clearance, '') = ''",
+    );
+  }
+
+  if (filters.securityClearance) {
+    where.push("security_clearance LIKE @securityClearance");
+    params.securityClearance = `%${filters.securityClearance}%`;
+  }
+
+  if (filters.atsType) {
+    where.push("ats_type = @atsType");
+    params.atsType = filters.atsType;
+  }
+
+  if (filters.postedAfter) {
+    where.push("NULLIF(posted_at, '') >= @postedAfter");
+    params.postedAfter = filters.postedAfter;
+  }
+
+  if (filters.postedBefore) {
+    where.push("NULLIF(posted_at, '') <= @postedBefore");
+    params.postedBefore = filters.postedBefore;
+  }
+
+  if (filters.runId !== undefined) {
+    where.push("run_id = @runId");
+    params.runId = filters.runId;
+  }
+
+  if (filters.listingStatus) {
+    where.push("listing_status = @listingStatus");
+    params.listingStatus = filters.listingStatus;
+  }
+
+  return {
+    whereClause: where.length > 0 ? `WHERE ${where.join(" AND ")}` : "",
+    params,
+  };
 }
@@ -73,9 +73,336 @@ CREATE TABLE IF NOT EXISTS scrape_runs (
 );
 `;
 
-export function runMigrations(db: Database.Database): void {
-  db.exec(SCHEMA_SQL);
-  ensureJobsColumns(db);
+const JOBS_FTS_SQL = `
+CREATE VIRTUAL TABLE IF NOT EXISTS jobs_fts USING fts5(
+  title,
+  company,
+  description,
+  required_skills,
+  content='jobs',
+  content_rowid='id',
+  tokenize='porter unicode61'
+);
+
+CREATE TRIGGER IF NOT EXISTS jobs_fts_after_insert AFTER INSERT ON jobs BEGIN
+  INSERT INTO jobs_fts(rowid, title, company, description, required_skills)
+  VALUES (new.id, new.title, new.company, new.description, new.required_skills);
+END;
+
+CREATE TRIGGER IF NOT EXISTS jobs_fts_after_delete AFTER DELETE ON jobs BEGIN
+  INSERT INTO jobs_fts(jobs_fts, rowid, title, company, description, required_skills)
+  VALUES ('delete', old.id, old.title, old.company, old.description, old.required_skills);
+END;
+
+CREATE TRIGGER IF NOT EXISTS jobs_fts_after_update
+  AFTER UPDATE OF title, company, description, required_skills ON jobs BEGIN
+  INSERT INTO jobs_fts(jobs_fts, rowid, title, company, description, required_skills)
+  VALUES ('delete', old.id, old.title, old.company, old.description, old.required_skills);
+  INSERT INTO jobs_fts(rowid, title, company, description, required_skills)
+  VALUES (new.id, new.title, new.company, new.description, new.required_skills);
+END;
+`;
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: Database.Database): void;
+}
+
+/**
+ * Ordered schema steps. Append new steps with the next version number; never
+ * edit or reorder a step that has shipped, because user databases record which
+ * versions they have already applied in `schema_migrations`.
+ */
+export const MIGRATIONS: ReadonlyArray<Migration> = [
+  {
+    version: 1,
+    name: "baseline_schema",
+    up: (db) => {
+      // Databases created before the ledger existed may be missing columns
+      // that were added over time; bring them up to the baseline in place.
+      db.exec(SCHEMA_SQL);
+      ensureJobsColumns(db);
+    },
+  },
+  {
+    version: 2,
+    name: "jobs_full_text_index",
+    up: (db) => {
+      db.exec(JOBS_FTS_SQL);
+      db.exec("INSERT INTO jobs_fts(jobs_fts) VALUES ('rebuild')");
+    },
+  },
+  {
+    version: 3,
+    name: "jobs_lookup_indexes",
+    up: (db) => {
+      db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_jobs_run_id ON jobs(run_id);
+        CREATE INDEX IF NOT EXISTS idx_jobs_scraped_at ON jobs(scraped_at);
+        CREATE INDEX IF NOT EXISTS idx_scrape_runs_schedule_id ON scrape_runs(schedule_id);
+      `);
+    },
+  },
+  {
+    version: 4,
+    name: "job_observations",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jobs ADD COLUMN first_seen_at TEXT;
+        ALTER TABLE jobs ADD COLUMN last_seen_at TEXT;
+        UPDATE jobs SET first_seen_at = scraped_at, last_seen_at = scraped_at;
+
+        CREATE TABLE job_observations (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+          run_id INTEGER,
+          observed_at TEXT NOT NULL,
+          is_new INTEGER NOT NULL DEFAULT 0,
+          changed_fields TEXT
+        );
+        CREATE INDEX idx_job_observations_job_id ON job_observations(job_id, observed_at);
+        CREATE INDEX idx_job_observations_run_id ON job_observations(run_id);
+
+        -- Seed each existing job with the one sighting we know about.
+        INSERT INTO job_observations (job_id, run_id, observed_at, is_new)
+        SELECT id, run_id, scraped_at, 1 FROM jobs;
+      `);
+    },
+  },
+  {
+    version: 5,
+    name: "jobs_listing_status",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jobs ADD COLUMN listing_status TEXT NOT NULL DEFAULT 'active';
+        ALTER TABLE jobs ADD COLUMN missed_runs INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE jobs ADD COLUMN listing_status_changed_at TEXT;
+        ALTER TABLE jobs ADD COLUMN listing_status_run_id INTEGER;
+        CREATE INDEX idx_jobs_listing_status ON jobs(listing_status);
+      `);
+    },
+  },
+  {
+    version: 6,
+    name: "schedule_notifiers",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE schedule_notifiers (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          schedule_id INTEGER NOT NULL,
+          channel TEXT NOT NULL,
+          config TEXT NOT NULL DEFAULT '{}',
+          rules TEXT NOT NULL DEFAULT '{}',
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          last_sent_at TEXT,
+          last_error TEXT
+        );
+        CREATE INDEX idx_schedule_notifiers_schedule_id ON schedule_notifiers(schedule_id);
+      `);
+    },
+  },
+  {
+    version: 7,
+    name: "alert_rules",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE alert_rules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          criteria TEXT NOT NULL DEFAULT '{}',
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT
+        );
+        CREATE TABLE alerts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          rule_id INTEGER NOT NULL,
+          job_id INTEGER NOT NULL,
+          run_id INTEGER,
+          matched_at TEXT NOT NULL DEFAULT (datetime('now')),
+          read_at TEXT,
+          UNIQUE(rule_id, job_id)
+        );
+        CREATE INDEX idx_alerts_unread ON alerts(read_at, matched_at);
+      `);
+    },
+  },
+  {
+    version: 8,
+    name: "company_filters",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE company_filters (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          list TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          match_type TEXT NOT NULL,
+          pattern TEXT NOT NULL,
+          note TEXT,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          UNIQUE(list, kind, match_type, pattern)
+        );
+        ALTER TABLE jobs ADD COLUMN is_probable_agency INTEGER NOT NULL DEFAULT 0;
+      `);
+    },
+  },
+  {
+    version: 9,
+    name: "job_sources_and_company_aliases",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE job_sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+          source TEXT NOT NULL,
+          url TEXT NOT NULL UNIQUE,
+          external_url TEXT,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL
+        );
+        CREATE INDEX idx_job_sources_job_id ON job_sources(job_id);
+
+        INSERT INTO job_sources (job_id, source, url, external_url, first_seen_at, last_seen_at)
+        SELECT id, source, url, external_url,
+               COALESCE(first_seen_at, scraped_at), COALESCE(last_seen_at, scraped_at)
+        FROM jobs;
+
+        CREATE TABLE company_aliases (
+          alias TEXT PRIMARY KEY,
+          canonical TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now'))
+        );
+      `);
+    },
+  },
+  {
+    version: 10,
+    name: "company_watchlist",
+    up: (db) => {
+      db.exec(`
+        CREATE TABLE company_watchlist (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          company TEXT NOT NULL,
+          ats_type TEXT,
+          ats_identifier TEXT,
+          careers_url TEXT,
+          enabled INTEGER NOT NULL DEFAULT 1,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+          last_crawled_at TEXT,
+          last_job_count INTEGER,
+          last_error TEXT
+        );
+        CREATE UNIQUE INDEX idx_company_watchlist_board
+          ON company_watchlist(ats_type, ats_identifier)
+          WHERE ats_type IS NOT NULL AND ats_identifier IS NOT NULL;
+      `);
+    },
+  },
+  {
+    version: 11,
+    name: "schedule_search_filters",
+    up: (db) => {
+      db.exec(`ALTER TABLE schedules ADD COLUMN filters TEXT;`);
+    },
+  },
+  {
+    version: 12,
+    name: "incremental_discovery",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE jobs ADD COLUMN detail_fetched_at TEXT;
+        UPDATE jobs SET detail_fetched_at = scraped_at;
+
+        ALTER TABLE schedules ADD COLUMN incremental INTEGER NOT NULL DEFAULT 0;
+        ALTER TABLE schedules ADD COLUMN refresh_after_hours INTEGER;
+      `);
+    },
+  },
+  {
+    version: 13,
+    name: "scrape_run_cancellation",
+    up: (db) => {
+      db.exec(`ALTER TABLE scrape_runs ADD COLUMN cancel_requested_at TEXT;`);
+    },
+  },
+  {
+    version: 14,
+    name: "resumable_discovery_runs",
+    up: (db) => {
+      db.exec(`
+        ALTER TABLE scrape_runs ADD COLUMN options TEXT;
+        ALTER TABLE scrape_runs ADD COLUMN heartbeat_at TEXT;
+
+        CREATE TABLE discovery_checkpoints (
+          run_id INTEGER NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+          kind TEXT NOT NULL,
+          target TEXT NOT NULL,
+          page INTEGER NOT NULL DEFAULT 0,
+          jobs TEXT NOT NULL,
+          created_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (run_id, kind, target, page)
+        );
+      `);
+    },
+  },
+  {
+    version: 15,
+    name: "listing_liveness_checks",
+    up: (db) => {
+      db.exec(`ALTER TABLE jobs ADD COLUMN liveness_checked_run_id INTEGER;`);
+    },
+  },
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const MIGRATIONS_LEDGER_SQL = `
+CREATE TABLE IF NOT EXISTS schema_migrations (
+  version INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+`;
+
+export function runMigrations(
+  db: Database.Database,
+  migrations: ReadonlyArray<Migration> = MIGRATIONS,
+): void {
+  db.exec(MIGRATIONS_LEDGER_SQL);
+
+  const currentVersion = getSchemaVersion(db);
+  const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+  if (currentVersion > latestVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this plugin supports (${latestVersion}). Update jobjourney-claude-plugin to open it.`,
+    );
+  }
+
+  const recordMigration = db.prepare<{ version: number; name: string }>(`
+    INSERT INTO schema_migrations (version, name, applied_at)
+    VALUES (@version, @name, datetime('now'))
+  `);
+
+  for (const migration of migrations) {
+    if (migration.version <= currentVersion) {
+      continue;
+    }
+
+    db.transaction(() => {
+      migration.up(db);
+      recordMigration.run({ version: migration.version, name: migration.name });
+    })();
+  }
+}
+
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db
+    .prepare("SELECT MAX(version) AS version FROM schema_migrations")
+    .get() as { version: number | null };
+  return row.version ?? 0;
 }
 
 function ensureJobsColumns(db: Database.Database): void {
@@ -90,8 +417,16 @@ function ensureJobsColumns(db: Database.Database): void {
     ["external_url", "TEXT"],
     ["ats_type", "TEXT"],
     ["ats_identifier", "TEXT"],
+    ["salary", "TEXT"],
+    ["posted_date", "TEXT"],
     ["posted_at", "TEXT"],
+    ["job_type", "TEXT"],
+    ["workplace_type", "TEXT"],
     ["work_arrangement", "TEXT"],
+    ["company_logo_url", "TEXT"],
+    ["applicant_count", "TEXT"],
+    ["is_already_applied", "INTEGER DEFAULT 0"],
+    ["applied_date_utc", "TEXT"],
     ["extracted_at", "TEXT"],
     ["salary_raw", "TEXT"],
     ["salary_min", "TEXT"],
@@ -106,6 +441,9 @@ function ensureJobsColumns(db: Database.Database): void {
     ["security_clearance", "TEXT"],
     ["pr_confidence", "TEXT"],
     ["pr_reasoning", "TEXT"],
+    ["run_id", "INTEGER"],
+    ["keyword", "TEXT"],
+    ["search_location", "TEXT"],
   ];
 
   for (const [name, type] of requiredColumns) {
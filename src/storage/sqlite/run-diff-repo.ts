@@ -0,0 +1,146 @@
+import Database from "better-sqlite3";
+import type { FieldChanges, JobRow } from "./jobs-repo.js";
+import { ScrapeRunsRepo, type ScrapeRunRow } from "./scrape-runs-repo.js";
+
+export interface ChangedJob {
+  job: JobRow;
+  changes: FieldChanges;
+}
+
+export interface ScheduleRunDiff {
+  scheduleId: number;
+  run: ScrapeRunRow;
+  previousRun: ScrapeRunRow | null;
+  /** Seen in this run and never before by this schedule. */
+  newJobs: JobRow[];
+  /** Missing from the previous run but seen by an earlier one. */
+  returnedJobs: JobRow[];
+  /** Seen in the previous run but not in this one. */
+  disappearedJobs: JobRow[];
+  /** Seen in both runs with at least one tracked field changed. */
+  changedJobs: ChangedJob[];
+}
+
+export class RunDiffRepo {
+  private readonly runsRepo: ScrapeRunsRepo;
+
+  constructor(private readonly db: Database.Database) {
+    this.runsRepo = new ScrapeRunsRepo(db);
+  }
+
+  /**
+   * Compare a schedule's run (default: its latest successful run) against the
+   * schedule's previous successful run, using the per-run job observations.
+   * Returns null when the schedule has no successful run to report on.
+   */
+  getScheduleRunDiff(scheduleId: number, runId?: number): ScheduleRunDiff | null {
+    const run =
+      runId !== undefined
+        ? this.runsRepo.getRun(runId)
+        : this.runsRepo.getLatestSuccessfulScheduleRun(scheduleId);
+    if (!run || run.schedule_id !== scheduleId) {
+      return null;
+    }
+
+    const previousRun = this.runsRepo.getLatestSuccessfulScheduleRun(scheduleId, run.id);
+    const params = {
+      scheduleId,
+      runId: run.id,
+      previousRunId: previousRun?.id ?? null,
+    };
+
+    const newJobs = this.db
+      .prepare(
+        `SELECT jobs.*
+         FROM job_observations AS current
+         JOIN jobs ON jobs.id = current.job_id
+         WHERE current.run_id = @runId
+           AND NOT EXISTS (
+             SELECT 1
+             FROM job_observations AS earlier
+             JOIN scrape_runs ON scrape_runs.id = earlier.run_id
+             WHERE earlier.job_id = current.job_id
+               AND scrape_runs.schedule_id = @scheduleId
+               AND scrape_runs.id < @runId
+           )
+         ORDER BY jobs.id`,
+      )
+      .all(params) as JobRow[];
+
+    if (!previousRun) {
+      return {
+        scheduleId,
+        run,
+        previousRun: null,
+        newJobs,
+        returnedJobs: [],
+        disappearedJobs: [],
+        changedJobs: [],
+      };
+    }
+
+    const returnedJobs = this.db
+      .prepare(
+        `SELECT jobs.*
+         FROM job_observations AS current
+         JOIN jobs ON jobs.id = current.job_id
+         WHERE current.run_id = @runId
+           AND NOT EXISTS (
+             SELECT 1 FROM job_observations AS previous
+             WHERE previous.job_id = current.job_id AND previous.run_id = @previousRunId
+           )
+           AND EXISTS (
+             SELECT 1
+             FROM job_observations AS earlier
+             JOIN scrape_runs ON scrape_runs.id = earlier.run_id
+             WHERE earlier.job_id = current.job_id
+               AND scrape_runs.schedule_id = @scheduleId
+               AND scrape_runs.id < @previousRunId
+           )
+         ORDER BY jobs.id`,
+      )
+      .all(params) as JobRow[];
+
+    const disappearedJobs = this.db
+      .prepare(
+        `SELECT jobs.*
+         FROM job_observations AS previous
+         JOIN jobs ON jobs.id = previous.job_id
+         WHERE previous.run_id = @previousRunId
+           AND NOT EXISTS (
+             SELECT 1 FROM job_observations AS current
+             WHERE current.job_id = previous.job_id AND current.run_id = @runId
+           )
+         ORDER BY jobs.id`,
+      )
+      .all(params) as JobRow[];
+
+    const changedRows = this.db
+      .prepare(
+        `SELECT jobs.*, current.changed_fields AS observation_changes
+         FROM job_observations AS current
+         JOIN jobs ON jobs.id = current.job_id
+         WHERE current.run_id = @runId
+           AND current.changed_fields IS NOT NULL
+           AND EXISTS (
+             SELECT 1 FROM job_observations AS previous
+             WHERE previous.job_id = current.job_id AND previous.run_id = @previousRunId
+           )
+         ORDER BY jobs.id`,
+      )
+      .all(params) as Array<JobRow & { observation_changes: string }>;
+
+    return {
+      scheduleId,
+      run,
+      previousRun,
+      newJobs,
+      returnedJobs,
+      disappearedJobs,
+      changedJobs: changedRows.map(({ observation_changes, ...job }) => ({
+        job,
+        changes: JSON.parse(observation_changes) as FieldChanges,
+      })),
+    };
+  }
+}
@@ -0,0 +1,135 @@
+import Database from "better-sqlite3";
+import type {
+  NotificationRules,
+  NotifierChannel,
+  NotifierConfigByChannel,
+} from "../../agent/notifiers/types.js";
+
+export interface ScheduleNotifierInput<C extends NotifierChannel = NotifierChannel> {
+  scheduleId: number;
+  channel: C;
+  config: NotifierConfigByChannel[C];
+  rules?: NotificationRules;
+}
+
+export interface ScheduleNotifierRow {
+  id: number;
+  schedule_id: number;
+  channel: NotifierChannel;
+  config: string;
+  rules: string;
+  enabled: number;
+  created_at: string;
+  last_sent_at: string | null;
+  last_error: string | null;
+}
+
+export interface ScheduleNotifier {
+  id: number;
+  scheduleId: number;
+  channel: NotifierChannel;
+  config: NotifierConfigByChannel[NotifierChannel];
+  rules: NotificationRules;
+  enabled: boolean;
+  createdAt: string;
+  lastSentAt: string | null;
+  lastError: string | null;
+}
+
+export class ScheduleNotifiersRepo {
+  constructor(private readonly db: Database.Database) {}
+
+  create(input: ScheduleNotifierInput): ScheduleNotifier {
+    const result = this.db
+      .prepare(
+        `INSERT INTO schedule_notifiers (schedule_id, channel, config, rules, enabled, created_at)
+         VALUES (@scheduleId, @channel, @config, @rules, 1, datetime('now'))`,
+      )
+      .run({
+        scheduleId: input.scheduleId,
+        channel: input.channel,
+        config: JSON.stringify(input.config ?? {}),
+        rules: JSON.stringify(input.rules ?? {}),
+      });
+
+    const created = this.getById(Number(result.lastInsertRowid));
+    if (!created) {
+      throw new Error(`Failed to load created notifier ${result.lastInsertRowid}`);
+    }
+    return created;
+  }
+
+  getById(id: number): ScheduleNotifier | null {
+    const row = this.db
+      .prepare("SELECT * FROM schedule_notifiers WHERE id = ?")
+      .get(id) as ScheduleNotifierRow | undefined;
+    return row ? toScheduleNotifier(row) : null;
+  }
+
+  /** All notifiers, or only those of one schedule. */
+  list(scheduleId?: number): ScheduleNotifier[] {
+    const rows =
+      scheduleId === undefined
+        ? (this.db
+            .prepare("SELECT * FROM schedule_notifiers ORDER BY schedule_id, id")
+            .all() as ScheduleNotifierRow[])
+        : (this.db
+            .prepare("SELECT * FROM schedule_notifiers WHERE schedule_id = ? ORDER BY id")
+            .all(scheduleId) as ScheduleNotifierRow[]);
+    return rows.map(toScheduleNotifier);
+  }
+
+  listEnabled(scheduleId: number): ScheduleNotifier[] {
+    return this.list(scheduleId).filter((notifier) => notifier.enabled);
+  }
+
+  toggle(id: number, enabled: boolean): boolean {
+    const result = this.db
+      .prepare("UPDATE schedule_notifiers SET enabled = ? WHERE id = ?")
+      .run(enabled ? 1 : 0, id);
+    return result.changes > 0;
+  }
+
+  /** Record the outcome of the latest delivery attempt; pass null on success. */
+  recordDelivery(id: number, error: string | null): void {
+    if (error === null) {
+      this.db
+        .prepare(
+          "UPDATE schedule_notifiers SET last_sent_at = datetime('now'), last_error = NULL WHERE id = ?",
+        )
+        .run(id);
+      return;
+    }
+    this.db.prepare("UPDATE schedule_notifiers SET last_error = ? WHERE id = ?").run(error, id);
+  }
+
+  delete(id: number): boolean {
+    const result = this.db.prepare("DELETE FROM schedule_notifiers WHERE id = ?").run(id);
+    return result.changes > 0;
+  }
+
+  deleteForSchedule(scheduleId: number): number {
+    const result = this.db
+      .prepare("DELETE FROM schedule_notifiers WHERE schedule_id = ?")
+      .run(scheduleId);
+    return result.changes;
+  }
+
+  deleteAll(): number {
+    return this.db.prepare("DELETE FROM schedule_notifiers").run().changes;
+  }
+}
+
+function toScheduleNotifier(row: ScheduleNotifierRow): ScheduleNotifier {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    channel: row.channel,
+    config: JSON.parse(row.config),
+    rules: JSON.parse(row.rules),
+    enabled: row.enabled === 1,
+    createdAt: row.created_at,
+    lastSentAt: row.last_sent_at,
+    lastError: row.last_error,
+  };
+}
@@ -1,12 +1,19 @@
 import Database from "better-sqlite3";
+import type { DiscoverySearchFilters } from "../../discovery/core/types.js";
 
 export interface ScheduleInput {
   keyword: string;
   location: string;
   source: string;
-  runMode?: "scrape" | "discover";
+  runMode?: "scrape" | "discover" | "watchlist";
   sources?: string | null;
   pages?: number;
+  /** Structured search filters for discover runs. */
+  filters?: DiscoverySearchFilters | null;
+  /** Reuse stored details for jobs seen by earlier runs. */
+  incremental?: boolean;
+  /** With `incremental`, fetch a known job's details again once they are this old. */
+  refreshAfterHours?: number | null;
   cron: string;
 }
 
@@ -23,6 +30,10 @@ export interface ScheduleRow {
   run_mode: string;
   sources: string | null;
   pages: number | null;
+  /** JSON-encoded `DiscoverySearchFilters`. */
+  filters: string | null;
+  incremental: number;
+  refresh_after_hours: number | null;
   cron: string;
   created_at: string;
   updated_at: string | null;
@@ -43,15 +54,24 @@ export class SchedulesRepo {
 
   create(schedule: ScheduleInput): CreatedSchedule {
     const result = this.db
-      .prepare<ScheduleInput>(`
-        INSERT INTO schedules (keyword, location, source, run_mode, sources, pages, cron, created_at, updated_at)
-        VALUES (@keyword, @location, @source, @runMode, @sources, @pages, @cron, datetime('now'), datetime('now'))
+      .prepare(`
+        INSERT INTO schedules (
+          keyword, location, source, run_mode, sources, pages, filters, incremental, refresh_after_hours,
+          cron, created_at, updated_at
+        )
+        VALUES (
+          @keyword, @location, @source, @runMode, @sources, @pages, @filters, @incremental, @refreshAfterHours,
+          @cron, datetime('now'), datetime('now')
+        )
       `)
         .run({
           ...schedule,
           runMode: schedule.runMode ?? "scrape",
           sources: schedule.sources ?? undefined,
           pages: schedule.pages ?? 30,
+          filters: schedule.filters ? JSON.stringify(schedule.filters) : null,
+          incremental: schedule.incremental ? 1 : 0,
+          refreshAfterHours: schedule.refreshAfterHours ?? null,
         });
 
     const id = Number(result.lastInsertRowid);
@@ -80,7 +100,7 @@ export class SchedulesRepo {
     if (enabledOnly) {
       return this.db
         .prepare<unknown[], ScheduleRow>(`
-          SELECT id, keyword, location, source, run_mode, sources, pages, cron, created_at, updated_at, last_run_at, enabled
+          SELECT id, keyword, location, source, run_mode, sources, pages, filters, incremental, refresh_after_hours, cron, created_at, updated_at, last_run_at, enabled
           FROM schedules
           WHERE enabled = 1
           ORDER BY created_at DESC
@@ -90,7 +110,7 @@ export class SchedulesRepo {
 
     return this.db
       .prepare<unknown[], ScheduleRow>(`
-        SELECT id, keyword, location, source, run_mode, sources, pages, cron, created_at, updated_at, last_run_at, enabled
+        SELECT id, keyword, location, source, run_mode, sources, pages, filters, incremental, refresh_after_hours, cron, created_at, updated_at, last_run_at, enabled
         FROM schedules
         ORDER BY created_at DESC
       `)
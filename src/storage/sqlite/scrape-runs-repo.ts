@@ -1,16 +1,33 @@
 import Database from "better-sqlite3";
+import type { StoredDiscoveryRunOptions } from "../../discovery/core/types.js";
+
+/** A running run whose heartbeat is older than this is taken to have died. */
+const DEFAULT_STALE_AFTER_SECONDS = 120;
+
+/** Checkpoints of a cancelled or interrupted run are kept this long for resume_discovery. */
+const DEFAULT_CHECKPOINT_RETENTION_DAYS = 7;
+
+/**
+ * Run modes whose runner polls for cancel requests and writes heartbeats.
+ * Scrape-mode runs do neither, so cancelling and the stale-run sweep skip them.
+ */
+const WATCHED_RUN_MODES_SQL = "run_mode IN ('discover', 'watchlist')";
 
 export interface CreateRunInput {
   scheduleId?: number;
   keyword: string;
   location: string;
   source: string;
-  runMode?: "scrape" | "discover";
+  runMode?: "scrape" | "discover" | "watchlist";
   sources?: string | null;
+  /** What a discover run was started with, kept so it can be resumed. */
+  options?: StoredDiscoveryRunOptions | null;
 }
 
+export type FinishedRunStatus = "success" | "error" | "cancelled";
+
 export interface FinishRunInput {
-  status: "success" | "error";
+  status: FinishedRunStatus;
   jobCount?: number;
   error?: string;
 }
@@ -20,17 +37,33 @@ interface CreateRunParams {
   keyword: string;
   location: string;
   source: string;
-  runMode: "scrape" | "discover";
+  runMode: "scrape" | "discover" | "watchlist";
   sources: string | null;
+  options: string | null;
 }
 
 interface FinishRunParams {
   id: number;
-  status: "success" | "error";
+  status: FinishedRunStatus;
   jobCount: number | null;
   error: string | null;
 }
 
+export interface ScrapeRunRow {
+  id: number;
+  schedule_id: number | null;
+  keyword: string;
+  location: string;
+  source: string;
+  run_mode: string;
+  sources: string | null;
+  status: string;
+  started_at: string;
+  finished_at: string | null;
+  job_count: number | null;
+  error: string | null;
+}
+
 export class ScrapeRunsRepo {
   constructor(private readonly db: Database.Database) {}
 
@@ -44,8 +77,10 @@ export class ScrapeRunsRepo {
           source,
           run_mode,
           sources,
+          options,
           status,
-          started_at
+          started_at,
+          heartbeat_at
         )
         VALUES (
           @scheduleId,
@@ -54,7 +89,9 @@ export class ScrapeRunsRepo {
           @source,
           @runMode,
           @sources,
+          @options,
           'running',
+          datetime('now'),
           datetime('now')
         )
       `)
@@ -65,6 +102,7 @@ export class ScrapeRunsRepo {
         source: run.source,
         runMode: run.runMode ?? "scrape",
         sources: run.sources ?? null,
+        options: run.options ? JSON.stringify(run.options) : null,
       });
 
     return { id: Number(result.lastInsertRowid) };
@@ -87,6 +125,134 @@ export class ScrapeRunsRepo {
         jobCount: result.jobCount ?? null,
         error: result.error ?? null,
       });
+    // A cancelled run can still be resumed, so it keeps its checkpoints.
+    if (result.status !== "cancelled") {
+      this.db.prepare("DELETE FROM discovery_checkpoints WHERE run_id = ?").run(id);
+    }
+  }
+
+  /** Record that a running run is still alive. */
+  touchHeartbeat(id: number): void {
+    this.db
+      .prepare("UPDATE scrape_runs SET heartbeat_at = datetime('now') WHERE id = ? AND status = 'running'")
+      .run(id);
+  }
+
+  /**
+   * Mark running discover and watchlist runs whose heartbeat has gone quiet as
+   * interrupted: the process running them exited or the machine slept.
+   * Returns how many were marked.
+   */
+  markStaleRunsInterrupted(staleAfterSeconds = DEFAULT_STALE_AFTER_SECONDS): number {
+    const result = this.db
+      .prepare(
+        `UPDATE scrape_runs
+         SET status = 'interrupted',
+             finished_at = datetime('now'),
+             error = 'Run stopped without finishing'
+         WHERE status = 'running'
+           AND ${WATCHED_RUN_MODES_SQL}
+           AND COALESCE(heartbeat_at, started_at) < datetime('now', @offset)`,
+      )
+      .run({ offset: `-${staleAfterSeconds} seconds` });
+    return result.changes;
+  }
+
+  /**
+   * Drop the checkpoints of runs that stopped more than `retentionDays` ago
+   * without finishing. Each checkpoint holds full job JSON, so abandoned runs
+   * would otherwise grow jobs.db forever. Returns how many rows were removed.
+   */
+  pruneCheckpoints(retentionDays = DEFAULT_CHECKPOINT_RETENTION_DAYS): number {
+    const result = this.db
+      .prepare(
+        `DELETE FROM discovery_checkpoints
+         WHERE run_id IN (
+           SELECT id FROM scrape_runs
+           WHERE status != 'running'
+             AND COALESCE(finished_at, started_at) < datetime('now', @offset)
+         )`,
+      )
+      .run({ offset: `-${retentionDays} days` });
+    return result.changes;
+  }
+
+  /** Interrupted or cancelled discover runs that can be resumed, newest first. */
+  listResumableRuns(): ScrapeRunRow[] {
+    return this.db
+      .prepare(
+        `SELECT id, schedule_id, keyword, location, source, run_mode, sources, status, started_at, finished_at, job_count, error
+         FROM scrape_runs
+         WHERE status IN ('interrupted', 'cancelled')
+           AND run_mode = 'discover'
+           AND options IS NOT NULL
+         ORDER BY id DESC`,
+      )
+      .all() as ScrapeRunRow[];
+  }
+
+  getRunOptions(id: number): StoredDiscoveryRunOptions | null {
+    const row = this.db.prepare("SELECT options FROM scrape_runs WHERE id = ?").get(id) as
+      | { options: string | null }
+      | undefined;
+    return row?.options ? (JSON.parse(row.options) as StoredDiscoveryRunOptions) : null;
+  }
+
+  /**
+   * Put an interrupted or cancelled run back to running so it can continue
+   * from its checkpoints. Returns false when the run cannot be resumed.
+   */
+  resumeRun(id: number): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE scrape_runs
+         SET status = 'running',
+             finished_at = NULL,
+             error = NULL,
+             cancel_requested_at = NULL,
+             heartbeat_at = datetime('now')
+         WHERE id = ?
+           AND status IN ('interrupted', 'cancelled')
+           AND run_mode = 'discover'
+           AND options IS NOT NULL`,
+      )
+      .run(id);
+    return result.changes > 0;
+  }
+
+  /**
+   * Ask a running discover or watchlist run to stop. The run itself polls for
+   * the request, so this works across processes. Returns false when no such
+   * run is running.
+   */
+  requestCancel(id: number): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE scrape_runs
+         SET cancel_requested_at = COALESCE(cancel_requested_at, datetime('now'))
+         WHERE id = ? AND status = 'running' AND ${WATCHED_RUN_MODES_SQL}`,
+      )
+      .run(id);
+    return result.changes > 0;
+  }
+
+  isCancelRequested(id: number): boolean {
+    const row = this.db
+      .prepare("SELECT cancel_requested_at FROM scrape_runs WHERE id = ?")
+      .get(id) as { cancel_requested_at: string | null } | undefined;
+    return Boolean(row?.cancel_requested_at);
+  }
+
+  /** Discover and watchlist runs still in progress (the ones that can be cancelled), newest first. */
+  listRunningRuns(): ScrapeRunRow[] {
+    return this.db
+      .prepare(
+        `SELECT id, schedule_id, keyword, location, source, run_mode, sources, status, started_at, finished_at, job_count, error
+         FROM scrape_runs
+         WHERE status = 'running' AND ${WATCHED_RUN_MODES_SQL}
+         ORDER BY id DESC`,
+      )
+      .all() as ScrapeRunRow[];
   }
 
   getLatestDiscoveryRun(): {
@@ -127,4 +293,39 @@ export class ScrapeRunsRepo {
         | undefined
     ) ?? null;
   }
+
+  getRun(id: number): ScrapeRunRow | null {
+    return (
+      (this.db
+        .prepare(
+          `SELECT id, schedule_id, keyword, location, source, run_mode, sources, status, started_at, finished_at, job_count, error
+           FROM scrape_runs
+           WHERE id = ?`,
+        )
+        .get(id) as ScrapeRunRow | undefined) ?? null
+    );
+  }
+
+  /**
+   * Most recent successful run of a schedule, optionally only among runs
+   * started before `beforeRunId`.
+   */
+  getLatestSuccessfulScheduleRun(
+    scheduleId: number,
+    beforeRunId?: number,
+  ): ScrapeRunRow | null {
+    return (
+      (this.db
+        .prepare(
+          `SELECT id, schedule_id, keyword, location, source, run_mode, sources, status, started_at, finished_at, job_count, error
+           FROM scrape_runs
+           WHERE schedule_id = @scheduleId
+             AND status = 'success'
+             AND (@beforeRunId IS NULL OR id < @beforeRunId)
+           ORDER BY id DESC
+           LIMIT 1`,
+        )
+        .get({ scheduleId, beforeRunId: beforeRunId ?? null }) as ScrapeRunRow | undefined) ?? null
+    );
+  }
 }
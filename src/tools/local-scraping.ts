@@ -1,42 +1,248 @@
-import { FastMCP } from "fastmcp";
+import { FastMCP, type Context } from "fastmcp";
 import { chromium } from "playwright";
 import { z } from "zod";
 import { openDatabase } from "../storage/sqlite/db.js";
+import {
+  JobsRepo,
+  type JobRow,
+  type JobSearchFilters,
+  type JobTextSearchRow,
+} from "../storage/sqlite/jobs-repo.js";
+import { RunDiffRepo } from "../storage/sqlite/run-diff-repo.js";
 import { SchedulesRepo } from "../storage/sqlite/schedules-repo.js";
+import { ScheduleNotifiersRepo } from "../storage/sqlite/schedule-notifiers-repo.js";
 import { ScrapeRunsRepo } from "../storage/sqlite/scrape-runs-repo.js";
 import { ensureAgentRunning } from "../agent/process.js";
+import { watchRunCancellation } from "../agent/run-cancellation.js";
+import { finishScheduleRun } from "../agent/schedule-run.js";
 import { loginToSite, hasCookies } from "../scraper/core/browser.js";
 import type { SessionAuth } from "../types.js";
 import { runDiscovery } from "../discovery/core/run-discovery.js";
-import { getActiveDiscoverySourceNames } from "../discovery/sources/registry.js";
+import type {
+  DiscoverySearchFilters,
+  StoredDiscoveryRunOptions,
+} from "../discovery/core/types.js";
+import { crawlWatchlist } from "../discovery/core/crawl-watchlist.js";
+import { getDefaultDiscoverySourceNames } from "../discovery/sources/registry.js";
+import {
+  findAtsProviderDefinition,
+  getAllAtsProviderDefinitions,
+} from "../discovery/ats/registry.js";
+import { detectAts } from "../discovery/ats/detector.js";
 import { DiscoveryJobsRepo } from "../discovery/storage/discovery-jobs-repo.js";
+import { DiscoveryCheckpointsRepo } from "../discovery/storage/discovery-checkpoints-repo.js";
+import { evaluateAlertRules } from "../discovery/alerts/evaluate-alerts.js";
+import { compileAlertRule, type AlertRuleCriteria } from "../discovery/alerts/alert-rules.js";
+import { AlertRulesRepo } from "../storage/sqlite/alert-rules-repo.js";
+import { AlertsRepo } from "../storage/sqlite/alerts-repo.js";
+import { CompanyFiltersRepo } from "../storage/sqlite/company-filters-repo.js";
+import { CompanyAliasesRepo } from "../storage/sqlite/company-aliases-repo.js";
+import { CompanyWatchlistRepo } from "../storage/sqlite/company-watchlist-repo.js";
+import { CompanyFilter, compileCompanyFilterRule } from "../discovery/core/company-filter.js";
 import { PLUGIN_NAME, PLUGIN_VERSION } from "../version.js";
 import { onScrapeComplete } from "./post-scrape.js";
+import { createNotifier } from "../agent/notifiers/dispatch.js";
+import type {
+  NotificationRules,
+  NotifierChannel,
+  NotifierConfigByChannel,
+} from "../agent/notifiers/types.js";
 
 interface LocalScrapingToolDeps {
   runDiscovery?: typeof runDiscovery;
-  getActiveDiscoverySourceNames?: typeof getActiveDiscoverySourceNames;
+  crawlWatchlist?: typeof crawlWatchlist;
+  getDefaultDiscoverySourceNames?: typeof getDefaultDiscoverySourceNames;
   openDatabase?: typeof openDatabase;
   ensureAgentRunning?: typeof ensureAgentRunning;
   loginToSite?: typeof loginToSite;
   hasCookies?: typeof hasCookies;
   checkPlaywrightReady?: typeof checkPlaywrightReady;
   checkForUpdates?: typeof checkForUpdates;
+  createNotifier?: typeof createNotifier;
+  finishScheduleRun?: typeof finishScheduleRun;
 }
 
+const storedJobFilterParameters = {
+  location: z.string().optional().describe("Match against job location, e.g. 'Sydney'"),
+  source: z.string().optional().describe("Source the job was found on, e.g. 'linkedin' or 'seek'"),
+  salary_min: z
+    .number()
+    .optional()
+    .describe("Only jobs whose advertised salary reaches at least this amount"),
+  salary_max: z
+    .number()
+    .optional()
+    .describe("Only jobs whose advertised salary starts at or below this amount"),
+  salary_currency: z.string().optional().describe("Salary currency, e.g. 'AUD'"),
+  salary_period: z
+    .enum(["hour", "day", "week", "month", "year"])
+    .optional()
+    .describe("Salary period"),
+  work_arrangement: z
+    .string()
+    .optional()
+    .describe("Work arrangement: 'remote', 'hybrid' or 'on-site'"),
+  job_type: z.string().optional().describe("Employment type, e.g. 'full-time' or 'contract'"),
+  experience_level: z
+    .string()
+    .optional()
+    .describe("Experience level: 'intern', 'graduate', 'junior', 'mid', 'senior' or 'lead'"),
+  min_experience_years: z.number().optional().describe("Minimum years of experience asked for"),
+  max_experience_years: z.number().optional().describe("Maximum years of experience asked for"),
+  is_pr_required: z
+    .boolean()
+    .optional()
+    .describe("true for jobs requiring PR/citizenship, false to exclude them"),
+  is_probable_agency: z
+    .boolean()
+    .optional()
+    .describe("true for jobs posted by probable recruitment agencies, false to exclude them"),
+  requires_security_clearance: z
+    .boolean()
+    .optional()
+    .describe("true for jobs mentioning a security clearance, false to exclude them"),
+  security_clearance: z.string().optional().describe("Specific clearance, e.g. 'NV1' or 'Baseline'"),
+  ats_type: z.string().optional().describe("ATS type, e.g. 'greenhouse', 'lever', 'workday'"),
+  posted_after: z.string().optional().describe("ISO date; only jobs posted on or after it"),
+  posted_before: z.string().optional().describe("ISO date; only jobs posted on or before it"),
+  run_id: z.number().optional().describe("Only jobs stored by this discovery run"),
+  listing_status: z
+    .enum(["active", "probably_expired", "expired"])
+    .optional()
+    .describe(
+      "Listing state: 'probably_expired' jobs stopped appearing in their schedule's runs, 'expired' ones were confirmed closed",
+    ),
+};
+
+const alertRuleCriteriaParameters = {
+  title_pattern: z
+    .string()
+    .optional()
+    .describe("Case-insensitive regular expression the title must match, e.g. 'staff|principal'"),
+  description_pattern: z
+    .string()
+    .optional()
+    .describe("Case-insensitive regular expression the description must match"),
+  location_includes: z
+    .array(z.string())
+    .optional()
+    .describe("The location must contain one of these, e.g. ['Sydney', 'Remote']"),
+  exclude_companies: z.array(z.string()).optional().describe("Never alert on these companies"),
+  work_arrangements: z
+    .array(z.enum(["remote", "hybrid", "on-site"]))
+    .optional()
+    .describe("Only jobs with one of these work arrangements"),
+  experience_levels: z
+    .array(z.enum(["intern", "graduate", "junior", "mid", "senior", "lead"]))
+    .optional()
+    .describe("Only jobs at one of these experience levels"),
+  sources: z.array(z.string()).optional().describe("Only jobs found on these sources"),
+  min_salary: z.number().optional().describe("Only jobs whose advertised minimum salary is at least this amount"),
+  exclude_pr_required: z.boolean().optional().describe("Skip jobs that require PR/citizenship"),
+};
+
+const searchFilterParameters = {
+  date_posted: z
+    .enum(["24h", "3d", "week", "month"])
+    .optional()
+    .describe("Only jobs posted within this window"),
+  work_arrangements: z
+    .array(z.enum(["remote", "hybrid", "on-site"]))
+    .optional()
+    .describe("Only jobs with one of these work arrangements"),
+  employment_types: z
+    .array(z.enum(["full-time", "part-time", "contract", "casual", "temporary", "internship"]))
+    .optional()
+    .describe("Only jobs with one of these employment types"),
+  experience_levels: z
+    .array(z.enum(["intern", "graduate", "junior", "mid", "senior", "lead"]))
+    .optional()
+    .describe("Only jobs at one of these experience levels"),
+  min_salary: z
+    .number()
+    .optional()
+    .describe("Minimum annual salary; jobs that advertise less are dropped"),
+  radius_km: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Search radius around the location in km, on sources that support it (e.g. LinkedIn)"),
+};
+
+const incrementalParameters = {
+  incremental: z
+    .boolean()
+    .optional()
+    .describe(
+      "Reuse the stored details of jobs already in the local database instead of fetching them again, and stop paging once a page holds only known jobs (LinkedIn, SEEK)",
+    ),
+  refresh_after_hours: z
+    .number()
+    .positive()
+    .optional()
+    .describe("With incremental, fetch a known job's details again once they are this many hours old"),
+};
+
+type SearchFilterArgs = {
+  [K in keyof typeof searchFilterParameters]?: z.infer<(typeof searchFilterParameters)[K]>;
+};
+
+type AlertRuleCriteriaArgs = {
+  [K in keyof typeof alertRuleCriteriaParameters]?: z.infer<(typeof alertRuleCriteriaParameters)[K]>;
+};
+
+const jobSortByParameter = z
+  .enum([
+    "scraped_at",
+    "first_seen_at",
+    "posted_at",
+    "salary_min",
+    "salary_max",
+    "experience_years",
+    "title",
+    "company",
+  ])
+  .optional()
+  .describe("Field to sort by");
+
+const jobSortOrderParameter = z
+  .enum(["asc", "desc"])
+  .optional()
+  .default("desc")
+  .describe("Sort direction");
+
+const SALARY_FIELDS = ["salary", "salary_min", "salary_max", "salary_currency", "salary_period"];
+
+type StoredJobFilterArgs = {
+  [K in keyof typeof storedJobFilterParameters]?: z.infer<(typeof storedJobFilterParameters)[K]>;
+};
+
 export function registerLocalScrapingTools(
   server: FastMCP<SessionAuth>,
   deps: LocalScrapingToolDeps = {},
 ): void {
   const runDiscoveryImpl = deps.runDiscovery ?? runDiscovery;
-  const getActiveDiscoverySourceNamesImpl =
-    deps.getActiveDiscoverySourceNames ?? getActiveDiscoverySourceNames;
+  const crawlWatchlistImpl = deps.crawlWatchlist ?? crawlWatchlist;
+  const getDefaultDiscoverySourceNamesImpl =
+    deps.getDefaultDiscoverySourceNames ?? getDefaultDiscoverySourceNames;
+  const defaultSourcesDescription = () => {
+    const defaults = getDefaultDiscoverySourceNamesImpl();
+    const remoteOnly = getDefaultDiscoverySourceNamesImpl({ workArrangements: ["remote"] }).filter(
+      (name) => !defaults.includes(name),
+    );
+    return (
+      `Defaults to: ${defaults.join(", ")}` +
+      (remoteOnly.length > 0 ? `, plus ${remoteOnly.join(", ")} when work_arrangements includes remote` : "")
+    );
+  };
   const openDatabaseImpl = deps.openDatabase ?? openDatabase;
   const ensureAgentRunningImpl = deps.ensureAgentRunning ?? ensureAgentRunning;
   const loginToSiteImpl = deps.loginToSite ?? loginToSite;
   const hasCookiesImpl = deps.hasCookies ?? hasCookies;
   const checkPlaywrightReadyImpl = deps.checkPlaywrightReady ?? checkPlaywrightReady;
   const checkForUpdatesImpl = deps.checkForUpdates ?? checkForUpdates;
+  const createNotifierImpl = deps.createNotifier ?? createNotifier;
+  const finishScheduleRunImpl = deps.finishScheduleRun ?? finishScheduleRun;
   const discoveryLogger = (_payload: Record<string, unknown>) => {
     // intentionally silent — console.error corrupts stdio MCP transport
   };
@@ -113,6 +319,224 @@ export function registerLocalScrapingTools(
     },
   });
 
+  /**
+   * Runs a discover run already recorded in scrape_runs, checkpointing as it
+   * goes, and returns the JSON report. Shared by discover_jobs and
+   * resume_discovery, which passes the run's stored options back in. A
+   * resumed scheduled run is finished like the agent finishes it.
+   */
+  const executeDiscoveryRun = async (
+    db: ReturnType<typeof openDatabase>,
+    runId: number,
+    runOptions: StoredDiscoveryRunOptions,
+    context: Context<SessionAuth> | undefined,
+  ): Promise<string> => {
+    const runsRepo = new ScrapeRunsRepo(db);
+    const { incremental, refreshAfterHours, ...options } = runOptions;
+    const controller = new AbortController();
+    const stopWatchingCancel = watchRunCancellation(runsRepo, runId, controller);
+
+    let jobsSoFar = 0;
+    const totalPages = options.pages ?? 30;
+    const stream = context?.streamContent?.bind(context);
+    const report = context?.reportProgress?.bind(context);
+    const sendProgress = (message: string) => {
+      if (stream) {
+        void stream({ type: "text", text: message + "\n" });
+      }
+      context?.log?.info?.(message);
+    };
+    const progressLogger = (payload: Record<string, unknown>) => {
+      discoveryLogger(payload);
+      const event = payload.event as string;
+      switch (event) {
+        case "discovery_source_start":
+          sendProgress(
+            `🔍 Starting ${payload.source} discovery: "${payload.keyword}" in ${payload.location} (${payload.pages} pages)`,
+          );
+          void report?.({ progress: 0, total: totalPages });
+          break;
+        case "discovery_source_resumed":
+          sendProgress(
+            payload.complete
+              ? `⏩ ${payload.source}: reusing ${payload.checkpointedJobs} jobs it found before the run stopped`
+              : `⏩ ${payload.source}: resuming at page ${payload.nextPage} with ${payload.checkpointedJobs} jobs already found`,
+          );
+          break;
+        case "discovery_source_page":
+          sendProgress(
+            `📄 ${payload.source}: page ${payload.page}/${payload.totalPages} — ${payload.jobsFound} jobs found so far`,
+          );
+          void report?.({ progress: payload.page as number, total: totalPages });
+          break;
+        case "discovery_source_success":
+          jobsSoFar += (payload.discoveredJobs as number) || 0;
+          sendProgress(
+            `✅ ${payload.source}: found ${payload.discoveredJobs} jobs from search pages` +
+              ((payload.knownJobsReused as number) > 0
+                ? ` (${payload.knownJobsReused} already known, details reused)`
+                : ""),
+          );
+          void report?.({ progress: totalPages, total: totalPages });
+          break;
+        case "discovery_ats_expand_start":
+          sendProgress(
+            `🏢 Expanding ${payload.atsType} jobs for ${payload.companyIdentifier}...`,
+          );
+          break;
+        case "discovery_ats_expand_success":
+          jobsSoFar += (payload.discoveredJobs as number) || 0;
+          sendProgress(
+            `✅ ${payload.atsType}/${payload.companyIdentifier}: added ${payload.discoveredJobs} jobs (total so far: ${jobsSoFar})`,
+          );
+          break;
+        case "career_discovery_probe":
+          sendProgress(
+            `🌐 Probing career page: ${payload.probeUrl}`,
+          );
+          break;
+        case "career_discovery_result":
+          if (payload.outcome === "ats_detected") {
+            sendProgress(
+              `🎯 Found ${payload.atsType} ATS for ${payload.company} via career page`,
+            );
+          }
+          break;
+        case "discovery_source_error":
+          sendProgress(
+            `❌ ${payload.source} failed: ${payload.error}`,
+          );
+          break;
+        case "discovery_run_complete":
+          if (payload.cancelled) {
+            sendProgress(`⏹️ Run ${runId} was cancelled — keeping ${payload.totalJobs} jobs found so far`);
+          }
+          if ((payload.crossPlatformDuplicatesRemoved as number) > 0) {
+            sendProgress(
+              `🔄 Removed ${payload.crossPlatformDuplicatesRemoved} cross-platform duplicates`,
+            );
+          }
+          if ((payload.filteredJobs as number) > 0) {
+            sendProgress(
+              `🚫 Skipped ${payload.filteredJobs} jobs from blocked companies or agencies`,
+            );
+          }
+          break;
+      }
+    };
+
+    try {
+      const repo = new DiscoveryJobsRepo(db);
+      let persistedCount = 0;
+      let newAlerts = 0;
+      const result = await runDiscoveryImpl(options, {
+        logger: progressLogger,
+        companyFilter: new CompanyFilter(new CompanyFiltersRepo(db).list()),
+        companyAliases: new CompanyAliasesRepo(db).toMap(),
+        knownJobs: incremental ? repo.createKnownJobLookup({ refreshAfterHours }) : undefined,
+        checkpoints: new DiscoveryCheckpointsRepo(db, runId),
+        signal: controller.signal,
+        onJobsBatch: (batchJobs) => {
+          repo.upsertJobs(batchJobs, {
+            keyword: options.keyword,
+            location: options.location,
+            runId,
+          });
+          persistedCount += batchJobs.length;
+          sendProgress(
+            `💾 Saved ${persistedCount} jobs to database so far`,
+          );
+          const alerts = evaluateAlertRules(db, batchJobs, { runId });
+          if (alerts.newAlerts > 0) {
+            newAlerts += alerts.newAlerts;
+            sendProgress(`🔔 ${newAlerts} new alert(s) matched your alert rules`);
+          }
+        },
+      });
+      // Persist any jobs not already saved by onJobsBatch (e.g. if caller
+      // doesn't support the callback, or deduplication left stragglers).
+      if (result.jobs.length > persistedCount) {
+        repo.upsertJobs(result.jobs, {
+          keyword: options.keyword,
+          location: options.location,
+          runId,
+        });
+        newAlerts += evaluateAlertRules(db, result.jobs, { runId }).newAlerts;
+      }
+      const scheduleId = runsRepo.getRun(runId)?.schedule_id ?? null;
+      if (scheduleId !== null && !result.cancelled) {
+        await finishScheduleRunImpl(
+          db,
+          {
+            scheduleId,
+            runId,
+            jobCount: result.jobs.length,
+            sources: result.sources,
+            incremental,
+          },
+          { logger: discoveryLogger },
+        );
+      } else {
+        runsRepo.finishRun(runId, {
+          status: result.cancelled ? "cancelled" : "success",
+          jobCount: result.jobs.length,
+        });
+      }
+
+      // Post-scrape: notify backend + open browser
+      void onScrapeComplete({
+        runId,
+        keyword: options.keyword,
+        location: options.location,
+        sources: options.sources ?? [],
+        totalJobs: result.jobs.length,
+        jobs: result.jobs.map((j) => ({
+          title: j.title,
+          company: j.company,
+          location: j.location,
+        })),
+      });
+
+      return JSON.stringify(
+        {
+          runId,
+          keyword: options.keyword,
+          location: options.location,
+          filters: options.filters ?? null,
+          cancelled: result.cancelled,
+          totalJobs: result.jobs.length,
+          successfulSources: result.sources,
+          failedSources: result.failedSources,
+          expandedCompanies: result.expandedCompanies,
+          filteredJobs: result.filteredJobs,
+          newAlerts,
+          jobs: result.jobs.map((job) => ({
+            id: job.id,
+            title: job.title,
+            company: job.company,
+            location: job.location,
+            source: job.source,
+            jobUrl: job.jobUrl,
+            externalUrl: job.externalUrl,
+            atsType: job.atsType,
+            postedAt: job.postedAt,
+          })),
+        },
+        null,
+        2,
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      runsRepo.finishRun(runId, {
+        status: "error",
+        error: message,
+      });
+      throw error;
+    } finally {
+      stopWatchingCancel();
+    }
+  };
+
   server.addTool({
     name: "discover_jobs",
     description:
@@ -125,7 +549,7 @@ export function registerLocalScrapingTools(
         .array(z.string())
         .optional()
         .describe(
-          `Discovery sources to run. Defaults to active sources: ${getActiveDiscoverySourceNamesImpl().join(", ")}`,
+          `Discovery sources to run. ${defaultSourcesDescription()}`,
         ),
       pages: z
         .number()
@@ -137,181 +561,115 @@ export function registerLocalScrapingTools(
         .describe(
           "When LinkedIn hides external apply URLs, probe company career pages to find ATS links (Greenhouse, Lever, etc.). Disabled by default because it probes many URLs and can cause timeouts in MCP clients.",
         ),
+      exclude_recruitment_agencies: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe(
+          "Drop jobs whose company looks like a recruitment agency. They are always flagged (isProbableAgency) either way.",
+        ),
+      dedup_threshold: z
+        .number()
+        .min(0.5)
+        .max(1)
+        .optional()
+        .describe(
+          "How similar (0.5-1, default 0.8) two listings at the same company must be to merge them into one job. Lower merges more aggressively.",
+        ),
+      ...searchFilterParameters,
+      ...incrementalParameters,
     }),
     execute: async (args, context) => {
       const db = openDatabaseImpl();
       try {
         ensureAgentRunningImpl();
 
+        const filters = toSearchFilters(args);
         const selectedSources = args.sources?.length
           ? args.sources
-          : getActiveDiscoverySourceNamesImpl();
-        const runsRepo = new ScrapeRunsRepo(db);
-        const run = runsRepo.createRun({
+          : getDefaultDiscoverySourceNamesImpl(filters);
+        const runOptions: StoredDiscoveryRunOptions = {
+          keyword: args.keyword,
+          location: args.location,
+          sources: selectedSources as any,
+          pages: Math.min(args.pages ?? 30, 30),
+          filters,
+          careerDiscovery: args.career_discovery ?? false,
+          excludeRecruitmentAgencies: args.exclude_recruitment_agencies ?? false,
+          dedupThreshold: args.dedup_threshold,
+          incremental: args.incremental,
+          refreshAfterHours: args.refresh_after_hours,
+        };
+        const run = new ScrapeRunsRepo(db).createRun({
           keyword: args.keyword,
           location: args.location,
           source: "discover",
           runMode: "discover",
           sources: selectedSources.join(","),
+          options: runOptions,
         });
+        return await executeDiscoveryRun(db, run.id, runOptions, context);
+      } finally {
+        db.close();
+      }
+    },
+  });
 
-        let jobsSoFar = 0;
-        const totalPages = Math.min(args.pages ?? 30, 30);
-        const stream = context?.streamContent?.bind(context);
-        const report = context?.reportProgress?.bind(context);
-        const sendProgress = (message: string) => {
-          if (stream) {
-            void stream({ type: "text", text: message + "\n" });
-          }
-          context?.log?.info?.(message);
-        };
-        const progressLogger = (payload: Record<string, unknown>) => {
-          discoveryLogger(payload);
-          const event = payload.event as string;
-          switch (event) {
-            case "discovery_source_start":
-              sendProgress(
-                `🔍 Starting ${payload.source} discovery: "${payload.keyword}" in ${payload.location} (${payload.pages} pages)`,
-              );
-              void report?.({ progress: 0, total: totalPages });
-              break;
-            case "discovery_source_page":
-              sendProgress(
-                `📄 ${payload.source}: page ${payload.page}/${payload.totalPages} — ${payload.jobsFound} jobs found so far`,
-              );
-              void report?.({ progress: payload.page as number, total: totalPages });
-              break;
-            case "discovery_source_success":
-              jobsSoFar += (payload.discoveredJobs as number) || 0;
-              sendProgress(
-                `✅ ${payload.source}: found ${payload.discoveredJobs} jobs from search pages`,
-              );
-              void report?.({ progress: totalPages, total: totalPages });
-              break;
-            case "discovery_ats_expand_start":
-              sendProgress(
-                `🏢 Expanding ${payload.atsType} jobs for ${payload.companyIdentifier}...`,
-              );
-              break;
-            case "discovery_ats_expand_success":
-              jobsSoFar += (payload.discoveredJobs as number) || 0;
-              sendProgress(
-                `✅ ${payload.atsType}/${payload.companyIdentifier}: added ${payload.discoveredJobs} jobs (total so far: ${jobsSoFar})`,
-              );
-              break;
-            case "career_discovery_probe":
-              sendProgress(
-                `🌐 Probing career page: ${payload.probeUrl}`,
-              );
-              break;
-            case "career_discovery_result":
-              if (payload.outcome === "ats_detected") {
-                sendProgress(
-                  `🎯 Found ${payload.atsType} ATS for ${payload.company} via career page`,
-                );
-              }
-              break;
-            case "discovery_source_error":
-              sendProgress(
-                `❌ ${payload.source} failed: ${payload.error}`,
-              );
-              break;
-            case "discovery_run_complete":
-              if ((payload.crossPlatformDuplicatesRemoved as number) > 0) {
-                sendProgress(
-                  `🔄 Removed ${payload.crossPlatformDuplicatesRemoved} cross-platform duplicates`,
-                );
-              }
-              break;
-          }
-        };
-
-        try {
-          const repo = new DiscoveryJobsRepo(db);
-          let persistedCount = 0;
-          const result = await runDiscoveryImpl(
-            {
-              keyword: args.keyword,
-              location: args.location,
-              sources: selectedSources as any,
-              pages: totalPages,
-              careerDiscovery: args.career_discovery ?? false,
-            },
-            {
-              logger: progressLogger,
-              onJobsBatch: (batchJobs) => {
-                repo.upsertJobs(batchJobs, {
-                  keyword: args.keyword,
-                  location: args.location,
-                  runId: run.id,
-                });
-                persistedCount += batchJobs.length;
-                sendProgress(
-                  `💾 Saved ${persistedCount} jobs to database so far`,
-                );
-              },
-            },
-          );
-          // Persist any jobs not already saved by onJobsBatch (e.g. if caller
-          // doesn't support the callback, or deduplication left stragglers).
-          if (result.jobs.length > persistedCount) {
-            repo.upsertJobs(result.jobs, {
-              keyword: args.keyword,
-              location: args.location,
-              runId: run.id,
-            });
-          }
-          runsRepo.finishRun(run.id, {
-            status: "success",
-            jobCount: result.jobs.length,
-          });
+  server.addTool({
+    name: "cancel_discovery",
+    description:
+      "Cancel a discovery or watchlist run that is still in progress, whether started by discover_jobs or by a schedule. Jobs found before the cancel are kept and the run is recorded as cancelled.",
+    parameters: z.object({
+      run_id: z
+        .number()
+        .optional()
+        .describe("Run ID to cancel. Defaults to the most recently started run that is still running."),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const runsRepo = new ScrapeRunsRepo(db);
+        const runId = args.run_id ?? runsRepo.listRunningRuns()[0]?.id;
+        if (runId === undefined) {
+          return "No discovery runs are in progress.";
+        }
+        if (!runsRepo.requestCancel(runId)) {
+          return `Run ${runId} is not a discovery or watchlist run in progress.`;
+        }
+        return `Cancellation requested for run ${runId}. It will stop within a few seconds and keep the jobs found so far; resume_discovery can continue it later.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
 
-          // Post-scrape: notify backend + open browser
-          void onScrapeComplete({
-            runId: run.id,
-            keyword: args.keyword,
-            location: args.location,
-            sources: selectedSources,
-            totalJobs: result.jobs.length,
-            jobs: result.jobs.map((j) => ({
-              title: j.title,
-              company: j.company,
-              location: j.location,
-            })),
-          });
+  server.addTool({
+    name: "resume_discovery",
+    description:
+      "Resume a discovery run that was interrupted (the agent or MCP server stopped, or the machine slept) or cancelled. It continues from each source's last completed page and reuses finished ATS board crawls, then stores results like discover_jobs.",
+    annotations: { streamingHint: true },
+    parameters: z.object({
+      run_id: z
+        .number()
+        .optional()
+        .describe("Run ID to resume. Defaults to the most recent interrupted or cancelled discovery run."),
+    }),
+    execute: async (args, context) => {
+      const db = openDatabaseImpl();
+      try {
+        ensureAgentRunningImpl();
 
-          return JSON.stringify(
-            {
-              runId: run.id,
-              keyword: args.keyword,
-              location: args.location,
-              totalJobs: result.jobs.length,
-              successfulSources: result.sources,
-              failedSources: result.failedSources,
-              expandedCompanies: result.expandedCompanies,
-              jobs: result.jobs.map((job) => ({
-                id: job.id,
-                title: job.title,
-                company: job.company,
-                location: job.location,
-                source: job.source,
-                jobUrl: job.jobUrl,
-                externalUrl: job.externalUrl,
-                atsType: job.atsType,
-                postedAt: job.postedAt,
-              })),
-            },
-            null,
-            2,
-          );
-        } catch (error) {
-          const message = error instanceof Error ? error.message : String(error);
-          runsRepo.finishRun(run.id, {
-            status: "error",
-            error: message,
-          });
-          throw error;
+        const runsRepo = new ScrapeRunsRepo(db);
+        runsRepo.markStaleRunsInterrupted();
+        const runId = args.run_id ?? runsRepo.listResumableRuns()[0]?.id;
+        if (runId === undefined) {
+          return "No interrupted or cancelled discovery runs to resume.";
         }
+        const runOptions = runsRepo.getRunOptions(runId);
+        if (!runOptions || !runsRepo.resumeRun(runId)) {
+          return `Run ${runId} cannot be resumed. Only interrupted or cancelled discovery runs can be.`;
+        }
+        return await executeDiscoveryRun(db, runId, runOptions, context);
       } finally {
         db.close();
       }
@@ -334,8 +692,10 @@ export function registerLocalScrapingTools(
         .array(z.string())
         .optional()
         .describe(
-          `Sources to discover from. Defaults to active sources: ${getActiveDiscoverySourceNamesImpl().join(", ")}`,
+          `Sources to discover from. ${defaultSourcesDescription()}`,
         ),
+      ...searchFilterParameters,
+      ...incrementalParameters,
     }),
     execute: async (args) => {
       const [hourStr, minuteStr] = args.time.split(":");
@@ -347,9 +707,10 @@ export function registerLocalScrapingTools(
       }
 
       const cronExpr = `${minute} ${hour} * * *`;
+      const filters = toSearchFilters(args);
       const selectedSources = args.sources?.length
         ? args.sources
-        : getActiveDiscoverySourceNamesImpl();
+        : getDefaultDiscoverySourceNamesImpl(filters);
       const sourceList = selectedSources.join(",");
 
       const db = openDatabaseImpl();
@@ -363,6 +724,9 @@ export function registerLocalScrapingTools(
           sources: sourceList,
           pages,
           runMode: "discover",
+          filters,
+          incremental: args.incremental,
+          refreshAfterHours: args.refresh_after_hours,
           cron: cronExpr,
         });
 
@@ -372,6 +736,8 @@ export function registerLocalScrapingTools(
           `Scheduled "${args.keyword}" in ${args.location} every day at ${args.time}.`,
           `Sources: ${selectedSources.join(", ")}`,
           `Pages: ${pages}`,
+          ...(filters ? [`Filters: ${JSON.stringify(filters)}`] : []),
+          ...(args.incremental ? [`Incremental: ${describeIncremental(args.refresh_after_hours)}`] : []),
           `Schedule ID: ${schedule.id}`,
           `Cron: ${cronExpr}`,
           `The jobjourney-agent background process will execute this automatically.`,
@@ -382,39 +748,73 @@ export function registerLocalScrapingTools(
     },
   });
 
-  // ── Schedule management tools ───────────────────────────────────────
+  // ── ATS provider tools ──────────────────────────────────────────────
 
   server.addTool({
-    name: "list_schedules",
+    name: "list_ats_providers",
     description:
-      "List all scheduled job discovery cron jobs, including disabled ones. Shows schedule ID, keyword, location, sources, cron expression, enabled status, and last run time.",
+      "List the applicant tracking systems that discovery recognizes in apply links, whether their company job boards can be expanded, and what each provider's public feed offers (salary, apply form schema, departments).",
     parameters: z.object({}),
-    execute: async () => {
-      const db = openDatabaseImpl();
-      try {
-        const repo = new SchedulesRepo(db);
-        const schedules = repo.list(false);
+    execute: async () =>
+      JSON.stringify(
+        getAllAtsProviderDefinitions().map((definition) => ({
+          name: definition.name,
+          displayName: definition.displayName,
+          status: definition.status,
+          expandsCompanyJobs: Boolean(definition.createCrawler),
+          domains: definition.domains,
+          capabilities: definition.capabilities,
+        })),
+        null,
+        2,
+      ),
+  });
 
-        if (schedules.length === 0) {
-          return "No schedules found. Use schedule_jobs to create one.";
+  // ── Company watchlist tools ─────────────────────────────────────────
+
+  server.addTool({
+    name: "add_watchlist_company",
+    description:
+      "Watch a company's ATS job board so crawl_watchlist can fetch its jobs directly, without a job-site search. Give the ATS type and board identifier (see list_ats_providers), or a careers page or ATS board URL to find the board from.",
+    parameters: z.object({
+      company: z.string().describe("Company name, e.g. 'Canva'"),
+      ats_type: z.string().optional().describe("ATS provider, e.g. 'greenhouse' or 'lever'"),
+      ats_identifier: z
+        .string()
+        .optional()
+        .describe("Board identifier on that ATS, e.g. 'canva' for boards.greenhouse.io/canva"),
+      careers_url: z
+        .string()
+        .url()
+        .optional()
+        .describe("Careers page or ATS board URL, used when the ATS type and identifier are not given"),
+    }),
+    execute: async (args) => {
+      let atsType = args.ats_type?.trim() || null;
+      let atsIdentifier = args.ats_identifier?.trim() || null;
+      if (atsType && findAtsProviderDefinition(atsType)?.status !== "active") {
+        return `Unsupported ATS type: ${atsType}. Use list_ats_providers to see the boards that can be crawled.`;
+      }
+      if (!atsType && args.careers_url) {
+        // Store ATS board links resolved; other careers pages are probed when crawled.
+        const detection = detectAts(args.careers_url);
+        if (detection.atsType !== "unknown" && detection.companyIdentifier) {
+          atsType = detection.atsType;
+          atsIdentifier = detection.companyIdentifier;
         }
+      }
 
-        return schedules
-          .map((s) => {
-            const status = s.enabled ? "✅ enabled" : "❌ disabled";
-            const lastRun = s.last_run_at ?? "never";
-            return [
-              `ID: ${s.id} [${status}]`,
-              `  Keyword: ${s.keyword}`,
-              `  Location: ${s.location}`,
-              `  Sources: ${s.sources ?? s.source}`,
-              `  Pages: ${s.pages ?? 30}`,
-              `  Cron: ${s.cron}`,
-              `  Last run: ${lastRun}`,
-              `  Created: ${s.created_at}`,
-            ].join("\n");
-          })
-          .join("\n\n");
+      const db = openDatabaseImpl();
+      try {
+        const stored = new CompanyWatchlistRepo(db).add({
+          company: args.company,
+          atsType,
+          atsIdentifier,
+          careersUrl: args.careers_url,
+        });
+        return JSON.stringify(stored, null, 2);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
       } finally {
         db.close();
       }
@@ -422,22 +822,37 @@ export function registerLocalScrapingTools(
   });
 
   server.addTool({
-    name: "toggle_schedule",
+    name: "list_watchlist",
     description:
-      "Enable or disable a scheduled job discovery cron job by its ID. The agent will pick up changes on its next reconcile cycle (within 60 seconds).",
+      "List watched companies with their ATS boards, whether they are enabled, and the outcome of their last crawl.",
+    parameters: z.object({}),
+    execute: async () => {
+      const db = openDatabaseImpl();
+      try {
+        const companies = new CompanyWatchlistRepo(db).list();
+        if (companies.length === 0) {
+          return "No companies on the watchlist. Use add_watchlist_company to add one.";
+        }
+        return JSON.stringify(companies, null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "toggle_watchlist_company",
+    description: "Enable or disable a watched company by its ID; disabled companies are skipped by watchlist crawls.",
     parameters: z.object({
-      id: z.number().describe("Schedule ID to toggle"),
+      id: z.number().describe("Watchlist ID from list_watchlist"),
       enabled: z.boolean().describe("true to enable, false to disable"),
     }),
     execute: async (args) => {
       const db = openDatabaseImpl();
       try {
-        const repo = new SchedulesRepo(db);
-        const changed = repo.toggle(args.id, args.enabled);
-        if (!changed) {
-          return `Schedule ID ${args.id} not found.`;
-        }
-        return `Schedule ${args.id} ${args.enabled ? "enabled" : "disabled"}. The agent will update within 60 seconds.`;
+        return new CompanyWatchlistRepo(db).toggle(args.id, args.enabled)
+          ? `Watchlist company ${args.id} ${args.enabled ? "enabled" : "disabled"}.`
+          : `Watchlist company ID ${args.id} not found.`;
       } finally {
         db.close();
       }
@@ -445,21 +860,17 @@ export function registerLocalScrapingTools(
   });
 
   server.addTool({
-    name: "delete_schedule",
-    description:
-      "Permanently delete a scheduled job discovery cron job by its ID. Use list_schedules to see available IDs.",
+    name: "remove_watchlist_company",
+    description: "Stop watching a company. Jobs already stored from its board are kept.",
     parameters: z.object({
-      id: z.number().describe("Schedule ID to delete"),
+      id: z.number().describe("Watchlist ID from list_watchlist"),
     }),
     execute: async (args) => {
       const db = openDatabaseImpl();
       try {
-        const repo = new SchedulesRepo(db);
-        const deleted = repo.delete(args.id);
-        if (!deleted) {
-          return `Schedule ID ${args.id} not found.`;
-        }
-        return `Schedule ${args.id} deleted. The agent will stop the cron task within 60 seconds.`;
+        return new CompanyWatchlistRepo(db).delete(args.id)
+          ? `Watchlist company ${args.id} removed.`
+          : `Watchlist company ID ${args.id} not found.`;
       } finally {
         db.close();
       }
@@ -467,15 +878,308 @@ export function registerLocalScrapingTools(
   });
 
   server.addTool({
-    name: "delete_all_schedules",
+    name: "crawl_watchlist",
     description:
-      "Permanently delete ALL scheduled job discovery cron jobs. Use with caution.",
-    parameters: z.object({}),
-    execute: async () => {
-      const db = openDatabaseImpl();
-      try {
+      "Fetch jobs straight from the ATS boards of every enabled watchlist company, keep the ones matching the keyword and location, and store them as a discovery run. Faster and more complete than discover_jobs when the companies are already known.",
+    annotations: { streamingHint: true },
+    parameters: z.object({
+      keyword: z
+        .string()
+        .optional()
+        .default("")
+        .describe("Words that must all appear in the job title, e.g. 'backend engineer'. Empty keeps every job."),
+      location: z
+        .string()
+        .optional()
+        .default("")
+        .describe("Job location, e.g. 'Sydney'. Remote jobs and jobs without a location are kept. Empty keeps every job."),
+    }),
+    execute: async (args, context) => {
+      const keyword = args.keyword ?? "";
+      const location = args.location ?? "";
+      const db = openDatabaseImpl();
+      try {
+        const watchlistRepo = new CompanyWatchlistRepo(db);
+        const companies = watchlistRepo.list(true);
+        if (companies.length === 0) {
+          return "No enabled companies on the watchlist. Use add_watchlist_company to add one.";
+        }
+
+        const runsRepo = new ScrapeRunsRepo(db);
+        const run = runsRepo.createRun({
+          keyword,
+          location,
+          source: "watchlist",
+          runMode: "watchlist",
+        });
+        const controller = new AbortController();
+        const stopWatchingCancel = watchRunCancellation(runsRepo, run.id, controller);
+        const stream = context?.streamContent?.bind(context);
+        const sendProgress = (message: string) => {
+          if (stream) {
+            void stream({ type: "text", text: message + "\n" });
+          }
+          context?.log?.info?.(message);
+        };
+        const progressLogger = (payload: Record<string, unknown>) => {
+          discoveryLogger(payload);
+          switch (payload.event) {
+            case "discovery_watchlist_company_success":
+              sendProgress(
+                `✅ ${payload.company} (${payload.atsType}): ${payload.matchedJobs} of ${payload.boardJobs} jobs match`,
+              );
+              break;
+            case "discovery_watchlist_company_error":
+              sendProgress(`❌ ${payload.company} failed: ${payload.error}`);
+              break;
+          }
+        };
+
+        try {
+          const repo = new DiscoveryJobsRepo(db);
+          let newAlerts = 0;
+          const result = await crawlWatchlistImpl(
+            { keyword, location, companies },
+            {
+              logger: progressLogger,
+              companyFilter: new CompanyFilter(new CompanyFiltersRepo(db).list()),
+              signal: controller.signal,
+              onJobsBatch: (batchJobs) => {
+                repo.upsertJobs(batchJobs, { keyword, location, runId: run.id });
+                newAlerts += evaluateAlertRules(db, batchJobs, { runId: run.id }).newAlerts;
+              },
+            },
+          );
+          for (const outcome of result.companies) {
+            if (outcome.company.id !== undefined) {
+              watchlistRepo.recordCrawl(outcome.company.id, {
+                atsType: outcome.atsType,
+                atsIdentifier: outcome.atsIdentifier,
+                jobCount: outcome.error ? undefined : outcome.matchedJobs,
+                error: outcome.error,
+              });
+            }
+          }
+          runsRepo.finishRun(run.id, {
+            status: result.cancelled ? "cancelled" : "success",
+            jobCount: result.jobs.length,
+          });
+
+          void onScrapeComplete({
+            runId: run.id,
+            keyword,
+            location,
+            sources: result.sources,
+            totalJobs: result.jobs.length,
+            jobs: result.jobs.map((j) => ({
+              title: j.title,
+              company: j.company,
+              location: j.location,
+            })),
+          });
+
+          return JSON.stringify(
+            {
+              runId: run.id,
+              keyword,
+              location,
+              cancelled: result.cancelled,
+              totalJobs: result.jobs.length,
+              filteredJobs: result.filteredJobs,
+              newAlerts,
+              companies: result.companies.map((outcome) => ({
+                id: outcome.company.id,
+                company: outcome.company.company,
+                atsType: outcome.atsType,
+                atsIdentifier: outcome.atsIdentifier,
+                boardJobs: outcome.boardJobs,
+                matchedJobs: outcome.matchedJobs,
+                error: outcome.error,
+              })),
+              jobs: result.jobs.map((job) => ({
+                id: job.id,
+                title: job.title,
+                company: job.company,
+                location: job.location,
+                source: job.source,
+                jobUrl: job.jobUrl,
+                externalUrl: job.externalUrl,
+                atsType: job.atsType,
+                postedAt: job.postedAt,
+              })),
+            },
+            null,
+            2,
+          );
+        } catch (error) {
+          runsRepo.finishRun(run.id, {
+            status: "error",
+            error: error instanceof Error ? error.message : String(error),
+          });
+          throw error;
+        } finally {
+          stopWatchingCancel();
+        }
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "schedule_watchlist_crawl",
+    description:
+      "Schedule a daily crawl of the watchlist companies' ATS boards. The jobjourney-agent runs it at the requested time, stores matching jobs locally and reports changes like any other schedule.",
+    parameters: z.object({
+      keyword: z
+        .string()
+        .optional()
+        .default("")
+        .describe("Words that must all appear in the job title. Empty keeps every job."),
+      location: z
+        .string()
+        .optional()
+        .default("")
+        .describe("Job location, e.g. 'Sydney'. Empty keeps every job."),
+      time: z.string().describe("Daily time to run in HH:mm format, e.g. '09:00'"),
+    }),
+    execute: async (args) => {
+      const [hourStr, minuteStr] = args.time.split(":");
+      const hour = parseInt(hourStr, 10);
+      const minute = parseInt(minuteStr, 10);
+
+      if (isNaN(hour) || isNaN(minute) || hour < 0 || hour > 23 || minute < 0 || minute > 59) {
+        return `Invalid time format: ${args.time}. Use HH:mm (e.g. '09:00').`;
+      }
+
+      const cronExpr = `${minute} ${hour} * * *`;
+      const db = openDatabaseImpl();
+      try {
+        const schedule = new SchedulesRepo(db).create({
+          keyword: args.keyword ?? "",
+          location: args.location ?? "",
+          source: "watchlist",
+          runMode: "watchlist",
+          cron: cronExpr,
+        });
+
+        ensureAgentRunningImpl();
+
+        return [
+          `Scheduled a watchlist crawl every day at ${args.time}.`,
+          `Keyword: ${args.keyword || "(any)"}`,
+          `Location: ${args.location || "(any)"}`,
+          `Schedule ID: ${schedule.id}`,
+          `Cron: ${cronExpr}`,
+          `The jobjourney-agent background process will execute this automatically.`,
+        ].join("\n");
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  // ── Schedule management tools ───────────────────────────────────────
+
+  server.addTool({
+    name: "list_schedules",
+    description:
+      "List all scheduled job discovery cron jobs, including disabled ones. Shows schedule ID, keyword, location, sources, cron expression, enabled status, and last run time.",
+    parameters: z.object({}),
+    execute: async () => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new SchedulesRepo(db);
+        const schedules = repo.list(false);
+
+        if (schedules.length === 0) {
+          return "No schedules found. Use schedule_jobs to create one.";
+        }
+
+        return schedules
+          .map((s) => {
+            const status = s.enabled ? "✅ enabled" : "❌ disabled";
+            const lastRun = s.last_run_at ?? "never";
+            return [
+              `ID: ${s.id} [${status}]`,
+              `  Mode: ${s.run_mode}`,
+              `  Keyword: ${s.keyword}`,
+              `  Location: ${s.location}`,
+              `  Sources: ${s.sources ?? s.source}`,
+              `  Pages: ${s.pages ?? 30}`,
+              ...(s.filters ? [`  Filters: ${s.filters}`] : []),
+              ...(s.incremental
+                ? [`  Incremental: ${describeIncremental(s.refresh_after_hours)}`]
+                : []),
+              `  Cron: ${s.cron}`,
+              `  Last run: ${lastRun}`,
+              `  Created: ${s.created_at}`,
+            ].join("\n");
+          })
+          .join("\n\n");
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "toggle_schedule",
+    description:
+      "Enable or disable a scheduled job discovery cron job by its ID. The agent will pick up changes on its next reconcile cycle (within 60 seconds).",
+    parameters: z.object({
+      id: z.number().describe("Schedule ID to toggle"),
+      enabled: z.boolean().describe("true to enable, false to disable"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new SchedulesRepo(db);
+        const changed = repo.toggle(args.id, args.enabled);
+        if (!changed) {
+          return `Schedule ID ${args.id} not found.`;
+        }
+        return `Schedule ${args.id} ${args.enabled ? "enabled" : "disabled"}. The agent will update within 60 seconds.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "delete_schedule",
+    description:
+      "Permanently delete a scheduled job discovery cron job by its ID. Use list_schedules to see available IDs.",
+    parameters: z.object({
+      id: z.number().describe("Schedule ID to delete"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new SchedulesRepo(db);
+        const deleted = repo.delete(args.id);
+        if (!deleted) {
+          return `Schedule ID ${args.id} not found.`;
+        }
+        new ScheduleNotifiersRepo(db).deleteForSchedule(args.id);
+        return `Schedule ${args.id} deleted. The agent will stop the cron task within 60 seconds.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "delete_all_schedules",
+    description:
+      "Permanently delete ALL scheduled job discovery cron jobs. Use with caution.",
+    parameters: z.object({}),
+    execute: async () => {
+      const db = openDatabaseImpl();
+      try {
         const repo = new SchedulesRepo(db);
         const count = repo.deleteAll();
+        new ScheduleNotifiersRepo(db).deleteAll();
         return count > 0
           ? `Deleted ${count} schedule(s). The agent will stop all cron tasks within 60 seconds.`
           : "No schedules to delete.";
@@ -485,64 +1189,887 @@ export function registerLocalScrapingTools(
     },
   });
 
+  // ── Schedule notifier tools ─────────────────────────────────────────
+
+  server.addTool({
+    name: "add_schedule_notifier",
+    description:
+      "Notify the user when a scheduled discovery run finishes: POST JSON to a webhook, post to a Slack incoming webhook, send an email digest over SMTP, or show a desktop notification. Rules limit which jobs trigger it (by default only jobs new to the schedule). If a channel fails, a desktop notification is shown instead.",
+    parameters: z.object({
+      schedule_id: z.number().describe("Schedule ID from list_schedules"),
+      channel: z.enum(["webhook", "slack", "email", "desktop"]).describe("Where to send notifications"),
+      url: z.string().optional().describe("webhook: endpoint that receives the JSON payload"),
+      headers: z
+        .record(z.string(), z.string())
+        .optional()
+        .describe("webhook: extra HTTP headers, e.g. an Authorization header"),
+      slack_webhook_url: z.string().optional().describe("slack: incoming webhook URL"),
+      smtp_host: z.string().optional().describe("email: SMTP server host"),
+      smtp_port: z.number().optional().describe("email: SMTP port (default 587, or 465 when smtp_secure)"),
+      smtp_secure: z
+        .boolean()
+        .optional()
+        .describe("email: connect with TLS from the start instead of STARTTLS"),
+      smtp_username: z.string().optional().describe("email: SMTP username"),
+      smtp_password_env: z
+        .string()
+        .optional()
+        .describe(
+          "email: name of the environment variable holding the SMTP password (the password itself is never stored)",
+        ),
+      smtp_allow_insecure_auth: z
+        .boolean()
+        .optional()
+        .describe(
+          "email: send the username and password even when the server offers no TLS (only for trusted local relays)",
+        ),
+      email_from: z.string().optional().describe("email: sender address"),
+      email_to: z.array(z.string()).optional().describe("email: recipient addresses"),
+      new_only: z
+        .boolean()
+        .optional()
+        .describe("Only notify about jobs new to the schedule (default true); false includes every job in the run"),
+      min_salary: z
+        .number()
+        .optional()
+        .describe("Only jobs whose advertised minimum salary is at least this amount"),
+      work_arrangements: z
+        .array(z.enum(["remote", "hybrid", "on-site"]))
+        .optional()
+        .describe("Only jobs with one of these work arrangements"),
+      title_includes: z
+        .array(z.string())
+        .optional()
+        .describe("Only jobs whose title contains one of these words"),
+      exclude_companies: z.array(z.string()).optional().describe("Never notify about these companies"),
+      exclude_pr_required: z
+        .boolean()
+        .optional()
+        .describe("Skip jobs that require PR/citizenship"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const schedule = new SchedulesRepo(db).list(false).find((row) => row.id === args.schedule_id);
+        if (!schedule) {
+          return `Schedule ID ${args.schedule_id} not found.`;
+        }
+
+        let config: NotifierConfigByChannel[NotifierChannel];
+        switch (args.channel) {
+          case "webhook":
+            if (!args.url) {
+              return "A webhook notifier needs url.";
+            }
+            config = { url: args.url, headers: args.headers };
+            break;
+          case "slack":
+            if (!args.slack_webhook_url) {
+              return "A Slack notifier needs slack_webhook_url.";
+            }
+            config = { webhookUrl: args.slack_webhook_url };
+            break;
+          case "email":
+            if (!args.smtp_host || !args.email_from || !args.email_to?.length) {
+              return "An email notifier needs smtp_host, email_from and email_to.";
+            }
+            if (args.smtp_username && !args.smtp_password_env) {
+              return "smtp_username needs smtp_password_env naming the environment variable with the password.";
+            }
+            config = {
+              host: args.smtp_host,
+              port: args.smtp_port,
+              secure: args.smtp_secure,
+              username: args.smtp_username,
+              passwordEnv: args.smtp_password_env,
+              allowInsecureAuth: args.smtp_allow_insecure_auth,
+              from: args.email_from,
+              to: args.email_to,
+            };
+            break;
+          case "desktop":
+            config = {};
+            break;
+        }
+
+        const rules: NotificationRules = {
+          newOnly: args.new_only,
+          minSalary: args.min_salary,
+          workArrangements: args.work_arrangements,
+          titleIncludes: args.title_includes,
+          excludeCompanies: args.exclude_companies,
+          excludePrRequired: args.exclude_pr_required,
+        };
+        const notifier = new ScheduleNotifiersRepo(db).create({
+          scheduleId: args.schedule_id,
+          channel: args.channel,
+          config,
+          rules,
+        });
+        return JSON.stringify(notifier, null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "list_schedule_notifiers",
+    description:
+      "List the notifiers attached to scheduled discovery runs, with their rules and the outcome of the last delivery.",
+    parameters: z.object({
+      schedule_id: z.number().optional().describe("Only notifiers of this schedule"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const notifiers = new ScheduleNotifiersRepo(db).list(args.schedule_id);
+        if (notifiers.length === 0) {
+          return "No notifiers configured. Use add_schedule_notifier to create one.";
+        }
+        return JSON.stringify(notifiers, null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "toggle_schedule_notifier",
+    description: "Enable or disable a schedule notifier without deleting it.",
+    parameters: z.object({
+      id: z.number().describe("Notifier ID from list_schedule_notifiers"),
+      enabled: z.boolean().describe("true to enable, false to disable"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const updated = new ScheduleNotifiersRepo(db).toggle(args.id, args.enabled);
+        if (!updated) {
+          return `Notifier ID ${args.id} not found.`;
+        }
+        return `Notifier ${args.id} ${args.enabled ? "enabled" : "disabled"}.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "remove_schedule_notifier",
+    description: "Delete a schedule notifier by its ID.",
+    parameters: z.object({
+      id: z.number().describe("Notifier ID from list_schedule_notifiers"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const deleted = new ScheduleNotifiersRepo(db).delete(args.id);
+        return deleted ? `Notifier ${args.id} deleted.` : `Notifier ID ${args.id} not found.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "test_schedule_notifier",
+    description:
+      "Send a sample notification through a schedule notifier to check its configuration. No fallback is used, so errors are reported as-is.",
+    parameters: z.object({
+      id: z.number().describe("Notifier ID from list_schedule_notifiers"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new ScheduleNotifiersRepo(db);
+        const notifier = repo.getById(args.id);
+        if (!notifier) {
+          return `Notifier ID ${args.id} not found.`;
+        }
+        const schedule = new SchedulesRepo(db).list(false).find((row) => row.id === notifier.scheduleId);
+        try {
+          await createNotifierImpl(notifier).send({
+            scheduleId: notifier.scheduleId,
+            runId: 0,
+            keyword: schedule?.keyword ?? "test",
+            location: schedule?.location ?? "test",
+            totalJobs: 1,
+            newJobCount: 1,
+            changedJobCount: 0,
+            disappearedJobCount: 0,
+            jobs: [
+              {
+                title: "Test notification",
+                company: PLUGIN_NAME,
+                location: schedule?.location ?? "",
+                url: "https://www.jobjourney.me",
+                salary: null,
+                salaryMin: null,
+                salaryMax: null,
+                workArrangement: null,
+                postedAt: null,
+              },
+            ],
+          });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          repo.recordDelivery(notifier.id, message);
+          return `Test notification failed: ${message}`;
+        }
+        repo.recordDelivery(notifier.id, null);
+        return `Test notification sent via ${notifier.channel}.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "get_latest_discovery_report",
+    description:
+      "Show a summary of the most recent discovery run, including sources, job count, and the top stored jobs for that run.",
+    parameters: z.object({}),
+    execute: async () => {
+      const db = openDatabaseImpl();
+      try {
+        const runsRepo = new ScrapeRunsRepo(db);
+        const latestRun = runsRepo.getLatestDiscoveryRun();
+        if (!latestRun) {
+          return "No discovery runs found. Run discover_jobs or schedule_jobs first.";
+        }
+
+        const jobs = db
+          .prepare(
+            `SELECT title, company, location, source, COALESCE(job_url, url) AS job_url, external_url, ats_type
+             FROM jobs
+             WHERE run_id = ?
+             ORDER BY rowid ASC
+             LIMIT 10`,
+          )
+          .all(latestRun.id) as Array<{
+          title: string;
+          company: string;
+          location: string;
+          source: string;
+          job_url: string;
+          external_url: string | null;
+          ats_type: string | null;
+        }>;
+
+        const listingChanges = new JobsRepo(db).countByListingStatus(latestRun.id);
+        const lines = jobs.map((job) =>
+          [
+            `## ${job.title}`,
+            `- Company: ${job.company}`,
+            `- Location: ${job.location}`,
+            `- Source: ${job.source}`,
+            `- ATS: ${job.ats_type ?? "unknown"}`,
+            `- Job URL: ${job.job_url}`,
+            `- External URL: ${job.external_url ?? ""}`,
+          ].join("\n"),
+        );
+
+        return [
+          "# Latest Discovery Run",
+          `- Keyword: ${latestRun.keyword}`,
+          `- Location: ${latestRun.location}`,
+          `- Sources: ${(latestRun.sources ?? latestRun.source).split(",").join(", ")}`,
+          `- Status: ${latestRun.status}`,
+          `- Job count: ${latestRun.job_count ?? 0}`,
+          `- Started: ${latestRun.started_at}`,
+          latestRun.finished_at ? `- Finished: ${latestRun.finished_at}` : "",
+          listingChanges.probably_expired
+            ? `- Probably expired (missing from recent runs): ${listingChanges.probably_expired}`
+            : "",
+          listingChanges.expired ? `- Confirmed expired: ${listingChanges.expired}` : "",
+          listingChanges.active ? `- Reappeared after being marked expired: ${listingChanges.active}` : "",
+          "",
+          ...lines,
+        ]
+          .filter(Boolean)
+          .join("\n\n");
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "get_schedule_diff",
+    description:
+      "Show what changed in a scheduled discovery's latest run compared with its previous successful run: jobs that are new to the schedule, jobs that reappeared, jobs that disappeared, and jobs whose salary, description or other fields changed. Use list_schedules to find schedule IDs.",
+    parameters: z.object({
+      schedule_id: z.number().describe("Schedule ID to report on"),
+      run_id: z
+        .number()
+        .optional()
+        .describe("Specific run of the schedule to diff. Defaults to the latest successful run."),
+      limit: z.number().optional().default(25).describe("Maximum jobs listed per section"),
+      new_only: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe("Only list the new jobs section"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const diff = new RunDiffRepo(db).getScheduleRunDiff(args.schedule_id, args.run_id);
+        if (!diff) {
+          return args.run_id !== undefined
+            ? `Run ${args.run_id} is not a run of schedule ${args.schedule_id}.`
+            : `No successful runs found for schedule ${args.schedule_id}.`;
+        }
+
+        const limit = Math.max(args.limit ?? 25, 1);
+        const formatJob = (job: JobRow) =>
+          [
+            `- **${job.title}** — ${job.company} (${job.location})`,
+            job.salary ? ` · ${job.salary}` : "",
+            ` · ${job.job_url ?? job.url}`,
+          ].join("");
+        const section = (title: string, jobs: JobRow[]) =>
+          jobs.length === 0
+            ? []
+            : [
+                `\n## ${title} (${jobs.length})`,
+                ...jobs.slice(0, limit).map(formatJob),
+                jobs.length > limit ? `- …and ${jobs.length - limit} more` : "",
+              ];
+        const changedSection =
+          diff.changedJobs.length === 0
+            ? []
+            : [
+                `\n## Changed (${diff.changedJobs.length})`,
+                ...diff.changedJobs.slice(0, limit).flatMap(({ job, changes }) => [
+                  formatJob(job),
+                  ...Object.entries(changes).map(
+                    ([field, change]) =>
+                      `  - ${field}: ${formatChangeValue(change.from)} → ${formatChangeValue(change.to)}`,
+                  ),
+                ]),
+                diff.changedJobs.length > limit
+                  ? `- …and ${diff.changedJobs.length - limit} more`
+                  : "",
+              ];
+
+        return [
+          `# Schedule ${diff.scheduleId} Diff`,
+          `- Keyword: ${diff.run.keyword}`,
+          `- Location: ${diff.run.location}`,
+          `- Run: ${diff.run.id} (${diff.run.status}, started ${diff.run.started_at})`,
+          diff.previousRun
+            ? `- Compared with run: ${diff.previousRun.id} (started ${diff.previousRun.started_at})`
+            : "- Compared with run: none (first successful run)",
+          `- New: ${diff.newJobs.length}` +
+            (args.new_only
+              ? ""
+              : `, reappeared: ${diff.returnedJobs.length}, changed: ${diff.changedJobs.length}, disappeared: ${diff.disappearedJobs.length}`),
+          ...section("New", diff.newJobs),
+          ...(args.new_only
+            ? []
+            : [
+                ...section("Reappeared", diff.returnedJobs),
+                ...changedSection,
+                ...section("Disappeared", diff.disappearedJobs),
+              ]),
+        ]
+          .filter(Boolean)
+          .join("\n");
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "search_jobs",
+    description:
+      "Search jobs already stored in the local discovery database (~/.jobjourney/jobs.db). Filters on enriched fields such as salary range, work arrangement, job type, experience, PR/citizenship requirements, security clearance, ATS type, posted date and discovery run. Does not scrape — use discover_jobs to fetch new listings.",
+    parameters: z.object({
+      keyword: z.string().optional().describe("Match against job title or company"),
+      ...storedJobFilterParameters,
+      sort_by: jobSortByParameter.default("scraped_at"),
+      sort_order: jobSortOrderParameter,
+      limit: z.number().optional().default(20).describe("Maximum jobs to return (max 100)"),
+      offset: z.number().optional().default(0).describe("Number of matching jobs to skip, for paging"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new JobsRepo(db);
+        const filters = { keyword: args.keyword, ...toJobSearchFilters(args) };
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+        const offset = Math.max(args.offset ?? 0, 0);
+        const total = repo.count(filters);
+        const jobs = repo.search({
+          ...filters,
+          sortBy: args.sort_by,
+          sortOrder: args.sort_order,
+          limit,
+          offset,
+        });
+
+        return JSON.stringify(
+          {
+            total,
+            offset,
+            limit,
+            hasMore: offset + jobs.length < total,
+            jobs: jobs.map(formatStoredJob),
+          },
+          null,
+          2,
+        );
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "search_job_descriptions",
+    description:
+      "Full-text search over the title, company, description and required skills of jobs stored locally, ranked by relevance. Supports boolean and phrase queries, e.g. 'kafka AND \"event sourcing\"', 'react OR vue', 'golang NOT php', 'kube*'. Accepts the same filters as search_jobs.",
+    parameters: z.object({
+      query: z
+        .string()
+        .min(1)
+        .describe(
+          "Full-text query. Words are ANDed by default; use OR, NOT, \"quoted phrases\", prefix* and NEAR(a b, 5).",
+        ),
+      ...storedJobFilterParameters,
+      sort_by: jobSortByParameter.describe("Field to sort by. Defaults to relevance."),
+      sort_order: jobSortOrderParameter,
+      limit: z.number().optional().default(20).describe("Maximum jobs to return (max 100)"),
+      offset: z.number().optional().default(0).describe("Number of matching jobs to skip, for paging"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new JobsRepo(db);
+        const filters = toJobSearchFilters(args);
+        const limit = Math.min(Math.max(args.limit ?? 20, 1), 100);
+        const offset = Math.max(args.offset ?? 0, 0);
+        let total: number;
+        let jobs: JobTextSearchRow[];
+        try {
+          total = repo.countFullText(args.query, filters);
+          jobs = repo.fullTextSearch(args.query, {
+            ...filters,
+            sortBy: args.sort_by,
+            sortOrder: args.sort_order,
+            limit,
+            offset,
+          });
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+
+        return JSON.stringify(
+          {
+            query: args.query,
+            total,
+            offset,
+            limit,
+            hasMore: offset + jobs.length < total,
+            jobs: jobs.map((job) => ({
+              ...formatStoredJob(job),
+              snippet: job.snippet,
+            })),
+          },
+          null,
+          2,
+        );
+      } finally {
+        db.close();
+      }
+    },
+  });
+
   server.addTool({
-    name: "get_latest_discovery_report",
+    name: "get_job_history",
     description:
-      "Show a summary of the most recent discovery run, including sources, job count, and the top stored jobs for that run.",
+      "Show the sighting history of a locally stored job: when it first and last appeared, every listing URL it was seen at across job sites, every discovery run that saw it, and which fields (salary band, description, applicant count, etc.) changed between sightings. Identify the job by its local ID (from search_jobs) or its URL.",
+    parameters: z.object({
+      job_id: z.number().optional().describe("Local job ID returned by search_jobs"),
+      url: z.string().optional().describe("Job URL as stored locally"),
+    }),
+    execute: async (args) => {
+      if (args.job_id === undefined && !args.url) {
+        return "Provide either job_id or url.";
+      }
+
+      const db = openDatabaseImpl();
+      try {
+        const repo = new JobsRepo(db);
+        const job =
+          args.job_id !== undefined ? repo.getById(args.job_id) : repo.getByUrl(args.url ?? "");
+        if (!job) {
+          return `No stored job found for ${args.job_id !== undefined ? `ID ${args.job_id}` : args.url}.`;
+        }
+
+        const observations = repo.getObservations(job.id);
+        const salaryChanges = observations.filter((observation) =>
+          SALARY_FIELDS.some((field) => field in observation.changes),
+        );
+
+        return JSON.stringify(
+          {
+            job: formatStoredJob(job),
+            sightings: observations.length,
+            salaryChanged: salaryChanges.length > 0,
+            seenAt: repo.getSources(job.id).map((source) => ({
+              source: source.source,
+              url: source.url,
+              externalUrl: source.external_url,
+              firstSeenAt: source.first_seen_at,
+              lastSeenAt: source.last_seen_at,
+            })),
+            observations: observations.map((observation) => ({
+              runId: observation.runId,
+              observedAt: observation.observedAt,
+              isNew: observation.isNew,
+              changes: observation.changes,
+            })),
+          },
+          null,
+          2,
+        );
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  // ── Company filter tools ────────────────────────────────────────────
+
+  server.addTool({
+    name: "add_company_filter",
+    description:
+      "Block or allow a company or domain during discovery. Blocked jobs are dropped before enrichment and ATS expansion, so they are never stored. Deny rules always win; once any allow rule exists, only allowed companies are kept.",
+    parameters: z.object({
+      list: z.enum(["deny", "allow"]).describe("'deny' to block, 'allow' to restrict discovery to matches"),
+      kind: z
+        .enum(["company", "domain"])
+        .optional()
+        .default("company")
+        .describe("Match the company name, or the host of the job's apply/listing URL"),
+      match_type: z
+        .enum(["exact", "normalized", "regex"])
+        .optional()
+        .default("normalized")
+        .describe(
+          "'exact' (case-insensitive), 'normalized' (ignores punctuation and suffixes like Pty Ltd) or 'regex'. Domains match their subdomains.",
+        ),
+      pattern: z.string().describe("Company name, domain (e.g. 'hays.com.au') or regular expression"),
+      note: z.string().optional().describe("Why this rule exists"),
+    }),
+    execute: async (args) => {
+      const rule = {
+        list: args.list,
+        kind: args.kind ?? "company",
+        matchType: args.match_type ?? "normalized",
+        pattern: args.pattern.trim(),
+      };
+      if (!rule.pattern) {
+        return "pattern must not be empty.";
+      }
+      try {
+        compileCompanyFilterRule(rule);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+
+      const db = openDatabaseImpl();
+      try {
+        const stored = new CompanyFiltersRepo(db).add({ ...rule, note: args.note });
+        return JSON.stringify(stored, null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "list_company_filters",
+    description: "List the company and domain allow/deny rules applied during discovery.",
+    parameters: z.object({
+      list: z.enum(["deny", "allow"]).optional().describe("Only this list"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const filters = new CompanyFiltersRepo(db).list(args.list);
+        if (filters.length === 0) {
+          return "No company filters configured. Use add_company_filter to block or allow companies.";
+        }
+        return JSON.stringify(filters, null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "remove_company_filter",
+    description: "Remove a company filter by ID, or clear a whole list.",
+    parameters: z.object({
+      id: z.number().optional().describe("Filter ID from list_company_filters"),
+      clear_list: z
+        .enum(["deny", "allow", "all"])
+        .optional()
+        .describe("Remove every rule in this list instead of a single ID"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new CompanyFiltersRepo(db);
+        if (args.clear_list) {
+          const count = repo.clear(args.clear_list === "all" ? undefined : args.clear_list);
+          return `Removed ${count} company filter(s).`;
+        }
+        if (args.id === undefined) {
+          return "Provide id or clear_list.";
+        }
+        return repo.delete(args.id)
+          ? `Company filter ${args.id} removed.`
+          : `Company filter ID ${args.id} not found.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "add_company_alias",
+    description:
+      "Tell cross-platform dedup that two company names are the same employer, e.g. 'CBA' and 'Commonwealth Bank of Australia', so their listings of one posting are merged.",
+    parameters: z.object({
+      alias: z.string().describe("Alternative company name"),
+      canonical: z.string().describe("Name the alias should be treated as"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const row = new CompanyAliasesRepo(db).add(args.alias, args.canonical);
+        return `Company alias saved: "${row.alias}" → "${row.canonical}".`;
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "list_company_aliases",
+    description: "List company aliases used by cross-platform dedup (names are shown normalized).",
     parameters: z.object({}),
     execute: async () => {
       const db = openDatabaseImpl();
       try {
-        const runsRepo = new ScrapeRunsRepo(db);
-        const latestRun = runsRepo.getLatestDiscoveryRun();
-        if (!latestRun) {
-          return "No discovery runs found. Run discover_jobs or schedule_jobs first.";
+        const aliases = new CompanyAliasesRepo(db).list();
+        if (aliases.length === 0) {
+          return "No company aliases saved. Use add_company_alias to add one.";
         }
+        return JSON.stringify(
+          aliases.map((row) => ({ alias: row.alias, canonical: row.canonical })),
+          null,
+          2,
+        );
+      } finally {
+        db.close();
+      }
+    },
+  });
 
-        const jobs = db
-          .prepare(
-            `SELECT title, company, location, source, COALESCE(job_url, url) AS job_url, external_url, ats_type
-             FROM jobs
-             WHERE run_id = ?
-             ORDER BY rowid ASC
-             LIMIT 10`,
-          )
-          .all(latestRun.id) as Array<{
-          title: string;
-          company: string;
-          location: string;
-          source: string;
-          job_url: string;
-          external_url: string | null;
-          ats_type: string | null;
-        }>;
+  server.addTool({
+    name: "remove_company_alias",
+    description: "Remove a company alias.",
+    parameters: z.object({
+      alias: z.string().describe("Alias to remove"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        return new CompanyAliasesRepo(db).delete(args.alias)
+          ? `Company alias "${args.alias}" removed.`
+          : `Company alias "${args.alias}" not found.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
 
-        const lines = jobs.map((job) =>
-          [
-            `## ${job.title}`,
-            `- Company: ${job.company}`,
-            `- Location: ${job.location}`,
-            `- Source: ${job.source}`,
-            `- ATS: ${job.ats_type ?? "unknown"}`,
-            `- Job URL: ${job.job_url}`,
-            `- External URL: ${job.external_url ?? ""}`,
-          ].join("\n"),
+  // ── Alert rule tools ────────────────────────────────────────────────
+
+  server.addTool({
+    name: "create_alert_rule",
+    description:
+      "Save a standing alert rule, e.g. title matches 'staff|principal', remote or hybrid, not PR-required. Every discovery batch (discover_jobs and scheduled runs) is checked against enabled rules and matches are stored as unread alerts.",
+    parameters: z.object({
+      name: z.string().describe("Short name for the rule"),
+      ...alertRuleCriteriaParameters,
+    }),
+    execute: async (args) => {
+      const criteria = toAlertRuleCriteria(args);
+      if (Object.keys(criteria).length === 0) {
+        return "An alert rule needs at least one criterion.";
+      }
+      try {
+        compileAlertRule(criteria);
+      } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+      }
+
+      const db = openDatabaseImpl();
+      try {
+        const rule = new AlertRulesRepo(db).create({ name: args.name, criteria });
+        return JSON.stringify(rule, null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "list_alert_rules",
+    description: "List saved alert rules with their criteria and unread alert counts.",
+    parameters: z.object({}),
+    execute: async () => {
+      const db = openDatabaseImpl();
+      try {
+        const alertsRepo = new AlertsRepo(db);
+        const rules = new AlertRulesRepo(db).list();
+        if (rules.length === 0) {
+          return "No alert rules saved. Use create_alert_rule to add one.";
+        }
+        return JSON.stringify(
+          rules.map((rule) => ({
+            ...rule,
+            unreadAlerts: alertsRepo.count({ ruleId: rule.id, unreadOnly: true }),
+          })),
+          null,
+          2,
         );
+      } finally {
+        db.close();
+      }
+    },
+  });
 
-        return [
-          "# Latest Discovery Run",
-          `- Keyword: ${latestRun.keyword}`,
-          `- Location: ${latestRun.location}`,
-          `- Sources: ${(latestRun.sources ?? latestRun.source).split(",").join(", ")}`,
-          `- Status: ${latestRun.status}`,
-          `- Job count: ${latestRun.job_count ?? 0}`,
-          `- Started: ${latestRun.started_at}`,
-          latestRun.finished_at ? `- Finished: ${latestRun.finished_at}` : "",
-          "",
-          ...lines,
-        ]
-          .filter(Boolean)
-          .join("\n\n");
+  server.addTool({
+    name: "update_alert_rule",
+    description:
+      "Rename, enable/disable or replace the criteria of an alert rule. When any criterion is given, the rule's criteria are replaced by the ones given.",
+    parameters: z.object({
+      id: z.number().describe("Alert rule ID from list_alert_rules"),
+      name: z.string().optional().describe("New name"),
+      enabled: z.boolean().optional().describe("true to enable, false to disable"),
+      ...alertRuleCriteriaParameters,
+    }),
+    execute: async (args) => {
+      const criteria = toAlertRuleCriteria(args);
+      const replaceCriteria = Object.keys(criteria).length > 0;
+      if (replaceCriteria) {
+        try {
+          compileAlertRule(criteria);
+        } catch (error) {
+          return error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      const db = openDatabaseImpl();
+      try {
+        const repo = new AlertRulesRepo(db);
+        const updated = repo.update(args.id, {
+          name: args.name,
+          criteria: replaceCriteria ? criteria : undefined,
+        });
+        if (!updated) {
+          return `Alert rule ID ${args.id} not found.`;
+        }
+        if (args.enabled !== undefined) {
+          repo.toggle(args.id, args.enabled);
+        }
+        return JSON.stringify(repo.getById(args.id), null, 2);
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "delete_alert_rule",
+    description: "Delete an alert rule and the alerts it raised.",
+    parameters: z.object({
+      id: z.number().describe("Alert rule ID from list_alert_rules"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const deleted = new AlertRulesRepo(db).delete(args.id);
+        return deleted ? `Alert rule ${args.id} deleted.` : `Alert rule ID ${args.id} not found.`;
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "list_alerts",
+    description:
+      "List jobs that matched saved alert rules, newest first. By default only unread alerts are shown; use acknowledge_alerts to mark them read.",
+    parameters: z.object({
+      unread_only: z.boolean().optional().default(true).describe("Only unread alerts (default true)"),
+      rule_id: z.number().optional().describe("Only alerts raised by this rule"),
+      limit: z.number().optional().default(20).describe("Max alerts to return"),
+      offset: z.number().optional().default(0).describe("Number of alerts to skip"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const repo = new AlertsRepo(db);
+        const filters = { unreadOnly: args.unread_only, ruleId: args.rule_id };
+        const total = repo.count(filters);
+        const alerts = repo.list({ ...filters, limit: args.limit, offset: args.offset });
+        return JSON.stringify(
+          {
+            total,
+            alerts: alerts.map((alert) => ({
+              id: alert.id,
+              ruleId: alert.rule_id,
+              ruleName: alert.rule_name,
+              runId: alert.run_id,
+              matchedAt: alert.matched_at,
+              read: alert.read_at !== null,
+              job: formatStoredJob(alert.job),
+            })),
+          },
+          null,
+          2,
+        );
+      } finally {
+        db.close();
+      }
+    },
+  });
+
+  server.addTool({
+    name: "acknowledge_alerts",
+    description:
+      "Mark alerts as read: specific alert IDs, every unread alert of one rule, or all unread alerts when neither is given.",
+    parameters: z.object({
+      ids: z.array(z.number()).optional().describe("Alert IDs from list_alerts"),
+      rule_id: z.number().optional().describe("Acknowledge every unread alert of this rule"),
+    }),
+    execute: async (args) => {
+      const db = openDatabaseImpl();
+      try {
+        const count = new AlertsRepo(db).acknowledge({ ids: args.ids, ruleId: args.rule_id });
+        return `Marked ${count} alert(s) as read.`;
       } finally {
         db.close();
       }
@@ -633,3 +2160,104 @@ async function checkForUpdates(): Promise<{
     };
   }
 }
+
+function toJobSearchFilters(args: StoredJobFilterArgs): JobSearchFilters {
+  return {
+    location: args.location,
+    source: args.source,
+    salaryMin: args.salary_min,
+    salaryMax: args.salary_max,
+    salaryCurrency: args.salary_currency,
+    salaryPeriod: args.salary_period,
+    workArrangement: args.work_arrangement,
+    jobType: args.job_type,
+    experienceLevel: args.experience_level,
+    minExperienceYears: args.min_experience_years,
+    maxExperienceYears: args.max_experience_years,
+    isPrRequired: args.is_pr_required,
+    isProbableAgency: args.is_probable_agency,
+    requiresSecurityClearance: args.requires_security_clearance,
+    securityClearance: args.security_clearance,
+    atsType: args.ats_type,
+    postedAfter: args.posted_after,
+    postedBefore: args.posted_before,
+    runId: args.run_id,
+    listingStatus: args.listing_status,
+  };
+}
+
+function describeIncremental(refreshAfterHours: number | null | undefined): string {
+  return refreshAfterHours
+    ? `yes, refreshing known jobs after ${refreshAfterHours}h`
+    : "yes, known jobs are never refreshed";
+}
+
+/** The search filters set in the tool arguments, or undefined when none are. */
+function toSearchFilters(args: SearchFilterArgs): DiscoverySearchFilters | undefined {
+  const filters: DiscoverySearchFilters = {
+    datePosted: args.date_posted,
+    workArrangements: args.work_arrangements?.length ? args.work_arrangements : undefined,
+    employmentTypes: args.employment_types?.length ? args.employment_types : undefined,
+    experienceLevels: args.experience_levels?.length ? args.experience_levels : undefined,
+    salaryMin: args.min_salary,
+    radiusKm: args.radius_km,
+  };
+  const entries = Object.entries(filters).filter(([, value]) => value !== undefined);
+  return entries.length > 0 ? (Object.fromEntries(entries) as DiscoverySearchFilters) : undefined;
+}
+
+function toAlertRuleCriteria(args: AlertRuleCriteriaArgs): AlertRuleCriteria {
+  const criteria: AlertRuleCriteria = {
+    titlePattern: args.title_pattern,
+    descriptionPattern: args.description_pattern,
+    locationIncludes: args.location_includes,
+    excludeCompanies: args.exclude_companies,
+    workArrangements: args.work_arrangements,
+    experienceLevels: args.experience_levels,
+    sources: args.sources,
+    minSalary: args.min_salary,
+    excludePrRequired: args.exclude_pr_required,
+  };
+  return Object.fromEntries(
+    Object.entries(criteria).filter(([, value]) => value !== undefined),
+  ) as AlertRuleCriteria;
+}
+
+function formatStoredJob(job: JobRow) {
+  return {
+    id: job.id,
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    source: job.source,
+    jobUrl: job.job_url ?? job.url,
+    externalUrl: job.external_url,
+    atsType: job.ats_type,
+    postedAt: job.posted_at,
+    salary: job.salary,
+    salaryMin: job.salary_min,
+    salaryMax: job.salary_max,
+    salaryCurrency: job.salary_currency,
+    salaryPeriod: job.salary_period,
+    workArrangement: job.work_arrangement,
+    jobType: job.job_type,
+    experienceLevel: job.experience_level,
+    experienceYears: job.experience_years,
+    isPrRequired: Boolean(job.is_pr_required),
+    isProbableAgency: Boolean(job.is_probable_agency),
+    securityClearance: job.security_clearance,
+    runId: job.run_id,
+    scrapedAt: job.scraped_at,
+    firstSeenAt: job.first_seen_at,
+    lastSeenAt: job.last_seen_at,
+    listingStatus: job.listing_status,
+  };
+}
+
+function formatChangeValue(value: string | number | null): string {
+  if (value === null) {
+    return "(empty)";
+  }
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
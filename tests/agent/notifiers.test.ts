@@ -0,0 +1,325 @@
+import http from "node:http";
+import net from "node:net";
+import path from "node:path";
+import type { AddressInfo } from "node:net";
+import type Database from "better-sqlite3";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { notifyScheduleRun } from "../../src/agent/notifiers/dispatch.js";
+import { EmailNotifier } from "../../src/agent/notifiers/email.js";
+import { SlackNotifier } from "../../src/agent/notifiers/slack.js";
+import type { Notifier, NotificationPayload } from "../../src/agent/notifiers/types.js";
+import { WebhookNotifier } from "../../src/agent/notifiers/webhook.js";
+import { openDatabase } from "../../src/storage/sqlite/db.js";
+import { JobsRepo, type JobRecordInput } from "../../src/storage/sqlite/jobs-repo.js";
+import { ScheduleNotifiersRepo } from "../../src/storage/sqlite/schedule-notifiers-repo.js";
+import { ScrapeRunsRepo } from "../../src/storage/sqlite/scrape-runs-repo.js";
+import { createTmpHome } from "../helpers/tmp-home.js";
+
+const payload: NotificationPayload = {
+  scheduleId: 1,
+  runId: 7,
+  keyword: "engineer",
+  location: "Sydney",
+  totalJobs: 3,
+  newJobCount: 1,
+  changedJobCount: 0,
+  disappearedJobCount: 0,
+  jobs: [
+    {
+      title: "Platform Engineer",
+      company: "Canva",
+      location: "Sydney",
+      url: "https://example.com/1",
+      salary: null,
+      salaryMin: "150000",
+      salaryMax: "180000",
+      workArrangement: "hybrid",
+      postedAt: null,
+    },
+  ],
+};
+
+describe("notifiers", () => {
+  const servers: Array<http.Server | net.Server> = [];
+
+  const listen = async <T extends http.Server | net.Server>(server: T): Promise<number> => {
+    servers.push(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    return (server.address() as AddressInfo).port;
+  };
+
+  const captureHttp = async (status = 200) => {
+    const requests: Array<{ headers: http.IncomingHttpHeaders; body: unknown }> = [];
+    const port = await listen(
+      http.createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          requests.push({ headers: req.headers, body: JSON.parse(body) });
+          res.statusCode = status;
+          res.end("ok");
+        });
+      }),
+    );
+    return { url: `http://127.0.0.1:${port}/hook`, requests };
+  };
+
+  afterEach(async () => {
+    await Promise.all(
+      servers.splice(0).map((server) => new Promise((resolve) => server.close(resolve))),
+    );
+  });
+
+  it("posts the payload as JSON to a webhook", async () => {
+    const stub = await captureHttp();
+
+    await new WebhookNotifier({ url: stub.url, headers: { "X-Token": "secret" } }).send(payload);
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0].headers["x-token"]).toBe("secret");
+    expect(stub.requests[0].body).toEqual(payload);
+  });
+
+  it("rejects when the webhook answers with an error status", async () => {
+    const stub = await captureHttp(500);
+
+    await expect(new WebhookNotifier({ url: stub.url }).send(payload)).rejects.toThrow("HTTP 500");
+  });
+
+  it("posts a text digest to a Slack incoming webhook", async () => {
+    const stub = await captureHttp();
+
+    await new SlackNotifier({ webhookUrl: stub.url }).send(payload);
+
+    const text = (stub.requests[0].body as { text: string }).text;
+    expect(text).toContain('1 job for "engineer" in Sydney');
+    expect(text).toContain("Platform Engineer at Canva (Sydney, hybrid, 150000-180000)");
+    expect(text).toContain("https://example.com/1");
+  });
+
+  const smtpStub = async () => {
+    const commands: string[] = [];
+    const received = { message: "" };
+    const port = await listen(
+      net.createServer((socket) => {
+        let inData = false;
+        let buffer = "";
+        socket.write("220 stub ESMTP\r\n");
+        socket.on("data", (chunk) => {
+          buffer += chunk.toString();
+          let newline = buffer.indexOf("\r\n");
+          while (newline !== -1) {
+            const line = buffer.slice(0, newline);
+            buffer = buffer.slice(newline + 2);
+            newline = buffer.indexOf("\r\n");
+            if (inData) {
+              if (line === ".") {
+                inData = false;
+                socket.write("250 queued\r\n");
+              } else {
+                received.message += `${line}\n`;
+              }
+              continue;
+            }
+            commands.push(line);
+            if (line.startsWith("EHLO")) {
+              socket.write("250-stub\r\n250 AUTH PLAIN\r\n");
+            } else if (line.startsWith("AUTH")) {
+              socket.write("235 ok\r\n");
+            } else if (line === "DATA") {
+              inData = true;
+              socket.write("354 go ahead\r\n");
+            } else if (line === "QUIT") {
+              socket.end("221 bye\r\n");
+            } else {
+              socket.write("250 ok\r\n");
+            }
+          }
+        });
+      }),
+    );
+    return { port, commands, received };
+  };
+
+  it("refuses to send credentials when the server offers no TLS", async () => {
+    const stub = await smtpStub();
+
+    await expect(
+      new EmailNotifier(
+        {
+          host: "127.0.0.1",
+          port: stub.port,
+          username: "me",
+          passwordEnv: "SMTP_TEST_PASSWORD",
+          from: "alerts@example.com",
+          to: ["me@example.com"],
+        },
+        { SMTP_TEST_PASSWORD: "hunter2" },
+      ).send(payload),
+    ).rejects.toThrow("did not offer STARTTLS");
+
+    expect(stub.commands.some((line) => line.startsWith("AUTH"))).toBe(false);
+    expect(stub.commands.some((line) => line.startsWith("MAIL FROM"))).toBe(false);
+  });
+
+  it("sends an email digest with AUTH PLAIN over plain SMTP only when insecure auth is allowed", async () => {
+    const stub = await smtpStub();
+
+    await new EmailNotifier(
+      {
+        host: "127.0.0.1",
+        port: stub.port,
+        username: "me",
+        passwordEnv: "SMTP_TEST_PASSWORD",
+        allowInsecureAuth: true,
+        from: "alerts@example.com",
+        to: ["me@example.com"],
+      },
+      { SMTP_TEST_PASSWORD: "hunter2" },
+    ).send(payload);
+
+    expect(stub.commands).toContain(`AUTH PLAIN ${Buffer.from("\0me\0hunter2").toString("base64")}`);
+    expect(stub.commands).toContain("MAIL FROM:<alerts@example.com>");
+    expect(stub.commands).toContain("RCPT TO:<me@example.com>");
+    expect(stub.received.message).toContain('Subject: 1 job for "engineer" in Sydney');
+    expect(stub.received.message).toContain("Platform Engineer at Canva");
+  });
+
+  it("refuses to authenticate when the password variable is missing", async () => {
+    const notifier = new EmailNotifier(
+      { host: "127.0.0.1", username: "me", passwordEnv: "MISSING", from: "a@b.c", to: ["d@e.f"] },
+      {},
+    );
+
+    await expect(notifier.send(payload)).rejects.toThrow("MISSING is not set");
+  });
+});
+
+describe("notifyScheduleRun", () => {
+  let db: Database.Database;
+
+  const job = (id: number, overrides: Partial<JobRecordInput> = {}): JobRecordInput => ({
+    url: `https://example.com/${id}`,
+    title: `Engineer ${id}`,
+    company: "Canva",
+    location: "Sydney",
+    source: "linkedin",
+    scrapedAt: "2026-03-14T00:00:00Z",
+    ...overrides,
+  });
+
+  const completeRun = (jobs: JobRecordInput[]) => {
+    const runsRepo = new ScrapeRunsRepo(db);
+    const { id } = runsRepo.createRun({
+      scheduleId: 1,
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+    });
+    new JobsRepo(db).upsertJobs(jobs.map((entry) => ({ ...entry, runId: id })));
+    runsRepo.finishRun(id, { status: "success", jobCount: jobs.length });
+    return id;
+  };
+
+  const recordingNotifier = () => {
+    const sent: NotificationPayload[] = [];
+    const notifier: Notifier = {
+      channel: "webhook",
+      send: async (value) => {
+        sent.push(value);
+      },
+    };
+    return { notifier, sent };
+  };
+
+  beforeEach(() => {
+    const home = createTmpHome();
+    db = openDatabase(path.join(home, ".jobjourney", "jobs.db"));
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("notifies only about new jobs that pass the notifier's rules", async () => {
+    completeRun([job(1, { salaryMin: "200000" })]);
+    const runId = completeRun([
+      job(1, { salaryMin: "200000" }),
+      job(2, { salaryMin: "90000", salaryMax: "110000" }),
+      job(3, { salaryMin: "150000" }),
+      job(4, { salaryMin: "80000", salaryMax: "130000" }),
+    ]);
+    const repo = new ScheduleNotifiersRepo(db);
+    const created = repo.create({
+      scheduleId: 1,
+      channel: "webhook",
+      config: { url: "http://127.0.0.1/hook" },
+      rules: { minSalary: 120000 },
+    });
+    const { notifier, sent } = recordingNotifier();
+
+    const deliveries = await notifyScheduleRun(db, 1, runId, {
+      createNotifier: () => notifier,
+      fallbackNotifier: null,
+    });
+
+    expect(deliveries).toEqual([
+      { notifierId: created.id, channel: "webhook", jobCount: 1, status: "sent" },
+    ]);
+    expect(sent[0].jobs.map((entry) => entry.url)).toEqual(["https://example.com/3"]);
+    expect(sent[0]).toMatchObject({ totalJobs: 4, newJobCount: 3 });
+    expect(repo.getById(created.id)?.lastSentAt).not.toBeNull();
+  });
+
+  it("skips notifiers with no matching jobs and disabled notifiers", async () => {
+    const runId = completeRun([job(1, { workArrangement: "on-site" })]);
+    const repo = new ScheduleNotifiersRepo(db);
+    repo.create({
+      scheduleId: 1,
+      channel: "webhook",
+      config: { url: "http://127.0.0.1/hook" },
+      rules: { workArrangements: ["remote"] },
+    });
+    const disabled = repo.create({ scheduleId: 1, channel: "desktop", config: {} });
+    repo.toggle(disabled.id, false);
+    const send = vi.fn();
+
+    const deliveries = await notifyScheduleRun(db, 1, runId, {
+      createNotifier: () => ({ channel: "webhook", send }),
+      fallbackNotifier: null,
+    });
+
+    expect(deliveries.map((delivery) => delivery.status)).toEqual(["skipped"]);
+    expect(send).not.toHaveBeenCalled();
+  });
+
+  it("falls back to the desktop notifier and records the error when a channel fails", async () => {
+    const runId = completeRun([job(1)]);
+    const repo = new ScheduleNotifiersRepo(db);
+    const created = repo.create({
+      scheduleId: 1,
+      channel: "slack",
+      config: { webhookUrl: "http://127.0.0.1/slack" },
+    });
+    const fallback = recordingNotifier();
+
+    const deliveries = await notifyScheduleRun(db, 1, runId, {
+      createNotifier: () => ({
+        channel: "slack",
+        send: async () => {
+          throw new Error("connection refused");
+        },
+      }),
+      fallbackNotifier: fallback.notifier,
+    });
+
+    expect(deliveries[0]).toMatchObject({
+      status: "failed",
+      error: "connection refused",
+      fellBackToDesktop: true,
+    });
+    expect(fallback.sent).toHaveLength(1);
+    expect(repo.getById(created.id)?.lastError).toBe("connection refused");
+  });
+});
@@ -2,6 +2,8 @@ import { describe, expect, it, beforeEach, afterEach, vi } from "vitest";
 import { AgentScheduler } from "../../src/agent/scheduler.js";
 import { openDatabase } from "../../src/storage/sqlite/db.js";
 import { SchedulesRepo } from "../../src/storage/sqlite/schedules-repo.js";
+import { CompanyWatchlistRepo } from "../../src/storage/sqlite/company-watchlist-repo.js";
+import { createEmptyDiscoveryJob } from "../../src/discovery/core/types.js";
 import { createTmpHome } from "../helpers/tmp-home.js";
 import path from "node:path";
 
@@ -13,6 +15,15 @@ describe("AgentScheduler", () => {
     dbPath = path.join(home, ".jobjourney", "jobs.db");
   });
 
+  const scheduleRow = (id: number) => {
+    const db = openDatabase(dbPath);
+    try {
+      return new SchedulesRepo(db).list(false).find((row) => row.id === id)!;
+    } finally {
+      db.close();
+    }
+  };
+
   it("registers cron tasks from schedules", () => {
     const db = openDatabase(dbPath);
     const repo = new SchedulesRepo(db);
@@ -75,6 +86,36 @@ describe("AgentScheduler", () => {
     scheduler.stop();
   });
 
+  it("logs a schedule with malformed filters instead of rejecting", async () => {
+    const db = openDatabase(dbPath);
+    const schedule = new SchedulesRepo(db).create({
+      keyword: "full stack",
+      location: "Sydney",
+      source: "discover",
+      sources: "linkedin",
+      runMode: "discover",
+      cron: "0 9 * * *",
+    });
+    db.prepare("UPDATE schedules SET filters = '{not json' WHERE id = ?").run(schedule.id);
+    db.close();
+
+    const runDiscovery = vi.fn();
+    const scheduler = new AgentScheduler(dbPath, { runDiscovery });
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(scheduler.runScheduledJobForTest(scheduleRow(schedule.id))).resolves.toBeUndefined();
+
+    expect(runDiscovery).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      `[agent] discovery failed for schedule ${schedule.id}:`,
+      expect.any(SyntaxError),
+    );
+    const check = openDatabase(dbPath);
+    expect(check.prepare("SELECT COUNT(*) AS count FROM scrape_runs").get()).toEqual({ count: 0 });
+    check.close();
+    errorSpy.mockRestore();
+  });
+
   it("runs discovery schedules through the discovery pipeline", async () => {
     const db = openDatabase(dbPath);
     const repo = new SchedulesRepo(db);
@@ -98,14 +139,7 @@ describe("AgentScheduler", () => {
       runDiscovery,
     });
 
-    await scheduler.runScheduledJobForTest(
-      schedule.id,
-      schedule.keyword,
-      schedule.location,
-      schedule.source,
-      schedule.runMode,
-      schedule.sources,
-    );
+    await scheduler.runScheduledJobForTest(scheduleRow(schedule.id));
 
     expect(runDiscovery).toHaveBeenCalledWith({
       keyword: "full stack",
@@ -115,7 +149,186 @@ describe("AgentScheduler", () => {
       careerDiscovery: true,
     }, {
       logger: expect.any(Function),
+      companyFilter: expect.any(Object),
+      companyAliases: expect.any(Map),
+      checkpoints: expect.any(Object),
+      signal: expect.any(AbortSignal),
+      onJobsBatch: expect.any(Function),
+    });
+    scheduler.stop();
+  });
+
+  it("gives incremental schedules a lookup of stored jobs", async () => {
+    const db = openDatabase(dbPath);
+    const schedule = new SchedulesRepo(db).create({
+      keyword: "full stack",
+      location: "Sydney",
+      source: "discover",
+      sources: "linkedin",
+      runMode: "discover",
+      incremental: true,
+      refreshAfterHours: 72,
+      cron: "0 9 * * *",
+    });
+    const [row] = new SchedulesRepo(db).list();
+    db.close();
+
+    const runDiscovery = vi.fn(async () => ({
+      jobs: [],
+      sources: ["linkedin"],
+      failedSources: [],
+      expandedCompanies: [],
+    }));
+    const scheduler = new AgentScheduler(dbPath, { runDiscovery, notifyScheduleRun: async () => {} });
+
+    await scheduler.runScheduledJobForTest(row);
+
+    expect(row).toMatchObject({ incremental: 1, refresh_after_hours: 72 });
+    expect(runDiscovery.mock.calls[0][1]).toMatchObject({
+      knownJobs: { find: expect.any(Function) },
     });
     scheduler.stop();
   });
+
+  it("crawls the enabled watchlist for watchlist schedules and records each board", async () => {
+    const db = openDatabase(dbPath);
+    const schedule = new SchedulesRepo(db).create({
+      keyword: "engineer",
+      location: "Sydney",
+      source: "watchlist",
+      runMode: "watchlist",
+      cron: "0 9 * * *",
+    });
+    const watchlist = new CompanyWatchlistRepo(db);
+    const watched = watchlist.add({ company: "Example", atsType: "greenhouse", atsIdentifier: "example" });
+    const disabled = watchlist.add({ company: "Paused", atsType: "lever", atsIdentifier: "paused" });
+    watchlist.toggle(disabled.id, false);
+    db.close();
+
+    const job = createEmptyDiscoveryJob({
+      id: "gh-1",
+      source: "greenhouse",
+      title: "Engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "",
+      jobUrl: "https://boards.greenhouse.io/example/jobs/1",
+      extractedAt: "2026-03-15T00:00:00Z",
+    });
+    const runDiscovery = vi.fn();
+    const crawlWatchlist = vi.fn(async (options: any, deps: any) => {
+      deps.onJobsBatch([job]);
+      return {
+        jobs: [job],
+        sources: ["greenhouse"],
+        companies: [
+          {
+            company: options.companies[0],
+            atsType: "greenhouse",
+            atsIdentifier: "example",
+            boardJobs: 3,
+            matchedJobs: 1,
+          },
+        ],
+        filteredJobs: 0,
+      };
+    });
+    const scheduler = new AgentScheduler(dbPath, {
+      runDiscovery,
+      crawlWatchlist: crawlWatchlist as any,
+      livenessChecker: null,
+      notifyScheduleRun: async () => {},
+    });
+
+    await scheduler.runScheduledJobForTest(scheduleRow(schedule.id));
+
+    expect(runDiscovery).not.toHaveBeenCalled();
+    expect(crawlWatchlist.mock.calls[0][0]).toMatchObject({
+      keyword: "engineer",
+      location: "Sydney",
+      companies: [expect.objectContaining({ id: watched.id })],
+    });
+    const check = openDatabase(dbPath);
+    expect(
+      check.prepare("SELECT run_mode, status, job_count FROM scrape_runs").get(),
+    ).toEqual({ run_mode: "watchlist", status: "success", job_count: 1 });
+    expect(check.prepare("SELECT source, url FROM jobs").all()).toEqual([
+      { source: "greenhouse", url: "https://boards.greenhouse.io/example/jobs/1" },
+    ]);
+    expect(new CompanyWatchlistRepo(check).get(watched.id)).toMatchObject({
+      lastJobCount: 1,
+      lastError: null,
+      lastCrawledAt: expect.any(String),
+    });
+    check.close();
+    scheduler.stop();
+  });
+
+  it("marks listings that drop out of a schedule and confirms them over HTTP", async () => {
+    const db = openDatabase(dbPath);
+    const schedule = new SchedulesRepo(db).create({
+      keyword: "full stack",
+      location: "Sydney",
+      source: "discover",
+      sources: "linkedin",
+      runMode: "discover",
+      cron: "0 9 * * *",
+    });
+    db.close();
+
+    const makeJob = (id: string) =>
+      createEmptyDiscoveryJob({
+        id,
+        source: "linkedin",
+        title: `Engineer ${id}`,
+        company: "Example",
+        location: "Sydney",
+        description: "",
+        jobUrl: `https://www.linkedin.com/jobs/view/${id}`,
+        extractedAt: "2026-03-15T00:00:00Z",
+      });
+    const runDiscovery = vi
+      .fn()
+      .mockResolvedValueOnce({
+        jobs: [makeJob("1"), makeJob("2"), makeJob("3")],
+        sources: ["linkedin"],
+        failedSources: [],
+        expandedCompanies: [],
+      })
+      .mockResolvedValueOnce({
+        jobs: [makeJob("1")],
+        sources: ["linkedin"],
+        failedSources: [],
+        expandedCompanies: [],
+      });
+    const livenessChecker = {
+      check: vi.fn(async (target: { url: string }) =>
+        target.url.endsWith("/2") ? ("closed" as const) : ("unknown" as const),
+      ),
+    };
+    const scheduler = new AgentScheduler(dbPath, {
+      runDiscovery,
+      expiredAfterMissedRuns: 1,
+      livenessChecker,
+    });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+
+    for (let run = 0; run < 2; run += 1) {
+      await scheduler.runScheduledJobForTest(scheduleRow(schedule.id));
+    }
+
+    expect(livenessChecker.check).toHaveBeenCalledTimes(2);
+    const check = openDatabase(dbPath);
+    const statuses = check
+      .prepare("SELECT url, listing_status FROM jobs ORDER BY url")
+      .all() as Array<{ url: string; listing_status: string }>;
+    expect(statuses).toEqual([
+      { url: "https://www.linkedin.com/jobs/view/1", listing_status: "active" },
+      { url: "https://www.linkedin.com/jobs/view/2", listing_status: "expired" },
+      { url: "https://www.linkedin.com/jobs/view/3", listing_status: "probably_expired" },
+    ]);
+    check.close();
+    vi.restoreAllMocks();
+    scheduler.stop();
+  });
 });
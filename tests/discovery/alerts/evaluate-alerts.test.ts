@@ -0,0 +1,97 @@
+import path from "node:path";
+import type Database from "better-sqlite3";
+import { beforeEach, describe, expect, it } from "vitest";
+import { compileAlertRule } from "../../../src/discovery/alerts/alert-rules.js";
+import { evaluateAlertRules } from "../../../src/discovery/alerts/evaluate-alerts.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../../../src/discovery/core/types.js";
+import { DiscoveryJobsRepo } from "../../../src/discovery/storage/discovery-jobs-repo.js";
+import { openDatabase } from "../../../src/storage/sqlite/db.js";
+import { AlertRulesRepo } from "../../../src/storage/sqlite/alert-rules-repo.js";
+import { AlertsRepo } from "../../../src/storage/sqlite/alerts-repo.js";
+import { createTmpHome } from "../../helpers/tmp-home.js";
+
+describe("evaluateAlertRules", () => {
+  let db: Database.Database;
+
+  const job = (id: string, overrides: Partial<DiscoveryJob> = {}): DiscoveryJob => ({
+    ...createEmptyDiscoveryJob({
+      id,
+      source: "linkedin",
+      title: "Software Engineer",
+      company: "Canva",
+      location: "Sydney NSW",
+      jobUrl: `https://example.com/${id}`,
+      extractedAt: "2026-03-15T00:00:00Z",
+    }),
+    ...overrides,
+  });
+
+  const persist = (jobs: DiscoveryJob[], runId?: number) => {
+    new DiscoveryJobsRepo(db).upsertJobs(jobs, { runId });
+    return jobs;
+  };
+
+  beforeEach(() => {
+    const home = createTmpHome();
+    db = openDatabase(path.join(home, ".jobjourney", "jobs.db"));
+  });
+
+  it("records a match only when every criterion passes", () => {
+    const rule = new AlertRulesRepo(db).create({
+      name: "Senior IC",
+      criteria: {
+        titlePattern: "staff|principal",
+        excludeCompanies: ["Atlassian"],
+        workArrangements: ["remote", "hybrid"],
+        excludePrRequired: true,
+      },
+    });
+    const jobs = persist([
+      job("1", { title: "Staff Engineer", workArrangement: "remote" }),
+      job("2", { title: "Principal Engineer", workArrangement: "hybrid", isPrRequired: true }),
+      job("3", { title: "Staff Engineer", workArrangement: "hybrid", company: "atlassian " }),
+      job("4", { title: "Principal Engineer", workArrangement: "on-site" }),
+      job("5", { title: "Senior Engineer", workArrangement: "remote" }),
+    ]);
+
+    const result = evaluateAlertRules(db, jobs);
+
+    expect(result).toEqual({ newAlerts: 1, matchedRuleIds: [rule.id] });
+    const alerts = new AlertsRepo(db).list({ unreadOnly: true });
+    expect(alerts.map((alert) => alert.job.url)).toEqual(["https://example.com/1"]);
+  });
+
+  it("never alerts twice on the same job for a rule", () => {
+    new AlertRulesRepo(db).create({ name: "Sydney", criteria: { locationIncludes: ["sydney"] } });
+    const jobs = persist([job("1")]);
+
+    expect(evaluateAlertRules(db, jobs).newAlerts).toBe(1);
+    expect(evaluateAlertRules(db, persist([job("1", { salary: "$200k" })])).newAlerts).toBe(0);
+    expect(new AlertsRepo(db).count()).toBe(1);
+  });
+
+  it("ignores disabled rules and tracks read state", () => {
+    const rules = new AlertRulesRepo(db);
+    const disabled = rules.create({ name: "Off", criteria: { sources: ["linkedin"] } });
+    rules.toggle(disabled.id, false);
+    const active = rules.create({ name: "Salary", criteria: { minSalary: 150000 } });
+    const jobs = persist([
+      job("1", { salaryMin: "150000", salaryMax: "170000" }),
+      job("2", { salaryMin: "140000", salaryMax: "160000" }),
+    ]);
+
+    expect(evaluateAlertRules(db, jobs).matchedRuleIds).toEqual([active.id]);
+
+    const alerts = new AlertsRepo(db);
+    const [alert] = alerts.list({ unreadOnly: true });
+    expect(alerts.acknowledge({ ids: [alert.id] })).toBe(1);
+    expect(alerts.count({ unreadOnly: true })).toBe(0);
+    expect(alerts.list()[0].read_at).not.toBeNull();
+  });
+
+  it("rejects invalid patterns when compiling a rule", () => {
+    expect(() => compileAlertRule({ descriptionPattern: "[unclosed" })).toThrow(
+      "Invalid descriptionPattern",
+    );
+  });
+});
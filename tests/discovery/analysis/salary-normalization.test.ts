@@ -132,4 +132,29 @@ describe("enrichDiscoveryJob", () => {
     expect(enriched.salaryCurrency).toBe("USD");
     expect(enriched.salaryPeriod).toBe("year");
   });
+  it("keeps ATS-provided salary bounds over amounts parsed from the summary text", () => {
+    const job = createEmptyDiscoveryJob({
+      id: "ashby-1",
+      source: "ashby",
+      title: "Product Engineer",
+      company: "linear",
+      location: "Sydney",
+      description: "Build the product.",
+      jobUrl: "https://jobs.ashbyhq.com/linear/1",
+      extractedAt: "2026-03-15T00:00:00+00:00",
+    });
+    job.salary = "$150K – $180K • Offers Equity";
+    job.salaryRaw = job.salary;
+    job.salaryMin = "150000";
+    job.salaryMax = "185000";
+    job.salaryCurrency = "AUD";
+    job.salaryPeriod = "year";
+
+    const enriched = enrichDiscoveryJob(job);
+
+    expect(enriched.salaryMin).toBe("150000");
+    expect(enriched.salaryMax).toBe("185000");
+    expect(enriched.salaryCurrency).toBe("AUD");
+    expect(enriched.salaryPeriod).toBe("year");
+  });
 });
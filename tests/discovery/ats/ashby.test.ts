@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import { normalizeAshbyJobs } from "../../../src/discovery/ats/ashby.js";
+
+describe("normalizeAshbyJobs", () => {
+  it("maps compensation tiers and workplace type into structured fields", () => {
+    const jobs = normalizeAshbyJobs(
+      {
+        jobs: [
+          {
+            id: "2f1c3b1e",
+            title: "Product Engineer",
+            location: "Sydney",
+            secondaryLocations: [{ location: "Melbourne" }],
+            employmentType: "FullTime",
+            workplaceType: "Hybrid",
+            isRemote: false,
+            isListed: true,
+            publishedAt: "2026-03-10T00:00:00.000+00:00",
+            jobUrl: "https://jobs.ashbyhq.com/linear/2f1c3b1e",
+            applyUrl: "https://jobs.ashbyhq.com/linear/2f1c3b1e/application",
+            descriptionHtml: "<p>Build the product &amp; ship weekly.</p>",
+            compensation: {
+              compensationTierSummary: "A$150K – A$185K • Offers Equity",
+              scrapeableCompensationSalarySummary: "A$150K - A$185K",
+              compensationTiers: [
+                {
+                  components: [
+                    {
+                      compensationType: "Salary",
+                      interval: "1 YEAR",
+                      currencyCode: "AUD",
+                      minValue: 150000,
+                      maxValue: 170000,
+                    },
+                    { compensationType: "EquityPercentage", interval: "NONE", minValue: 0.1, maxValue: 0.2 },
+                  ],
+                },
+                {
+                  components: [
+                    {
+                      compensationType: "Salary",
+                      interval: "1 YEAR",
+                      currencyCode: "AUD",
+                      minValue: 160000,
+                      maxValue: 185000,
+                    },
+                  ],
+                },
+              ],
+            },
+          },
+          {
+            id: "contract-1",
+            title: "Contract Designer",
+            location: "Remote",
+            employmentType: "Contract",
+            isRemote: true,
+            jobUrl: "https://jobs.ashbyhq.com/linear/contract-1",
+            descriptionPlain: "Design things.",
+            compensation: {
+              summaryComponents: [
+                {
+                  compensationType: "Salary",
+                  interval: "1 HOUR",
+                  currencyCode: "usd",
+                  minValue: 90,
+                  maxValue: null,
+                },
+              ],
+            },
+          },
+          { id: "hidden", title: "Unlisted", isListed: false },
+        ],
+      },
+      "linear",
+      "2026-03-15T00:00:00Z",
+    );
+
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0]).toEqual(
+      expect.objectContaining({
+        id: "2f1c3b1e",
+        title: "Product Engineer",
+        company: "linear",
+        location: "Sydney; Melbourne",
+        description: "Build the product & ship weekly.",
+        jobUrl: "https://jobs.ashbyhq.com/linear/2f1c3b1e",
+        externalUrl: "https://jobs.ashbyhq.com/linear/2f1c3b1e",
+        atsType: "ashby",
+        atsIdentifier: "linear",
+        source: "ashby",
+        postedAt: "2026-03-10T00:00:00.000+00:00",
+        salary: "A$150K - A$185K",
+        salaryMin: "150000",
+        salaryMax: "185000",
+        salaryCurrency: "AUD",
+        salaryPeriod: "year",
+        jobType: "Full-time",
+        workArrangement: "hybrid",
+      }),
+    );
+    expect(jobs[1]).toEqual(
+      expect.objectContaining({
+        salaryMin: "90",
+        salaryMax: "",
+        salaryCurrency: "USD",
+        salaryPeriod: "hour",
+        jobType: "Contract",
+        workArrangement: "remote",
+        description: "Design things.",
+      }),
+    );
+  });
+});
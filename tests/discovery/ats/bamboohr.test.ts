@@ -0,0 +1,81 @@
+import { describe, expect, it, vi } from "vitest";
+import { BambooHrCrawler, normalizeBambooHrJobs } from "../../../src/discovery/ats/bamboohr.js";
+import type { HttpClient } from "../../../src/discovery/utils/http.js";
+
+describe("normalizeBambooHrJobs", () => {
+  it("normalizes careers list items and details into canonical discovery jobs", () => {
+    const jobs = normalizeBambooHrJobs(
+      [
+        {
+          item: {
+            id: "42",
+            jobOpeningName: "Customer Success Manager",
+            employmentStatusLabel: "Full-Time",
+            atsLocation: { city: "Brisbane", state: "Queensland", country: "Australia" },
+            isRemote: null,
+          },
+          detail: {
+            result: {
+              jobOpening: {
+                description: "<p>Look after our customers.</p>",
+                datePosted: "2026-03-10",
+                compensation: "$90,000 - $100,000 per year",
+                jobOpeningShareUrl: "https://acme.bamboohr.com/careers/42",
+                locationType: "2",
+              },
+            },
+          },
+        },
+        {
+          item: { id: 43, jobOpeningName: "Support", location: { city: "Perth", state: "WA" }, isRemote: true },
+          detail: null,
+        },
+      ],
+      "acme",
+      "2026-03-15T00:00:00Z",
+    );
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "42",
+        title: "Customer Success Manager",
+        company: "acme",
+        location: "Brisbane, Queensland, Australia",
+        description: "Look after our customers.",
+        jobUrl: "https://acme.bamboohr.com/careers/42",
+        atsType: "bamboohr",
+        atsIdentifier: "acme",
+        source: "bamboohr",
+        postedAt: "2026-03-10",
+        jobType: "Full-Time",
+        salary: "$90,000 - $100,000 per year",
+        workArrangement: "hybrid",
+      }),
+      expect.objectContaining({
+        id: "43",
+        location: "Perth, WA",
+        jobUrl: "https://acme.bamboohr.com/careers/43",
+        workArrangement: "remote",
+      }),
+    ]);
+  });
+});
+
+describe("BambooHrCrawler", () => {
+  it("lists openings and fetches each opening's detail", async () => {
+    const getJson = vi.fn(async (url: string) =>
+      url.endsWith("/list")
+        ? { result: [{ id: "42", jobOpeningName: "Engineer" }] }
+        : { result: { jobOpening: { description: "<p>Details</p>" } } },
+    );
+    const crawler = new BambooHrCrawler({ getJson } as unknown as HttpClient);
+
+    const jobs = await crawler.crawlJobs("acme", "2026-03-15T00:00:00Z");
+
+    expect(getJson.mock.calls.map(([url]) => url)).toEqual([
+      "https://acme.bamboohr.com/careers/list",
+      "https://acme.bamboohr.com/careers/42/detail",
+    ]);
+    expect(jobs[0]).toMatchObject({ title: "Engineer", description: "Details" });
+  });
+});
@@ -24,6 +24,57 @@ describe("detectAts", () => {
     });
   });
 
+  it("detects workday tenant, data centre and site from job URLs", () => {
+    expect(
+      detectAts("https://nab.wd3.myworkdayjobs.com/en-US/NAB_Careers/job/Melbourne/Engineer_R123"),
+    ).toEqual({
+      atsType: "workday",
+      companyIdentifier: "nab/wd3/NAB_Careers",
+      domain: "myworkdayjobs.com",
+      applyUrl: "https://nab.wd3.myworkdayjobs.com/en-US/NAB_Careers/job/Melbourne/Engineer_R123",
+    });
+    expect(
+      detectAts("https://telstra.wd3.myworkdayjobs.com/Telstra_Careers/job/Sydney/Analyst_R9")
+        .companyIdentifier,
+    ).toBe("telstra/wd3/Telstra_Careers");
+  });
+
+  it("detects smartrecruiters company identifiers from job and one-click URLs", () => {
+    expect(
+      detectAts("https://jobs.smartrecruiters.com/Canva/743999912345678-senior-engineer")
+        .companyIdentifier,
+    ).toBe("Canva");
+    expect(
+      detectAts(
+        "https://jobs.smartrecruiters.com/oneclick-ui/company/Atlassian/publication/abc-123",
+      ).companyIdentifier,
+    ).toBe("Atlassian");
+  });
+
+  it("detects ashby job board names from job URLs", () => {
+    expect(
+      detectAts("https://jobs.ashbyhq.com/linear/2f1c3b1e-1111-4c1d-9f00-abc/application")
+        .companyIdentifier,
+    ).toBe("linear");
+  });
+
+  it.each([
+    ["https://apply.workable.com/acme/j/ABC123DEF/", "workable", "acme", "workable.com"],
+    ["https://acme.workable.com/jobs/123", "workable", "acme", "workable.com"],
+    ["https://acme.recruitee.com/o/backend-engineer", "recruitee", "acme", "recruitee.com"],
+    ["https://acme.bamboohr.com/careers/42", "bamboohr", "acme", "bamboohr.com"],
+    ["https://acme.teamtailor.com/jobs/123-engineer", "teamtailor", "acme", "teamtailor.com"],
+    ["https://acme.jobs.personio.de/job/987", "personio", "acme", "jobs.personio.de"],
+    ["https://acme.jobs.personio.com/job/987", "personio", "acme", "jobs.personio.com"],
+    ["https://acme.applytojob.com/apply/xyz/Engineer", "jazzhr", "acme", "applytojob.com"],
+  ])("detects %s as %s", (url, atsType, companyIdentifier, domain) => {
+    expect(detectAts(url)).toEqual({ atsType, companyIdentifier, domain, applyUrl: url });
+  });
+
+  it("ignores the provider's own subdomains as company identifiers", () => {
+    expect(detectAts("https://www.bamboohr.com/careers").companyIdentifier).toBeNull();
+  });
+
   it("classifies missing URLs as LinkedIn easy apply when flagged", () => {
     expect(detectAts(null, { easyApply: true })).toEqual({
       atsType: "linkedin_easy_apply",
@@ -58,6 +109,17 @@ describe("ATS URL helpers", () => {
     expect(urls).toEqual(["https://boards.greenhouse.io/exampleco/jobs/456"]);
   });
 
+  it("extracts URLs for the wider set of startup ATS providers", () => {
+    const urls = extractKnownAtsUrls(
+      'Apply at https://apply.workable.com/acme/j/ABC123/ or <a href="https://acme.teamtailor.com/jobs/1-dev">here</a>',
+    );
+
+    expect(urls).toEqual([
+      "https://apply.workable.com/acme/j/ABC123/",
+      "https://acme.teamtailor.com/jobs/1-dev",
+    ]);
+  });
+
   it("normalizes only known ATS URL candidates", () => {
     expect(normalizeAtsUrlCandidate("https://jobs.lever.co/example/abc")).toBe(
       "https://jobs.lever.co/example/abc",
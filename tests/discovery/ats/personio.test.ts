@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { normalizePersonioFeed } from "../../../src/discovery/ats/personio.js";
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<workzag-jobs>
+  <position>
+    <id>987</id>
+    <subcompany>Acme GmbH</subcompany>
+    <office>Berlin</office>
+    <additionalOffices>
+      <office>Munich</office>
+    </additionalOffices>
+    <department>Engineering</department>
+    <name>Platform Engineer</name>
+    <jobDescriptions>
+      <jobDescription>
+        <name>Your mission</name>
+        <value><![CDATA[<p>Run our Kubernetes platform.</p>]]></value>
+      </jobDescription>
+      <jobDescription>
+        <name>Your profile</name>
+        <value><![CDATA[<ul><li>Terraform</li></ul>]]></value>
+      </jobDescription>
+    </jobDescriptions>
+    <employmentType>permanent</employmentType>
+    <seniority>experienced</seniority>
+    <schedule>full-time</schedule>
+    <createdAt>2026-03-10T09:00:00+00:00</createdAt>
+  </position>
+</workzag-jobs>`;
+
+describe("normalizePersonioFeed", () => {
+  it("normalizes personio XML positions into canonical discovery jobs", () => {
+    const jobs = normalizePersonioFeed(FEED, "acme", "2026-03-15T00:00:00Z");
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "987",
+        title: "Platform Engineer",
+        company: "Acme GmbH",
+        location: "Berlin; Munich",
+        description: "Your mission Run our Kubernetes platform. Your profile Terraform",
+        jobUrl: "https://acme.jobs.personio.de/job/987",
+        externalUrl: "https://acme.jobs.personio.de/job/987",
+        atsType: "personio",
+        atsIdentifier: "acme",
+        source: "personio",
+        postedAt: "2026-03-10T09:00:00+00:00",
+        jobType: "Full-time",
+        experienceLevel: "experienced",
+      }),
+    ]);
+  });
+});
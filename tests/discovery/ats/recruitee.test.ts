@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { normalizeRecruiteeJobs } from "../../../src/discovery/ats/recruitee.js";
+
+describe("normalizeRecruiteeJobs", () => {
+  it("normalizes recruitee offers into canonical discovery jobs", () => {
+    const jobs = normalizeRecruiteeJobs(
+      {
+        offers: [
+          {
+            id: 1201,
+            slug: "backend-engineer",
+            title: "Backend Engineer",
+            company_name: "Acme",
+            description: "<p>Build APIs &amp; services.</p>",
+            requirements: "<ul><li>Go</li></ul>",
+            location: "Sydney, Australia",
+            careers_url: "https://acme.recruitee.com/o/backend-engineer",
+            careers_apply_url: "https://acme.recruitee.com/o/backend-engineer/c/new",
+            published_at: "2026-03-10 04:00:00 UTC",
+            employment_type_code: "fulltime_permanent",
+            remote: false,
+            hybrid: true,
+            salary: { min: "120000", max: "140000", currency: "aud", period: "year" },
+          },
+        ],
+      },
+      "acme",
+      "2026-03-15T00:00:00Z",
+    );
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "1201",
+        title: "Backend Engineer",
+        company: "Acme",
+        location: "Sydney, Australia",
+        description: "Build APIs & services. Go",
+        jobUrl: "https://acme.recruitee.com/o/backend-engineer",
+        externalUrl: "https://acme.recruitee.com/o/backend-engineer/c/new",
+        atsType: "recruitee",
+        atsIdentifier: "acme",
+        source: "recruitee",
+        postedAt: "2026-03-10T04:00:00Z",
+        jobType: "Full-time",
+        workArrangement: "hybrid",
+        salaryMin: "120000",
+        salaryMax: "140000",
+        salaryCurrency: "AUD",
+        salaryPeriod: "year",
+      }),
+    ]);
+  });
+});
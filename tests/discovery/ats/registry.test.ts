@@ -1,12 +1,25 @@
 import { describe, expect, it } from "vitest";
 import {
   ATS_PROVIDER_NAMES,
+  findAtsProviderForHost,
+  getAllAtsProviderDefinitions,
   getAtsProviderDefinition,
 } from "../../../src/discovery/ats/registry.js";
 
 describe("ATS provider registry", () => {
   it("lists supported ATS crawlers in stable order", () => {
-    expect(ATS_PROVIDER_NAMES).toEqual(["greenhouse", "lever"]);
+    expect(ATS_PROVIDER_NAMES).toEqual([
+      "greenhouse",
+      "lever",
+      "workday",
+      "smartrecruiters",
+      "ashby",
+      "workable",
+      "recruitee",
+      "bamboohr",
+      "teamtailor",
+      "personio",
+    ]);
   });
 
   it("resolves active ATS providers", () => {
@@ -19,4 +32,29 @@ describe("ATS provider registry", () => {
       status: "active",
     });
   });
+  it("keeps detect-only providers out of the crawlable names", () => {
+    expect(ATS_PROVIDER_NAMES).not.toContain("jazzhr");
+    expect(getAtsProviderDefinition("jazzhr")).toMatchObject({
+      status: "detect_only",
+      domains: ["applytojob.com"],
+    });
+    expect(getAtsProviderDefinition("jazzhr").createCrawler).toBeUndefined();
+  });
+
+  it("matches hosts against provider domains and their subdomains", () => {
+    expect(findAtsProviderForHost("acme.jobs.personio.com")).toMatchObject({
+      definition: { name: "personio" },
+      domain: "jobs.personio.com",
+    });
+    expect(findAtsProviderForHost("greenhouse.io")).toBeNull();
+  });
+
+  it("creates crawlers whose name matches the provider", () => {
+    for (const definition of getAllAtsProviderDefinitions()) {
+      const crawler = definition.createCrawler?.({} as never);
+      if (crawler) {
+        expect(crawler.name).toBe(definition.name);
+      }
+    }
+  });
 });
@@ -0,0 +1,107 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  SmartRecruitersCrawler,
+  normalizeSmartRecruitersJobs,
+} from "../../../src/discovery/ats/smartrecruiters.js";
+import type { HttpClient } from "../../../src/discovery/utils/http.js";
+
+describe("normalizeSmartRecruitersJobs", () => {
+  it("normalizes postings and job ad sections into canonical discovery jobs", () => {
+    const jobs = normalizeSmartRecruitersJobs(
+      [
+        {
+          posting: {
+            id: "743999912345678",
+            name: "Senior Software Engineer",
+            releasedDate: "2026-03-10T04:12:00.000Z",
+            company: { identifier: "Canva", name: "Canva" },
+            location: { city: "Sydney", region: "NSW", country: "au", remote: false, hybrid: true },
+            typeOfEmployment: { label: "Full-time" },
+            experienceLevel: { label: "Mid-Senior Level" },
+          },
+          detail: {
+            postingUrl: "https://jobs.smartrecruiters.com/Canva/743999912345678-senior-software-engineer",
+            jobAd: {
+              sections: {
+                companyDescription: { text: "<p>Canva is a design platform.</p>" },
+                jobDescription: { text: "<p>Build the editor &amp; tooling.</p>" },
+                qualifications: { text: "<ul><li>React</li><li>Node.js</li></ul>" },
+              },
+            },
+          },
+        },
+        {
+          posting: {
+            id: "743999987654321",
+            name: "Support Specialist",
+            location: { fullLocation: "Remote, Australia", remote: true },
+          },
+          detail: null,
+        },
+      ],
+      "Canva",
+      "2026-03-15T00:00:00Z",
+    );
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "743999912345678",
+        title: "Senior Software Engineer",
+        company: "Canva",
+        location: "Sydney, NSW, AU",
+        description: "Build the editor & tooling. React Node.js Canva is a design platform.",
+        jobUrl: "https://jobs.smartrecruiters.com/Canva/743999912345678-senior-software-engineer",
+        externalUrl: "https://jobs.smartrecruiters.com/Canva/743999912345678-senior-software-engineer",
+        atsType: "smartrecruiters",
+        atsIdentifier: "Canva",
+        source: "smartrecruiters",
+        postedAt: "2026-03-10T04:12:00.000Z",
+        jobType: "Full-time",
+        experienceLevel: "Mid-Senior Level",
+        workArrangement: "hybrid",
+      }),
+      expect.objectContaining({
+        id: "743999987654321",
+        company: "Canva",
+        location: "Remote, Australia",
+        description: "",
+        jobUrl: "https://jobs.smartrecruiters.com/Canva/743999987654321",
+        workArrangement: "remote",
+      }),
+    ]);
+  });
+});
+
+describe("SmartRecruitersCrawler", () => {
+  it("pages the postings API and fetches each posting's job ad", async () => {
+    const postings = Array.from({ length: 120 }, (_, index) => ({
+      id: String(1000 + index),
+      name: `Role ${index}`,
+    }));
+    const getJson = vi.fn(async (url: string, options?: { params?: Record<string, string> }) => {
+      if (url.endsWith("/postings")) {
+        const offset = Number(options?.params?.offset ?? 0);
+        const limit = Number(options?.params?.limit ?? 100);
+        return { totalFound: postings.length, content: postings.slice(offset, offset + limit) };
+      }
+      return { jobAd: { sections: { jobDescription: { text: `<p>${url.split("/").pop()}</p>` } } } };
+    });
+    const crawler = new SmartRecruitersCrawler({ getJson } as unknown as HttpClient);
+
+    const jobs = await crawler.crawlJobs("Canva", "2026-03-15T00:00:00Z");
+
+    const listCalls = getJson.mock.calls.filter(([url]) => url.endsWith("/postings"));
+    expect(listCalls).toEqual([
+      [
+        "https://api.smartrecruiters.com/v1/companies/Canva/postings",
+        { params: { limit: "100", offset: "0" } },
+      ],
+      [
+        "https://api.smartrecruiters.com/v1/companies/Canva/postings",
+        { params: { limit: "100", offset: "100" } },
+      ],
+    ]);
+    expect(jobs).toHaveLength(120);
+    expect(jobs[0]).toMatchObject({ id: "1000", description: "1000" });
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { normalizeTeamtailorFeed } from "../../../src/discovery/ats/teamtailor.js";
+
+const FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:tt="https://teamtailor.com/locations">
+  <channel>
+    <title>Acme jobs</title>
+    <link>https://acme.teamtailor.com/jobs</link>
+    <item>
+      <title><![CDATA[Frontend Engineer]]></title>
+      <description><![CDATA[<p>Build our web app &amp; design system.</p>]]></description>
+      <pubDate>Tue, 10 Mar 2026 04:00:00 +0000</pubDate>
+      <link>https://acme.teamtailor.com/jobs/123-frontend-engineer</link>
+      <guid>acme-123</guid>
+      <remoteStatus>hybrid</remoteStatus>
+      <tt:locations>
+        <tt:location>
+          <tt:name>Sydney office</tt:name>
+          <tt:city>Sydney</tt:city>
+          <tt:country>Australia</tt:country>
+        </tt:location>
+      </tt:locations>
+    </item>
+    <item>
+      <title>Marketing Lead</title>
+      <description>&lt;p&gt;Grow the brand.&lt;/p&gt;</description>
+      <link>https://acme.teamtailor.com/jobs/124-marketing-lead</link>
+      <guid>acme-124</guid>
+      <remoteStatus>fully</remoteStatus>
+    </item>
+  </channel>
+</rss>`;
+
+describe("normalizeTeamtailorFeed", () => {
+  it("normalizes teamtailor RSS items into canonical discovery jobs", () => {
+    const jobs = normalizeTeamtailorFeed(FEED, "acme", "2026-03-15T00:00:00Z");
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "acme-123",
+        title: "Frontend Engineer",
+        company: "acme",
+        location: "Sydney, Australia",
+        description: "Build our web app & design system.",
+        jobUrl: "https://acme.teamtailor.com/jobs/123-frontend-engineer",
+        externalUrl: "https://acme.teamtailor.com/jobs/123-frontend-engineer",
+        atsType: "teamtailor",
+        atsIdentifier: "acme",
+        source: "teamtailor",
+        postedAt: "2026-03-10T04:00:00Z",
+        workArrangement: "hybrid",
+      }),
+      expect.objectContaining({
+        id: "acme-124",
+        title: "Marketing Lead",
+        location: "",
+        description: "Grow the brand.",
+        postedAt: null,
+        workArrangement: "remote",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { normalizeWorkableJobs } from "../../../src/discovery/ats/workable.js";
+
+describe("normalizeWorkableJobs", () => {
+  it("normalizes workable widget payloads into canonical discovery jobs", () => {
+    const jobs = normalizeWorkableJobs(
+      {
+        name: "Acme",
+        jobs: [
+          {
+            title: "Data Engineer",
+            shortcode: "ABC123DEF",
+            employment_type: "Full-time",
+            telecommuting: true,
+            url: "https://apply.workable.com/j/ABC123DEF",
+            application_url: "https://apply.workable.com/j/ABC123DEF/apply",
+            published_on: "2026-03-10",
+            experience: "Mid-Senior level",
+            description: "<p>Own our data platform.</p>",
+            locations: [
+              { city: "Melbourne", region: "Victoria", country: "Australia", hidden: false },
+              { city: "Hidden", country: "Nowhere", hidden: true },
+            ],
+          },
+          {
+            title: "Office Manager",
+            shortcode: "XYZ",
+            city: "Sydney",
+            state: "NSW",
+            country: "Australia",
+          },
+        ],
+      },
+      "acme",
+      "2026-03-15T00:00:00Z",
+    );
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "ABC123DEF",
+        title: "Data Engineer",
+        company: "Acme",
+        location: "Melbourne, Victoria, Australia",
+        description: "Own our data platform.",
+        jobUrl: "https://apply.workable.com/j/ABC123DEF",
+        externalUrl: "https://apply.workable.com/j/ABC123DEF/apply",
+        atsType: "workable",
+        atsIdentifier: "acme",
+        source: "workable",
+        postedAt: "2026-03-10",
+        jobType: "Full-time",
+        experienceLevel: "Mid-Senior level",
+        workArrangement: "remote",
+      }),
+      expect.objectContaining({
+        id: "XYZ",
+        location: "Sydney, NSW, Australia",
+        jobUrl: "https://apply.workable.com/acme/j/XYZ/",
+        workArrangement: "",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  WorkdayCrawler,
+  normalizeWorkdayJobs,
+  parseWorkdayIdentifier,
+} from "../../../src/discovery/ats/workday.js";
+import type { HttpClient } from "../../../src/discovery/utils/http.js";
+
+const SITE = { tenant: "nab", dataCenter: "wd3", site: "NAB_Careers" };
+
+describe("normalizeWorkdayJobs", () => {
+  it("normalizes CXS postings and details into canonical discovery jobs", () => {
+    const jobs = normalizeWorkdayJobs(
+      [
+        {
+          posting: {
+            title: "Software Engineer",
+            externalPath: "/job/Melbourne/Software-Engineer_R123",
+            locationsText: "Melbourne",
+            postedOn: "Posted 2 Days Ago",
+            bulletFields: ["R123"],
+          },
+          detail: {
+            jobPostingInfo: {
+              title: "Software Engineer",
+              jobDescription: "<p>Build payments &amp; lending systems.</p><ul><li>TypeScript</li></ul>",
+              location: "Melbourne",
+              additionalLocations: ["Sydney"],
+              startDate: "2026-03-10",
+              timeType: "Full time",
+              remoteType: "Hybrid",
+              jobReqId: "R123",
+              externalUrl: "https://nab.wd3.myworkdayjobs.com/NAB_Careers/job/Melbourne/Software-Engineer_R123",
+            },
+            hiringOrganization: { name: "National Australia Bank" },
+          },
+        },
+        {
+          posting: {
+            title: "Data Analyst",
+            externalPath: "/job/Sydney/Data-Analyst_R456",
+            locationsText: "Sydney",
+            bulletFields: ["R456"],
+          },
+          detail: null,
+        },
+      ],
+      SITE,
+      "2026-03-15T00:00:00Z",
+    );
+
+    expect(jobs).toEqual([
+      expect.objectContaining({
+        id: "R123",
+        title: "Software Engineer",
+        company: "National Australia Bank",
+        location: "Melbourne; Sydney",
+        description: "Build payments & lending systems. TypeScript",
+        jobUrl: "https://nab.wd3.myworkdayjobs.com/NAB_Careers/job/Melbourne/Software-Engineer_R123",
+        externalUrl: "https://nab.wd3.myworkdayjobs.com/NAB_Careers/job/Melbourne/Software-Engineer_R123",
+        atsType: "workday",
+        atsIdentifier: "nab/wd3/NAB_Careers",
+        source: "workday",
+        postedAt: "2026-03-10",
+        jobType: "Full time",
+        workArrangement: "hybrid",
+      }),
+      expect.objectContaining({
+        id: "R456",
+        title: "Data Analyst",
+        company: "nab",
+        location: "Sydney",
+        description: "",
+        jobUrl: "https://nab.wd3.myworkdayjobs.com/NAB_Careers/job/Sydney/Data-Analyst_R456",
+      }),
+    ]);
+  });
+});
+
+describe("WorkdayCrawler", () => {
+  it("pages the CXS jobs endpoint and fetches each posting's detail", async () => {
+    const postings = Array.from({ length: 25 }, (_, index) => ({
+      title: `Role ${index}`,
+      externalPath: `/job/Sydney/Role_R${index}`,
+      bulletFields: [`R${index}`],
+    }));
+    const postJson = vi.fn(async (_url: string, body: unknown) => {
+      const { offset, limit } = body as { offset: number; limit: number };
+      return {
+        total: offset === 0 ? postings.length : 0,
+        jobPostings: postings.slice(offset, offset + limit),
+      };
+    });
+    const getJson = vi.fn(async (url: string) => {
+      if (url.endsWith("/Role_R3")) {
+        throw new Error("HTTP 500");
+      }
+      return { jobPostingInfo: { jobDescription: `<p>Detail for ${url.split("/").pop()}</p>` } };
+    });
+    const crawler = new WorkdayCrawler({ postJson, getJson } as unknown as HttpClient);
+
+    const jobs = await crawler.crawlJobs("nab/wd3/NAB_Careers", "2026-03-15T00:00:00Z");
+
+    expect(postJson).toHaveBeenCalledTimes(2);
+    expect(postJson).toHaveBeenNthCalledWith(
+      1,
+      "https://nab.wd3.myworkdayjobs.com/wday/cxs/nab/NAB_Careers/jobs",
+      { appliedFacets: {}, limit: 20, offset: 0, searchText: "" },
+      { signal: undefined },
+    );
+    expect(postJson.mock.calls[1][1]).toMatchObject({ offset: 20 });
+    expect(getJson).toHaveBeenCalledWith(
+      "https://nab.wd3.myworkdayjobs.com/wday/cxs/nab/NAB_Careers/job/Sydney/Role_R0",
+      expect.anything(),
+    );
+    expect(jobs).toHaveLength(25);
+    expect(jobs[0].description).toBe("Detail for Role_R0");
+    // A failed detail fetch keeps the summary posting.
+    expect(jobs[3]).toMatchObject({ id: "R3", title: "Role 3", description: "" });
+  });
+
+  it("fetches details only for postings matching the keyword, up to a cap", async () => {
+    const postings = Array.from({ length: 60 }, (_, index) => ({
+      title: index % 10 === 0 ? `Accountant ${index}` : `Software Engineer ${index}`,
+      externalPath: `/job/Sydney/Role_R${index}`,
+      bulletFields: [`R${index}`],
+    }));
+    const postJson = vi.fn(async (_url: string, body: unknown) => {
+      const { offset, limit } = body as { offset: number; limit: number };
+      return { total: postings.length, jobPostings: postings.slice(offset, offset + limit) };
+    });
+    const getJson = vi.fn(async () => ({ jobPostingInfo: { jobDescription: "<p>Detail</p>" } }));
+    const crawler = new WorkdayCrawler({ postJson, getJson } as unknown as HttpClient);
+
+    const jobs = await crawler.crawlJobs("nab/wd3/NAB_Careers", "2026-03-15T00:00:00Z", {
+      keyword: "software engineer",
+    });
+
+    expect(jobs).toHaveLength(60);
+    expect(getJson).toHaveBeenCalledTimes(50);
+    expect(getJson).not.toHaveBeenCalledWith(expect.stringContaining("/Role_R10"), expect.anything());
+    expect(jobs[10]).toMatchObject({ title: "Accountant 10", description: "" });
+    expect(jobs[1].description).toBe("Detail");
+    // Past the cap, matching postings keep the list data only.
+    expect(jobs[59]).toMatchObject({ title: "Software Engineer 59", description: "" });
+  });
+
+  it("rejects identifiers that are not tenant/data-centre/site", async () => {
+    expect(parseWorkdayIdentifier("nab")).toBeNull();
+    const crawler = new WorkdayCrawler({} as HttpClient);
+    await expect(crawler.crawlJobs("nab", "2026-03-15T00:00:00Z")).rejects.toThrow(
+      "Invalid Workday identifier: nab",
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  CompanyFilter,
+  compileCompanyFilterRule,
+  isProbableRecruitmentAgency,
+} from "../../../src/discovery/core/company-filter.js";
+import { createEmptyDiscoveryJob } from "../../../src/discovery/core/types.js";
+
+const job = (company: string, externalUrl = "") => {
+  const entry = createEmptyDiscoveryJob({
+    id: company,
+    source: "seek",
+    title: "Engineer",
+    company,
+    location: "Sydney",
+    description: "",
+    jobUrl: "https://www.seek.com.au/job/1",
+    extractedAt: "2026-03-15T00:00:00Z",
+  });
+  entry.externalUrl = externalUrl;
+  return entry;
+};
+
+describe("CompanyFilter", () => {
+  it("matches company names exactly, normalized or by regex", () => {
+    const filter = new CompanyFilter([
+      { list: "deny", kind: "company", matchType: "exact", pattern: "Acme" },
+      { list: "deny", kind: "company", matchType: "normalized", pattern: "Globex Pty Ltd" },
+      { list: "deny", kind: "company", matchType: "regex", pattern: "^initech\\b" },
+    ]);
+
+    expect(filter.check(job(" acme ")).allowed).toBe(false);
+    expect(filter.check(job("Acme Corp")).allowed).toBe(true);
+    expect(filter.check(job("Globex, Inc.")).allowed).toBe(false);
+    expect(filter.check(job("Initech Australia")).allowed).toBe(false);
+    expect(filter.check(job("Not Initech")).allowed).toBe(true);
+  });
+
+  it("matches domains and their subdomains against job URLs", () => {
+    const filter = new CompanyFilter([
+      { list: "deny", kind: "domain", matchType: "exact", pattern: "hays.com.au" },
+    ]);
+
+    expect(filter.check(job("Client", "https://jobs.hays.com.au/apply/1"))).toEqual({
+      allowed: false,
+      reason: "deny domain exact: hays.com.au",
+    });
+    expect(filter.check(job("Client", "https://nothays.com.au/apply/1")).allowed).toBe(true);
+  });
+
+  it("keeps only allowlisted companies once an allow rule exists, with deny taking precedence", () => {
+    const filter = new CompanyFilter([
+      { list: "allow", kind: "company", matchType: "regex", pattern: "atlassian|canva" },
+      { list: "deny", kind: "company", matchType: "exact", pattern: "Canva" },
+    ]);
+
+    expect(filter.check(job("Atlassian")).allowed).toBe(true);
+    expect(filter.check(job("Canva")).allowed).toBe(false);
+    expect(filter.check(job("Stripe"))).toEqual({ allowed: false, reason: "not on allowlist" });
+  });
+
+  it("rejects regex rules that do not compile", () => {
+    expect(() =>
+      compileCompanyFilterRule({ list: "deny", kind: "company", matchType: "regex", pattern: "(" }),
+    ).toThrow("Invalid company filter pattern");
+  });
+});
+
+describe("isProbableRecruitmentAgency", () => {
+  it("flags agency-style names and well-known agencies", () => {
+    expect(isProbableRecruitmentAgency("Bluefin Resourcing")).toBe(true);
+    expect(isProbableRecruitmentAgency("Talent Solutions Group")).toBe(true);
+    expect(isProbableRecruitmentAgency("HAYS")).toBe(true);
+    expect(isProbableRecruitmentAgency("Robert Half Australia")).toBe(true);
+    expect(isProbableRecruitmentAgency("Atlassian")).toBe(false);
+  });
+
+  it("does not treat a bare 'Talent' in an employer's name as an agency", () => {
+    expect(isProbableRecruitmentAgency("Talent.com")).toBe(false);
+    expect(isProbableRecruitmentAgency("TalentLMS")).toBe(false);
+    expect(isProbableRecruitmentAgency("Top Talent Technologies")).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from "vitest";
+import { CompanyFilter } from "../../../src/discovery/core/company-filter.js";
+import { crawlWatchlist } from "../../../src/discovery/core/crawl-watchlist.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../../../src/discovery/core/types.js";
+
+function makeBoardJob(
+  source: "greenhouse" | "lever",
+  id: string,
+  title: string,
+  location: string,
+  company = "Example",
+): DiscoveryJob {
+  const job = createEmptyDiscoveryJob({
+    id,
+    source,
+    title,
+    company,
+    location,
+    description: "Build things.",
+    jobUrl: `https://jobs.example.com/${source}/${id}`,
+    extractedAt: "2026-03-17T00:00:00Z",
+  });
+  job.atsType = source;
+  return job;
+}
+
+describe("crawlWatchlist", () => {
+  it("crawls watched boards and keeps jobs matching the keyword and location", async () => {
+    const greenhouseCrawl = vi.fn(async () => [
+      makeBoardJob("greenhouse", "1", "Senior Backend Engineer", "Sydney, Australia"),
+      makeBoardJob("greenhouse", "2", "Backend Engineer", "London, UK"),
+      makeBoardJob("greenhouse", "3", "Product Designer", "Sydney, Australia"),
+      makeBoardJob("greenhouse", "4", "Backend Engineer", ""),
+    ]);
+    const batches: Array<{ ids: string[]; company: string }> = [];
+
+    const result = await crawlWatchlist(
+      {
+        keyword: "backend engineer",
+        location: "Sydney",
+        companies: [{ id: 7, company: "Example", atsType: "greenhouse", atsIdentifier: "example" }],
+      },
+      {
+        atsCrawlerFactories: {
+          greenhouse: () => ({ name: "greenhouse", crawlJobs: greenhouseCrawl }),
+        },
+        onJobsBatch: (jobs, outcome) => {
+          batches.push({ ids: jobs.map((job) => job.id), company: outcome.company.company });
+        },
+      },
+    );
+
+    expect(greenhouseCrawl).toHaveBeenCalledWith("example", expect.any(String), {
+      signal: undefined,
+      keyword: "backend engineer",
+    });
+    expect(result.jobs.map((job) => job.id)).toEqual(["1", "4"]);
+    expect(result.jobs[0]).toMatchObject({ source: "greenhouse", atsIdentifier: "example" });
+    expect(result.sources).toEqual(["greenhouse"]);
+    expect(result.companies).toEqual([
+      expect.objectContaining({
+        company: expect.objectContaining({ id: 7 }),
+        atsType: "greenhouse",
+        atsIdentifier: "example",
+        boardJobs: 4,
+        matchedJobs: 2,
+      }),
+    ]);
+    expect(batches).toEqual([{ ids: ["1", "4"], company: "Example" }]);
+  });
+
+  it("finds the board from a careers page and leaves failing providers out of sources", async () => {
+    const httpClient = {
+      getText: vi.fn(async () =>
+        '<a href="https://jobs.lever.co/acme/123">Open roles</a>',
+      ),
+    };
+    const leverCrawl = vi.fn(async () => [
+      makeBoardJob("lever", "l-1", "Platform Engineer", "Remote", "Acme"),
+      makeBoardJob("lever", "l-2", "Platform Engineer", "Melbourne", "Acme Recruitment"),
+    ]);
+
+    const result = await crawlWatchlist(
+      {
+        keyword: "",
+        location: "",
+        companies: [
+          { company: "Acme", careersUrl: "https://acme.example/careers" },
+          { company: "Broken", atsType: "greenhouse", atsIdentifier: "broken" },
+          { company: "Unknown" },
+        ],
+      },
+      {
+        httpClient: httpClient as any,
+        companyFilter: new CompanyFilter([
+          { list: "deny", kind: "company", matchType: "normalized", pattern: "Acme Recruitment" },
+        ]),
+        atsCrawlerFactories: {
+          lever: () => ({ name: "lever", crawlJobs: leverCrawl }),
+          greenhouse: () => ({
+            name: "greenhouse",
+            crawlJobs: async () => {
+              throw new Error("404 Not Found");
+            },
+          }),
+        },
+      },
+    );
+
+    expect(httpClient.getText).toHaveBeenCalledWith("https://acme.example/careers");
+    expect(leverCrawl).toHaveBeenCalledWith("acme", expect.any(String), { signal: undefined, keyword: "" });
+    expect(result.jobs.map((job) => job.id)).toEqual(["l-1"]);
+    expect(result.filteredJobs).toBe(1);
+    expect(result.sources).toEqual(["lever"]);
+    expect(result.companies.map((outcome) => [outcome.atsType, outcome.error])).toEqual([
+      ["lever", undefined],
+      ["greenhouse", "404 Not Found"],
+      [null, "No ATS board or careers URL for Unknown"],
+    ]);
+  });
+});
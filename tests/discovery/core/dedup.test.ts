@@ -0,0 +1,149 @@
+import { describe, expect, it } from "vitest";
+import {
+  CrossPlatformDeduper,
+  mergeDiscoveryJobs,
+  tokenSetSimilarity,
+} from "../../../src/discovery/core/dedup.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../../../src/discovery/core/types.js";
+
+const job = (id: string, overrides: Partial<DiscoveryJob> = {}): DiscoveryJob => ({
+  ...createEmptyDiscoveryJob({
+    id,
+    source: "linkedin",
+    title: "Senior Software Engineer - Payments",
+    company: "Atlassian",
+    location: "Sydney NSW",
+    description: "",
+    jobUrl: `https://example.com/${id}`,
+    extractedAt: "2026-03-15T00:00:00Z",
+  }),
+  ...overrides,
+});
+
+describe("CrossPlatformDeduper", () => {
+  it("matches punctuation and company suffix variants of the same posting", () => {
+    const deduper = new CrossPlatformDeduper();
+    deduper.set(0, job("1"));
+
+    expect(
+      deduper.findMatch(
+        job("2", {
+          source: "seek",
+          title: "Senior Software Engineer (Payments)",
+          company: "Atlassian Pty Ltd",
+          location: "Sydney, New South Wales",
+        }),
+      ),
+    ).toBe(0);
+  });
+
+  it("keeps different seniorities and different locations apart", () => {
+    const deduper = new CrossPlatformDeduper();
+    deduper.set(0, job("1"));
+
+    expect(
+      deduper.findMatch(job("2", { source: "seek", title: "Software Engineer - Payments" })),
+    ).toBeUndefined();
+    expect(deduper.findMatch(job("3", { source: "seek", location: "Melbourne VIC" }))).toBeUndefined();
+    expect(deduper.findMatch(job("4", { source: "seek", company: "Canva" }))).toBeUndefined();
+  });
+
+  it("never merges two listings from the same source", () => {
+    const description =
+      "Join the payments platform team building reliable money movement services used by millions of customers worldwide.";
+    const deduper = new CrossPlatformDeduper();
+    deduper.set(0, job("1", { description, location: "" }));
+
+    expect(deduper.findMatch(job("2", { description, location: "" }))).toBeUndefined();
+    expect(deduper.findMatch(job("3", { source: "seek", description, location: "" }))).toBe(0);
+
+    deduper.set(0, mergeDiscoveryJobs(job("1", { description }), job("3", { source: "seek", description })));
+    expect(deduper.findMatch(job("4", { source: "seek", description }))).toBeUndefined();
+  });
+
+  it("treats known locations with nothing in common as different postings", () => {
+    const description =
+      "Join the payments platform team building reliable money movement services used by millions of customers worldwide.";
+    const deduper = new CrossPlatformDeduper({ threshold: 0.5 });
+    deduper.set(0, job("1", { description }));
+
+    expect(
+      deduper.findMatch(job("2", { source: "seek", description, location: "Bengaluru, Karnataka" })),
+    ).toBeUndefined();
+    expect(deduper.findMatch(job("3", { source: "seek", location: "Bengaluru" }))).toBeUndefined();
+  });
+
+  it("uses description shingles and honours the threshold", () => {
+    const description =
+      "Join the payments platform team building reliable money movement services used by millions of customers worldwide.";
+    const strict = new CrossPlatformDeduper({ threshold: 0.95 });
+    const loose = new CrossPlatformDeduper({ threshold: 0.7 });
+    for (const deduper of [strict, loose]) {
+      deduper.set(0, job("1", { title: "Senior Payments Engineer", description }));
+    }
+    const candidate = job("2", {
+      source: "seek",
+      title: "Senior Software Engineer, Payments",
+      description,
+    });
+
+    expect(strict.findMatch(candidate)).toBeUndefined();
+    expect(loose.findMatch(candidate)).toBe(0);
+  });
+
+  it("resolves company aliases", () => {
+    const deduper = new CrossPlatformDeduper({
+      companyAliases: new Map([["cba", "commonwealth bank"]]),
+    });
+    deduper.set(0, job("1", { company: "Commonwealth Bank" }));
+
+    expect(deduper.findMatch(job("2", { source: "seek", company: "CBA" }))).toBe(0);
+  });
+});
+
+describe("mergeDiscoveryJobs", () => {
+  it("keeps the richer record and fills gaps from the other, remembering every URL", () => {
+    const linkedin = job("1", {
+      externalUrl: "https://boards.greenhouse.io/atlassian/jobs/1",
+      atsType: "greenhouse",
+      atsIdentifier: "atlassian",
+    });
+    const seek = job("2", {
+      source: "seek",
+      description: "A long description of the payments role.",
+      salary: "$180k",
+      workArrangement: "hybrid",
+    });
+
+    const merged = mergeDiscoveryJobs(linkedin, seek);
+
+    expect(merged).toMatchObject({
+      source: "seek",
+      jobUrl: "https://example.com/2",
+      salary: "$180k",
+      externalUrl: "https://boards.greenhouse.io/atlassian/jobs/1",
+      atsType: "greenhouse",
+      atsIdentifier: "atlassian",
+    });
+    expect(merged.mergedFrom).toEqual([
+      {
+        source: "linkedin",
+        jobUrl: "https://example.com/1",
+        externalUrl: "https://boards.greenhouse.io/atlassian/jobs/1",
+      },
+    ]);
+
+    const third = mergeDiscoveryJobs(merged, job("3", { source: "indeed" }));
+    expect(third.mergedFrom?.map((link) => link.jobUrl)).toEqual([
+      "https://example.com/1",
+      "https://example.com/3",
+    ]);
+  });
+});
+
+describe("tokenSetSimilarity", () => {
+  it("is the share of tokens two sets have in common", () => {
+    expect(tokenSetSimilarity(new Set(["a", "b"]), new Set(["b", "c"]))).toBeCloseTo(1 / 3);
+    expect(tokenSetSimilarity(new Set(), new Set())).toBe(1);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
+import { CompanyFilter } from "../../../src/discovery/core/company-filter.js";
 import { runDiscovery } from "../../../src/discovery/core/run-discovery.js";
 import { createEmptyDiscoveryJob } from "../../../src/discovery/core/types.js";
 
@@ -129,6 +130,118 @@ describe("runDiscovery", () => {
     });
   });
 
+  it("keeps jobs found before a cancel and does not report cancelled sources as failed", async () => {
+    const controller = new AbortController();
+    const seekJob = createEmptyDiscoveryJob({
+      id: "seek-1",
+      source: "seek",
+      title: "Full Stack Engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "",
+      jobUrl: "https://seek.example/jobs/1",
+      extractedAt: "2026-03-15T00:00:00Z",
+    });
+    const atsCrawl = vi.fn(async () => []);
+
+    const result = await runDiscovery(
+      {
+        keyword: "full stack",
+        location: "Sydney",
+        sources: ["seek", "linkedin"],
+      },
+      {
+        sourceFactories: {
+          seek: () => ({
+            name: "seek",
+            discoverJobs: async () => [{ ...seekJob, atsType: "greenhouse", atsIdentifier: "example" }],
+          }),
+          linkedin: () => ({
+            name: "linkedin",
+            discoverJobs: async (request) => {
+              controller.abort(new Error("Run 1 was cancelled"));
+              request.signal?.throwIfAborted();
+              return [];
+            },
+          }),
+        },
+        atsCrawlerFactories: { greenhouse: () => ({ crawlJobs: atsCrawl }) as any },
+        extractedAt: () => "2026-03-15T00:00:00Z",
+        signal: controller.signal,
+      },
+    );
+
+    expect(result.cancelled).toBe(true);
+    expect(result.sources).toEqual(["seek"]);
+    expect(result.failedSources).toEqual([]);
+    expect(result.jobs.map((job) => job.id)).toEqual(["seek-1"]);
+    expect(atsCrawl).not.toHaveBeenCalled();
+  });
+
+  it("resumes sources and ATS expansions from checkpoints", async () => {
+    const job = (id: string, source: "linkedin" | "seek" | "greenhouse", company: string) =>
+      createEmptyDiscoveryJob({
+        id,
+        source,
+        title: `Engineer ${id}`,
+        company,
+        location: "Sydney",
+        description: "",
+        jobUrl: `https://jobs.example/${id}`,
+        extractedAt: "2026-03-15T00:00:00Z",
+      });
+    const checkpointedJob = job("li-1", "linkedin", "Stripe");
+    checkpointedJob.externalUrl = "https://boards.greenhouse.io/stripe/jobs/123";
+    const checkpoints = {
+      loadSource: vi.fn((source: string) =>
+        source === "linkedin"
+          ? { jobs: [checkpointedJob], lastPage: 2, complete: false }
+          : { jobs: [job("seek-1", "seek", "Canva")], lastPage: 0, complete: true },
+      ),
+      savePage: vi.fn(),
+      completeSource: vi.fn(),
+      loadAtsCrawl: vi.fn(() => [job("gh-1", "greenhouse", "Stripe")]),
+      saveAtsCrawl: vi.fn(),
+    };
+    const linkedinDiscover = vi.fn(async (request: any) => {
+      const pageJobs = [job("li-3", "linkedin", "Atlassian")];
+      request.onPageComplete(3, pageJobs);
+      return pageJobs;
+    });
+    const seekDiscover = vi.fn(async () => []);
+    const crawlJobs = vi.fn(async () => []);
+
+    const result = await runDiscovery(
+      {
+        keyword: "engineer",
+        location: "Sydney",
+        sources: ["linkedin", "seek"],
+        pages: 5,
+      },
+      {
+        sourceFactories: {
+          linkedin: () => ({ name: "linkedin", discoverJobs: linkedinDiscover }),
+          seek: () => ({ name: "seek", discoverJobs: seekDiscover }),
+        },
+        atsCrawlerFactories: { greenhouse: () => ({ crawlJobs }) as any },
+        extractedAt: () => "2026-03-15T00:00:00Z",
+        checkpoints,
+      },
+    );
+
+    expect(linkedinDiscover).toHaveBeenCalledWith(expect.objectContaining({ startPage: 3, pages: 5 }));
+    expect(seekDiscover).not.toHaveBeenCalled();
+    expect(crawlJobs).not.toHaveBeenCalled();
+    expect(checkpoints.savePage).toHaveBeenCalledWith("linkedin", 3, [
+      expect.objectContaining({ id: "li-3" }),
+    ]);
+    expect(checkpoints.completeSource).toHaveBeenCalledWith("linkedin", [
+      expect.objectContaining({ id: "li-1" }),
+      expect.objectContaining({ id: "li-3" }),
+    ]);
+    expect(result.jobs.map((found) => found.id).sort()).toEqual(["gh-1", "li-1", "li-3", "seek-1"]);
+  });
+
   it("emits source lifecycle logs during discovery", async () => {
     const logger = vi.fn();
 
@@ -216,6 +329,9 @@ describe("runDiscovery", () => {
     expect(result.jobs[0].source).toBe("seek");
     expect(result.jobs[0].salary).toBe("$120k-$150k");
     expect(result.jobs[0].description).toBe("Great role with React and Node.js.");
+    expect(result.jobs[0].mergedFrom).toEqual([
+      { source: "linkedin", jobUrl: "https://www.linkedin.com/jobs/view/99", externalUrl: "" },
+    ]);
   });
 
   it("expands supported ATS companies only once per ats/company pair", async () => {
@@ -280,7 +396,10 @@ describe("runDiscovery", () => {
     );
 
     expect(crawlJobs).toHaveBeenCalledTimes(1);
-    expect(crawlJobs).toHaveBeenCalledWith("stripe", "2026-03-15T00:00:00Z");
+    expect(crawlJobs).toHaveBeenCalledWith("stripe", "2026-03-15T00:00:00Z", {
+      signal: undefined,
+      keyword: "software engineer",
+    });
     expect(result.expandedCompanies).toEqual(["greenhouse:stripe"]);
     expect(result.jobs).toHaveLength(3);
     expect(result.jobs[0]).toMatchObject({
@@ -298,6 +417,111 @@ describe("runDiscovery", () => {
       techStack: JSON.stringify(["PostgreSQL", "Python"]),
     });
   });
+  it("drops blocked companies before ATS expansion and flags recruitment agencies", async () => {
+    const crawlJobs = vi.fn(async () => []);
+    const job = (id: string, company: string, externalUrl = "") => {
+      const entry = createEmptyDiscoveryJob({
+        id,
+        source: "linkedin",
+        title: "Software Engineer",
+        company,
+        location: "Sydney",
+        description: "Hybrid role.",
+        jobUrl: `https://www.linkedin.com/jobs/view/${id}`,
+        extractedAt: "2026-03-15T00:00:00Z",
+      });
+      entry.externalUrl = externalUrl;
+      return entry;
+    };
+    const logger = vi.fn();
+    const discover = (excludeRecruitmentAgencies: boolean) =>
+      runDiscovery(
+        {
+          keyword: "software engineer",
+          location: "Sydney",
+          sources: ["linkedin"],
+          excludeRecruitmentAgencies,
+        },
+        {
+          sourceFactories: {
+            linkedin: () => ({
+              name: "linkedin",
+              discoverJobs: async () => [
+                job("1", "Stripe Pty Ltd", "https://boards.greenhouse.io/stripe/jobs/1"),
+                job("2", "Canva"),
+                job("3", "Bluefin Resourcing"),
+              ],
+            }),
+          },
+          atsCrawlerFactories: {
+            greenhouse: () => ({ name: "greenhouse", crawlJobs }),
+          },
+          companyFilter: new CompanyFilter([
+            { list: "deny", kind: "company", matchType: "normalized", pattern: "stripe" },
+          ]),
+          logger,
+        },
+      );
+
+    const flagged = await discover(false);
+    expect(crawlJobs).not.toHaveBeenCalled();
+    expect(flagged.filteredJobs).toBe(1);
+    expect(flagged.jobs.map((entry) => [entry.company, entry.isProbableAgency])).toEqual([
+      ["Canva", false],
+      ["Bluefin Resourcing", true],
+    ]);
+    expect(logger).toHaveBeenCalledWith({
+      event: "discovery_company_filtered",
+      source: "linkedin",
+      company: "Stripe Pty Ltd",
+      reason: "deny company normalized: stripe",
+    });
+
+    const excluded = await discover(true);
+    expect(excluded.filteredJobs).toBe(2);
+    expect(excluded.jobs.map((entry) => entry.company)).toEqual(["Canva"]);
+  });
+
+  it("post-filters jobs on the search filters a source did not apply natively", async () => {
+    const discoverJobs = vi.fn(async () => {
+      const job = (id: string, workArrangement: string, jobType: string) => {
+        const entry = createEmptyDiscoveryJob({
+          id,
+          source: "linkedin",
+          title: "Software Engineer",
+          company: `Company ${id}`,
+          location: "Sydney",
+          description: "",
+          jobUrl: `https://www.linkedin.com/jobs/view/${id}`,
+          extractedAt: "2026-03-15T00:00:00Z",
+        });
+        entry.workArrangement = workArrangement;
+        entry.jobType = jobType;
+        return entry;
+      };
+      return [
+        job("1", "remote", "Full-time"),
+        job("2", "hybrid", "Full-time"),
+        job("3", "remote", "Contract"),
+      ];
+    });
+    const filters = {
+      workArrangements: ["remote" as const],
+      employmentTypes: ["full-time" as const],
+    };
+
+    const result = await runDiscovery(
+      { keyword: "software engineer", location: "Sydney", sources: ["linkedin"], filters },
+      {
+        sourceFactories: {
+          linkedin: () => ({ name: "linkedin", nativeFilters: ["employmentTypes"], discoverJobs }),
+        },
+      },
+    );
+
+    expect(discoverJobs).toHaveBeenCalledWith(expect.objectContaining({ filters }));
+    expect(result.jobs.map((entry) => entry.id)).toEqual(["1", "3"]);
+  });
 });
 
 interface Deferred<T> {
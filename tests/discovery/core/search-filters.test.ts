@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { matchesSearchFilters } from "../../../src/discovery/core/search-filters.js";
+import { createEmptyDiscoveryJob, type DiscoveryJob } from "../../../src/discovery/core/types.js";
+
+function makeJob(overrides: Partial<DiscoveryJob> = {}): DiscoveryJob {
+  return {
+    ...createEmptyDiscoveryJob({
+      id: "1",
+      source: "linkedin",
+      title: "Backend Engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "",
+      jobUrl: "https://www.linkedin.com/jobs/view/1",
+      extractedAt: "2026-03-17T00:00:00Z",
+    }),
+    ...overrides,
+  };
+}
+
+const now = new Date("2026-03-17T00:00:00Z");
+
+describe("matchesSearchFilters", () => {
+  it("rejects jobs that state a value outside the filters", () => {
+    const filters = {
+      datePosted: "3d" as const,
+      workArrangements: ["remote" as const],
+      employmentTypes: ["full-time" as const],
+      experienceLevels: ["senior" as const],
+      salaryMin: 150000,
+    };
+
+    expect(
+      matchesSearchFilters(
+        makeJob({
+          postedAt: "2026-03-15T00:00:00Z",
+          workArrangement: "Remote",
+          jobType: "Full time, Permanent",
+          experienceLevel: "senior",
+          salaryMax: "160000",
+          salaryPeriod: "year",
+        }),
+        filters,
+        { now },
+      ),
+    ).toBe(true);
+    expect(matchesSearchFilters(makeJob({ postedAt: "2026-03-01T00:00:00Z" }), filters, { now })).toBe(false);
+    expect(matchesSearchFilters(makeJob({ workArrangement: "hybrid" }), filters, { now })).toBe(false);
+    expect(matchesSearchFilters(makeJob({ jobType: "Contract" }), filters, { now })).toBe(false);
+    expect(matchesSearchFilters(makeJob({ experienceLevel: "junior" }), filters, { now })).toBe(false);
+    expect(
+      matchesSearchFilters(makeJob({ salaryMax: "60", salaryPeriod: "hour" }), filters, { now }),
+    ).toBe(false);
+  });
+
+  it("keeps jobs that do not state a value and skips natively applied filters", () => {
+    const filters = { workArrangements: ["remote" as const], salaryMin: 150000 };
+
+    expect(matchesSearchFilters(makeJob(), filters, { now })).toBe(true);
+    expect(
+      matchesSearchFilters(makeJob({ workArrangement: "on-site" }), filters, {
+        now,
+        skip: ["workArrangements"],
+      }),
+    ).toBe(true);
+  });
+});
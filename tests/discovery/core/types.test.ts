@@ -47,6 +47,7 @@ describe("createEmptyDiscoveryJob", () => {
       companyLogoUrl: "",
       isAlreadyApplied: false,
       appliedDateUtc: "",
+      isProbableAgency: false,
     });
   });
 });
@@ -0,0 +1,64 @@
+import { describe, expect, it, vi } from "vitest";
+import { ListingLivenessChecker } from "../../../src/discovery/expiry/listing-liveness.js";
+
+function createFetch(responses: Record<string, { status: number; body?: string }>) {
+  return vi.fn(async (url: string | URL | Request) => {
+    const response = responses[String(url)];
+    if (!response) {
+      throw new Error(`unexpected request ${String(url)}`);
+    }
+    return new Response(response.body ?? "", { status: response.status });
+  }) as unknown as typeof fetch;
+}
+
+describe("ListingLivenessChecker", () => {
+  it("looks up Greenhouse postings through the board API", async () => {
+    const fetchImpl = createFetch({
+      "https://boards-api.greenhouse.io/v1/boards/example/jobs/123": { status: 404 },
+    });
+    const checker = new ListingLivenessChecker({ fetchImpl });
+
+    await expect(
+      checker.check({
+        url: "https://www.linkedin.com/jobs/view/1",
+        externalUrl: "https://boards.greenhouse.io/example/jobs/123",
+        atsType: "greenhouse",
+        atsIdentifier: "example",
+      }),
+    ).resolves.toBe("closed");
+  });
+
+  it("looks up Lever postings through the postings API", async () => {
+    const fetchImpl = createFetch({
+      "https://api.lever.co/v0/postings/example/abc-123": { status: 200, body: "{}" },
+    });
+    const checker = new ListingLivenessChecker({ fetchImpl });
+
+    await expect(
+      checker.check({
+        url: "https://jobs.lever.co/example/abc-123",
+        atsType: "lever",
+        atsIdentifier: "example",
+      }),
+    ).resolves.toBe("open");
+  });
+
+  it("treats closed-listing page text and gone status codes as closed", async () => {
+    const fetchImpl = createFetch({
+      "https://www.linkedin.com/jobs/view/1": {
+        status: 200,
+        body: "<span>No longer accepting applications</span>",
+      },
+      "https://www.seek.com.au/job/2": { status: 410 },
+      "https://www.seek.com.au/job/3": { status: 200, body: "<h1>Engineer</h1>" },
+      "https://www.seek.com.au/job/4": { status: 503 },
+    });
+    const checker = new ListingLivenessChecker({ fetchImpl });
+
+    await expect(checker.check({ url: "https://www.linkedin.com/jobs/view/1" })).resolves.toBe("closed");
+    await expect(checker.check({ url: "https://www.seek.com.au/job/2" })).resolves.toBe("closed");
+    await expect(checker.check({ url: "https://www.seek.com.au/job/3" })).resolves.toBe("open");
+    await expect(checker.check({ url: "https://www.seek.com.au/job/4" })).resolves.toBe("unknown");
+    await expect(checker.check({ url: "https://www.seek.com.au/job/5" })).resolves.toBe("unknown");
+  });
+});
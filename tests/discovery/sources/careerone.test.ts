@@ -0,0 +1,53 @@
+import { describe, expect, it, vi } from "vitest";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile } from "node:fs/promises";
+import { CareerOneSource } from "../../../src/discovery/sources/careerone.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readJsonFixture(name: string): Promise<unknown> {
+  return JSON.parse(await readFile(path.resolve(__dirname, "../../fixtures", name), "utf8"));
+}
+
+describe("CareerOneSource", () => {
+  it("normalizes search API jobs and stops once every job is fetched", async () => {
+    const search = await readJsonFixture("careerone-search.json");
+    const httpClient = { postJson: vi.fn(async () => search) };
+    const progress: number[] = [];
+
+    const jobs = await new CareerOneSource(httpClient as any).discoverJobs({
+      keyword: "developer",
+      location: "Melbourne",
+      pages: 3,
+      extractedAt: "2026-03-17T00:00:00Z",
+      onProgress: (info) => progress.push(info.jobsFound),
+    });
+
+    expect(httpClient.postJson).toHaveBeenCalledTimes(1);
+    expect(httpClient.postJson).toHaveBeenCalledWith(
+      "https://seeker-api.careerone.com.au/api/v1/search-job",
+      expect.objectContaining({ search_keywords: "developer", location: "Melbourne", page: 1 }),
+      { signal: undefined },
+    );
+    expect(progress).toEqual([2]);
+    expect(jobs[0]).toMatchObject({
+      id: "https://www.careerone.com.au/jobview/full-stack-developer/272345678",
+      source: "careerone",
+      title: "Full Stack Developer",
+      company: "Example Digital",
+      location: "Melbourne VIC",
+      description: "We are hiring a Full Stack Developer.\n• React & TypeScript\n• Node.js",
+      salary: "$120,000 - $140,000 per year",
+      jobType: "Full Time",
+      workArrangement: "Hybrid",
+      postedAt: "2026-03-15T22:10:00Z",
+      companyLogoUrl: "https://cdn.careerone.com.au/logos/example-digital.png",
+    });
+    expect(jobs[1]).toMatchObject({
+      jobUrl: "https://www.careerone.com.au/jobview/272349999",
+      description: "Six month contract building a design system.",
+      workArrangement: "Remote",
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile } from "node:fs/promises";
+import { HackerNewsHiringSource } from "../../../src/discovery/sources/hacker-news.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readJsonFixture(name: string): Promise<unknown> {
+  return JSON.parse(await readFile(path.resolve(__dirname, "../../fixtures", name), "utf8"));
+}
+
+describe("HackerNewsHiringSource", () => {
+  it("reads top-level replies to the latest Who is hiring thread", async () => {
+    const comments = await readJsonFixture("hn-who-is-hiring-comments.json");
+    const httpClient = {
+      getJson: vi.fn(async (url: string) =>
+        url.endsWith("/search_by_date")
+          ? {
+              hits: [
+                { objectID: "43000001", title: "Ask HN: Who wants to be hired? (March 2026)" },
+                { objectID: "43000000", title: "Ask HN: Who is hiring? (March 2026)" },
+              ],
+            }
+          : comments,
+      ),
+    };
+
+    const jobs = await new HackerNewsHiringSource(httpClient as any).discoverJobs({
+      keyword: "backend",
+      location: "",
+      pages: 2,
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+
+    expect(httpClient.getJson).toHaveBeenLastCalledWith(
+      "https://hn.algolia.com/api/v1/search",
+      expect.objectContaining({
+        params: expect.objectContaining({ tags: "comment,story_43000000", query: "backend", page: "0" }),
+      }),
+    );
+    expect(httpClient.getJson).toHaveBeenCalledTimes(2);
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0]).toMatchObject({
+      id: "https://news.ycombinator.com/item?id=43012345",
+      source: "hackernews",
+      title: "Senior Backend Engineer",
+      company: "Acme Robotics",
+      location: "Berlin, Germany",
+      salary: "€90k-€120k",
+      workArrangement: "remote",
+      externalUrl: "https://boards.greenhouse.io/acmerobotics/jobs/4567",
+      postedAt: "2026-03-02T16:10:00.000Z",
+    });
+    expect(jobs[0].description).toContain("Stack: Python & Rust.");
+    expect(jobs[1]).toMatchObject({ company: "Initech", workArrangement: "on-site" });
+  });
+});
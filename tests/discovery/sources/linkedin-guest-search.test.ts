@@ -1,5 +1,10 @@
-import { describe, expect, it } from "vitest";
-import { parseLinkedInGuestSearchResults } from "../../../src/discovery/sources/linkedin-guest.js";
+import { describe, expect, it, vi } from "vitest";
+import { createEmptyDiscoveryJob } from "../../../src/discovery/core/types.js";
+import {
+  LinkedInGuestSource,
+  buildLinkedInFilterParams,
+  parseLinkedInGuestSearchResults,
+} from "../../../src/discovery/sources/linkedin-guest.js";
 
 describe("parseLinkedInGuestSearchResults", () => {
   it("extracts job cards and postedAt from guest search HTML", () => {
@@ -58,3 +63,108 @@ describe("parseLinkedInGuestSearchResults", () => {
     expect(results[0].companyLogoUrl).toBe("https://media.licdn.com/dms/image/v2/logo.jpg");
   });
 });
+
+describe("buildLinkedInFilterParams", () => {
+  it("maps filters to guest search parameters and reports which are fully applied", () => {
+    expect(
+      buildLinkedInFilterParams({
+        datePosted: "24h",
+        workArrangements: ["remote", "hybrid"],
+        employmentTypes: ["full-time"],
+        experienceLevels: ["mid", "senior"],
+        salaryMin: 150000,
+        radiusKm: 40,
+      }),
+    ).toEqual({
+      params: { f_TPR: "r86400", f_WT: "2,3", f_JT: "F", f_E: "3,4", distance: "25" },
+      applied: ["datePosted", "workArrangements", "employmentTypes", "radiusKm"],
+    });
+    expect(buildLinkedInFilterParams({ employmentTypes: ["casual"] })).toEqual({
+      params: {},
+      applied: [],
+    });
+  });
+});
+
+describe("LinkedInGuestSource incremental runs", () => {
+  const card = (jobId: string) => `
+    <div class="base-card" data-entity-urn="urn:li:jobPosting:${jobId}">
+      <a class="base-card__full-link" href="https://au.linkedin.com/jobs/view/${jobId}?refId=run2"></a>
+      <h3 class="base-search-card__title">Engineer ${jobId}</h3>
+      <time datetime="2026-03-16">1 day ago</time>
+    </div>`;
+
+  it("reuses known jobs, refetches stale ones and stops at a page of known jobs", async () => {
+    const pages = [card("1") + card("2") + card("3"), card("4"), card("5")];
+    const httpClient = {
+      getText: vi.fn(async (url: string, options?: { params: Record<string, string> }) =>
+        url.includes("/search")
+          ? (pages[Number(options!.params.start) / 25] ?? "")
+          : `<h2 class="top-card-layout__title">Fetched ${url.split("/").pop()}</h2>`,
+      ),
+    };
+    const stored = createEmptyDiscoveryJob({
+      id: "https://au.linkedin.com/jobs/view/1?refId=run1",
+      source: "linkedin",
+      title: "Stored engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "Stored description",
+      jobUrl: "https://au.linkedin.com/jobs/view/1?refId=run1",
+      extractedAt: "2026-03-10T00:00:00Z",
+    });
+    // Found through a job_sources link of a job first stored from SEEK.
+    const storedFromSeek = {
+      ...stored,
+      id: "https://www.seek.com.au/job/99",
+      source: "seek" as const,
+      jobUrl: "https://www.seek.com.au/job/99",
+    };
+    const knownJobs = {
+      find: vi.fn((jobUrl: string) => {
+        const jobId = jobUrl.split("?")[0].split("/").pop();
+        return jobId === "1"
+          ? { job: stored, stale: false }
+          : jobId === "4"
+            ? { job: storedFromSeek, stale: false }
+            : jobId === "2"
+              ? { job: stored, stale: true }
+              : null;
+      }),
+    };
+
+    const jobs = await new LinkedInGuestSource(httpClient as any).discoverJobs({
+      keyword: "engineer",
+      location: "Sydney",
+      pages: 3,
+      extractedAt: "2026-03-17T00:00:00Z",
+      knownJobs,
+    });
+
+    expect(httpClient.getText.mock.calls[0][1]?.params.sortBy).toBe("DD");
+    expect(httpClient.getText.mock.calls.map(([url]) => url.split("/").pop())).toEqual([
+      "search",
+      "2",
+      "3",
+      "search",
+    ]);
+    expect(jobs.map((job) => [job.id, job.title, job.detailSkipped ?? false])).toEqual([
+      ["1", "Stored engineer", true],
+      ["2", "Fetched 2", false],
+      ["3", "Fetched 3", false],
+      ["4", "Stored engineer", true],
+    ]);
+    expect(jobs[0]).toMatchObject({
+      source: "linkedin",
+      description: "Stored description",
+      jobUrl: "https://au.linkedin.com/jobs/view/1?refId=run2",
+      postedAt: "2026-03-16",
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+    expect(jobs[3]).toMatchObject({
+      source: "linkedin",
+      jobUrl: "https://au.linkedin.com/jobs/view/4?refId=run2",
+      description: "Stored description",
+    });
+  });
+});
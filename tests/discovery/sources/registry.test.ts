@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest";
 import {
   DISCOVERY_SOURCE_NAMES,
+  getActiveDiscoverySourceNames,
+  getDefaultDiscoverySourceNames,
   getDiscoverySourceDefinition,
 } from "../../../src/discovery/sources/registry.js";
 
@@ -11,6 +13,13 @@ describe("discovery source registry", () => {
       "seek",
       "indeed",
       "jora",
+      "glassdoor",
+      "workforce_australia",
+      "careerone",
+      "remotive",
+      "we_work_remotely",
+      "remoteok",
+      "hackernews",
     ]);
   });
 
@@ -22,18 +31,46 @@ describe("discovery source registry", () => {
     });
     expect(getDiscoverySourceDefinition("seek")).toMatchObject({
       name: "seek",
-      transport: "browser",
+      transport: "http",
+      fallbackTransport: "browser",
       status: "active",
     });
     expect(getDiscoverySourceDefinition("indeed")).toMatchObject({
       name: "indeed",
       transport: "browser",
-      status: "planned",
+      status: "active",
     });
     expect(getDiscoverySourceDefinition("jora")).toMatchObject({
       name: "jora",
       transport: "browser",
       status: "active",
     });
+    expect(getDiscoverySourceDefinition("glassdoor")).toMatchObject({
+      name: "glassdoor",
+      transport: "browser",
+      status: "active",
+    });
+    expect(getDiscoverySourceDefinition("workforce_australia")).toMatchObject({
+      name: "workforce_australia",
+      transport: "http",
+      status: "active",
+    });
+    expect(getDiscoverySourceDefinition("careerone")).toMatchObject({
+      name: "careerone",
+      transport: "http",
+      status: "active",
+    });
+  });
+
+  it("leaves remote-only boards out of the default sources unless the search is remote", () => {
+    const remoteOnly = ["remotive", "we_work_remotely", "remoteok", "hackernews"];
+
+    for (const name of remoteOnly) {
+      expect(getDefaultDiscoverySourceNames()).not.toContain(name);
+      expect(getDefaultDiscoverySourceNames({ workArrangements: ["hybrid"] })).not.toContain(name);
+      expect(getDefaultDiscoverySourceNames({ workArrangements: ["remote", "hybrid"] })).toContain(name);
+      expect(getActiveDiscoverySourceNames()).toContain(name);
+    }
+    expect(getDefaultDiscoverySourceNames()).toContain("linkedin");
   });
 });
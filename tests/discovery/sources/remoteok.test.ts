@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { RemoteOkSource } from "../../../src/discovery/sources/remoteok.js";
+
+describe("RemoteOkSource", () => {
+  it("skips the legal notice and matches the keyword against titles", async () => {
+    const httpClient = {
+      getJson: vi.fn(async () => [
+        { last_updated: 1773700000, legal: "API terms of service" },
+        {
+          id: "1098765",
+          url: "https://remoteok.com/remote-jobs/1098765",
+          position: "Senior React Developer",
+          company: "Pixel Labs",
+          company_logo: "https://remoteok.com/assets/pixel.png",
+          location: "Remote",
+          date: "2026-03-16T08:00:00+00:00",
+          salary_min: 90000,
+          salary_max: 130000,
+          apply_url: "https://apply.workable.com/pixel-labs/j/ABC123/",
+          description: "<p>Build our dashboard.</p>",
+        },
+        {
+          id: "1098766",
+          url: "https://remoteok.com/remote-jobs/1098766",
+          position: "Marketing Manager",
+          company: "Pixel Labs",
+          description: "<p>Grow the brand.</p>",
+        },
+      ]),
+    };
+
+    const jobs = await new RemoteOkSource(httpClient as any).discoverJobs({
+      keyword: "react developer",
+      location: "Sydney",
+      pages: 1,
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      id: "https://remoteok.com/remote-jobs/1098765",
+      source: "remoteok",
+      title: "Senior React Developer",
+      company: "Pixel Labs",
+      location: "Remote",
+      description: "Build our dashboard.",
+      salary: "$90,000 - $130,000 a year",
+      workArrangement: "remote",
+      externalUrl: "https://apply.workable.com/pixel-labs/j/ABC123/",
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, expect, it, vi } from "vitest";
+import { RemotiveSource } from "../../../src/discovery/sources/remotive.js";
+
+describe("RemotiveSource", () => {
+  it("searches the API and normalizes remote jobs", async () => {
+    const httpClient = {
+      getJson: vi.fn(async () => ({
+        jobs: [
+          {
+            id: 1912345,
+            url: "https://remotive.com/remote-jobs/software-dev/staff-engineer-1912345",
+            title: "Staff Engineer",
+            company_name: "Example Cloud",
+            company_logo: "https://remotive.com/job/1912345/logo",
+            job_type: "full_time",
+            publication_date: "2026-03-15T10:00:00",
+            candidate_required_location: "Worldwide",
+            salary: "$150k - $180k",
+            description:
+              '<p>Own our platform.</p><p>Apply via <a href="https://jobs.ashbyhq.com/example-cloud/abc">Ashby</a></p>',
+          },
+          {
+            id: 1912346,
+            url: "https://remotive.com/remote-jobs/software-dev/engineer-1912346",
+            title: "Engineer",
+            company_name: "Americas Only Co",
+            candidate_required_location: "USA",
+            description: "<p>US timezones.</p>",
+          },
+        ],
+      })),
+    };
+
+    const jobs = await new RemotiveSource(httpClient as any).discoverJobs({
+      keyword: "platform",
+      location: "Australia",
+      pages: 2,
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+
+    expect(httpClient.getJson).toHaveBeenCalledWith("https://remotive.com/api/remote-jobs", {
+      params: { search: "platform", limit: "100" },
+    });
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      source: "remotive",
+      title: "Staff Engineer",
+      company: "Example Cloud",
+      location: "Worldwide",
+      description: "Own our platform.\nApply via Ashby",
+      salary: "$150k - $180k",
+      jobType: "Full-time",
+      workArrangement: "remote",
+      externalUrl: "https://jobs.ashbyhq.com/example-cloud/abc",
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  SeekHttpSource,
+  buildSeekFilterParams,
+  normalizeSeekSearchResult,
+} from "../../../src/discovery/sources/seek-http.js";
+
+const searchResult = {
+  id: "81234567",
+  title: "Senior Software Engineer",
+  teaser: "Join our platform team",
+  bulletPoints: ["Hybrid working", "Great team"],
+  advertiser: { id: "1", description: "Example Co" },
+  locations: [{ label: "Sydney NSW" }],
+  listingDate: "2026-03-16T03:12:00Z",
+  salaryLabel: "$150k - $170k p.a.",
+  workTypes: ["Full time"],
+  workArrangements: { data: [{ label: { text: "Hybrid" } }] },
+  branding: { serpLogoUrl: "https://image.seek.com.au/logo.png" },
+};
+
+describe("normalizeSeekSearchResult", () => {
+  it("prefers job details over the search card", () => {
+    const job = normalizeSeekSearchResult(
+      searchResult,
+      {
+        content: "<p>About the role</p><ul><li>TypeScript &amp; Node</li><li>AWS</li></ul>",
+        salary: { label: "$160k + super" },
+        workTypes: { label: "Full time" },
+        listedAt: { dateTimeUtc: "2026-03-16T03:00:00Z" },
+      },
+      "2026-03-17T00:00:00Z",
+    );
+
+    expect(job).toMatchObject({
+      id: "https://www.seek.com.au/job/81234567",
+      source: "seek",
+      title: "Senior Software Engineer",
+      company: "Example Co",
+      location: "Sydney NSW",
+      description: "About the role\n• TypeScript & Node\n• AWS",
+      jobUrl: "https://www.seek.com.au/job/81234567",
+      postedAt: "2026-03-16T03:00:00Z",
+      salary: "$160k + super",
+      jobType: "Full time",
+      workArrangement: "Hybrid",
+      companyLogoUrl: "https://image.seek.com.au/logo.png",
+    });
+  });
+
+  it("falls back to the card teaser without job details", () => {
+    const job = normalizeSeekSearchResult(searchResult, null, "2026-03-17T00:00:00Z");
+
+    expect(job.description).toBe("Join our platform team\nHybrid working\nGreat team");
+    expect(job.salary).toBe("$150k - $170k p.a.");
+    expect(job.postedAt).toBe("2026-03-16T03:12:00Z");
+  });
+});
+
+describe("SeekHttpSource", () => {
+  it("pages through search results and fetches each job's details", async () => {
+    const httpClient = {
+      getJson: vi.fn(async (_url: string, options: { params: Record<string, string> }) =>
+        options.params.page === "1"
+          ? { data: [searchResult, searchResult], totalCount: 3 }
+          : { data: [{ ...searchResult, id: 81234568, title: "Backend Engineer" }], totalCount: 3 },
+      ),
+      postJson: vi.fn(async (_url: string, body: { variables: { jobId: string } }) => ({
+        data: { jobDetails: { job: { content: `<p>Details for ${body.variables.jobId}</p>` } } },
+      })),
+    };
+    const progress: number[] = [];
+
+    const jobs = await new SeekHttpSource(httpClient as any).discoverJobs({
+      keyword: "software engineer",
+      location: "Sydney",
+      pages: 5,
+      extractedAt: "2026-03-17T00:00:00Z",
+      onProgress: (info) => progress.push(info.page),
+    });
+
+    expect(httpClient.getJson).toHaveBeenCalledTimes(2);
+    expect(httpClient.getJson.mock.calls[0][1].params).toMatchObject({
+      keywords: "software engineer",
+      where: "Sydney",
+      page: "1",
+    });
+    expect(progress).toEqual([1, 2]);
+    expect(jobs.map((job) => [job.title, job.description])).toEqual([
+      ["Senior Software Engineer", "Details for 81234567"],
+      ["Backend Engineer", "Details for 81234568"],
+    ]);
+  });
+
+  it("starts at the requested page and reports each finished page", async () => {
+    const httpClient = {
+      getJson: vi.fn(async () => ({ data: [searchResult], totalCount: 100 })),
+      postJson: vi.fn(async () => ({ data: { jobDetails: { job: null } } })),
+    };
+    const completed: Array<[number, string[]]> = [];
+
+    await new SeekHttpSource(httpClient as any).discoverJobs({
+      keyword: "software engineer",
+      location: "Sydney",
+      pages: 3,
+      startPage: 3,
+      extractedAt: "2026-03-17T00:00:00Z",
+      onPageComplete: (page, jobs) => completed.push([page, jobs.map((job) => job.id)]),
+    });
+
+    expect(httpClient.getJson).toHaveBeenCalledTimes(1);
+    expect(httpClient.getJson.mock.calls[0][1].params).toMatchObject({ page: "3" });
+    expect(completed).toEqual([[3, ["https://www.seek.com.au/job/81234567"]]]);
+  });
+
+  it("runs the fallback source when the search API is blocked", async () => {
+    const httpClient = {
+      getJson: vi.fn(async () => {
+        throw new Error("HTTP 403 for https://www.seek.com.au/api/jobsearch/v5/search");
+      }),
+      postJson: vi.fn(),
+    };
+    const fallbackDiscover = vi.fn(async () => []);
+    const request = {
+      keyword: "engineer",
+      location: "Sydney",
+      pages: 1,
+      extractedAt: "2026-03-17T00:00:00Z",
+    };
+
+    await new SeekHttpSource(httpClient as any, {
+      fallback: () => ({ name: "seek", discoverJobs: fallbackDiscover }),
+    }).discoverJobs(request);
+
+    expect(fallbackDiscover).toHaveBeenCalledWith(request);
+    await expect(new SeekHttpSource(httpClient as any).discoverJobs(request)).rejects.toThrow(
+      "HTTP 403",
+    );
+  });
+
+  it("does not claim native filters after falling back to the browser", async () => {
+    const httpClient = {
+      getJson: vi.fn(async () => {
+        throw new Error("HTTP 403 for https://www.seek.com.au/api/jobsearch/v5/search");
+      }),
+      postJson: vi.fn(),
+    };
+    const source = new SeekHttpSource(httpClient as any, {
+      fallback: () => ({ name: "seek", discoverJobs: async () => [] }),
+    });
+
+    await source.discoverJobs({
+      keyword: "engineer",
+      location: "Sydney",
+      pages: 1,
+      extractedAt: "2026-03-17T00:00:00Z",
+      filters: { datePosted: "week" },
+    });
+
+    expect(source.nativeFilters).toEqual([]);
+  });
+});
+
+describe("buildSeekFilterParams", () => {
+  it("maps supported filters to search API parameters", () => {
+    expect(
+      buildSeekFilterParams({
+        datePosted: "3d",
+        employmentTypes: ["contract", "temporary"],
+        workArrangements: ["remote", "hybrid"],
+        salaryMin: 120000,
+        experienceLevels: ["senior"],
+        radiusKm: 10,
+      }),
+    ).toEqual({
+      params: {
+        daterange: "3",
+        worktype: "244",
+        workarrangement: "3,2",
+        salarytype: "annual",
+        salaryrange: "120000-",
+      },
+      applied: ["datePosted", "employmentTypes", "workArrangements", "salaryMin"],
+    });
+    expect(buildSeekFilterParams({ employmentTypes: ["full-time", "internship"] })).toEqual({
+      params: {},
+      applied: [],
+    });
+  });
+});
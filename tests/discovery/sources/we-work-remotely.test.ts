@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from "vitest";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile } from "node:fs/promises";
+import { WeWorkRemotelySource } from "../../../src/discovery/sources/we-work-remotely.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<string> {
+  return readFile(path.resolve(__dirname, "../../fixtures", name), "utf8");
+}
+
+describe("WeWorkRemotelySource", () => {
+  it("matches the keyword locally and applies the location softly", async () => {
+    const feed = await readFixture("we-work-remotely.rss");
+    const httpClient = { getText: vi.fn(async () => feed) };
+
+    const jobs = await new WeWorkRemotelySource(httpClient as any).discoverJobs({
+      keyword: "backend engineer",
+      location: "Sydney",
+      pages: 1,
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toMatchObject({
+      id: "https://weworkremotely.com/remote-jobs/acme-analytics-senior-backend-engineer",
+      source: "we_work_remotely",
+      title: "Senior Backend Engineer",
+      company: "Acme Analytics",
+      location: "Anywhere in the World",
+      description: "Build our data pipeline in Go.\nApply at our careers page.",
+      jobType: "Full-Time",
+      workArrangement: "remote",
+      externalUrl: "https://jobs.lever.co/acme-analytics/7d1f",
+      postedAt: "2026-03-16T14:05:11Z",
+      companyLogoUrl: "https://wwr-pro.s3.amazonaws.com/logos/acme.png",
+    });
+  });
+
+  it("keeps region-restricted jobs when the location is in the region", async () => {
+    const feed = await readFixture("we-work-remotely.rss");
+    const httpClient = { getText: vi.fn(async () => feed) };
+
+    const jobs = await new WeWorkRemotelySource(httpClient as any).discoverJobs({
+      keyword: "backend",
+      location: "USA",
+      pages: 1,
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+
+    expect(jobs.map((job) => job.company)).toEqual(["Acme Analytics", "Northwind"]);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it, vi } from "vitest";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile } from "node:fs/promises";
+import { WorkforceAustraliaSource } from "../../../src/discovery/sources/workforce-australia.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readJsonFixture(name: string): Promise<unknown> {
+  return JSON.parse(await readFile(path.resolve(__dirname, "../../fixtures", name), "utf8"));
+}
+
+describe("WorkforceAustraliaSource", () => {
+  it("normalizes vacancies and prefers the detail description", async () => {
+    const search = await readJsonFixture("workforce-australia-search.json");
+    const httpClient = {
+      getJson: vi.fn(async (url: string) => {
+        if (url.endsWith("/vacancies/")) return search;
+        if (url.endsWith("/5401234")) {
+          return { description: "<p>Develop services.</p><ul><li>C#</li><li>Azure</li></ul>" };
+        }
+        throw new Error(`HTTP 404 for ${url}`);
+      }),
+    };
+
+    const jobs = await new WorkforceAustraliaSource(httpClient as any).discoverJobs({
+      keyword: "developer",
+      location: "Canberra",
+      pages: 3,
+      extractedAt: "2026-03-17T00:00:00Z",
+    });
+
+    expect(httpClient.getJson).toHaveBeenCalledWith(
+      "https://www.workforceaustralia.gov.au/api/v1/global/vacancies/",
+      expect.objectContaining({
+        params: expect.objectContaining({ searchText: "developer", pageNumber: "1" }),
+      }),
+    );
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0]).toMatchObject({
+      id: "https://www.workforceaustralia.gov.au/individuals/jobs/details/5401234",
+      source: "workforce_australia",
+      title: "Software Developer",
+      company: "Department of Example Services",
+      location: "Canberra, ACT 2600",
+      description: "Develop services.\n• C#\n• Azure",
+      salary: "$105,000 - $118,000 per year",
+      jobType: "Full Time",
+      postedAt: "2026-03-12T00:00:00",
+    });
+    expect(jobs[1]).toMatchObject({
+      location: "Wagga Wagga, NSW 2650",
+      description: "Help build websites for local businesses.",
+      salary: "",
+      jobType: "Part Time",
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { decodeHtmlEntities, htmlToText } from "../../../src/discovery/utils/html.js";
+
+describe("htmlToText", () => {
+  it("collapses a fragment onto one line by default", () => {
+    expect(htmlToText("<p>Build <b>APIs</b></p><ul><li>Go &amp; Rust</li></ul>")).toBe("Build APIs Go & Rust");
+  });
+
+  it("keeps one line per paragraph and bullets list items when asked", () => {
+    expect(
+      htmlToText("<p>Senior Engineer &#8211; Remote</p><ul><li>Go &amp; Rust</li><li><b>Kafka</b>, too</li></ul>", {
+        keepLineBreaks: true,
+      }),
+    ).toBe("Senior Engineer – Remote\n• Go & Rust\n• Kafka, too");
+  });
+});
+
+describe("decodeHtmlEntities", () => {
+  it("decodes named, decimal and hex entities without double-decoding", () => {
+    expect(decodeHtmlEntities("&lt;b&gt; &quot;it&#39;s&#x27;&quot; &#x2F; &amp;lt;")).toBe(
+      '<b> "it\'s\'" / &lt;',
+    );
+  });
+
+  it("leaves out-of-range numeric entities undecoded instead of throwing", () => {
+    expect(decodeHtmlEntities("Salary &#99999999; &#x110000; &#65;UD")).toBe("Salary &#99999999; &#x110000; AUD");
+  });
+});
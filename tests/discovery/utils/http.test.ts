@@ -1,5 +1,9 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
-import { HttpClient, DEFAULT_HEADERS } from "../../../src/discovery/utils/http.js";
+import {
+  HttpClient,
+  DEFAULT_HEADERS,
+  parseRetryAfter,
+} from "../../../src/discovery/utils/http.js";
 
 describe("HttpClient", () => {
   const originalFetch = globalThis.fetch;
@@ -54,7 +58,7 @@ describe("HttpClient", () => {
     expect(response).toBe("ok");
     expect(fetchMock).toHaveBeenCalledTimes(2);
     // First retry: retryDelayMs * 2^0 = 1000
-    expect(sleepMock).toHaveBeenCalledWith(1000);
+    expect(sleepMock).toHaveBeenCalledWith(1000, undefined);
   });
 
   it("retries up to maxRetries times with increasing delays", async () => {
@@ -79,9 +83,9 @@ describe("HttpClient", () => {
     expect(response).toBe("ok");
     expect(fetchMock).toHaveBeenCalledTimes(4);
     // Exponential backoff: 1000, 2000, 4000
-    expect(sleepMock).toHaveBeenNthCalledWith(1, 1000);
-    expect(sleepMock).toHaveBeenNthCalledWith(2, 2000);
-    expect(sleepMock).toHaveBeenNthCalledWith(3, 4000);
+    expect(sleepMock).toHaveBeenNthCalledWith(1, 1000, undefined);
+    expect(sleepMock).toHaveBeenNthCalledWith(2, 2000, undefined);
+    expect(sleepMock).toHaveBeenNthCalledWith(3, 4000, undefined);
   });
 
   it("throws after exhausting all retries", async () => {
@@ -100,4 +104,108 @@ describe("HttpClient", () => {
     await expect(client.getText("https://example.com/jobs")).rejects.toThrow("HTTP 429");
     expect(fetchMock).toHaveBeenCalledTimes(3); // 1 initial + 2 retries
   });
+
+  it("waits out Retry-After and reports each response to the limiter", async () => {
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(new Response("busy", { status: 429, headers: { "Retry-After": "7" } }))
+      .mockResolvedValueOnce(new Response("ok", { status: 200 }));
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const sleepMock = vi.fn(async () => {});
+    const recordResponse = vi.fn();
+    const client = new HttpClient({
+      rateLimiter: { wait: async () => {}, recordResponse },
+      retryDelayMs: 1000,
+      sleep: sleepMock,
+    });
+
+    await expect(client.getText("https://example.com/jobs")).resolves.toBe("ok");
+    expect(sleepMock).toHaveBeenCalledWith(7000, undefined);
+    expect(recordResponse.mock.calls).toEqual([
+      ["https://example.com/jobs", 429, 7000],
+      ["https://example.com/jobs", 200, null],
+    ]);
+  });
+
+  it("gives up when Retry-After is longer than it is willing to wait", async () => {
+    const fetchMock = vi.fn(
+      async () => new Response("busy", { status: 429, headers: { "Retry-After": "3600" } }),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const sleepMock = vi.fn(async () => {});
+    const recordResponse = vi.fn();
+    const client = new HttpClient({
+      rateLimiter: { wait: async () => {}, recordResponse },
+      maxRetryAfterMs: 60_000,
+      sleep: sleepMock,
+    });
+
+    await expect(client.getText("https://example.com/jobs")).rejects.toThrow(
+      "HTTP 429 for https://example.com/jobs (retry after 3600s)",
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sleepMock).not.toHaveBeenCalled();
+    // The host is held back no longer than the client would have waited.
+    expect(recordResponse).toHaveBeenCalledWith("https://example.com/jobs", 429, 60_000);
+  });
+
+  it("parses Retry-After as seconds or an HTTP date", () => {
+    const now = Date.parse("2026-03-15T00:00:00Z");
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter("Sun, 15 Mar 2026 00:00:30 GMT", now)).toBe(30_000);
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter(null, now)).toBeNull();
+  });
+
+  it("stops without retrying once the caller's signal is aborted", async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn(async () => {
+      controller.abort(new Error("Run 1 was cancelled"));
+      return new Response("busy", { status: 429 });
+    });
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const sleepMock = vi.fn(async () => {});
+    const wait = vi.fn(async () => {});
+    const client = new HttpClient({
+      rateLimiter: { wait },
+      maxRetries: 3,
+      sleep: sleepMock,
+    });
+
+    await expect(
+      client.getText("https://example.com/jobs", { signal: controller.signal }),
+    ).rejects.toThrow("Run 1 was cancelled");
+    // The limiter gets the signal so a long per-host wait can be cut short too.
+    expect(wait).toHaveBeenCalledWith("https://example.com/jobs", controller.signal);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(sleepMock).not.toHaveBeenCalled();
+    await expect(
+      client.getText("https://example.com/jobs", { signal: controller.signal }),
+    ).rejects.toThrow("Run 1 was cancelled");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+  it("posts JSON bodies and parses JSON responses", async () => {
+    const fetchMock = vi.fn(async () =>
+      new Response(JSON.stringify({ total: 1 }), {
+        status: 200,
+        headers: { "content-type": "application/json" },
+      }),
+    );
+    globalThis.fetch = fetchMock as typeof fetch;
+
+    const client = new HttpClient({ rateLimiter: { wait: async () => {} } });
+    const payload = await client.postJson<{ total: number }>("https://example.com/jobs", {
+      limit: 20,
+    });
+
+    expect(payload).toEqual({ total: 1 });
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe("https://example.com/jobs");
+    expect(init.method).toBe("POST");
+    expect(init.body).toBe(JSON.stringify({ limit: 20 }));
+    expect(init.headers).toMatchObject({ "Content-Type": "application/json" });
+  });
 });
@@ -1,33 +1,58 @@
-import { beforeEach, describe, expect, it, vi } from "vitest";
-import { RateLimiter } from "../../../src/discovery/utils/rate-limit.js";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HostRateLimiter } from "../../../src/discovery/utils/rate-limit.js";
 
-describe("RateLimiter", () => {
-  beforeEach(() => {
+describe("HostRateLimiter", () => {
+  afterEach(() => {
     vi.restoreAllMocks();
+    vi.useRealTimers();
   });
 
+  const createLimiter = (options: { adaptive?: boolean } = {}) => {
+    let now = 0;
+    const sleep = vi.fn(async (ms: number) => {
+      now += ms;
+    });
+    const limiter = new HostRateLimiter({
+      minDelay: 1,
+      maxDelay: 1,
+      hosts: { "api.example.com": { minDelay: 0.2, maxDelay: 0.2 } },
+      random: () => 0.5,
+      sleep,
+      now: () => now,
+      ...options,
+    });
+    return { limiter, sleep };
+  };
+
   it("uses crawler-aligned defaults", () => {
-    const limiter = new RateLimiter();
+    const limiter = new HostRateLimiter();
 
     expect(limiter.minDelay).toBe(1.2);
     expect(limiter.maxDelay).toBe(1.8);
   });
 
+  it("rejects delay windows that are negative or inverted", () => {
+    expect(() => new HostRateLimiter({ minDelay: -1 })).toThrow("minDelay must be non-negative");
+    expect(
+      () => new HostRateLimiter({ hosts: { "example.com": { minDelay: 2, maxDelay: 1 } } }),
+    ).toThrow("maxDelay must be greater than or equal to minDelay");
+  });
+
   it("does not sleep before the first request", async () => {
     const sleepSpy = vi.spyOn(globalThis, "setTimeout");
-    const limiter = new RateLimiter({ random: () => 0.5 });
+    const limiter = new HostRateLimiter({ random: () => 0.5 });
 
-    await limiter.wait();
+    await limiter.wait("https://example.com/jobs");
 
     expect(sleepSpy).not.toHaveBeenCalled();
   });
 
   it("sleeps within the configured jitter window after the first request", async () => {
     vi.useFakeTimers();
-    const limiter = new RateLimiter({ minDelay: 1.2, maxDelay: 1.8, random: () => 0.5 });
+    const limiter = new HostRateLimiter({ minDelay: 1.2, maxDelay: 1.8, random: () => 0.5 });
 
-    await limiter.wait();
-    const secondWait = limiter.wait();
+    await limiter.wait("https://example.com/jobs");
+    const secondWait = limiter.wait("https://example.com/jobs?page=2");
 
     await vi.advanceTimersByTimeAsync(1499);
     let done = false;
@@ -41,4 +66,97 @@ describe("RateLimiter", () => {
     await secondWait;
     expect(done).toBe(true);
   });
+
+  it("paces each host independently with its own delay window", async () => {
+    const { limiter, sleep } = createLimiter();
+
+    await limiter.wait("https://www.linkedin.com/jobs/1");
+    await limiter.wait("https://boards.greenhouse.io/acme");
+    await limiter.wait("https://api.example.com/jobs");
+    expect(sleep).not.toHaveBeenCalled();
+
+    await limiter.wait("https://api.example.com/jobs?page=2");
+    expect(sleep).toHaveBeenLastCalledWith(200, undefined);
+    await limiter.wait("https://careers.acme.com/");
+    await limiter.wait("https://careers.acme.com/jobs");
+    expect(sleep).toHaveBeenLastCalledWith(1000, undefined);
+  });
+
+  it("applies the built-in host windows only when no global window is set", async () => {
+    const secondDelay = async (options: ConstructorParameters<typeof HostRateLimiter>[0], url: string) => {
+      const sleep = vi.fn(async () => {});
+      const limiter = new HostRateLimiter({ random: () => 0.5, sleep, now: () => 0, ...options });
+      await limiter.wait(url);
+      await limiter.wait(url);
+      return sleep.mock.calls[0][0];
+    };
+    const linkedin = "https://www.linkedin.com/jobs/1";
+
+    expect(await secondDelay({}, linkedin)).toBe(2000);
+    expect(await secondDelay({}, "https://boards.greenhouse.io/acme")).toBeCloseTo(450);
+    expect(await secondDelay({ minDelay: 5, maxDelay: 5 }, linkedin)).toBe(5000);
+    expect(await secondDelay({ minDelay: 5, maxDelay: 5 }, "https://boards.greenhouse.io/acme")).toBe(5000);
+    expect(
+      await secondDelay(
+        { minDelay: 5, maxDelay: 5, hosts: { "linkedin.com": { minDelay: 3, maxDelay: 3 } } },
+        linkedin,
+      ),
+    ).toBe(3000);
+  });
+
+  it("queues concurrent callers for the same host", async () => {
+    const sleep = vi.fn(async () => {});
+    const limiter = new HostRateLimiter({ minDelay: 1, maxDelay: 1, sleep, now: () => 0 });
+
+    await Promise.all([
+      limiter.wait("https://example.com/a"),
+      limiter.wait("https://example.com/b"),
+      limiter.wait("https://example.com/c"),
+    ]);
+
+    expect(sleep.mock.calls).toEqual([[1000, undefined], [2000, undefined]]);
+  });
+
+  it("holds a host back until its Retry-After has passed", async () => {
+    const { limiter, sleep } = createLimiter();
+
+    await limiter.wait("https://api.example.com/jobs");
+    limiter.recordResponse("https://api.example.com/jobs", 503, 30_000);
+    await limiter.wait("https://api.example.com/jobs");
+
+    expect(sleep).toHaveBeenLastCalledWith(30_000, undefined);
+  });
+
+  it("stops waiting for a blocked host when the signal aborts", async () => {
+    const limiter = new HostRateLimiter({ minDelay: 0, maxDelay: 0 });
+    const url = "https://www.linkedin.com/jobs/1";
+    limiter.recordResponse(url, 429, 60_000);
+    const controller = new AbortController();
+
+    const waiting = limiter.wait(url, controller.signal);
+    controller.abort(new Error("Run 1 was cancelled"));
+
+    await expect(waiting).rejects.toThrow("Run 1 was cancelled");
+  });
+
+  it("slows a throttling host down and recovers gradually in adaptive mode", () => {
+    const { limiter } = createLimiter();
+    const url = "https://www.linkedin.com/jobs-guest/jobs/api/seeMoreJobPostings/search";
+
+    limiter.recordResponse(url, 429, null);
+    limiter.recordResponse(url, 999, null);
+    expect(limiter.slowdownFor(url)).toBe(4);
+    expect(limiter.slowdownFor("https://boards.greenhouse.io/acme")).toBe(1);
+
+    limiter.recordResponse(url, 200, null);
+    expect(limiter.slowdownFor(url)).toBe(3.2);
+    for (let i = 0; i < 10; i += 1) {
+      limiter.recordResponse(url, 200, null);
+    }
+    expect(limiter.slowdownFor(url)).toBe(1);
+
+    const fixed = createLimiter({ adaptive: false }).limiter;
+    fixed.recordResponse(url, 429, null);
+    expect(fixed.slowdownFor(url)).toBe(1);
+  });
 });
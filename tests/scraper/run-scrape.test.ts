@@ -122,6 +122,6 @@ describe("scrape pipeline", () => {
   it("lists available sources", () => {
     expect(getAvailableSources()).toContain("seek");
     expect(getAvailableSources()).toContain("linkedin");
-    expect(getAvailableSources()).not.toContain("indeed");
+    expect(getAvailableSources()).toContain("indeed");
   });
 });
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile } from "node:fs/promises";
+import {
+  parseGlassdoorJobDescription,
+  parseGlassdoorSearchPage,
+} from "../../../src/scraper/sources/glassdoor.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<string> {
+  return readFile(path.resolve(__dirname, "../../fixtures", name), "utf8");
+}
+
+describe("GlassdoorScraper", () => {
+  it("extracts job cards from search results and skips cards without a job id", async () => {
+    const page = parseGlassdoorSearchPage(
+      await readFixture("glassdoor-results.html"),
+      new Date("2026-03-17T00:00:00Z"),
+    );
+
+    expect(page.hasMoreJobs).toBe(true);
+    expect(page.cards).toEqual([
+      {
+        jobId: "1009512345678",
+        title: "Senior Software Engineer",
+        company: "Atlassian",
+        location: "Sydney",
+        url: "https://www.glassdoor.com.au/job-listing/j?jl=1009512345678",
+        salary: "$160K - $200K (Employer est.)",
+        snippet: "Build Jira & Confluence features used by millions.",
+        postedDate: "2026-03-14T00:00:00.000Z",
+        companyLogoUrl: "https://media.glassdoor.com/sqls/100431/atlassian-squareLogo.png",
+      },
+      {
+        jobId: "1009587654321",
+        title: "Backend Engineer",
+        company: "Example Health",
+        location: "North Sydney",
+        url: "https://www.glassdoor.com.au/job-listing/j?jl=1009587654321",
+        salary: undefined,
+        snippet: undefined,
+        postedDate: "2026-03-16T00:00:00.000Z",
+        companyLogoUrl: undefined,
+      },
+    ]);
+  });
+
+  it("reads the description from a job page", async () => {
+    expect(parseGlassdoorJobDescription(await readFixture("glassdoor-job-detail.html"))).toBe(
+      [
+        "About the role",
+        "You will build backend services for Jira & Confluence.",
+        "• 5+ years with Java or Kotlin",
+        "• Experience with AWS",
+      ].join("\n"),
+    );
+    expect(parseGlassdoorJobDescription("<html><body>Sign in</body></html>")).toBeNull();
+  });
+});
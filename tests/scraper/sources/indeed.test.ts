@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { readFile } from "node:fs/promises";
+import {
+  parseIndeedJobDetail,
+  parseIndeedSearchPage,
+} from "../../../src/scraper/sources/indeed.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function readFixture(name: string): Promise<string> {
+  return readFile(path.resolve(__dirname, "../../fixtures", name), "utf8");
+}
+
+describe("IndeedScraper", () => {
+  it("extracts job cards from the embedded search results JSON", async () => {
+    const page = parseIndeedSearchPage(await readFixture("indeed-results.html"));
+
+    expect(page.hasNextPage).toBe(true);
+    expect(page.cards).toHaveLength(2);
+    expect(page.cards[0]).toEqual({
+      jobKey: "a1b2c3d4e5f60001",
+      title: "Senior Full Stack Engineer",
+      company: "Canva",
+      location: "Sydney NSW",
+      url: "https://au.indeed.com/viewjob?jk=a1b2c3d4e5f60001",
+      salary: "$160,000 – $190,000 a year",
+      jobType: "Full-time, Permanent",
+      workplaceType: "hybrid",
+      snippet: "Build {delightful} product features & APIs.",
+      postedDate: "2026-03-17T00:00:00.000Z",
+      companyLogoUrl: "https://d2q79iu7y748jz.cloudfront.net/s/_squarelogo/canva.png",
+    });
+    expect(page.cards[1]).toMatchObject({
+      title: "Full Stack Developer",
+      location: "Remote",
+      jobType: "Contract",
+      workplaceType: "remote",
+      snippet: 'Contract role with "React" and Node.',
+    });
+  });
+
+  it("reports the last results page and pages without embedded cards", () => {
+    expect(parseIndeedSearchPage("<html><body>No jobs</body></html>")).toEqual({
+      cards: [],
+      hasNextPage: false,
+    });
+  });
+
+  it("extracts description, salary and job type from the detail panel", async () => {
+    const detail = parseIndeedJobDetail(await readFixture("indeed-job-detail.html"));
+
+    expect(detail).toEqual({
+      description: [
+        "Join our platform team building collaborative design tools.",
+        "What you'll do",
+        "• Ship features across React and Node.js",
+        "• Own services end to end",
+        "Hybrid & flexible working.",
+      ].join("\n"),
+      salary: "$160,000 – $190,000 a year",
+      jobType: "Full-time, Permanent",
+    });
+  });
+
+  it("returns null when the detail panel did not render", () => {
+    expect(parseIndeedJobDetail("<html><title>Just a moment...</title></html>")).toBeNull();
+  });
+});
@@ -1,7 +1,15 @@
+import { mkdirSync } from "node:fs";
 import path from "node:path";
+import Database from "better-sqlite3";
 import { beforeEach, describe, expect, it } from "vitest";
 
 import { openDatabase } from "../../../src/storage/sqlite/db.js";
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  getSchemaVersion,
+  runMigrations,
+} from "../../../src/storage/sqlite/migrations.js";
 import { createTmpHome } from "../../helpers/tmp-home.js";
 
 describe("openDatabase", () => {
@@ -41,4 +49,127 @@ describe("openDatabase", () => {
 
     db.close();
   });
+
+  it("cascades deletes to rows that reference a job", () => {
+    const db = openDatabase(dbPath);
+    const { id } = db
+      .prepare(
+        "INSERT INTO jobs (title, company, location, url, source, scraped_at) VALUES ('A', 'B', 'C', 'https://x.com/1', 'seek', '2026-01-01') RETURNING id",
+      )
+      .get() as { id: number };
+    db.prepare(
+      "INSERT INTO job_observations (job_id, run_id, observed_at, is_new) VALUES (?, NULL, '2026-01-01', 1)",
+    ).run(id);
+
+    db.prepare("DELETE FROM jobs WHERE id = ?").run(id);
+
+    expect(db.prepare("SELECT COUNT(*) AS count FROM job_observations").get()).toEqual({ count: 0 });
+    db.close();
+  });
+
+  it("records applied migrations in the schema_migrations ledger", () => {
+    const db = openDatabase(dbPath);
+    const versions = db
+      .prepare("SELECT version FROM schema_migrations ORDER BY version")
+      .all() as { version: number }[];
+
+    expect(versions.map((row) => row.version)).toEqual(
+      MIGRATIONS.map((migration) => migration.version),
+    );
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+
+    db.close();
+    const reopened = openDatabase(dbPath);
+    expect(
+      (reopened.prepare("SELECT COUNT(*) AS count FROM schema_migrations").get() as { count: number })
+        .count,
+    ).toBe(MIGRATIONS.length);
+    reopened.close();
+  });
+
+  it("upgrades a pre-ledger database in place", () => {
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    const legacy = new Database(dbPath);
+    legacy.exec(`
+      CREATE TABLE jobs (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        title TEXT NOT NULL,
+        company TEXT NOT NULL,
+        location TEXT NOT NULL,
+        url TEXT NOT NULL UNIQUE,
+        source TEXT NOT NULL,
+        description TEXT,
+        scraped_at TEXT NOT NULL,
+        run_id INTEGER
+      );
+      CREATE TABLE schedules (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        keyword TEXT NOT NULL,
+        location TEXT NOT NULL,
+        source TEXT NOT NULL,
+        cron TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+        last_run_at TEXT,
+        enabled INTEGER NOT NULL DEFAULT 1
+      );
+      INSERT INTO jobs (title, company, location, url, source, description, scraped_at)
+      VALUES ('Data Engineer', 'B', 'C', 'https://x.com/1', 'seek', 'Spark and Airflow', '2026-01-01');
+    `);
+    legacy.close();
+
+    const db = openDatabase(dbPath);
+    const jobColumns = (db.prepare("PRAGMA table_info(jobs)").all() as { name: string }[]).map(
+      (column) => column.name,
+    );
+    const scheduleColumns = (
+      db.prepare("PRAGMA table_info(schedules)").all() as { name: string }[]
+    ).map((column) => column.name);
+
+    expect(jobColumns).toEqual(
+      expect.arrayContaining(["salary", "salary_min", "work_arrangement", "keyword"]),
+    );
+    expect(scheduleColumns).toEqual(expect.arrayContaining(["run_mode", "sources", "pages"]));
+    expect(
+      db.prepare("SELECT rowid FROM jobs_fts WHERE jobs_fts MATCH 'airflow'").all(),
+    ).toHaveLength(1);
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+
+    db.close();
+  });
+
+  it("refuses to open a database written by a newer schema", () => {
+    const db = openDatabase(dbPath);
+    db.prepare("INSERT INTO schema_migrations (version, name) VALUES (?, ?)").run(
+      LATEST_SCHEMA_VERSION + 1,
+      "from_the_future",
+    );
+    db.close();
+
+    expect(() => openDatabase(dbPath)).toThrow(/newer than this plugin supports/);
+  });
+
+  it("rolls back a failing migration step without recording it", () => {
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    const db = new Database(dbPath);
+    const migrations = [
+      ...MIGRATIONS,
+      {
+        version: LATEST_SCHEMA_VERSION + 1,
+        name: "broken_step",
+        up: (target: Database.Database) => {
+          target.exec("CREATE TABLE half_done (id INTEGER)");
+          throw new Error("boom");
+        },
+      },
+    ];
+
+    expect(() => runMigrations(db, migrations)).toThrow("boom");
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION);
+    expect(
+      db.prepare("SELECT name FROM sqlite_master WHERE name = 'half_done'").get(),
+    ).toBeUndefined();
+
+    db.close();
+  });
 });
@@ -0,0 +1,132 @@
+import path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import { createEmptyDiscoveryJob } from "../../../src/discovery/core/types.js";
+import { DiscoveryCheckpointsRepo } from "../../../src/discovery/storage/discovery-checkpoints-repo.js";
+import { openDatabase } from "../../../src/storage/sqlite/db.js";
+import { ScrapeRunsRepo } from "../../../src/storage/sqlite/scrape-runs-repo.js";
+import { createTmpHome } from "../../helpers/tmp-home.js";
+
+const job = (id: string) =>
+  createEmptyDiscoveryJob({
+    id,
+    source: "linkedin",
+    title: `Engineer ${id}`,
+    company: "Example",
+    location: "Sydney",
+    description: "",
+    jobUrl: `https://www.linkedin.com/jobs/view/${id}`,
+    extractedAt: "2026-03-15T00:00:00Z",
+  });
+
+describe("DiscoveryCheckpointsRepo", () => {
+  let dbPath: string;
+
+  beforeEach(() => {
+    const home = createTmpHome();
+    dbPath = path.join(home, ".jobjourney", "jobs.db");
+  });
+
+  it("collects page checkpoints until a source completes", () => {
+    const db = openDatabase(dbPath);
+    const run = new ScrapeRunsRepo(db).createRun({
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+    });
+    const checkpoints = new DiscoveryCheckpointsRepo(db, run.id);
+
+    expect(checkpoints.loadSource("linkedin")).toBeNull();
+    checkpoints.savePage("linkedin", 1, [job("1"), job("2")]);
+    checkpoints.savePage("linkedin", 2, [job("3")]);
+    expect(checkpoints.loadSource("linkedin")).toMatchObject({
+      jobs: [{ id: "1" }, { id: "2" }, { id: "3" }],
+      lastPage: 2,
+      complete: false,
+    });
+
+    checkpoints.completeSource("linkedin", [job("1"), job("2"), job("3"), job("4")]);
+    expect(checkpoints.loadSource("linkedin")).toMatchObject({ complete: true });
+    expect(checkpoints.loadSource("linkedin")?.jobs).toHaveLength(4);
+    expect(
+      db.prepare("SELECT COUNT(*) AS count FROM discovery_checkpoints WHERE kind = 'page'").get(),
+    ).toEqual({ count: 0 });
+
+    expect(checkpoints.loadAtsCrawl("greenhouse:example")).toBeNull();
+    checkpoints.saveAtsCrawl("greenhouse:example", [job("gh-1")]);
+    expect(checkpoints.loadAtsCrawl("greenhouse:example")).toMatchObject([{ id: "gh-1" }]);
+    expect(new DiscoveryCheckpointsRepo(db, run.id + 1).loadAtsCrawl("greenhouse:example")).toBeNull();
+    db.close();
+  });
+
+  it("marks stale running runs interrupted, resumes them and clears checkpoints once finished", () => {
+    const db = openDatabase(dbPath);
+    const runsRepo = new ScrapeRunsRepo(db);
+    const options = { keyword: "engineer", location: "Sydney", sources: ["linkedin" as const], pages: 3 };
+    const stale = runsRepo.createRun({
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+      options,
+    });
+    const live = runsRepo.createRun({
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+    });
+    // Browser scrapes never heartbeat, so a long one must not look stale.
+    const scrape = runsRepo.createRun({ keyword: "engineer", location: "Sydney", source: "indeed" });
+    db.prepare(
+      "UPDATE scrape_runs SET heartbeat_at = NULL, started_at = datetime('now', '-10 minutes') WHERE id = ?",
+    ).run(scrape.id);
+    db.prepare("UPDATE scrape_runs SET heartbeat_at = datetime('now', '-10 minutes') WHERE id = ?").run(
+      stale.id,
+    );
+    new DiscoveryCheckpointsRepo(db, stale.id).savePage("linkedin", 1, [job("1")]);
+
+    expect(runsRepo.markStaleRunsInterrupted()).toBe(1);
+    expect(runsRepo.getRun(stale.id)?.status).toBe("interrupted");
+    expect(runsRepo.getRun(live.id)?.status).toBe("running");
+    expect(runsRepo.getRun(scrape.id)?.status).toBe("running");
+    expect(runsRepo.listResumableRuns().map((run) => run.id)).toEqual([stale.id]);
+    expect(runsRepo.getRunOptions(stale.id)).toEqual(options);
+
+    expect(runsRepo.resumeRun(live.id)).toBe(false);
+    expect(runsRepo.resumeRun(stale.id)).toBe(true);
+    expect(runsRepo.getRun(stale.id)).toMatchObject({ status: "running", finished_at: null, error: null });
+
+    runsRepo.finishRun(stale.id, { status: "cancelled", jobCount: 1 });
+    expect(new DiscoveryCheckpointsRepo(db, stale.id).loadSource("linkedin")).not.toBeNull();
+    expect(runsRepo.resumeRun(stale.id)).toBe(true);
+    runsRepo.finishRun(stale.id, { status: "success", jobCount: 1 });
+    expect(new DiscoveryCheckpointsRepo(db, stale.id).loadSource("linkedin")).toBeNull();
+    db.close();
+  });
+
+  it("prunes checkpoints of runs stopped longer than the retention window", () => {
+    const db = openDatabase(dbPath);
+    const runsRepo = new ScrapeRunsRepo(db);
+    const createRun = () =>
+      runsRepo.createRun({ keyword: "engineer", location: "Sydney", source: "discover", runMode: "discover" }).id;
+    const abandoned = createRun();
+    const recent = createRun();
+    const running = createRun();
+    for (const runId of [abandoned, recent, running]) {
+      new DiscoveryCheckpointsRepo(db, runId).savePage("linkedin", 1, [job(String(runId))]);
+    }
+    runsRepo.finishRun(abandoned, { status: "cancelled" });
+    runsRepo.finishRun(recent, { status: "cancelled" });
+    db.prepare(
+      "UPDATE scrape_runs SET started_at = datetime('now', '-9 days') WHERE id IN (?, ?)",
+    ).run(abandoned, running);
+    db.prepare("UPDATE scrape_runs SET finished_at = datetime('now', '-8 days') WHERE id = ?").run(abandoned);
+
+    expect(runsRepo.pruneCheckpoints()).toBe(1);
+    expect(new DiscoveryCheckpointsRepo(db, abandoned).loadSource("linkedin")).toBeNull();
+    expect(new DiscoveryCheckpointsRepo(db, recent).loadSource("linkedin")).not.toBeNull();
+    expect(new DiscoveryCheckpointsRepo(db, running).loadSource("linkedin")).not.toBeNull();
+    db.close();
+  });
+});
@@ -3,6 +3,7 @@ import path from "node:path";
 import Database from "better-sqlite3";
 import { beforeEach, describe, expect, it } from "vitest";
 import { createEmptyDiscoveryJob } from "../../../src/discovery/core/types.js";
+import { reuseKnownJob } from "../../../src/discovery/sources/base.js";
 import { DiscoveryJobsRepo } from "../../../src/discovery/storage/discovery-jobs-repo.js";
 import { openDatabase } from "../../../src/storage/sqlite/db.js";
 import { createTmpHome } from "../../helpers/tmp-home.js";
@@ -117,4 +118,84 @@ describe("DiscoveryJobsRepo", () => {
 
     db.close();
   });
+
+  it("looks up known jobs by listing URL and marks their details stale after the TTL", () => {
+    const db = openDatabase(dbPath);
+    const repo = new DiscoveryJobsRepo(db);
+    const job = createEmptyDiscoveryJob({
+      id: "1",
+      source: "linkedin",
+      title: "Engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "Full description",
+      jobUrl: "https://au.linkedin.com/jobs/view/engineer-1?refId=first",
+      extractedAt: "2026-03-10T00:00:00Z",
+    });
+    repo.upsertJobs([job]);
+    // A later run that reused the stored details keeps the original fetch time.
+    repo.upsertJobs([{ ...job, extractedAt: "2026-03-14T00:00:00Z", detailSkipped: true }]);
+
+    const lookup = repo.createKnownJobLookup({
+      refreshAfterHours: 24 * 7,
+      now: () => new Date("2026-03-15T00:00:00Z"),
+    });
+    const known = lookup.find("https://au.linkedin.com/jobs/view/engineer-1?refId=second");
+
+    expect(known).toMatchObject({
+      stale: false,
+      job: { title: "Engineer", description: "Full description", source: "linkedin" },
+    });
+    expect(lookup.find("https://au.linkedin.com/jobs/view/engineer-10")).toBeNull();
+    expect(
+      repo
+        .createKnownJobLookup({
+          refreshAfterHours: 24 * 3,
+          now: () => new Date("2026-03-15T00:00:00Z"),
+        })
+        .find("https://au.linkedin.com/jobs/view/engineer-1")?.stale,
+    ).toBe(true);
+    db.close();
+  });
+
+  it("records a reused job merged from another source as seen on the searching source", () => {
+    const db = openDatabase(dbPath);
+    const repo = new DiscoveryJobsRepo(db);
+    const linkedinUrl = "https://au.linkedin.com/jobs/view/1";
+    const seekUrl = "https://www.seek.com.au/job/1";
+    repo.upsertJobs([
+      {
+        ...createEmptyDiscoveryJob({
+          id: seekUrl,
+          source: "seek",
+          title: "Engineer",
+          company: "Example",
+          location: "Sydney",
+          description: "Full description",
+          jobUrl: seekUrl,
+          extractedAt: "2026-03-10T00:00:00Z",
+        }),
+        mergedFrom: [{ source: "linkedin", jobUrl: linkedinUrl, externalUrl: "" }],
+      },
+    ]);
+
+    const known = repo.createKnownJobLookup().find(`${linkedinUrl}?refId=second`);
+    expect(known?.job).toMatchObject({ source: "seek", jobUrl: seekUrl });
+    const reused = reuseKnownJob(known!.job, {
+      id: "1",
+      source: "linkedin",
+      jobUrl: linkedinUrl,
+      extractedAt: "2026-03-14T00:00:00Z",
+    });
+    expect(reused).toMatchObject({ source: "linkedin", jobUrl: linkedinUrl });
+    repo.upsertJobs([reused]);
+
+    expect(
+      db.prepare("SELECT source, url, last_seen_at FROM job_sources ORDER BY source, url").all(),
+    ).toEqual([
+      { source: "linkedin", url: linkedinUrl, last_seen_at: "2026-03-14T00:00:00Z" },
+      { source: "seek", url: seekUrl, last_seen_at: "2026-03-10T00:00:00Z" },
+    ]);
+    db.close();
+  });
 });
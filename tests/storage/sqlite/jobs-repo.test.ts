@@ -1,15 +1,18 @@
 import path from "node:path";
+import type Database from "better-sqlite3";
 import { beforeEach, describe, expect, it } from "vitest";
 import { openDatabase } from "../../../src/storage/sqlite/db.js";
 import { JobsRepo } from "../../../src/storage/sqlite/jobs-repo.js";
+import { ScrapeRunsRepo } from "../../../src/storage/sqlite/scrape-runs-repo.js";
 import { createTmpHome } from "../../helpers/tmp-home.js";
 
 describe("JobsRepo", () => {
+  let db: Database.Database;
   let repo: JobsRepo;
 
   beforeEach(() => {
     const home = createTmpHome();
-    const db = openDatabase(path.join(home, ".jobjourney", "jobs.db"));
+    db = openDatabase(path.join(home, ".jobjourney", "jobs.db"));
     repo = new JobsRepo(db);
   });
 
@@ -66,4 +69,428 @@ describe("JobsRepo", () => {
     expect(results).toHaveLength(1);
     expect(results[0].title).toBe("AI Engineer");
   });
+
+  it("filters on enriched columns with sorting and pagination", () => {
+    repo.upsertJobs([
+      {
+        url: "https://example.com/1",
+        title: "Senior Backend Engineer",
+        company: "Canva",
+        location: "Sydney",
+        source: "linkedin",
+        scrapedAt: "2026-03-14T00:00:00.000Z",
+        postedAt: "2026-03-10T00:00:00Z",
+        salaryMin: "150000",
+        salaryMax: "180000",
+        salaryCurrency: "AUD",
+        salaryPeriod: "year",
+        workArrangement: "hybrid",
+        jobType: "full-time",
+        experienceLevel: "senior",
+        experienceYears: 5,
+        atsType: "greenhouse",
+        runId: 1,
+      },
+      {
+        url: "https://example.com/2",
+        title: "Graduate Engineer",
+        company: "Atlassian",
+        location: "Sydney",
+        source: "seek",
+        scrapedAt: "2026-03-14T00:00:00.000Z",
+        postedAt: "2026-03-12T00:00:00Z",
+        salaryMin: "80000",
+        salaryMax: "90000",
+        salaryCurrency: "AUD",
+        salaryPeriod: "year",
+        workArrangement: "on-site",
+        experienceLevel: "graduate",
+        runId: 1,
+      },
+      {
+        url: "https://example.com/3",
+        title: "Cloud Engineer",
+        company: "Defence Co",
+        location: "Canberra",
+        source: "linkedin",
+        scrapedAt: "2026-03-14T00:00:00.000Z",
+        salaryMin: "160000",
+        salaryCurrency: "AUD",
+        workArrangement: "hybrid",
+        isPrRequired: true,
+        securityClearance: "NV1",
+        runId: 2,
+      },
+    ]);
+
+    expect(repo.search({ salaryMin: 140000 }).map((job) => job.url)).toEqual([
+      "https://example.com/3",
+      "https://example.com/1",
+    ]);
+    expect(repo.search({ salaryMax: 100000 }).map((job) => job.url)).toEqual([
+      "https://example.com/2",
+    ]);
+    expect(
+      repo.search({ workArrangement: "HYBRID", isPrRequired: false }).map((job) => job.url),
+    ).toEqual(["https://example.com/1"]);
+    expect(repo.search({ requiresSecurityClearance: true })[0].security_clearance).toBe("NV1");
+    expect(repo.search({ experienceLevel: "senior", minExperienceYears: 3 })).toHaveLength(1);
+    expect(repo.search({ atsType: "greenhouse", jobType: "full" })).toHaveLength(1);
+    expect(
+      repo.search({ postedAfter: "2026-03-11", postedBefore: "2026-03-13" }).map((job) => job.url),
+    ).toEqual(["https://example.com/2"]);
+    expect(repo.count({ runId: 1 })).toBe(2);
+
+    const sorted = repo.search({ sortBy: "salary_min", sortOrder: "asc" });
+    expect(sorted.map((job) => job.url)).toEqual([
+      "https://example.com/2",
+      "https://example.com/1",
+      "https://example.com/3",
+    ]);
+
+    const page = repo.search({ sortBy: "salary_min", sortOrder: "asc", limit: 1, offset: 1 });
+    expect(page.map((job) => job.url)).toEqual(["https://example.com/1"]);
+  });
+
+  it("ranks full-text matches over descriptions and skills", () => {
+    repo.upsertJobs([
+      {
+        url: "https://example.com/1",
+        title: "Backend Engineer",
+        company: "Canva",
+        location: "Sydney",
+        source: "linkedin",
+        scrapedAt: "2026-03-14T00:00:00.000Z",
+        description: "Build streaming pipelines with Kafka and event sourcing on AWS.",
+        workArrangement: "hybrid",
+      },
+      {
+        url: "https://example.com/2",
+        title: "Kafka Platform Engineer",
+        company: "Atlassian",
+        location: "Sydney",
+        source: "seek",
+        scrapedAt: "2026-03-14T00:00:00.000Z",
+        description: "Operate Kafka clusters.",
+        workArrangement: "remote",
+      },
+      {
+        url: "https://example.com/3",
+        title: "Frontend Engineer",
+        company: "Google",
+        location: "Sydney",
+        source: "seek",
+        scrapedAt: "2026-03-14T00:00:00.000Z",
+        description: "React and TypeScript.",
+        requiredSkills: "React, TypeScript",
+      },
+    ]);
+
+    const phrase = repo.fullTextSearch('kafka AND "event sourcing"');
+    expect(phrase.map((job) => job.url)).toEqual(["https://example.com/1"]);
+    expect(phrase[0].snippet).toContain("[event sourcing]");
+
+    const ranked = repo.fullTextSearch("kafka");
+    expect(ranked.map((job) => job.url)).toEqual([
+      "https://example.com/2",
+      "https://example.com/1",
+    ]);
+    expect(repo.countFullText("kafka", { workArrangement: "hybrid" })).toBe(1);
+    expect(repo.fullTextSearch("typescript NOT kafka")[0].url).toBe("https://example.com/3");
+
+    repo.upsertJobs([
+      {
+        url: "https://example.com/3",
+        title: "Frontend Engineer",
+        company: "Google",
+        location: "Sydney",
+        source: "seek",
+        scrapedAt: "2026-03-15T00:00:00.000Z",
+        description: "Svelte only.",
+      },
+    ]);
+    expect(repo.fullTextSearch("typescript")).toHaveLength(0);
+    expect(repo.fullTextSearch("svelte")).toHaveLength(1);
+
+    expect(() => repo.fullTextSearch('"unterminated')).toThrow("Invalid full-text query");
+  });
+
+  it("records an observation per run with a diff of changed fields", () => {
+    const base = {
+      url: "https://example.com/1",
+      title: "AI Engineer",
+      company: "Canva",
+      location: "Sydney",
+      source: "seek",
+      salaryMin: "150000",
+      salaryMax: "170000",
+      applicantCount: "10 applicants",
+    };
+    repo.upsertJobs([{ ...base, scrapedAt: "2026-03-14T00:00:00Z", runId: 1 }]);
+    repo.upsertJobs([{ ...base, scrapedAt: "2026-03-15T00:00:00Z", runId: 2 }]);
+    repo.upsertJobs([
+      {
+        ...base,
+        salaryMax: "190000",
+        applicantCount: "40 applicants",
+        scrapedAt: "2026-03-16T00:00:00Z",
+        runId: 3,
+      },
+    ]);
+    // A second write within the same run folds into that run's observation.
+    repo.upsertJobs([
+      {
+        ...base,
+        salaryMax: "190000",
+        applicantCount: "45 applicants",
+        scrapedAt: "2026-03-16T00:05:00Z",
+        runId: 3,
+      },
+    ]);
+
+    const [job] = repo.search({});
+    expect(job.first_seen_at).toBe("2026-03-14T00:00:00Z");
+    expect(job.last_seen_at).toBe("2026-03-16T00:05:00Z");
+    expect(job.salary_max).toBe("190000");
+
+    const observations = repo.getObservations(job.id);
+    expect(observations.map((observation) => observation.runId)).toEqual([1, 2, 3]);
+    expect(observations[0]).toMatchObject({ isNew: true, changes: {} });
+    expect(observations[1]).toMatchObject({ isNew: false, changes: {} });
+    expect(observations[2].changes).toEqual({
+      salary_max: { from: "170000", to: "190000" },
+      applicant_count: { from: "10 applicants", to: "45 applicants" },
+    });
+  });
+
+  it("stores no change when a field reverts within the same run", () => {
+    const base = {
+      url: "https://example.com/1",
+      title: "AI Engineer",
+      company: "Canva",
+      location: "Sydney",
+      source: "seek",
+      salaryMax: "170000",
+    };
+    repo.upsertJobs([{ ...base, scrapedAt: "2026-03-14T00:00:00Z", runId: 1 }]);
+    repo.upsertJobs([{ ...base, salaryMax: "190000", scrapedAt: "2026-03-15T00:00:00Z", runId: 2 }]);
+    repo.upsertJobs([{ ...base, scrapedAt: "2026-03-15T00:05:00Z", runId: 2 }]);
+
+    const [job] = repo.search({});
+    expect(repo.getObservations(job.id)[1]).toMatchObject({ runId: 2, changes: {} });
+    expect(
+      db.prepare("SELECT changed_fields FROM job_observations WHERE job_id = ? AND run_id = 2").get(job.id),
+    ).toEqual({ changed_fields: null });
+  });
+
+  it("marks jobs missing from consecutive schedule runs as probably expired", () => {
+    const runs = new ScrapeRunsRepo(db);
+    const startRun = () =>
+      runs.createRun({ scheduleId: 7, keyword: "ai", location: "Sydney", source: "discover" }).id;
+    const finish = (id: number) => runs.finishRun(id, { status: "success" });
+    const job = (url: string, runId: number) => ({
+      url,
+      title: "AI Engineer",
+      company: "Canva",
+      location: "Sydney",
+      source: "linkedin",
+      scrapedAt: "2026-03-14T00:00:00Z",
+      runId,
+    });
+
+    const run1 = startRun();
+    repo.upsertJobs([job("https://example.com/1", run1), job("https://example.com/2", run1)]);
+    expect(
+      repo.markMissingScheduleJobs({ scheduleId: 7, runId: run1, missedRunsThreshold: 2, sources: ["linkedin"] }),
+    ).toEqual([]);
+    finish(run1);
+
+    const run2 = startRun();
+    repo.upsertJobs([job("https://example.com/1", run2)]);
+    expect(
+      repo.markMissingScheduleJobs({ scheduleId: 7, runId: run2, missedRunsThreshold: 2, sources: ["linkedin"] }),
+    ).toEqual([]);
+    finish(run2);
+
+    const run3 = startRun();
+    repo.upsertJobs([job("https://example.com/1", run3)]);
+    // A source that failed this run must not count as a miss.
+    expect(
+      repo.markMissingScheduleJobs({ scheduleId: 7, runId: run3, missedRunsThreshold: 2, sources: ["seek"] }),
+    ).toEqual([]);
+    const marked = repo.markMissingScheduleJobs({
+      scheduleId: 7,
+      runId: run3,
+      missedRunsThreshold: 2,
+      sources: ["linkedin"],
+    });
+    finish(run3);
+
+    expect(marked.map((candidate) => candidate.url)).toEqual(["https://example.com/2"]);
+    expect(marked[0].missedRuns).toBe(2);
+    expect(repo.search({ listingStatus: "probably_expired" }).map((row) => row.url)).toEqual([
+      "https://example.com/2",
+    ]);
+    expect(repo.countByListingStatus(run3)).toMatchObject({ probably_expired: 1 });
+
+    const run4 = startRun();
+    repo.upsertJobs([job("https://example.com/2", run4)]);
+    const reappeared = repo.getByUrl("https://example.com/2");
+    expect(reappeared).toMatchObject({ listing_status: "active", missed_runs: 0 });
+    expect(repo.countByListingStatus(run4)).toMatchObject({ active: 1 });
+  });
+
+  it("does not count a schedule's miss while another schedule keeps seeing the job", () => {
+    const runs = new ScrapeRunsRepo(db);
+    const startRun = (scheduleId: number) =>
+      runs.createRun({ scheduleId, keyword: "ai", location: "Sydney", source: "discover" }).id;
+    const seen = (runId: number) =>
+      repo.upsertJobs([
+        {
+          url: "https://example.com/1",
+          title: "AI Engineer",
+          company: "Canva",
+          location: "Sydney",
+          source: "linkedin",
+          scrapedAt: "2026-03-14T00:00:00Z",
+          runId,
+        },
+      ]);
+    const markMissing = (scheduleId: number, runId: number) => {
+      const marked = repo.markMissingScheduleJobs({
+        scheduleId,
+        runId,
+        missedRunsThreshold: 2,
+        sources: ["linkedin"],
+      });
+      runs.finishRun(runId, { status: "success" });
+      return marked;
+    };
+
+    const a1 = startRun(7);
+    seen(a1);
+    expect(markMissing(7, a1)).toEqual([]);
+    for (let i = 0; i < 3; i += 1) {
+      const b = startRun(8);
+      seen(b);
+      expect(markMissing(8, b)).toEqual([]);
+      expect(markMissing(7, startRun(7))).toEqual([]);
+      expect(repo.getByUrl("https://example.com/1")).toMatchObject({
+        listing_status: "active",
+        missed_runs: 1,
+      });
+    }
+
+    // Once schedule 8 stops seeing it too, schedule 7's misses add up again.
+    expect(markMissing(7, startRun(7)).map((candidate) => candidate.missedRuns)).toEqual([2]);
+  });
+
+  it("restarts the missed-run count once a liveness check finds the listing open", () => {
+    const runs = new ScrapeRunsRepo(db);
+    const startRun = () =>
+      runs.createRun({ scheduleId: 7, keyword: "ai", location: "Sydney", source: "discover" }).id;
+    const markMissing = (runId: number) =>
+      repo.markMissingScheduleJobs({ scheduleId: 7, runId, missedRunsThreshold: 2, sources: ["linkedin"] });
+
+    const run1 = startRun();
+    repo.upsertJobs([
+      {
+        url: "https://example.com/1",
+        title: "AI Engineer",
+        company: "Canva",
+        location: "Sydney",
+        source: "linkedin",
+        scrapedAt: "2026-03-14T00:00:00Z",
+        runId: run1,
+      },
+    ]);
+    runs.finishRun(run1, { status: "success" });
+
+    const run2 = startRun();
+    expect(markMissing(run2)).toEqual([]);
+    runs.finishRun(run2, { status: "success" });
+
+    const run3 = startRun();
+    const [candidate] = markMissing(run3);
+    expect(candidate.url).toBe("https://example.com/1");
+    repo.markListingOpen(candidate.id, run3);
+    runs.finishRun(run3, { status: "success" });
+    expect(repo.getByUrl("https://example.com/1")).toMatchObject({
+      listing_status: "active",
+      missed_runs: 0,
+      liveness_checked_run_id: run3,
+    });
+
+    // The next run is the first miss since the check, not the third.
+    const run4 = startRun();
+    expect(markMissing(run4)).toEqual([]);
+    expect(repo.getByUrl("https://example.com/1")).toMatchObject({ listing_status: "active", missed_runs: 1 });
+  });
+
+  it("links every listing URL of a merged job and keeps its row when the primary URL changes", () => {
+    repo.upsertJobs([
+      {
+        url: "https://www.linkedin.com/jobs/view/1",
+        title: "Platform Engineer",
+        company: "Canva",
+        location: "Sydney",
+        source: "linkedin",
+        scrapedAt: "2026-03-14T00:00:00Z",
+      },
+    ]);
+    const original = repo.getByUrl("https://www.linkedin.com/jobs/view/1");
+
+    // The SEEK listing turned out richer, so the merged record now leads with it.
+    repo.upsertJobs([
+      {
+        url: "https://www.seek.com.au/job/9",
+        title: "Platform Engineer",
+        company: "Canva",
+        location: "Sydney",
+        source: "seek",
+        salary: "$180k",
+        scrapedAt: "2026-03-14T01:00:00Z",
+        sourceLinks: [{ source: "linkedin", url: "https://www.linkedin.com/jobs/view/1" }],
+      },
+    ]);
+
+    expect(repo.count({})).toBe(1);
+    const merged = repo.getByUrl("https://www.linkedin.com/jobs/view/1");
+    expect(merged?.id).toBe(original?.id);
+    expect(merged).toMatchObject({ url: "https://www.seek.com.au/job/9", salary: "$180k" });
+    expect(repo.getSources(merged!.id).map((source) => [source.source, source.url])).toEqual([
+      ["linkedin", "https://www.linkedin.com/jobs/view/1"],
+      ["seek", "https://www.seek.com.au/job/9"],
+    ]);
+  });
+
+  it("moves a listing URL to the job it was folded into", () => {
+    const listing = (url: string, source: string) => ({
+      url,
+      title: "Platform Engineer",
+      company: "Canva",
+      location: "Sydney",
+      source,
+      scrapedAt: "2026-03-14T00:00:00Z",
+    });
+    repo.upsertJobs([
+      listing("https://www.linkedin.com/jobs/view/1", "linkedin"),
+      listing("https://www.seek.com.au/job/9", "seek"),
+    ]);
+
+    repo.upsertJobs([
+      {
+        ...listing("https://www.seek.com.au/job/9", "seek"),
+        sourceLinks: [{ source: "linkedin", url: "https://www.linkedin.com/jobs/view/1" }],
+      },
+    ]);
+
+    const seek = repo.getByUrl("https://www.seek.com.au/job/9");
+    const linkedin = repo.search({}).find((row) => row.url === "https://www.linkedin.com/jobs/view/1");
+    expect(repo.getSources(seek!.id).map((source) => source.url)).toEqual([
+      "https://www.linkedin.com/jobs/view/1",
+      "https://www.seek.com.au/job/9",
+    ]);
+    expect(repo.getSources(linkedin!.id)).toEqual([]);
+  });
 });
@@ -0,0 +1,81 @@
+import path from "node:path";
+import type Database from "better-sqlite3";
+import { beforeEach, describe, expect, it } from "vitest";
+import { openDatabase } from "../../../src/storage/sqlite/db.js";
+import { JobsRepo, type JobRecordInput } from "../../../src/storage/sqlite/jobs-repo.js";
+import { RunDiffRepo } from "../../../src/storage/sqlite/run-diff-repo.js";
+import { ScrapeRunsRepo } from "../../../src/storage/sqlite/scrape-runs-repo.js";
+import { createTmpHome } from "../../helpers/tmp-home.js";
+
+describe("RunDiffRepo", () => {
+  let db: Database.Database;
+  let jobsRepo: JobsRepo;
+  let runsRepo: ScrapeRunsRepo;
+
+  const job = (id: number, overrides: Partial<JobRecordInput> = {}): JobRecordInput => ({
+    url: `https://example.com/${id}`,
+    title: `Engineer ${id}`,
+    company: "Canva",
+    location: "Sydney",
+    source: "linkedin",
+    scrapedAt: "2026-03-14T00:00:00Z",
+    ...overrides,
+  });
+
+  const completeRun = (scheduleId: number, jobs: JobRecordInput[], status: "success" | "error" = "success") => {
+    const { id } = runsRepo.createRun({
+      scheduleId,
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+    });
+    jobsRepo.upsertJobs(jobs.map((entry) => ({ ...entry, runId: id })));
+    runsRepo.finishRun(id, { status, jobCount: jobs.length });
+    return id;
+  };
+
+  beforeEach(() => {
+    const home = createTmpHome();
+    db = openDatabase(path.join(home, ".jobjourney", "jobs.db"));
+    jobsRepo = new JobsRepo(db);
+    runsRepo = new ScrapeRunsRepo(db);
+  });
+
+  it("returns null for schedules without a successful run", () => {
+    completeRun(1, [], "error");
+    expect(new RunDiffRepo(db).getScheduleRunDiff(1)).toBeNull();
+  });
+
+  it("treats every job in a schedule's first run as new", () => {
+    const runId = completeRun(1, [job(1), job(2)]);
+    const diff = new RunDiffRepo(db).getScheduleRunDiff(1);
+
+    expect(diff?.run.id).toBe(runId);
+    expect(diff?.previousRun).toBeNull();
+    expect(diff?.newJobs.map((row) => row.url)).toEqual([
+      "https://example.com/1",
+      "https://example.com/2",
+    ]);
+  });
+
+  it("diffs the latest run against the previous successful run of the same schedule", () => {
+    completeRun(1, [job(1), job(2), job(3)]);
+    const previousRunId = completeRun(1, [job(1), job(2, { salary: "$150k" })]);
+    // Other schedules and failed runs must not affect the comparison.
+    completeRun(2, [job(9)]);
+    completeRun(1, [], "error");
+    const runId = completeRun(1, [job(2, { salary: "$160k" }), job(3), job(4)]);
+
+    const diff = new RunDiffRepo(db).getScheduleRunDiff(1);
+
+    expect(diff?.run.id).toBe(runId);
+    expect(diff?.previousRun?.id).toBe(previousRunId);
+    expect(diff?.newJobs.map((row) => row.url)).toEqual(["https://example.com/4"]);
+    expect(diff?.returnedJobs.map((row) => row.url)).toEqual(["https://example.com/3"]);
+    expect(diff?.disappearedJobs.map((row) => row.url)).toEqual(["https://example.com/1"]);
+    expect(diff?.changedJobs).toHaveLength(1);
+    expect(diff?.changedJobs[0].job.url).toBe("https://example.com/2");
+    expect(diff?.changedJobs[0].changes).toEqual({ salary: { from: "$150k", to: "$160k" } });
+  });
+});
@@ -57,4 +57,24 @@ describe("SchedulesRepo", () => {
       sources: "linkedin,seek",
     });
   });
+
+  it("stores search filters as JSON", () => {
+    repo.create({
+      keyword: "full stack",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+      filters: { datePosted: "week", workArrangements: ["remote"] },
+      cron: "0 9 * * *",
+    });
+    repo.create({ keyword: "designer", location: "Sydney", source: "seek", cron: "0 9 * * *" });
+
+    const [withoutFilters, withFilters] = repo.list(false).sort((a, b) => a.id - b.id).reverse();
+
+    expect(JSON.parse(withFilters.filters!)).toEqual({
+      datePosted: "week",
+      workArrangements: ["remote"],
+    });
+    expect(withoutFilters.filters).toBeNull();
+  });
 });
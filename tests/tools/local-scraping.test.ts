@@ -1,6 +1,11 @@
 import path from "node:path";
 import { describe, expect, it, vi } from "vitest";
 import { openDatabase } from "../../src/storage/sqlite/db.js";
+import { JobsRepo } from "../../src/storage/sqlite/jobs-repo.js";
+import { ScrapeRunsRepo } from "../../src/storage/sqlite/scrape-runs-repo.js";
+import { SchedulesRepo } from "../../src/storage/sqlite/schedules-repo.js";
+import { RunDiffRepo } from "../../src/storage/sqlite/run-diff-repo.js";
+import { finishScheduleRun } from "../../src/agent/schedule-run.js";
 import { createTmpHome } from "../helpers/tmp-home.js";
 import { registerLocalScrapingTools } from "../../src/tools/local-scraping.js";
 import { createEmptyDiscoveryJob } from "../../src/discovery/core/types.js";
@@ -243,6 +248,218 @@ describe("registerLocalScrapingTools", () => {
     db.close();
   });
 
+  it("cancels a running discover_jobs run and keeps the jobs found so far", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const job = createEmptyDiscoveryJob({
+      id: "li-1",
+      source: "linkedin",
+      title: "Full Stack Engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "",
+      jobUrl: "https://www.linkedin.com/jobs/view/1",
+      extractedAt: "2026-03-15T00:00:00Z",
+    });
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+      ensureAgentRunning: () => {},
+      runDiscovery: vi.fn(async (_options: any, deps: any) => {
+        deps.onJobsBatch([job]);
+        expect(await tools.get("cancel_discovery").execute({})).toContain(
+          "Cancellation requested for run",
+        );
+        await new Promise((resolve) => deps.signal.addEventListener("abort", resolve));
+        return {
+          jobs: [job],
+          sources: ["linkedin"],
+          failedSources: [],
+          expandedCompanies: [],
+          filteredJobs: 0,
+          cancelled: deps.signal.aborted,
+        };
+      }),
+    });
+
+    const parsed = JSON.parse(
+      await tools.get("discover_jobs").execute({
+        keyword: "full stack",
+        location: "Sydney",
+        sources: ["linkedin"],
+        pages: 2,
+      }),
+    );
+
+    expect(parsed).toMatchObject({ cancelled: true, totalJobs: 1 });
+    const db = openDatabase(dbPath);
+    expect(
+      db.prepare("SELECT status, job_count FROM scrape_runs WHERE id = ?").get(parsed.runId),
+    ).toEqual({ status: "cancelled", job_count: 1 });
+    db.close();
+    expect(await tools.get("cancel_discovery").execute({})).toBe(
+      "No discovery runs are in progress.",
+    );
+    expect(await tools.get("cancel_discovery").execute({ run_id: parsed.runId })).toBe(
+      `Run ${parsed.runId} is not a discovery or watchlist run in progress.`,
+    );
+
+    // Browser scrape runs never poll for cancel requests, so they are not offered.
+    const scrapeDb = openDatabase(dbPath);
+    const scrapeRun = new ScrapeRunsRepo(scrapeDb).createRun({
+      keyword: "full stack",
+      location: "Sydney",
+      source: "indeed",
+      runMode: "scrape",
+    });
+    scrapeDb.close();
+    expect(await tools.get("cancel_discovery").execute({})).toBe(
+      "No discovery runs are in progress.",
+    );
+    expect(await tools.get("cancel_discovery").execute({ run_id: scrapeRun.id })).toBe(
+      `Run ${scrapeRun.id} is not a discovery or watchlist run in progress.`,
+    );
+  });
+
+  it("resumes an interrupted discover run with its stored options and checkpoints", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const runDiscovery = vi.fn(async () => ({
+      jobs: [],
+      sources: ["linkedin"],
+      failedSources: [],
+      expandedCompanies: [],
+      filteredJobs: 0,
+      cancelled: false,
+    }));
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+      ensureAgentRunning: () => {},
+      runDiscovery,
+    });
+    const tool = tools.get("resume_discovery");
+    expect(await tool.execute({})).toBe("No interrupted or cancelled discovery runs to resume.");
+
+    const db = openDatabase(dbPath);
+    const run = new ScrapeRunsRepo(db).createRun({
+      keyword: "full stack",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+      sources: "linkedin",
+      options: {
+        keyword: "full stack",
+        location: "Sydney",
+        sources: ["linkedin"],
+        pages: 4,
+        incremental: true,
+      },
+    });
+    db.prepare("UPDATE scrape_runs SET heartbeat_at = datetime('now', '-1 hour') WHERE id = ?").run(run.id);
+    db.close();
+
+    const parsed = JSON.parse(await tool.execute({}));
+
+    expect(parsed).toMatchObject({ runId: run.id, cancelled: false });
+    expect(runDiscovery).toHaveBeenCalledWith(
+      { keyword: "full stack", location: "Sydney", sources: ["linkedin"], pages: 4 },
+      expect.objectContaining({
+        checkpoints: expect.any(Object),
+        knownJobs: { find: expect.any(Function) },
+      }),
+    );
+    const check = openDatabase(dbPath);
+    expect(new ScrapeRunsRepo(check).getRun(run.id)?.status).toBe("success");
+    check.close();
+    expect(await tool.execute({ run_id: run.id })).toBe(
+      `Run ${run.id} cannot be resumed. Only interrupted or cancelled discovery runs can be.`,
+    );
+  });
+
+  it("finishes a resumed scheduled run like the agent does", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const job = createEmptyDiscoveryJob({
+      id: "1",
+      source: "linkedin",
+      title: "Engineer",
+      company: "Example",
+      location: "Sydney",
+      description: "",
+      jobUrl: "https://www.linkedin.com/jobs/view/1",
+      extractedAt: "2026-03-15T00:00:00Z",
+    });
+    const runDiscovery = vi.fn(async () => ({
+      jobs: [job],
+      sources: ["linkedin"],
+      failedSources: [],
+      expandedCompanies: [],
+      filteredJobs: 0,
+      cancelled: false,
+    }));
+    const finishScheduleRunSpy = vi.fn(finishScheduleRun);
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+      ensureAgentRunning: () => {},
+      runDiscovery,
+      finishScheduleRun: finishScheduleRunSpy,
+    });
+
+    const db = openDatabase(dbPath);
+    const schedule = new SchedulesRepo(db).create({
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      sources: "linkedin",
+      runMode: "discover",
+      cron: "0 9 * * *",
+    });
+    const runsRepo = new ScrapeRunsRepo(db);
+    const run = runsRepo.createRun({
+      scheduleId: schedule.id,
+      keyword: "engineer",
+      location: "Sydney",
+      source: "discover",
+      runMode: "discover",
+      sources: "linkedin",
+      options: { keyword: "engineer", location: "Sydney", sources: ["linkedin"], pages: 2 },
+    });
+    runsRepo.finishRun(run.id, { status: "cancelled" });
+    db.close();
+
+    const parsed = JSON.parse(await tools.get("resume_discovery").execute({ run_id: run.id }));
+
+    expect(parsed).toMatchObject({ runId: run.id, cancelled: false, totalJobs: 1 });
+    expect(finishScheduleRunSpy).toHaveBeenCalledWith(
+      expect.anything(),
+      { scheduleId: schedule.id, runId: run.id, jobCount: 1, sources: ["linkedin"], incremental: undefined },
+      expect.any(Object),
+    );
+    const check = openDatabase(dbPath);
+    expect(new ScrapeRunsRepo(check).getRun(run.id)).toMatchObject({ status: "success", job_count: 1 });
+    expect(new SchedulesRepo(check).list(false)[0].last_run_at).not.toBeNull();
+    expect(new RunDiffRepo(check).getScheduleRunDiff(schedule.id, run.id)?.newJobs).toHaveLength(1);
+    check.close();
+  });
+
   it("registers schedule_jobs and get_latest_discovery_report", async () => {
     const tools = new Map<string, any>();
     const server = {
@@ -256,7 +473,7 @@ describe("registerLocalScrapingTools", () => {
     registerLocalScrapingTools(server as any, {
       openDatabase: () => openDatabase(dbPath),
       ensureAgentRunning: () => true,
-      getActiveDiscoverySourceNames: () => ["linkedin", "seek"],
+      getDefaultDiscoverySourceNames: () => ["linkedin", "seek"],
     });
 
     const scheduleTool = tools.get("schedule_jobs");
@@ -343,6 +560,472 @@ describe("registerLocalScrapingTools", () => {
     expect(report).toContain("External URL:");
   });
 
+  it("registers search_jobs and queries stored jobs with filters", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const db = openDatabase(dbPath);
+    new JobsRepo(db).upsertJobs([
+      {
+        url: "https://www.linkedin.com/jobs/view/1",
+        title: "Senior Full Stack Engineer",
+        company: "Example",
+        location: "Sydney",
+        source: "linkedin",
+        scrapedAt: "2026-03-15T00:00:00Z",
+        salaryMin: "150000",
+        salaryMax: "170000",
+        workArrangement: "remote",
+      },
+      {
+        url: "https://www.seek.com.au/job/2",
+        title: "Junior Developer",
+        company: "Other",
+        location: "Sydney",
+        source: "seek",
+        scrapedAt: "2026-03-15T00:00:00Z",
+        salaryMin: "70000",
+        salaryMax: "80000",
+        workArrangement: "on-site",
+      },
+    ]);
+    db.close();
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+    });
+
+    const tool = tools.get("search_jobs");
+    expect(tool).toBeTruthy();
+
+    const parsed = JSON.parse(
+      await tool.execute({ salary_min: 100000, work_arrangement: "remote" }),
+    );
+    expect(parsed).toMatchObject({ total: 1, offset: 0, hasMore: false });
+    expect(parsed.jobs[0]).toMatchObject({
+      title: "Senior Full Stack Engineer",
+      salaryMin: "150000",
+      workArrangement: "remote",
+      isPrRequired: false,
+    });
+
+    const paged = JSON.parse(
+      await tool.execute({ location: "Sydney", sort_by: "salary_min", sort_order: "asc", limit: 1 }),
+    );
+    expect(paged.total).toBe(2);
+    expect(paged.hasMore).toBe(true);
+    expect(paged.jobs.map((job: any) => job.title)).toEqual(["Junior Developer"]);
+  });
+
+  it("registers search_job_descriptions for ranked full-text queries", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const db = openDatabase(dbPath);
+    new JobsRepo(db).upsertJobs([
+      {
+        url: "https://www.linkedin.com/jobs/view/1",
+        title: "Backend Engineer",
+        company: "Example",
+        location: "Sydney",
+        source: "linkedin",
+        scrapedAt: "2026-03-15T00:00:00Z",
+        description: "Kafka, event sourcing and CQRS.",
+      },
+      {
+        url: "https://www.seek.com.au/job/2",
+        title: "Frontend Developer",
+        company: "Other",
+        location: "Sydney",
+        source: "seek",
+        scrapedAt: "2026-03-15T00:00:00Z",
+        description: "React and CSS.",
+      },
+    ]);
+    db.close();
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+    });
+
+    const tool = tools.get("search_job_descriptions");
+    expect(tool).toBeTruthy();
+
+    const parsed = JSON.parse(await tool.execute({ query: '"event sourcing" kafka' }));
+    expect(parsed.total).toBe(1);
+    expect(parsed.jobs[0].title).toBe("Backend Engineer");
+    expect(parsed.jobs[0].snippet).toContain("[Kafka]");
+
+    const invalid = await tool.execute({ query: '"unterminated' });
+    expect(invalid).toContain("Invalid full-text query");
+  });
+
+  it("registers get_job_history and reports salary band changes", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const db = openDatabase(dbPath);
+    const jobsRepo = new JobsRepo(db);
+    const job = {
+      url: "https://www.linkedin.com/jobs/view/1",
+      title: "Senior Full Stack Engineer",
+      company: "Example",
+      location: "Sydney",
+      source: "linkedin",
+    };
+    jobsRepo.upsertJobs([{ ...job, salaryMin: "120000", scrapedAt: "2026-03-14T00:00:00Z", runId: 1 }]);
+    jobsRepo.upsertJobs([{ ...job, salaryMin: "135000", scrapedAt: "2026-03-15T00:00:00Z", runId: 2 }]);
+    db.close();
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+    });
+
+    const tool = tools.get("get_job_history");
+    expect(tool).toBeTruthy();
+
+    const parsed = JSON.parse(await tool.execute({ url: job.url }));
+    expect(parsed).toMatchObject({
+      job: { firstSeenAt: "2026-03-14T00:00:00Z", lastSeenAt: "2026-03-15T00:00:00Z" },
+      sightings: 2,
+      salaryChanged: true,
+    });
+    expect(parsed.observations[1].changes).toEqual({
+      salary_min: { from: "120000", to: "135000" },
+    });
+
+    expect(await tool.execute({ job_id: 999 })).toContain("No stored job found");
+  });
+
+  it("registers get_schedule_diff and lists new jobs since the previous run", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const db = openDatabase(dbPath);
+    const jobsRepo = new JobsRepo(db);
+    const runsRepo = new ScrapeRunsRepo(db);
+    const job = (id: number) => ({
+      url: `https://www.linkedin.com/jobs/view/${id}`,
+      title: `Engineer ${id}`,
+      company: "Example",
+      location: "Sydney",
+      source: "linkedin",
+      scrapedAt: "2026-03-15T00:00:00Z",
+    });
+    for (const ids of [[1, 2], [2, 3]]) {
+      const run = runsRepo.createRun({
+        scheduleId: 4,
+        keyword: "engineer",
+        location: "Sydney",
+        source: "discover",
+        runMode: "discover",
+      });
+      jobsRepo.upsertJobs(ids.map((id) => ({ ...job(id), runId: run.id })));
+      runsRepo.finishRun(run.id, { status: "success", jobCount: ids.length });
+    }
+    db.close();
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+    });
+
+    const tool = tools.get("get_schedule_diff");
+    expect(tool).toBeTruthy();
+
+    const report = await tool.execute({ schedule_id: 4 });
+    expect(report).toContain("# Schedule 4 Diff");
+    expect(report).toContain("## New (1)");
+    expect(report).toContain("**Engineer 3**");
+    expect(report).toContain("## Disappeared (1)");
+    expect(report).toContain("**Engineer 1**");
+
+    const newOnly = await tool.execute({ schedule_id: 4, new_only: true });
+    expect(newOnly).not.toContain("Disappeared");
+
+    expect(await tool.execute({ schedule_id: 99 })).toContain("No successful runs found");
+  });
+
+  it("raises alerts from discover_jobs batches and lets them be acknowledged", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const job = (id: string, title: string, workArrangement: string) => {
+      const entry = createEmptyDiscoveryJob({
+        id,
+        source: "linkedin",
+        title,
+        company: "Example",
+        location: "Sydney",
+        jobUrl: `https://www.linkedin.com/jobs/view/${id}`,
+        extractedAt: "2026-03-15T00:00:00Z",
+      });
+      entry.workArrangement = workArrangement;
+      return entry;
+    };
+    const jobs = [
+      job("1", "Staff Engineer", "remote"),
+      job("2", "Principal Engineer", "on-site"),
+      job("3", "Graduate Engineer", "hybrid"),
+    ];
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+      ensureAgentRunning: () => {},
+      runDiscovery: vi.fn(async (_options, deps) => {
+        deps?.onJobsBatch?.(jobs, "linkedin");
+        return { jobs, sources: ["linkedin"], failedSources: [], expandedCompanies: [] };
+      }),
+    });
+
+    expect(
+      await tools.get("create_alert_rule").execute({ name: "bad", title_pattern: "staff(" }),
+    ).toContain("Invalid titlePattern");
+    const rule = JSON.parse(
+      await tools.get("create_alert_rule").execute({
+        name: "Senior IC",
+        title_pattern: "staff|principal",
+        work_arrangements: ["remote", "hybrid"],
+      }),
+    );
+
+    const discovery = JSON.parse(
+      await tools.get("discover_jobs").execute({
+        keyword: "engineer",
+        location: "Sydney",
+        sources: ["linkedin"],
+        pages: 1,
+      }),
+    );
+    expect(discovery.newAlerts).toBe(1);
+
+    const listed = JSON.parse(await tools.get("list_alerts").execute({ unread_only: true, limit: 20, offset: 0 }));
+    expect(listed.total).toBe(1);
+    expect(listed.alerts[0]).toMatchObject({ ruleId: rule.id, ruleName: "Senior IC", read: false });
+    expect(listed.alerts[0].job.title).toBe("Staff Engineer");
+
+    expect(await tools.get("acknowledge_alerts").execute({ rule_id: rule.id })).toBe(
+      "Marked 1 alert(s) as read.",
+    );
+    const rules = JSON.parse(await tools.get("list_alert_rules").execute({}));
+    expect(rules[0].unreadAlerts).toBe(0);
+  });
+
+  it("passes persisted company filters to discover_jobs and reports filtered jobs", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const runDiscovery = vi.fn(async (_options: any, deps: any) => {
+      const blocked = createEmptyDiscoveryJob({
+        id: "1",
+        source: "seek",
+        title: "Engineer",
+        company: "Hays Recruitment",
+        location: "Sydney",
+        description: "",
+        jobUrl: "https://www.seek.com.au/job/1",
+        extractedAt: "2026-03-15T00:00:00Z",
+      });
+      expect(deps.companyFilter.check(blocked).allowed).toBe(false);
+      return { jobs: [], sources: ["seek"], failedSources: [], expandedCompanies: [], filteredJobs: 1 };
+    });
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+      ensureAgentRunning: () => {},
+      runDiscovery,
+    });
+
+    expect(
+      await tools.get("add_company_filter").execute({
+        list: "deny",
+        kind: "company",
+        match_type: "regex",
+        pattern: "[",
+      }),
+    ).toContain("Invalid company filter pattern");
+    const filter = JSON.parse(
+      await tools.get("add_company_filter").execute({
+        list: "deny",
+        kind: "company",
+        match_type: "normalized",
+        pattern: "Hays Recruitment",
+        note: "agency",
+      }),
+    );
+    expect(filter).toMatchObject({ list: "deny", matchType: "normalized", note: "agency" });
+
+    const result = JSON.parse(
+      await tools.get("discover_jobs").execute({
+        keyword: "engineer",
+        location: "Sydney",
+        sources: ["seek"],
+        pages: 1,
+        exclude_recruitment_agencies: true,
+      }),
+    );
+    expect(result.filteredJobs).toBe(1);
+    expect(runDiscovery.mock.calls[0][0]).toMatchObject({ excludeRecruitmentAgencies: true });
+
+    expect(await tools.get("remove_company_filter").execute({ id: filter.id })).toBe(
+      `Company filter ${filter.id} removed.`,
+    );
+    expect(await tools.get("list_company_filters").execute({})).toContain("No company filters");
+  });
+
+  it("manages the company watchlist and crawls it as a discovery run", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+    const home = createTmpHome();
+    const dbPath = path.join(home, ".jobjourney", "jobs.db");
+    const job = createEmptyDiscoveryJob({
+      id: "lv-1",
+      source: "lever",
+      title: "Platform Engineer",
+      company: "Acme",
+      location: "Sydney",
+      description: "",
+      jobUrl: "https://jobs.lever.co/acme/lv-1",
+      extractedAt: "2026-03-15T00:00:00Z",
+    });
+    const crawlWatchlist = vi.fn(async (options: any, deps: any) => {
+      deps.onJobsBatch([job]);
+      return {
+        jobs: [job],
+        sources: ["lever"],
+        companies: [
+          {
+            company: options.companies[0],
+            atsType: "lever",
+            atsIdentifier: "acme",
+            boardJobs: 4,
+            matchedJobs: 1,
+          },
+        ],
+        filteredJobs: 0,
+      };
+    });
+
+    registerLocalScrapingTools(server as any, {
+      openDatabase: () => openDatabase(dbPath),
+      ensureAgentRunning: () => {},
+      crawlWatchlist,
+    });
+
+    expect(await tools.get("crawl_watchlist").execute({})).toContain("No enabled companies");
+    expect(
+      await tools.get("add_watchlist_company").execute({
+        company: "Acme",
+        ats_type: "jazzhr",
+        ats_identifier: "acme",
+      }),
+    ).toContain("Unsupported ATS type: jazzhr");
+    expect(await tools.get("add_watchlist_company").execute({ company: "Acme" })).toContain(
+      "needs an ATS type and identifier or a careers URL",
+    );
+
+    const added = JSON.parse(
+      await tools.get("add_watchlist_company").execute({
+        company: "Acme",
+        careers_url: "https://jobs.lever.co/acme",
+      }),
+    );
+    expect(added).toMatchObject({ company: "Acme", atsType: "lever", atsIdentifier: "acme", enabled: true });
+
+    const result = JSON.parse(
+      await tools.get("crawl_watchlist").execute({ keyword: "engineer", location: "Sydney" }),
+    );
+    expect(crawlWatchlist.mock.calls[0][0]).toMatchObject({
+      keyword: "engineer",
+      location: "Sydney",
+      companies: [expect.objectContaining({ id: added.id })],
+    });
+    expect(result).toMatchObject({
+      totalJobs: 1,
+      companies: [{ id: added.id, atsType: "lever", boardJobs: 4, matchedJobs: 1 }],
+    });
+
+    const listed = JSON.parse(await tools.get("list_watchlist").execute({}));
+    expect(listed[0]).toMatchObject({ id: added.id, lastJobCount: 1, lastError: null });
+
+    const db = openDatabase(dbPath);
+    expect(db.prepare("SELECT id, run_mode, status FROM scrape_runs").get()).toEqual({
+      id: result.runId,
+      run_mode: "watchlist",
+      status: "success",
+    });
+    expect(db.prepare("SELECT url, run_id FROM jobs").all()).toEqual([
+      { url: "https://jobs.lever.co/acme/lv-1", run_id: result.runId },
+    ]);
+    db.close();
+
+    expect(
+      await tools.get("schedule_watchlist_crawl").execute({ keyword: "engineer", time: "07:30" }),
+    ).toContain("Cron: 30 7 * * *");
+    expect(await tools.get("list_schedules").execute({})).toContain("Mode: watchlist");
+
+    expect(await tools.get("remove_watchlist_company").execute({ id: added.id })).toBe(
+      `Watchlist company ${added.id} removed.`,
+    );
+  });
+
+  it("registers list_ats_providers with capabilities from the provider registry", async () => {
+    const tools = new Map<string, any>();
+    const server = {
+      addTool(definition: any) {
+        tools.set(definition.name, definition);
+      },
+    };
+
+    registerLocalScrapingTools(server as any, {});
+
+    const providers = JSON.parse(await tools.get("list_ats_providers").execute({}));
+    expect(providers).toContainEqual({
+      name: "ashby",
+      displayName: "Ashby",
+      status: "active",
+      expandsCompanyJobs: true,
+      domains: ["ashbyhq.com"],
+      capabilities: { salary: true, applyFormSchema: false, departments: true },
+    });
+    expect(providers).toContainEqual(
+      expect.objectContaining({ name: "jazzhr", status: "detect_only", expandsCompanyJobs: false }),
+    );
+  });
+
   it("registers setup_local_scraping and reports local readiness", async () => {
     const tools = new Map<string, any>();
     const server = {